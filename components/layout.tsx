@@ -71,6 +71,34 @@ const SHARED_STYLES = `
   .detail-actions { display: flex; gap: 0.75rem; margin-top: 1.75rem; flex-wrap: wrap; }
   .detail-button { display: inline-flex; align-items: center; gap: 0.5rem; padding: 0.65rem 1.1rem; border-radius: 10px; border: 1px solid rgba(34,211,238,0.3); background: rgba(15,23,42,0.6); color: #e0e7ff; text-decoration: none; transition: all 0.2s ease; }
   .detail-button:hover { border-color: rgba(34,211,238,0.6); background: rgba(34,211,238,0.1); }
+  .detail-cite { position: relative; }
+  .detail-cite summary { cursor: pointer; list-style: none; }
+  .detail-cite summary::-webkit-details-marker { display: none; }
+  .detail-cite-formats { position: absolute; z-index: 10; margin: 0.4rem 0 0; padding: 0.4rem 0; list-style: none; min-width: 100%; border-radius: 10px; border: 1px solid rgba(34,211,238,0.3); background: rgba(15,23,42,0.95); }
+  .detail-cite-formats a { display: block; padding: 0.4rem 1.1rem; color: #e0e7ff; text-decoration: none; }
+  .detail-cite-formats a:hover { color: #22d3ee; background: rgba(34,211,238,0.1); }
+  .detail-chat { margin-top: 1.5rem; }
+  .detail-chat-intro { margin: 0 0 1rem; color: #94a3b8; font-size: 0.875rem; }
+  .detail-chat-log { display: grid; gap: 0.75rem; margin-bottom: 1rem; }
+  .detail-chat-message { padding: 0.75rem 1rem; border-radius: 10px; border: 1px solid rgba(34,211,238,0.15); background: rgba(15,23,42,0.5); }
+  .detail-chat-user { border-color: rgba(168,85,247,0.25); background: rgba(168,85,247,0.06); }
+  .detail-chat-who { display: block; margin-bottom: 0.25rem; font-size: 0.72rem; font-weight: 700; text-transform: uppercase; letter-spacing: 0.06em; color: #64748b; }
+  .detail-chat-text { margin: 0; color: #e0e7ff; line-height: 1.6; white-space: pre-wrap; }
+  .detail-chat-error, .detail-chat-budget { margin: 0; padding: 0.75rem 1rem; border-radius: 10px; font-size: 0.9rem; }
+  .detail-chat-error { color: #f87171; border: 1px solid rgba(248,113,113,0.3); }
+  .detail-chat-budget { color: #fbbf24; border: 1px solid rgba(251,191,36,0.3); background: rgba(251,191,36,0.08); }
+  .detail-chat-form { display: flex; gap: 0.5rem; }
+  .detail-chat-input { flex: 1; min-width: 0; padding: 0.65rem 0.9rem; border-radius: 10px; border: 1px solid rgba(34,211,238,0.3); background: rgba(5,8,22,0.9); color: #e0e7ff; font-size: 0.9rem; }
+  .detail-chat-input:focus { outline: none; border-color: rgba(168,85,247,0.5); }
+  .detail-chat-form .detail-button:disabled { opacity: 0.5; cursor: progress; }
+  .detail-chat-clear { margin-top: 0.6rem; padding: 0; border: none; background: none; color: #64748b; font-size: 0.8rem; text-decoration: underline; cursor: pointer; }
+  .detail-related { margin-top: 1.5rem; }
+  .detail-related-list { list-style: none; margin: 0; padding: 0; display: grid; gap: 0.75rem; }
+  .detail-related-item { display: flex; align-items: baseline; gap: 0.75rem; flex-wrap: wrap; padding-bottom: 0.75rem; border-bottom: 1px solid rgba(34,211,238,0.1); }
+  .detail-related-item:last-child { border-bottom: none; padding-bottom: 0; }
+  .detail-related-title { flex: 1; min-width: 0; color: #e0e7ff; text-decoration: none; }
+  .detail-related-title:hover { color: #22d3ee; }
+  .detail-related-item time { color: #64748b; font-size: 0.85rem; }
   .section-title-search { margin-bottom: 0.75rem; }
   .search-description { color: #a5b4fc; margin-bottom: 2rem; font-size: 1.0625rem; }
   .stats-grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); gap: 1.5rem; }
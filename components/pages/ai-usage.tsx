@@ -0,0 +1,233 @@
+import type { FC } from "hono/jsx";
+import type { UsageReport } from "../../lib/ai/usage-report.ts";
+import type { BudgetStatus } from "../../lib/ai/usage.ts";
+import { type AlternateUrls, Layout } from "../layout.tsx";
+
+const USAGE_STYLES = `
+  .usage-summary { display: grid; grid-template-columns: repeat(auto-fit, minmax(180px, 1fr)); gap: 1rem; }
+  .usage-figure { padding: 1rem 1.25rem; border: 1px solid var(--line); border-radius: var(--radius-md); background: var(--surface-soft); }
+  .usage-figure-value { font-size: 1.6rem; font-weight: 700; color: var(--text); }
+  .usage-figure-label { color: var(--muted); font-size: 0.875rem; }
+  .usage-note { margin-top: 1rem; color: var(--text-soft); line-height: 1.6; }
+  .usage-chart { display: grid; gap: 0.3rem; }
+  .usage-bar-row { display: grid; grid-template-columns: 6.5rem 1fr 5.5rem; gap: 0.75rem; align-items: center; font-size: 0.875rem; color: var(--text-soft); }
+  .usage-bar-track { height: 0.9rem; border-radius: 999px; background: var(--surface-strong); position: relative; overflow: hidden; }
+  .usage-bar { display: block; height: 100%; border-radius: 999px; background: linear-gradient(90deg, var(--cyan), var(--violet)); }
+  .usage-cap-line { position: absolute; top: 0; bottom: 0; width: 2px; background: var(--gold); }
+  .usage-bar-row.is-capped .usage-bar { background: var(--danger); }
+  .usage-bar-row.is-capped .usage-bar-value { color: var(--danger); font-weight: 600; }
+  .usage-bar-value { text-align: right; font-variant-numeric: tabular-nums; }
+  .usage-table { width: 100%; border-collapse: collapse; font-size: 0.9rem; }
+  .usage-table th, .usage-table td { padding: 0.55rem 0.75rem; border-bottom: 1px solid var(--line); text-align: left; }
+  .usage-table td.num, .usage-table th.num { text-align: right; font-variant-numeric: tabular-nums; }
+  .usage-table th { color: var(--muted); font-weight: 600; }
+  .usage-empty { color: var(--muted); }
+`;
+
+function usd(value: number): string {
+  return `$${value.toFixed(value === 0 || value >= 0.1 ? 2 : 4)}`;
+}
+
+const count = new Intl.NumberFormat("en");
+
+interface BarRow {
+  label: string;
+  costUsd: number;
+  hitCap: boolean;
+}
+
+/** Horizontal bars scaled to the largest value or the cap, with the cap drawn as a line. */
+const SpendChart: FC<{ rows: BarRow[]; capUsd: number | null; label: string }> = (props) => {
+  const scale = Math.max(props.capUsd ?? 0, ...props.rows.map((row) => row.costUsd)) || 1;
+  return (
+    <div class="usage-chart" role="img" aria-label={props.label}>
+      {props.rows.map((row) => (
+        <div class={row.hitCap ? "usage-bar-row is-capped" : "usage-bar-row"}>
+          <span>{row.label}</span>
+          <span class="usage-bar-track">
+            <span class="usage-bar" style={`width:${(row.costUsd / scale) * 100}%`} />
+            {props.capUsd !== null && (
+              <span class="usage-cap-line" style={`left:${(props.capUsd / scale) * 100}%`} />
+            )}
+          </span>
+          <span class="usage-bar-value">{usd(row.costUsd)}{row.hitCap ? " ⚑" : ""}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/** Today's AI budget of one active API key. */
+export interface KeyBudget extends BudgetStatus {
+  keyPrefix: string;
+}
+
+export interface AiUsagePageProps {
+  report: UsageReport;
+  keyBudgets: KeyBudget[];
+  pageTitle: string;
+  pageDescription: string;
+  canonicalUrl: string;
+  alternateUrls: AlternateUrls;
+}
+
+export const AiUsagePage: FC<AiUsagePageProps> = (props) => {
+  const report = props.report;
+  const windowUsd = report.daily.reduce((sum, day) => sum + day.costUsd, 0);
+  const cappedDays = report.daily.filter((day) => day.hitCap).length;
+  return (
+    <Layout
+      pageClass="dashboard ai-usage-page"
+      locale="en"
+      pageTitle={props.pageTitle}
+      pageDescription={props.pageDescription}
+      canonicalUrl={props.canonicalUrl}
+      alternateUrls={props.alternateUrls}
+      robots="noindex, nofollow"
+      showNav={false}
+    >
+      <main class="main-content" id="main-content">
+        <section class="stats-section" aria-labelledby="usage-summary-title">
+          <h2 class="section-title" id="usage-summary-title">AI Usage</h2>
+          <div class="usage-summary">
+            <div class="usage-figure">
+              <div class="usage-figure-value">{usd(windowUsd)}</div>
+              <div class="usage-figure-label">Spent in the last {report.days} days</div>
+            </div>
+            <div class="usage-figure">
+              <div class="usage-figure-value">{usd(report.dailyBudgetUsd)}</div>
+              <div class="usage-figure-label">Daily cap</div>
+            </div>
+            <div class="usage-figure">
+              <div class="usage-figure-value">{cappedDays}</div>
+              <div class="usage-figure-label">Days that hit the cap</div>
+            </div>
+            <div class="usage-figure">
+              <div class="usage-figure-value">
+                {report.itemsPerBudgetDay === null ? "–" : count.format(report.itemsPerBudgetDay)}
+              </div>
+              <div class="usage-figure-label">Items the daily cap pays for</div>
+            </div>
+          </div>
+          <p class="usage-note">
+            A crawl processes up to MAX_ITEMS_PER_SOURCE items from each source; keep the new items
+            per day under what the daily cap pays for, or the AI queue stops early and the rest
+            waits for the next day. ⚑ marks days whose spend reached the cap or whose crawl the
+            budget stopped.
+          </p>
+        </section>
+
+        <section class="stats-section" aria-labelledby="usage-daily-title">
+          <h2 class="section-title" id="usage-daily-title">Daily Spend</h2>
+          <SpendChart
+            label={`Daily AI spend over the last ${report.days} days`}
+            capUsd={report.dailyBudgetUsd}
+            rows={report.daily.map((day) => ({ ...day, label: day.day }))}
+          />
+        </section>
+
+        <section class="stats-section" aria-labelledby="usage-monthly-title">
+          <h2 class="section-title" id="usage-monthly-title">Monthly Spend</h2>
+          <SpendChart
+            label="Monthly AI spend over the last 12 months"
+            capUsd={report.monthlyBudgetUsd}
+            rows={report.monthly.map((month) => ({ ...month, label: month.month }))}
+          />
+        </section>
+
+        <section class="stats-section" aria-labelledby="usage-models-title">
+          <h2 class="section-title" id="usage-models-title">Tokens by Purpose and Model</h2>
+          {report.byPurposeModel.length === 0
+            ? <p class="usage-empty">No AI calls in the last {report.days} days.</p>
+            : (
+              <table class="usage-table">
+                <thead>
+                  <tr>
+                    <th>Purpose</th>
+                    <th>Model</th>
+                    <th class="num">Calls</th>
+                    <th class="num">Input tokens</th>
+                    <th class="num">Output tokens</th>
+                    <th class="num">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.byPurposeModel.map((row) => (
+                    <tr>
+                      <td>{row.purpose}</td>
+                      <td>{row.model}</td>
+                      <td class="num">{count.format(row.calls)}</td>
+                      <td class="num">{count.format(row.inputTokens)}</td>
+                      <td class="num">{count.format(row.outputTokens)}</td>
+                      <td class="num">{usd(row.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+        </section>
+
+        <section class="stats-section" aria-labelledby="usage-items-title">
+          <h2 class="section-title" id="usage-items-title">Cost per Processed Item</h2>
+          {report.costPerItem.length === 0
+            ? <p class="usage-empty">No items processed in the last {report.days} days.</p>
+            : (
+              <table class="usage-table">
+                <thead>
+                  <tr>
+                    <th>Content type</th>
+                    <th class="num">Items</th>
+                    <th class="num">Total cost</th>
+                    <th class="num">Average per item</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.costPerItem.map((row) => (
+                    <tr>
+                      <td>{row.itemType}</td>
+                      <td class="num">{count.format(row.items)}</td>
+                      <td class="num">{usd(row.costUsd)}</td>
+                      <td class="num">{usd(row.avgCostUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+        </section>
+
+        <section class="stats-section" aria-labelledby="usage-keys-title">
+          <h2 class="section-title" id="usage-keys-title">API Key Budgets Today</h2>
+          {props.keyBudgets.length === 0
+            ? <p class="usage-empty">No active API keys.</p>
+            : (
+              <table class="usage-table">
+                <thead>
+                  <tr>
+                    <th>Key</th>
+                    <th>Prefix</th>
+                    <th class="num">Spent</th>
+                    <th class="num">Reserved</th>
+                    <th class="num">Cap</th>
+                    <th class="num">Remaining</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {props.keyBudgets.map((row) => (
+                    <tr>
+                      <td>{row.name}</td>
+                      <td>{row.keyPrefix}…</td>
+                      <td class="num">{usd(row.spentUsd)}</td>
+                      <td class="num">{usd(row.reservedUsd)}</td>
+                      <td class="num">{usd(row.capUsd)}</td>
+                      <td class="num">{usd(row.remainingUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+        </section>
+      </main>
+      <style dangerouslySetInnerHTML={{ __html: USAGE_STYLES }} />
+    </Layout>
+  );
+};
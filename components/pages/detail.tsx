@@ -1,5 +1,7 @@
 import type { FC } from "hono/jsx";
 import type { Locale, LocaleDict } from "../../lib/i18n.ts";
+import type { SearchResultItem } from "../../lib/search.ts";
+import { MAX_CHAT_MESSAGE_LENGTH } from "../../lib/item-chat.ts";
 import { type AlternateUrls, Layout } from "../layout.tsx";
 
 export interface DetailPageProps {
@@ -9,6 +11,9 @@ export interface DetailPageProps {
   summaryHtml: string;
   sourceUrl?: string;
   returnUrl?: string; // Search URL to return to (preserves query + filters)
+  related?: SearchResultItem[]; // Nearest neighbours across all content types
+  citeUrl?: string; // /api/cite URL without format; set for citable items (papers, NTRS)
+  chatItem?: { type: SearchResultItem["type"]; id: string }; // Enables the "ask this item" chat
   locale?: Locale;
   dict?: LocaleDict;
   pageTitle: string;
@@ -19,12 +24,154 @@ export interface DetailPageProps {
   jsonLd?: Record<string, unknown>;
 }
 
+const CITE_FORMATS = [["bibtex", "BibTeX"], ["ris", "RIS"], ["csl-json", "CSL-JSON"]] as const;
+
+/**
+ * Client for the item chat (POST /api/chat, answers streamed as SSE). The history lives in
+ * sessionStorage per item and is sent with every question.
+ */
+const CHAT_SCRIPT = `
+(function() {
+  var panel = document.getElementById('detail-chat');
+  if (!panel) return;
+  var form = panel.querySelector('form');
+  var log = panel.querySelector('.detail-chat-log');
+  var input = form.elements.namedItem('question');
+  var sendButton = form.querySelector('button[type=submit]');
+  var clearButton = panel.querySelector('.detail-chat-clear');
+  var type = panel.getAttribute('data-type');
+  var id = panel.getAttribute('data-id');
+  var locale = panel.getAttribute('data-locale') || 'en';
+  var label = {
+    user: panel.getAttribute('data-label-you') || 'You',
+    assistant: panel.getAttribute('data-label-assistant') || 'AstroGroot'
+  };
+  var thinkingText = panel.getAttribute('data-thinking') || 'Thinking\u2026';
+  var budgetText = panel.getAttribute('data-budget') || 'The AI budget is used up.';
+  var errorText = panel.getAttribute('data-error') || 'Could not answer';
+  var storageKey = 'astrogroot-chat:' + type + ':' + id;
+  var history = [];
+  try { history = JSON.parse(sessionStorage.getItem(storageKey) || '[]'); } catch (e) { history = []; }
+  function save() {
+    try { sessionStorage.setItem(storageKey, JSON.stringify(history)); } catch (e) { /* storage full or disabled */ }
+  }
+  function addMessage(role, text) {
+    var item = document.createElement('div');
+    item.className = 'detail-chat-message detail-chat-' + role;
+    var who = document.createElement('span');
+    who.className = 'detail-chat-who';
+    who.textContent = label[role] || role;
+    var body = document.createElement('p');
+    body.className = 'detail-chat-text';
+    body.textContent = text;
+    item.appendChild(who);
+    item.appendChild(body);
+    log.appendChild(item);
+    log.hidden = false;
+    clearButton.hidden = false;
+    return body;
+  }
+  function showNotice(className, text) {
+    var notice = document.createElement('p');
+    notice.className = className;
+    notice.textContent = text;
+    log.appendChild(notice);
+  }
+  history.forEach(function(m) { addMessage(m.role, m.content); });
+  clearButton.addEventListener('click', function() {
+    history = [];
+    save();
+    log.innerHTML = '';
+    log.hidden = true;
+    clearButton.hidden = true;
+  });
+  form.addEventListener('submit', function(event) {
+    event.preventDefault();
+    var question = (input.value || '').trim();
+    if (!question) return;
+    input.value = '';
+    sendButton.disabled = true;
+    addMessage('user', question);
+    var answerEl = addMessage('assistant', thinkingText);
+    var answer = '';
+    var messages = history.concat([{ role: 'user', content: question }]);
+    function fail(text, className) {
+      answerEl.parentNode.remove();
+      showNotice(className || 'detail-chat-error', text);
+    }
+    fetch('/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      body: JSON.stringify({ type: type, id: id, lang: locale, messages: messages })
+    })
+      .then(function(res) {
+        if (!res.ok || !res.body) {
+          return res.json().then(function(data) { fail(errorText + ': ' + (data.message || data.error || res.status)); });
+        }
+        var reader = res.body.getReader();
+        var decoder = new TextDecoder();
+        var buffer = '';
+        var finished = false;
+        function handle(block) {
+          var eventName = 'message';
+          var data = '';
+          block.split('\\n').forEach(function(line) {
+            if (line.indexOf('event:') === 0) eventName = line.slice(6).trim();
+            else if (line.indexOf('data:') === 0) data += line.slice(5).trim();
+          });
+          var payload = data ? JSON.parse(data) : {};
+          if (eventName === 'delta') {
+            answer += payload.text || '';
+            answerEl.textContent = answer;
+          } else if (eventName === 'done') {
+            finished = true;
+            history = messages.concat([{ role: 'assistant', content: answer }]);
+            save();
+          } else if (eventName === 'error') {
+            finished = true;
+            if (payload.code === 'budget') fail(budgetText, 'detail-chat-budget');
+            else fail(errorText + ': ' + (payload.message || ''));
+          }
+        }
+        function pump() {
+          return reader.read().then(function(chunk) {
+            if (chunk.done) {
+              if (!finished) fail(errorText);
+              return;
+            }
+            buffer += decoder.decode(chunk.value, { stream: true });
+            var parts = buffer.split('\\n\\n');
+            buffer = parts.pop();
+            parts.forEach(handle);
+            return pump();
+          });
+        }
+        return pump();
+      })
+      .catch(function(err) { fail(errorText + ': ' + ((err && err.message) || String(err))); })
+      .then(function() {
+        sendButton.disabled = false;
+        input.focus();
+      });
+  });
+})();
+`;
+
 export const DetailPage: FC<DetailPageProps> = (props) => {
   const locale = props.locale ?? "en";
   const d = props.dict;
   const backLabel = d?.common.back ?? "Back";
   const summaryLabel = d?.common.fullSummary ?? "Full Summary";
   const sourceLabel = d?.common.source ?? "Source";
+  const relatedLabel = d?.common.related ?? "Related";
+  const citeLabel = d?.common.cite ?? "Cite";
+  const chatTitle = d?.chat.title ?? "Ask About This Item";
+  const typeLabels = {
+    paper: d?.common.paper ?? "Paper",
+    video: d?.common.video ?? "Video",
+    nasa: d?.common.nasa ?? "NASA",
+  };
+  const related = props.related ?? [];
   const defaultSearchHref = `/search?lang=${encodeURIComponent(locale)}`;
   const searchHref = props.returnUrl ?? defaultSearchHref;
   return (
@@ -73,8 +220,89 @@ export const DetailPage: FC<DetailPageProps> = (props) => {
                 </a>
               )
               : null}
+            {props.citeUrl
+              ? (
+                <details class="detail-cite">
+                  <summary class="detail-button">{citeLabel}</summary>
+                  <ul class="detail-cite-formats">
+                    {CITE_FORMATS.map(([format, label]) => (
+                      <li>
+                        <a href={`${props.citeUrl}&format=${format}`} rel="nofollow">{label}</a>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )
+              : null}
           </div>
         </article>
+        {props.chatItem
+          ? (
+            <section
+              class="detail-section detail-chat"
+              id="detail-chat"
+              aria-labelledby="detail-chat-heading"
+              data-type={props.chatItem.type}
+              data-id={props.chatItem.id}
+              data-locale={locale}
+              data-label-you={d?.chat.you ?? "You"}
+              data-label-assistant={d?.chat.assistant ?? "AstroGroot"}
+              data-thinking={d?.chat.thinking ?? "Thinking…"}
+              data-budget={d?.chat.budget ??
+                "Today's AI budget has been used up, so questions can't be answered right now."}
+              data-error={d?.chat.error ?? "Could not answer"}
+            >
+              <h2 class="detail-summary-label" id="detail-chat-heading">{chatTitle}</h2>
+              <p class="detail-chat-intro">
+                {d?.chat.intro ?? "Questions are answered from this item's text."}
+              </p>
+              <div class="detail-chat-log" aria-live="polite" hidden></div>
+              <form class="detail-chat-form">
+                <input
+                  type="text"
+                  name="question"
+                  class="detail-chat-input"
+                  maxLength={MAX_CHAT_MESSAGE_LENGTH}
+                  placeholder={d?.chat.placeholder ?? "Ask a question about this item…"}
+                  aria-labelledby="detail-chat-heading"
+                  required
+                />
+                <button type="submit" class="detail-button">{d?.chat.send ?? "Send"}</button>
+              </form>
+              <button type="button" class="detail-chat-clear" hidden>
+                {d?.chat.clear ?? "Clear chat"}
+              </button>
+              <script dangerouslySetInnerHTML={{ __html: CHAT_SCRIPT }} />
+            </section>
+          )
+          : null}
+        {related.length > 0
+          ? (
+            <section class="detail-section detail-related" aria-labelledby="detail-related-heading">
+              <h2 class="detail-summary-label" id="detail-related-heading">{relatedLabel}</h2>
+              <ul class="detail-related-list">
+                {related.map((item) => (
+                  <li class="detail-related-item">
+                    <span class="detail-type">{typeLabels[item.type]}</span>
+                    <a
+                      class="detail-related-title"
+                      href={`/detail?type=${encodeURIComponent(item.type)}&id=${
+                        encodeURIComponent(item.id)
+                      }&lang=${encodeURIComponent(locale)}${
+                        props.returnUrl ? `&returnUrl=${encodeURIComponent(props.returnUrl)}` : ""
+                      }`}
+                    >
+                      {item.title}
+                    </a>
+                    {item.publishedDate
+                      ? <time datetime={item.publishedDate}>{item.publishedDate}</time>
+                      : null}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )
+          : null}
       </main>
       {props.jsonLd
         ? (
@@ -2,6 +2,7 @@ import type { FC } from "hono/jsx";
 import type { Locale, LocaleDict } from "../../lib/i18n.ts";
 import { type AlternateUrls, Layout } from "../layout.tsx";
 import { SearchBar } from "../search-bar.tsx";
+import { MAX_QUESTION_LENGTH } from "../../lib/ask.ts";
 
 interface SearchPageProps {
   query?: string;
@@ -19,6 +20,18 @@ interface SearchPageProps {
   robots?: string;
 }
 
+/** Examples for the search syntax (see lib/search-query.ts); identical in every locale. */
+const SYNTAX_EXAMPLES = [
+  '"dark matter" halo',
+  "exoplanet -simulation",
+  'author:"Jane Doe"',
+  "category:astro-ph.CO",
+  "channel:NASA",
+  "center:JPL",
+  "source:ntrs",
+  "year:2020..2023",
+];
+
 export const SearchPage: FC<SearchPageProps> = (props) => {
   const query = props.query ?? "";
   const type = props.type ?? "all";
@@ -50,8 +63,23 @@ export const SearchPage: FC<SearchPageProps> = (props) => {
   const labelMore = d?.common.more ?? "More";
   const labelSource = d?.common.source ?? "Source";
   const dateRangeLabel = d?.search.dateRange ?? "Date Range";
+  const facetLabels = {
+    category: d?.search.facetCategory ?? "Category",
+    year: d?.search.facetYear ?? "Year",
+    source: d?.search.facetSource ?? "Source",
+    channel: d?.search.facetChannel ?? "Channel",
+    center: d?.search.facetCenter ?? "NASA Center",
+    contentType: d?.search.facetContentType ?? "NASA Content Type",
+  };
+  const syntaxTitle = d?.search.syntaxTitle ?? "Search Syntax";
+  const syntaxHelp = d?.search.syntaxHelp ??
+    "Quote phrases, prefix - to exclude, and combine field filters:";
   const showFiltersLabel = d?.search.showFilters ?? "Show Filters";
   const hideFiltersLabel = d?.search.hideFilters ?? "Hide Filters";
+  const askTitle = d?.search.askTitle ?? "Ask the Library";
+  const askPlaceholder = d?.search.askPlaceholder ??
+    "Ask a question, e.g. How do hot Jupiters form?";
+  const askButton = d?.search.askButton ?? "Ask";
   const monthsStr = d?.calendar.months.join("|") ??
     "January|February|March|April|May|June|July|August|September|October|November|December";
   const weekdaysStr = d?.calendar.weekdays.join("|") ?? "Su|Mo|Tu|We|Th|Fr|Sa";
@@ -127,8 +155,55 @@ export const SearchPage: FC<SearchPageProps> = (props) => {
                   <option value="title">{d?.search.sortByTitle ?? "Title"}</option>
                 </select>
               </div>
+              <div
+                id="sidebar-facets"
+                class="sidebar-section sidebar-facets"
+                data-label-category={facetLabels.category}
+                data-label-year={facetLabels.year}
+                data-label-source={facetLabels.source}
+                data-label-channel={facetLabels.channel}
+                data-label-center={facetLabels.center}
+                data-label-content-type={facetLabels.contentType}
+                hidden
+              >
+              </div>
+              <div class="sidebar-section">
+                <h3 class="sidebar-heading">{syntaxTitle}</h3>
+                <p class="sidebar-syntax-help">{syntaxHelp}</p>
+                <ul class="sidebar-syntax">
+                  {SYNTAX_EXAMPLES.map((example) => (
+                    <li>
+                      <code>{example}</code>
+                    </li>
+                  ))}
+                </ul>
+              </div>
             </aside>
             <div class="search-results-column">
+              <section class="search-ask" aria-labelledby="search-ask-title">
+                <h2 class="search-ask-title" id="search-ask-title">{askTitle}</h2>
+                <form
+                  class="search-ask-form"
+                  id="search-ask-form"
+                  data-locale={locale}
+                  data-asking={d?.search.asking ?? "Reading the library…"}
+                  data-sources={d?.search.askSources ?? "Sources"}
+                  data-error-tpl={d?.search.askError ?? "Could not answer"}
+                >
+                  <input
+                    type="text"
+                    name="question"
+                    class="search-ask-input"
+                    maxLength={MAX_QUESTION_LENGTH}
+                    placeholder={askPlaceholder}
+                    aria-labelledby="search-ask-title"
+                    required
+                  />
+                  <button type="submit" class="search-ask-button">{askButton}</button>
+                </form>
+                <div class="search-ask-answer" id="search-ask-answer" aria-live="polite" hidden>
+                </div>
+              </section>
               <div
                 id="search-results"
                 class="search-results"
@@ -224,6 +299,19 @@ export const SearchPage: FC<SearchPageProps> = (props) => {
     return validator.isInvalidForLocale(value, locale);
   }
   var urlParams = new URLSearchParams(window.location.search || '');
+  // Facet selection (see lib/search-facets.ts): facet name -> checked values
+  var facetNames = ['category', 'year', 'source', 'channel', 'center', 'contentType'];
+  var currentFacets = {};
+  facetNames.forEach(function(name) {
+    var values = urlParams.getAll(name).filter(Boolean);
+    if (values.length) currentFacets[name] = values;
+  });
+  function setFacetParams(params) {
+    facetNames.forEach(function(name) {
+      params.delete(name);
+      (currentFacets[name] || []).forEach(function(value) { params.append(name, value); });
+    });
+  }
   var initialPage = parseInt(urlParams.get('page') || '1', 10) || 1;
   var currentPage = initialPage;
   var perPage = 20;
@@ -236,15 +324,31 @@ export const SearchPage: FC<SearchPageProps> = (props) => {
     if (currentDateFrom) params.set('dateFrom', currentDateFrom); else params.delete('dateFrom');
     if (currentDateTo) params.set('dateTo', currentDateTo); else params.delete('dateTo');
     if (currentSortBy && currentSortBy !== 'relevance') params.set('sortBy', currentSortBy); else params.delete('sortBy');
+    setFacetParams(params);
     params.set('page', String(page));
     history.replaceState(null, '', window.location.pathname + '?' + params.toString());
   }
   function skeletonHtml() {
     return '<div class="search-skeleton"><div class="skeleton-card"><div class="skeleton-badge"></div><div class="skeleton-title"></div><div class="skeleton-line"></div><div class="skeleton-line skeleton-line-short"></div></div><div class="skeleton-card"><div class="skeleton-badge"></div><div class="skeleton-title"></div><div class="skeleton-line"></div><div class="skeleton-line skeleton-line-short"></div></div><div class="skeleton-card"><div class="skeleton-badge"></div><div class="skeleton-title"></div><div class="skeleton-line"></div><div class="skeleton-line skeleton-line-short"></div></div></div>';
   }
+  function escText(value) {
+    return String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+  // Snippet text with the server's highlight offsets ([start, end) string indices) as <mark>
+  function snippetHtml(item) {
+    var text = item.snippet || '';
+    var html = '';
+    var pos = 0;
+    (item.highlights || []).forEach(function(range) {
+      if (range.start < pos || range.end > text.length || range.end <= range.start) return;
+      html += escText(text.slice(pos, range.start)) + '<mark>' + escText(text.slice(range.start, range.end)) + '</mark>';
+      pos = range.end;
+    });
+    return html + escText(text.slice(pos));
+  }
   function itemHtml(item, label) {
-    var title = (item.title || '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
-    var snippet = (item.snippet || '').slice(0, 200).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    var title = escText(item.title || '');
+    var snippet = snippetHtml(item);
     var url = (item.url || '').replace(/&/g, '&amp;').replace(/"/g, '&quot;');
     var detailUrl = '/detail?type=' + encodeURIComponent(item.type || '') + '&id=' + encodeURIComponent(item.id || '') + '&lang=' + encodeURIComponent(locale) + '&returnUrl=' + encodeURIComponent(window.location.pathname + window.location.search);
     var moreBtn = '<a href="' + detailUrl + '" class="search-result-more">' + labelMore + ' \u203a</a>';
@@ -266,10 +370,53 @@ export const SearchPage: FC<SearchPageProps> = (props) => {
       + '<div class="search-result-header">' + typeTag + relatedBadge + '</div>'
       + '<a href="' + detailUrl + '" class="search-result-title">' + title + '</a>'
       + metaRow
-      + (snippet ? '<p class="search-result-snippet">' + snippet + '\u2026</p>' : '')
+      + (snippet ? '<p class="search-result-snippet">' + snippet + '</p>' : '')
       + '<div class="search-result-actions">' + moreBtn + sourceBtn + '</div>'
       + '</article>';
   }
+  function renderFacets(facets) {
+    var box = document.getElementById('sidebar-facets');
+    if (!box) return;
+    var labels = {
+      category: box.getAttribute('data-label-category') || 'Category',
+      year: box.getAttribute('data-label-year') || 'Year',
+      source: box.getAttribute('data-label-source') || 'Source',
+      channel: box.getAttribute('data-label-channel') || 'Channel',
+      center: box.getAttribute('data-label-center') || 'NASA Center',
+      contentType: box.getAttribute('data-label-content-type') || 'NASA Content Type'
+    };
+    var sourceLabels = { arxiv: 'arXiv', ntrs: 'NASA NTRS' };
+    function esc(value) {
+      return String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    }
+    var html = '';
+    facetNames.forEach(function(name) {
+      var buckets = (facets && facets[name]) || [];
+      if (!buckets.length) return;
+      var selected = currentFacets[name] || [];
+      html += '<fieldset class="sidebar-facet"><legend class="sidebar-heading">' + esc(labels[name]) + '</legend>';
+      buckets.forEach(function(bucket) {
+        var label = name === 'source' ? (sourceLabels[bucket.value] || bucket.value) : bucket.value;
+        html += '<label class="sidebar-facet-option">'
+          + '<input type="checkbox" data-facet="' + name + '" value="' + esc(bucket.value) + '"' + (selected.indexOf(bucket.value) !== -1 ? ' checked' : '') + '>'
+          + '<span class="sidebar-facet-value">' + esc(label) + '</span>'
+          + '<span class="sidebar-facet-count">' + bucket.count + '</span>'
+          + '</label>';
+      });
+      html += '</fieldset>';
+    });
+    box.innerHTML = html;
+    box.hidden = !html;
+    box.querySelectorAll('input[data-facet]').forEach(function(input) {
+      input.addEventListener('change', function() {
+        var name = input.getAttribute('data-facet');
+        var values = (currentFacets[name] || []).filter(function(value) { return value !== input.value; });
+        if (input.checked) values.push(input.value);
+        if (values.length) currentFacets[name] = values; else delete currentFacets[name];
+        doSearch(1, false);
+      });
+    });
+  }
   function doSearch(page, focusResults) {
     var requestId = ++requestSequence;
     currentPage = page;
@@ -279,6 +426,7 @@ export const SearchPage: FC<SearchPageProps> = (props) => {
     if (currentDateFrom) params.set('dateFrom', currentDateFrom);
     if (currentDateTo) params.set('dateTo', currentDateTo);
     if (currentSortBy && currentSortBy !== 'relevance') params.set('sortBy', currentSortBy);
+    setFacetParams(params);
     fetch('/api/search?' + params.toString())
       .then(function(r) { return r.json(); })
       .then(function(data) {
@@ -296,27 +444,31 @@ export const SearchPage: FC<SearchPageProps> = (props) => {
         var nasa = data.nasa || [];
         var showingRelated = data.showingRelated || false;
         var pagination = data.pagination || { page: 1, totalPages: 1, hasNext: false, hasPrev: false };
-        var countText = foundTpl.split('{count}').join(String(total));
+        // Inexact totals are lower bounds ("at least"), shown as N+
+        var more = data.totalExact === false ? '+' : '';
+        var countText = foundTpl.split('{count}').join(String(total) + more);
         var html = '<p class="search-results-count">' + countText + '</p>';
         if (showingRelated && total > 0) {
           html += '<p class="search-results-related-notice">' + relatedNotice + '</p>';
         }
-        papers.forEach(function(p) { html += itemHtml(p, labelPaper); });
-        videos.forEach(function(v) { html += itemHtml(v, labelVideo); });
-        nasa.forEach(function(n) { html += itemHtml(n, labelNasa); });
+        // Render the cross-type ranking; older responses only have the per-type arrays
+        var typeLabels = { paper: labelPaper, video: labelVideo, nasa: labelNasa };
+        var results = data.results || papers.concat(videos, nasa);
+        results.forEach(function(item) { html += itemHtml(item, typeLabels[item.type] || labelPaper); });
         if (total === 0) {
           html += '<p class="search-results-empty">' + noResults + '</p>';
           if (type !== 'all') {
             html += '<p class="search-results-try-all">Try <a href="/search?q=' + encodeURIComponent(q) + '&lang=' + encodeURIComponent(locale) + '" class="try-all-link">All Content</a> to broaden your search.</p>';
           }
-        } else if (pagination.totalPages > 1) {
+        } else if (pagination.totalPages > 1 || pagination.hasNext) {
           html += '<div class="search-pagination">';
           html += '<button class="pagination-btn pagination-prev" ' + (pagination.hasPrev ? '' : 'disabled') + '>' + prevLabel + '</button>';
-          html += '<span class="pagination-info">' + pageLabel + ' ' + pagination.page + ' ' + ofLabel + ' ' + pagination.totalPages + '</span>';
+          html += '<span class="pagination-info">' + pageLabel + ' ' + pagination.page + ' ' + ofLabel + ' ' + pagination.totalPages + more + '</span>';
           html += '<button class="pagination-btn pagination-next" ' + (pagination.hasNext ? '' : 'disabled') + '>' + nextLabel + '</button>';
           html += '</div>';
         }
         el.insertAdjacentHTML('beforeend', html);
+        renderFacets(data.facets);
         var prevBtn = el.querySelector('.pagination-prev');
         var nextBtn = el.querySelector('.pagination-next');
         if (prevBtn) prevBtn.addEventListener('click', function() { if (pagination.hasPrev) doSearch(currentPage - 1, true); });
@@ -501,6 +653,75 @@ export const SearchPage: FC<SearchPageProps> = (props) => {
   initSidebar();
   doSearch(currentPage, false);
 })();
+`,
+        }}
+      />
+      <script
+        dangerouslySetInnerHTML={{
+          __html: `
+(function() {
+  // "Ask the library" (POST /api/ask): answer with [n] citations linked to the numbered sources
+  var form = document.getElementById('search-ask-form');
+  var box = document.getElementById('search-ask-answer');
+  if (!form || !box) return;
+  var locale = form.getAttribute('data-locale') || 'en';
+  var askingText = form.getAttribute('data-asking') || 'Reading the library\u2026';
+  var sourcesLabel = form.getAttribute('data-sources') || 'Sources';
+  var errorTpl = form.getAttribute('data-error-tpl') || 'Could not answer';
+  var button = form.querySelector('button');
+  function esc(value) {
+    return String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+  function showMessage(className, text) {
+    box.innerHTML = '<p class="' + className + '">' + esc(text) + '</p>';
+    box.hidden = false;
+  }
+  form.addEventListener('submit', function(event) {
+    event.preventDefault();
+    var question = (form.elements.namedItem('question').value || '').trim();
+    if (!question) return;
+    button.disabled = true;
+    box.setAttribute('aria-busy', 'true');
+    showMessage('search-ask-status', askingText);
+    fetch('/api/ask', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ question: question, lang: locale })
+    })
+      .then(function(r) { return r.json(); })
+      .then(function(data) {
+        if (data.error) {
+          showMessage('search-results-error', errorTpl + ': ' + (data.message || data.error));
+          return;
+        }
+        var cited = {};
+        (data.citations || []).forEach(function(c) { cited[c.number] = true; });
+        var answer = esc(data.answer || '').replace(/\\[(\\d+)\\]/g, function(match, n) {
+          return cited[n] ? '<a href="#ask-source-' + n + '" class="search-ask-cite">[' + n + ']</a>' : match;
+        });
+        var html = answer.split(/\\n{2,}/).map(function(p) {
+          return '<p>' + p.replace(/\\n/g, '<br>') + '</p>';
+        }).join('');
+        if ((data.citations || []).length) {
+          html += '<h3 class="search-ask-sources-title">' + esc(sourcesLabel) + '</h3><ol class="search-ask-sources">';
+          data.citations.forEach(function(c) {
+            html += '<li id="ask-source-' + c.number + '" value="' + c.number + '">'
+              + '<a href="' + esc(c.detailUrl) + '">' + esc(c.title) + '</a></li>';
+          });
+          html += '</ol>';
+        }
+        box.innerHTML = html;
+        box.hidden = false;
+      })
+      .catch(function(err) {
+        showMessage('search-results-error', errorTpl + ': ' + ((err && err.message) || String(err)));
+      })
+      .then(function() {
+        button.disabled = false;
+        box.setAttribute('aria-busy', 'false');
+      });
+  });
+})();
 `,
         }}
       />
@@ -522,6 +743,15 @@ export const SearchPage: FC<SearchPageProps> = (props) => {
 .sidebar-date-display { font-size: 0.775rem; color: #a5b4fc; margin: 0.5rem 0 0.25rem; padding: 0.35rem 0.6rem; background: rgba(168,85,247,0.08); border-radius: 6px; border: 1px solid rgba(168,85,247,0.2); letter-spacing: 0.01em; }
 .sidebar-clear-btn { font-size: 0.775rem; color: #475569; background: none; border: none; cursor: pointer; padding: 0; text-decoration: underline; transition: color 0.2s ease; display: block; margin-top: 0.35rem; }
 .sidebar-clear-btn:hover { color: #94a3b8; }
+.sidebar-facet { border: none; margin: 0 0 1.25rem; padding: 0; min-width: 0; }
+.sidebar-facet:last-child { margin-bottom: 0; }
+.sidebar-facet-option { display: flex; align-items: center; gap: 0.5rem; padding: 0.2rem 0; font-size: 0.8rem; color: #c7d2fe; cursor: pointer; }
+.sidebar-facet-option input { accent-color: #a855f7; flex-shrink: 0; }
+.sidebar-facet-value { flex: 1; min-width: 0; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+.sidebar-facet-count { font-size: 0.72rem; color: #64748b; font-variant-numeric: tabular-nums; }
+.sidebar-syntax-help { font-size: 0.775rem; color: #64748b; margin: 0 0 0.5rem; line-height: 1.5; }
+.sidebar-syntax { list-style: none; margin: 0; padding: 0; display: grid; gap: 0.3rem; }
+.sidebar-syntax code { font-size: 0.75rem; color: #a5b4fc; background: rgba(168,85,247,0.08); border-radius: 4px; padding: 0.1rem 0.35rem; }
 /* ── Inline calendar ─────────────────────────────────────────────────── */
 .inline-calendar { user-select: none; }
 .cal-header { display: flex; align-items: center; justify-content: space-between; margin-bottom: 0.625rem; }
@@ -554,6 +784,7 @@ export const SearchPage: FC<SearchPageProps> = (props) => {
 .search-result-meta { display: flex; align-items: center; gap: 1rem; margin-bottom: 0.35rem; }
 .search-result-date { font-size: 0.8rem; color: #475569; }
 .search-result-snippet { font-size: 0.875rem; color: #64748b; line-height: 1.55; margin: 0; }
+.search-result-snippet mark { color: #e0e7ff; background: rgba(34,211,238,0.16); border-radius: 3px; padding: 0 0.1em; }
 .search-result-actions { margin-top: 0.7rem; }
 .search-result-more { display: inline-flex; align-items: center; padding: 0.3rem 0.8rem; border-radius: 999px; font-size: 0.8rem; color: #64748b; text-decoration: none; border: 1px solid rgba(34,211,238,0.18); background: rgba(15,23,42,0.4); transition: all 0.2s ease; }
 .search-result-more:hover { border-color: rgba(34,211,238,0.45); color: #e0e7ff; background: rgba(34,211,238,0.07); }
@@ -643,7 +874,37 @@ export const SearchPage: FC<SearchPageProps> = (props) => {
 .search-result-title:hover { color: var(--cyan); text-decoration-color: currentColor; }
 .search-result-date { color: var(--muted); }
 .search-result-snippet { color: var(--text-soft); line-height: 1.62; }
+.search-result-snippet mark { color: var(--text); background: rgba(94, 234, 212, 0.16); }
 .search-result-actions { display: flex; flex-wrap: wrap; gap: 0.5rem; }
+/* ── Ask the library ───────────────────────────────────────────────── */
+.search-ask {
+  margin-bottom: 1.25rem; padding: 1rem 1.25rem;
+  border: 1px solid var(--line); border-radius: 14px; background: rgba(12, 18, 35, 0.74);
+}
+.search-ask-title { margin: 0 0 0.7rem; color: var(--text); font-size: 1rem; font-weight: 600; }
+.search-ask-form { display: flex; gap: 0.5rem; }
+.search-ask-input {
+  flex: 1; min-width: 0; min-height: 44px; padding: 0.6rem 0.8rem;
+  border: 1px solid var(--line); border-radius: 10px;
+  color: var(--text); background: #080d1b; font-size: 0.9rem;
+}
+.search-ask-input:focus { outline: none; border-color: var(--line-strong); }
+.search-ask-button {
+  min-height: 44px; padding: 0.45rem 1.1rem; border: 1px solid var(--line-strong);
+  border-radius: 10px; color: var(--cyan); background: rgba(94, 234, 212, 0.07); cursor: pointer;
+}
+.search-ask-button:disabled { opacity: 0.5; cursor: progress; }
+.search-ask-answer { margin-top: 0.9rem; color: var(--text-soft); line-height: 1.65; font-size: 0.92rem; }
+.search-ask-answer p { margin: 0 0 0.6rem; }
+.search-ask-status { color: var(--muted); }
+.search-ask-cite { color: var(--cyan); text-decoration: none; font-size: 0.8em; vertical-align: super; }
+.search-ask-sources-title {
+  margin: 0.9rem 0 0.4rem; color: var(--muted); font-size: 0.72rem;
+  text-transform: uppercase; letter-spacing: 0.09em;
+}
+.search-ask-sources { margin: 0; padding-left: 1.4rem; font-size: 0.85rem; }
+.search-ask-sources a { color: var(--text-soft); }
+.search-ask-sources a:hover { color: var(--cyan); }
 .search-result-more, .search-result-source {
   min-height: 38px; padding: 0.45rem 0.8rem;
   display: inline-flex; align-items: center; border: 1px solid var(--line);
@@ -8,6 +8,8 @@ export const papers = sqliteTable("papers", {
   authors: text("authors").notNull(), // JSON array stored as text
   abstract: text("abstract").notNull(),
   summary: text("summary"), // AI-generated summary
+  summaryModel: text("summary_model"), // Model that produced summary (lib/ai/routing.ts)
+  summaryPromptVersion: text("summary_prompt_version"), // e.g. "summarize@1"
   translation: text("translation"), // AI-translated summary (optional)
 
   // Metadata
@@ -35,6 +37,8 @@ export const videos = sqliteTable("videos", {
   description: text("description"),
   transcript: text("transcript"), // Full transcript
   summary: text("summary"), // AI-generated summary
+  summaryModel: text("summary_model"), // Model that produced summary (lib/ai/routing.ts)
+  summaryPromptVersion: text("summary_prompt_version"), // e.g. "summarize@1"
   translation: text("translation"), // AI-translated summary (optional)
 
   // Metadata
@@ -63,6 +67,8 @@ export const nasaContent = sqliteTable("nasa_content", {
   description: text("description"),
   explanation: text("explanation"), // Detailed explanation
   summary: text("summary"), // AI-generated summary
+  summaryModel: text("summary_model"), // Model that produced summary (lib/ai/routing.ts)
+  summaryPromptVersion: text("summary_prompt_version"), // e.g. "summarize@1"
   translation: text("translation"), // AI-translated summary (optional)
 
   // Metadata
@@ -106,21 +112,109 @@ export const translations = sqliteTable("translations", {
   lang: text("lang", { length: 10 }).notNull(), // 'en', 'zh-TW', 'zh-CN'
   title: text("title"),
   summary: text("summary"),
+  model: text("model"), // Model(s) that produced title/summary; null before provenance was recorded
+  promptVersion: text("prompt_version"), // e.g. "translate_title@1,translate_summary@1"
   createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
   updatedAt: integer("updated_at", { mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
 });
 
-// AI usage ledger - tracks token spend per Claude API call for budget enforcement
+// AI usage ledger - tracks token spend per LLM call (any provider) for budget enforcement
 export const aiUsage = sqliteTable("ai_usage", {
   id: integer("id").primaryKey({ autoIncrement: true }),
+  provider: text("provider").notNull().default("anthropic"), // 'anthropic' | 'openai' | 'fake'
   model: text("model").notNull(),
-  purpose: text("purpose").notNull(), // 'summarize' | 'translate_summary' | 'translate_title' | 'extract_key_points' | 'answer_question'
+  purpose: text("purpose").notNull(), // 'summarize' | 'translate_summary' | 'translate_title' | 'extract_key_points' | 'answer_question' | 'ask_library' | 'item_chat'
   inputTokens: integer("input_tokens").notNull(),
   outputTokens: integer("output_tokens").notNull(),
   costUsd: real("cost_usd").notNull(),
+  cache: text("cache"), // 'hit' | 'miss'; null when the call was not cacheable
+  client: text("client"), // Who a user-triggered call is charged to, e.g. 'key:12' (lib/ai/usage.ts)
+  itemType: text("item_type"), // 'paper' | 'video' | 'nasa' for pipeline calls, for cost per item
   createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
 });
 
+// AI budget reservations - the worst-case cost of calls in flight, counted against the budget
+// caps until the call settles (its usage is recorded) or the reservation expires (lib/ai/usage.ts)
+export const aiBudgetReservations = sqliteTable("ai_budget_reservations", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  purpose: text("purpose").notNull(),
+  client: text("client"),
+  amountUsd: real("amount_usd").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+});
+
+// AI result cache - model responses keyed by a hash of purpose, model, prompt version, input and
+// target language, so regenerating unchanged content costs nothing (lib/ai/cache.ts)
+export const aiCache = sqliteTable("ai_cache", {
+  key: text("key").primaryKey(), // SHA-256 hex
+  purpose: text("purpose").notNull(),
+  model: text("model").notNull(),
+  promptVersion: text("prompt_version").notNull(),
+  response: text("response").notNull(),
+  costUsd: real("cost_usd").notNull(), // Cost of the original call; each hit saves this much
+  hits: integer("hits").default(0).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
+  lastUsedAt: integer("last_used_at", { mode: "timestamp" }).default(sql`(unixepoch())`).notNull(), // Eviction is least recently used
+});
+
+// AI job queue - summarize/translate/index work for rows the crawler inserted unprocessed
+export const aiJobs = sqliteTable("ai_jobs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  itemType: text("item_type").notNull(), // 'paper' | 'video' | 'nasa'
+  itemId: text("item_id").notNull(),
+  priority: integer("priority").default(0).notNull(), // Higher runs first
+  status: text("status").default("pending").notNull(), // 'pending' | 'running' | 'done' | 'dead'
+  attempts: integer("attempts").default(0).notNull(),
+  runAfter: integer("run_after", { mode: "timestamp" }).default(sql`(unixepoch())`).notNull(), // Backoff: not claimed before this
+  lastError: text("last_error"),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
+});
+
+// Crawl-run ledger - one row per crawler run, kept for /health and /api/crawler/runs
+export const crawlRuns = sqliteTable("crawl_runs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  status: text("status").notNull(), // 'running' | 'completed' | 'failed'
+  startedAt: integer("started_at", { mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
+  finishedAt: integer("finished_at", { mode: "timestamp" }),
+  counts: text("counts"), // JSON object of items collected per source
+  errors: text("errors"), // JSON array of error messages
+  budgetStopReason: text("budget_stop_reason"), // Set when an AI budget cap stopped the queue drain
+});
+
+// Crawl checkpoints - per-source high-water mark so collectors resume incrementally
+export const crawlCheckpoints = sqliteTable("crawl_checkpoints", {
+  source: text("source").primaryKey(), // e.g. 'arxiv:astronomy', 'ntrs:rocket', 'youtube'
+  value: text("value").notNull(), // ISO date (arXiv, YouTube) or numeric NTRS id
+  updatedAt: integer("updated_at", { mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
+});
+
+// API keys for the public /api/v1 surface. Only the SHA-256 hash of a key is stored; the
+// plaintext is shown once when the key is created.
+export const apiKeys = sqliteTable("api_keys", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(), // Who or what the key is for, e.g. 'nightly-export'
+  keyPrefix: text("key_prefix").notNull(), // First characters of the key, for recognizing it
+  keyHash: text("key_hash").notNull().unique(), // Hex SHA-256 of the full key
+  tier: text("tier").notNull().default("standard"), // Rate limit tier: see API_KEY_TIERS
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
+  revokedAt: integer("revoked_at", { mode: "timestamp" }),
+});
+
+// Terminology base - the preferred zh-TW and zh-CN rendering of English terms, used in
+// translation prompts, search query expansion and translation checks (lib/terminology.ts)
+export const terminology = sqliteTable("terminology", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  en: text("en").notNull().unique(), // e.g. 'turbopump'; all-capital acronyms match case-sensitively
+  zhTw: text("zh_tw").notNull(), // e.g. '渦輪泵'
+  zhCn: text("zh_cn").notNull(), // e.g. '涡轮泵'
+  notes: text("notes"),
+  domain: text("domain"), // e.g. 'propulsion', 'astronomy', 'robotics'
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
+});
+
 // Type exports for TypeScript
 export type Paper = typeof papers.$inferSelect;
 export type NewPaper = typeof papers.$inferInsert;
@@ -139,3 +233,24 @@ export type NewTranslation = typeof translations.$inferInsert;
 
 export type AiUsage = typeof aiUsage.$inferSelect;
 export type NewAiUsage = typeof aiUsage.$inferInsert;
+
+export type AiCacheEntry = typeof aiCache.$inferSelect;
+export type NewAiCacheEntry = typeof aiCache.$inferInsert;
+
+export type AiBudgetReservation = typeof aiBudgetReservations.$inferSelect;
+export type NewAiBudgetReservation = typeof aiBudgetReservations.$inferInsert;
+
+export type AiJob = typeof aiJobs.$inferSelect;
+export type NewAiJob = typeof aiJobs.$inferInsert;
+
+export type CrawlRun = typeof crawlRuns.$inferSelect;
+export type NewCrawlRun = typeof crawlRuns.$inferInsert;
+
+export type CrawlCheckpoint = typeof crawlCheckpoints.$inferSelect;
+export type NewCrawlCheckpoint = typeof crawlCheckpoints.$inferInsert;
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type NewApiKey = typeof apiKeys.$inferInsert;
+
+export type Term = typeof terminology.$inferSelect;
+export type NewTerm = typeof terminology.$inferInsert;
@@ -0,0 +1,93 @@
+import { assertEquals, assertNotEquals } from "jsr:@std/assert@1";
+import type { AiCacheEntry } from "../../db/schema.ts";
+import { aiCacheKey, type AiCacheStore } from "./cache.ts";
+import { sendMessage } from "./client.ts";
+import { createFakeProvider } from "./providers.ts";
+import type { recordUsage } from "./usage.ts";
+
+const base = {
+  purpose: "translate_summary",
+  model: "claude-haiku-4-5-20251001",
+  promptVersion: "1",
+  language: "Traditional Chinese",
+  systemPrompt: "You are a translator.",
+  messages: [{ role: "user" as const, content: "Translate: pulsar" }],
+};
+
+function createMemoryCacheStore() {
+  const entries = new Map<string, AiCacheEntry>();
+  const store: AiCacheStore = {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (entry) entry.hits++;
+      return Promise.resolve(entry ?? null);
+    },
+    peek: (key) => Promise.resolve(entries.get(key) ?? null),
+    set: (entry) => {
+      const now = new Date();
+      entries.set(entry.key, { ...entry, hits: 0, createdAt: now, lastUsedAt: now });
+      return Promise.resolve();
+    },
+    evict: () => Promise.resolve(0),
+  };
+  return { store, entries };
+}
+
+Deno.test("aiCacheKey is stable and changes with every part of the key", async () => {
+  const key = await aiCacheKey(base);
+  assertEquals(key, await aiCacheKey({ ...base }));
+  assertEquals(key.length, 64);
+  for (
+    const changed of [
+      { purpose: "translate_title" },
+      { model: "claude-sonnet-4-5" },
+      { promptVersion: "2" },
+      { language: "Simplified Chinese" },
+      { systemPrompt: "You are a careful translator." },
+      { messages: [{ role: "user" as const, content: "Translate: quasar" }] },
+    ]
+  ) {
+    assertNotEquals(await aiCacheKey({ ...base, ...changed }), key);
+  }
+});
+
+Deno.test("sendMessage answers a repeated cacheable call from the cache", async () => {
+  let calls = 0;
+  const provider = createFakeProvider({
+    respond: () => {
+      calls++;
+      return "脈衝星";
+    },
+  });
+  const { store, entries } = createMemoryCacheStore();
+  const recorded: Array<Parameters<typeof recordUsage>[0]> = [];
+  const deps = {
+    provider,
+    cacheStore: store,
+    recordUsage: (params: Parameters<typeof recordUsage>[0]) => {
+      recorded.push(params);
+      return Promise.resolve();
+    },
+    reserveBudget: () => Promise.resolve({ id: 1, amountUsd: 0 }),
+    releaseBudget: () => Promise.resolve(),
+  };
+  const params = {
+    messages: base.messages,
+    systemPrompt: base.systemPrompt,
+    purpose: base.purpose,
+    cache: { promptVersion: "1", language: base.language },
+  };
+
+  assertEquals(await sendMessage(params, deps), "脈衝星");
+  assertEquals(await sendMessage(params, deps), "脈衝星");
+  assertEquals(calls, 1);
+  assertEquals(recorded.map((r) => r.cache), ["miss", "hit"]);
+  assertEquals(recorded[1].outputTokens, 0);
+  assertEquals([...entries.values()][0].hits, 1);
+
+  // A new prompt version is a different key, and calls without a cache scope bypass it
+  await sendMessage({ ...params, cache: { promptVersion: "2", language: base.language } }, deps);
+  await sendMessage({ ...params, cache: undefined }, deps);
+  assertEquals(calls, 3);
+  assertEquals(recorded.map((r) => r.cache), ["miss", "hit", "miss", undefined]);
+});
@@ -0,0 +1,139 @@
+import { asc, eq, inArray, lt, sql } from "drizzle-orm";
+import { db } from "../../db/client.ts";
+import { aiCache, type AiCacheEntry } from "../../db/schema.ts";
+import type { Message } from "./providers.ts";
+
+const DEFAULT_TTL_DAYS = 180;
+const DEFAULT_MAX_ENTRIES = 100_000;
+
+/** AI_CACHE=off disables the cache (every call goes to the provider). */
+export function isAiCacheEnabled(): boolean {
+  return (Deno.env.get("AI_CACHE") ?? "").trim().toLowerCase() !== "off";
+}
+
+function positiveEnvNumber(name: string, fallback: number): number {
+  const parsed = Number(Deno.env.get(name));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** What a cached response depends on besides its input. */
+export interface AiCacheScope {
+  /** Prompt version of the purpose (lib/ai/routing.ts); bumping it invalidates old entries. */
+  promptVersion: string;
+  /** Target language of the output, e.g. "en" or "Traditional Chinese". */
+  language?: string;
+}
+
+/** SHA-256 (hex) of purpose, model, prompt version, input (system prompt + messages) and language. */
+export async function aiCacheKey(params: {
+  purpose: string;
+  model: string;
+  promptVersion: string;
+  language?: string;
+  systemPrompt?: string;
+  messages: Message[];
+}): Promise<string> {
+  const material = JSON.stringify([
+    params.purpose,
+    params.model,
+    params.promptVersion,
+    params.language ?? "",
+    params.systemPrompt ?? "",
+    params.messages.map((m) => [m.role, m.content]),
+  ]);
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(material));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Cache persistence used by sendMessage; injectable so tests can run without a database. */
+export interface AiCacheStore {
+  /** The cached response for a key, counting the hit; null on a miss. */
+  get(key: string): Promise<AiCacheEntry | null>;
+  /** Like get, but without counting a hit (for cost estimates). */
+  peek(key: string): Promise<AiCacheEntry | null>;
+  set(entry: {
+    key: string;
+    purpose: string;
+    model: string;
+    promptVersion: string;
+    response: string;
+    costUsd: number;
+  }): Promise<void>;
+  /**
+   * Drop entries not used for `ttlDays`, then the least recently used ones beyond `maxEntries`.
+   * Returns the number of entries removed.
+   */
+  evict(options?: { ttlDays?: number; maxEntries?: number }): Promise<number>;
+}
+
+export function createAiCacheStore(database: typeof db = db): AiCacheStore {
+  return {
+    async get(key) {
+      const entry = await database.query.aiCache.findFirst({ where: eq(aiCache.key, key) });
+      if (!entry) return null;
+      const now = new Date();
+      await database
+        .update(aiCache)
+        .set({ hits: sql`${aiCache.hits} + 1`, lastUsedAt: now })
+        .where(eq(aiCache.key, key));
+      return { ...entry, hits: entry.hits + 1, lastUsedAt: now };
+    },
+
+    async peek(key) {
+      return (await database.query.aiCache.findFirst({ where: eq(aiCache.key, key) })) ?? null;
+    },
+
+    async set(entry) {
+      const now = new Date();
+      await database
+        .insert(aiCache)
+        .values({ ...entry, createdAt: now, lastUsedAt: now })
+        .onConflictDoUpdate({
+          target: aiCache.key,
+          set: { response: entry.response, costUsd: entry.costUsd, lastUsedAt: now },
+        });
+    },
+
+    async evict(options) {
+      const ttlDays = options?.ttlDays ?? positiveEnvNumber("AI_CACHE_TTL_DAYS", DEFAULT_TTL_DAYS);
+      const maxEntries = options?.maxEntries ??
+        positiveEnvNumber("AI_CACHE_MAX_ENTRIES", DEFAULT_MAX_ENTRIES);
+
+      const cutoff = new Date(Date.now() - ttlDays * 86400 * 1000);
+      const expired = await database.delete(aiCache).where(lt(aiCache.lastUsedAt, cutoff));
+      let removed = expired.rowsAffected;
+
+      const [row] = await database.select({ count: sql<number>`count(*)` }).from(aiCache);
+      const excess = Number(row?.count ?? 0) - maxEntries;
+      if (excess > 0) {
+        const oldest = database
+          .select({ key: aiCache.key })
+          .from(aiCache)
+          .orderBy(asc(aiCache.lastUsedAt))
+          .limit(excess);
+        const result = await database.delete(aiCache).where(inArray(aiCache.key, oldest));
+        removed += result.rowsAffected;
+      }
+      return removed;
+    },
+  };
+}
+
+export const aiCacheStore = createAiCacheStore();
+
+export interface AiCacheStats {
+  /** Entries currently cached. */
+  entries: number;
+  /** Estimated USD the current entries have saved across all their hits. */
+  savedUsd: number;
+}
+
+export async function getAiCacheStats(database: typeof db = db): Promise<AiCacheStats> {
+  const [row] = await database
+    .select({
+      entries: sql<number>`count(*)`,
+      savedUsd: sql<number>`coalesce(sum(${aiCache.hits} * ${aiCache.costUsd}), 0)`,
+    })
+    .from(aiCache);
+  return { entries: Number(row?.entries ?? 0), savedUsd: Number(row?.savedUsd ?? 0) };
+}
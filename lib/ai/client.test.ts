@@ -0,0 +1,66 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert@1";
+import { sendMessage, type SendMessageDeps } from "./client.ts";
+import { createFakeProvider, type LlmProvider } from "./providers.ts";
+import { BudgetExceededError, type BudgetReservation, type recordUsage } from "./usage.ts";
+
+const client = { id: "key:7", dailyBudgetUsd: 0.05 };
+const params = {
+  messages: [{ role: "user" as const, content: "What is a pulsar?" }],
+  purpose: "ask_library",
+  client,
+};
+
+function budgetDeps(provider: LlmProvider) {
+  const log: string[] = [];
+  const recorded: Array<Parameters<typeof recordUsage>[0]> = [];
+  const deps: SendMessageDeps = {
+    provider,
+    recordUsage: (usage) => {
+      recorded.push(usage);
+      log.push("record");
+      return Promise.resolve();
+    },
+    reserveBudget: (scope) => {
+      log.push(`reserve ${scope.purpose} ${scope.client?.id}`);
+      return Promise.resolve({ id: 3, amountUsd: scope.amountUsd });
+    },
+    releaseBudget: (reservation: BudgetReservation) => {
+      log.push(`release ${reservation.id}`);
+      return Promise.resolve();
+    },
+  };
+  return { deps, log, recorded };
+}
+
+Deno.test("sendMessage reserves budget before the call and settles it with the usage", async () => {
+  const { deps, log, recorded } = budgetDeps(createFakeProvider({ respond: () => "A star." }));
+  assertEquals(await sendMessage(params, deps), "A star.");
+  assertEquals(log, ["reserve ask_library key:7", "record"]);
+  assertEquals(recorded[0].client, "key:7");
+  assertEquals(recorded[0].reservation?.id, 3);
+});
+
+Deno.test("sendMessage releases the reservation when the call fails", async () => {
+  const provider = createFakeProvider({
+    respond: () => {
+      throw new Error("server down");
+    },
+  });
+  const { deps, log } = budgetDeps(provider);
+  await assertRejects(() => sendMessage(params, deps), Error, "server down");
+  assertEquals(log, ["reserve ask_library key:7", "release 3"]);
+});
+
+Deno.test("sendMessage does not call the model when no budget can be reserved", async () => {
+  let called = false;
+  const provider = createFakeProvider({
+    respond: () => {
+      called = true;
+      return "";
+    },
+  });
+  const { deps } = budgetDeps(provider);
+  deps.reserveBudget = () => Promise.reject(new BudgetExceededError(0.05, 0.05, "client:key:7"));
+  await assertRejects(() => sendMessage(params, deps), BudgetExceededError);
+  assertEquals(called, false);
+});
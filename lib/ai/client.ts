@@ -1,110 +1,213 @@
-import Anthropic from "@anthropic-ai/sdk";
-import { recordUsage } from "./usage.ts";
+import {
+  aiCacheKey,
+  type AiCacheScope,
+  type AiCacheStore,
+  aiCacheStore,
+  isAiCacheEnabled,
+} from "./cache.ts";
+import { estimateCostUsd, estimateTokens } from "./pricing.ts";
+import {
+  getLlmProvider,
+  type LlmProvider,
+  type LlmProviderName,
+  type LlmRequest,
+  type LlmUsage,
+  type Message,
+} from "./providers.ts";
+import { type BudgetClient, recordUsage, releaseBudget, reserveBudget } from "./usage.ts";
 
-// Lazy initialization to allow importing without env vars (for tests)
-let _anthropic: Anthropic | null = null;
+export type { Message } from "./providers.ts";
 
-function getAnthropic(): Anthropic {
-  if (!_anthropic) {
-    const apiKey = Deno.env.get("ANTHROPIC_API_KEY");
-    if (!apiKey) {
-      throw new Error("ANTHROPIC_API_KEY is not set");
-    }
-    _anthropic = new Anthropic({ apiKey });
-  }
-  return _anthropic;
-}
-
-export const anthropic = new Proxy({} as Anthropic, {
-  get(_, prop) {
-    return Reflect.get(getAnthropic(), prop);
-  },
-});
-
-// Use ANTHROPIC_MODEL in .env to override. Defaults to Haiku 4.5 - cheap and
-// strong enough for the summarize/translate workload this app runs.
-export const DEFAULT_MODEL =
-  Deno.env.get("ANTHROPIC_MODEL") || "claude-haiku-4-5-20251001";
+// The backend (Anthropic, an OpenAI-compatible server or the offline fake) is picked with
+// LLM_PROVIDER; see providers.ts. Each provider has its own default model.
 export const MAX_TOKENS = 4096;
 
-export type Message = {
-  role: "user" | "assistant";
-  content: string;
-};
-
-export async function sendMessage(params: {
+function buildRequest(params: {
   messages: Message[];
   model?: string;
   maxTokens?: number;
   temperature?: number;
   systemPrompt?: string;
-  purpose?: string;
-}): Promise<string> {
-  const model = params.model || DEFAULT_MODEL;
-  try {
-    const response = await anthropic.messages.create({
-      model,
-      max_tokens: params.maxTokens || MAX_TOKENS,
-      temperature: params.temperature || 0.7,
-      system: params.systemPrompt,
-      messages: params.messages,
+  signal?: AbortSignal;
+}, defaultModel: string): LlmRequest {
+  return {
+    messages: params.messages,
+    model: params.model || defaultModel,
+    maxTokens: params.maxTokens || MAX_TOKENS,
+    temperature: params.temperature || 0.7,
+    systemPrompt: params.systemPrompt,
+    signal: params.signal,
+  };
+}
+
+/** Worst-case cost of a request (estimated input, full output allowance), reserved up front. */
+function maxCostUsd(request: LlmRequest, provider: LlmProviderName): number {
+  const input = [request.systemPrompt ?? "", ...request.messages.map((m) => m.content)].join("\n");
+  return estimateCostUsd(request.model, estimateTokens(input), request.maxTokens, provider);
+}
+
+/** Optional dependencies for testing (when provided, used instead of the real provider/db). */
+export interface SendMessageDeps {
+  provider?: LlmProvider;
+  cacheStore?: AiCacheStore;
+  recordUsage?: typeof recordUsage;
+  reserveBudget?: typeof reserveBudget;
+  releaseBudget?: typeof releaseBudget;
+}
+
+/**
+ * Complete a conversation. With `cache`, an identical earlier call (same purpose, model, prompt
+ * version, input and language) is answered from the AI result cache without calling the model.
+ * Otherwise the call's worst-case cost is reserved against the budget caps first (charged to
+ * `client` when set), so it throws BudgetExceededError instead of overshooting a cap.
+ */
+export async function sendMessage(
+  params: {
+    messages: Message[];
+    model?: string;
+    maxTokens?: number;
+    temperature?: number;
+    systemPrompt?: string;
+    purpose?: string;
+    cache?: AiCacheScope;
+    client?: BudgetClient;
+    /** Content type of the item a pipeline call processes, for cost per item. */
+    itemType?: string;
+    /** Aborts the model call; its budget reservation is released. */
+    signal?: AbortSignal;
+  },
+  deps?: SendMessageDeps,
+): Promise<string> {
+  const provider = deps?.provider ?? getLlmProvider();
+  const cacheStore_ = deps?.cacheStore ?? aiCacheStore;
+  const recordUsage_ = deps?.recordUsage ?? recordUsage;
+  const reserveBudget_ = deps?.reserveBudget ?? reserveBudget;
+  const releaseBudget_ = deps?.releaseBudget ?? releaseBudget;
+  const request = buildRequest(params, provider.defaultModel);
+  const purpose = params.purpose ?? "unknown";
+
+  const key = params.cache && isAiCacheEnabled()
+    ? await aiCacheKey({
+      purpose,
+      model: request.model,
+      promptVersion: params.cache.promptVersion,
+      language: params.cache.language,
+      systemPrompt: request.systemPrompt,
+      messages: request.messages,
+    })
+    : null;
+
+  if (key) {
+    const cached = await cacheStore_.get(key).catch((error) => {
+      console.warn("⚠️  AI cache lookup failed (non-fatal):", error);
+      return null;
     });
+    if (cached) {
+      await recordUsage_({
+        provider: provider.name,
+        model: request.model,
+        purpose,
+        inputTokens: 0,
+        outputTokens: 0,
+        cache: "hit",
+        itemType: params.itemType,
+      });
+      return cached.response;
+    }
+  }
 
-    await recordUsage({
-      model,
-      purpose: params.purpose ?? "unknown",
-      inputTokens: response.usage.input_tokens,
-      outputTokens: response.usage.output_tokens,
+  const reservation = await reserveBudget_({
+    purpose,
+    client: params.client,
+    amountUsd: maxCostUsd(request, provider.name),
+  });
+
+  try {
+    const { text, usage } = await provider.complete(request);
+
+    await recordUsage_({
+      provider: provider.name,
+      model: request.model,
+      purpose,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cache: key ? "miss" : undefined,
+      client: params.client?.id,
+      itemType: params.itemType,
+      reservation,
     });
 
-    const content = response.content[0];
-    if (content.type === "text") {
-      return content.text;
+    if (key) {
+      await cacheStore_.set({
+        key,
+        purpose,
+        model: request.model,
+        promptVersion: params.cache!.promptVersion,
+        response: text,
+        costUsd: estimateCostUsd(
+          request.model,
+          usage.inputTokens,
+          usage.outputTokens,
+          provider.name,
+        ),
+      }).catch((error) => console.warn("⚠️  AI cache write failed (non-fatal):", error));
     }
 
-    throw new Error("Unexpected response type from Claude");
+    return text;
   } catch (error) {
-    console.error("Error sending message to Claude:", error);
+    // Only the call itself can fail here: recording usage and caching never throw
+    await releaseBudget_(reservation);
+    console.error(`Error sending message to ${provider.name}:`, error);
     throw error;
   }
 }
 
+/** Stream a completion; budget reservation and settlement work as in sendMessage. */
 export async function streamMessage(params: {
   messages: Message[];
   model?: string;
   maxTokens?: number;
   temperature?: number;
   systemPrompt?: string;
+  purpose?: string;
+  client?: BudgetClient;
   onChunk?: (text: string) => void;
 }): Promise<string> {
+  const provider = getLlmProvider();
+  const request = buildRequest(params, provider.defaultModel);
+  const purpose = params.purpose ?? "unknown";
+  const reservation = await reserveBudget({
+    purpose,
+    client: params.client,
+    amountUsd: maxCostUsd(request, provider.name),
+  });
+  let usage: LlmUsage = { inputTokens: 0, outputTokens: 0 };
   try {
-    const stream = await anthropic.messages.create({
-      model: params.model || DEFAULT_MODEL,
-      max_tokens: params.maxTokens || MAX_TOKENS,
-      temperature: params.temperature || 0.7,
-      system: params.systemPrompt,
-      messages: params.messages,
-      stream: true,
+    const result = await provider.stream(request, {
+      onText: (text) => params.onChunk?.(text),
+      onUsage: (latest) => {
+        usage = latest;
+      },
     });
-
-    let fullResponse = "";
-
-    for await (const event of stream) {
-      if (
-        event.type === "content_block_delta" &&
-        event.delta.type === "text_delta"
-      ) {
-        const text = event.delta.text;
-        fullResponse += text;
-        if (params.onChunk) {
-          params.onChunk(text);
-        }
-      }
-    }
-
-    return fullResponse;
+    usage = result.usage;
+    return result.text;
   } catch (error) {
-    console.error("Error streaming message from Claude:", error);
+    console.error(`Error streaming message from ${provider.name}:`, error);
     throw error;
+  } finally {
+    // Also when the stream breaks off: the tokens streamed so far are billed
+    if (usage.inputTokens > 0 || usage.outputTokens > 0) {
+      await recordUsage({
+        provider: provider.name,
+        model: request.model,
+        purpose,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        client: params.client?.id,
+        reservation,
+      });
+    } else {
+      await releaseBudget(reservation);
+    }
   }
 }
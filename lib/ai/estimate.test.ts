@@ -0,0 +1,90 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import type { AiCacheEntry } from "../../db/schema.ts";
+import type { AiCacheStore } from "./cache.ts";
+import { createCostEstimator } from "./estimate.ts";
+import { MAX_INPUT_CHARS } from "./processor.ts";
+import { createFakeProvider, type LlmProvider, setLlmProvider } from "./providers.ts";
+
+// Priced like Anthropic's default model, but never calls the network
+const provider: LlmProvider = {
+  ...createFakeProvider(),
+  name: "anthropic",
+  defaultModel: "claude-haiku-4-5-20251001",
+};
+
+/** A cache that answers every lookup with `response`, or misses when it is undefined. */
+function cacheStore(response?: string): AiCacheStore {
+  const entry = response === undefined ? null : ({ response } as AiCacheEntry);
+  return {
+    get: () => Promise.resolve(entry),
+    peek: () => Promise.resolve(entry),
+    set: () => Promise.resolve(),
+    evict: () => Promise.resolve(0),
+  };
+}
+
+Deno.test("cost estimator prices every pipeline call and counts budget-days", async () => {
+  setLlmProvider(provider);
+  try {
+    const estimator = createCostEstimator({ provider, cacheStore: cacheStore(), budgetUsd: 0.01 });
+    const item = {
+      text: "Dust grains stick together.",
+      title: "Pebbles",
+      sourceType: "paper",
+    } as const;
+    await estimator.addItem(item);
+    await estimator.addItem(item);
+    const estimate = estimator.result();
+
+    assertEquals(estimate.items, 2);
+    assertEquals(estimate.provider, "anthropic");
+    assertEquals(Object.keys(estimate.byPurpose), [
+      "summarize",
+      "translate_title",
+      "translate_summary",
+    ]);
+    assertEquals(estimate.byPurpose.summarize?.calls, 2);
+    assertEquals(estimate.byPurpose.summarize?.outputTokens, 1100);
+    assertEquals(estimate.byPurpose.translate_title?.outputTokens, 80);
+
+    const total = Object.values(estimate.byPurpose).reduce((sum, p) => sum + p.costUsd, 0);
+    assertEquals(estimate.totalUsd, total);
+    assertEquals(estimate.budgetDays, Math.ceil(total / 0.01));
+  } finally {
+    setLlmProvider(null);
+  }
+});
+
+Deno.test("cost estimator applies the input truncation limit", async () => {
+  setLlmProvider(provider);
+  try {
+    const inputTokens = async (length: number) => {
+      const estimator = createCostEstimator({ provider, cacheStore: cacheStore(), budgetUsd: 1 });
+      await estimator.addItem({ text: "x".repeat(length), title: "T", sourceType: "video" });
+      return estimator.result().byPurpose.summarize?.inputTokens;
+    };
+    assertEquals(await inputTokens(MAX_INPUT_CHARS * 2), await inputTokens(MAX_INPUT_CHARS * 3));
+  } finally {
+    setLlmProvider(null);
+  }
+});
+
+Deno.test("cost estimator counts cached calls as free", async () => {
+  setLlmProvider(provider);
+  try {
+    const estimator = createCostEstimator({
+      provider,
+      cacheStore: cacheStore("A cached summary."),
+      budgetUsd: 1,
+    });
+    await estimator.addItem({ text: "Dust.", title: "Pebbles", sourceType: "article" });
+    const estimate = estimator.result();
+
+    assertEquals(estimate.byPurpose.summarize?.cachedCalls, 1);
+    assertEquals(estimate.byPurpose.summarize?.costUsd, 0);
+    assertEquals(estimate.totalUsd, 0);
+    assertEquals(estimate.budgetDays, 0);
+  } finally {
+    setLlmProvider(null);
+  }
+});
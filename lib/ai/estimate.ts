@@ -0,0 +1,156 @@
+/**
+ * Cost forecasts for reindex and crawl runs (`--estimate`). Builds the same pipeline calls as
+ * processMultilingualContent without sending them, counts their tokens and prices them with
+ * estimateCostUsd. Calls already in the AI result cache are counted as free.
+ */
+import { getTerminology } from "../terminology.ts";
+import { aiCacheKey, type AiCacheStore, aiCacheStore, isAiCacheEnabled } from "./cache.ts";
+import { estimateCostUsd, estimateTokens } from "./pricing.ts";
+import {
+  MODEL_TRANSLATED_LANGUAGE,
+  type PipelineCall,
+  summarizeCall,
+  translateSummaryCall,
+  translateTitleCall,
+} from "./processor.ts";
+import { getLlmProvider, type LlmProvider } from "./providers.ts";
+import { type AiPurpose, resolveRoute } from "./routing.ts";
+import { getDailyBudgetUsd } from "./usage.ts";
+
+/** Output tokens assumed per call, since the real output is only known after the call. */
+export const ASSUMED_OUTPUT_TOKENS: Partial<Record<AiPurpose, number>> = {
+  summarize: 550, // 200-350 English words
+  translate_title: 40,
+  translate_summary: 900, // Chinese needs more tokens than the English summary
+};
+
+export interface PurposeEstimate {
+  calls: number;
+  /** Calls the AI result cache would answer at no cost. */
+  cachedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface CostEstimate {
+  items: number;
+  provider: string;
+  byPurpose: Partial<Record<AiPurpose, PurposeEstimate>>;
+  totalUsd: number;
+  budgetUsd: number;
+  /** UTC days the run needs at the full daily budget (at least 1 when it costs anything). */
+  budgetDays: number;
+}
+
+export interface CostEstimator {
+  /** Count the calls processMultilingualContent would make for one item. */
+  addItem(input: {
+    text: string;
+    title: string;
+    sourceType: "paper" | "video" | "article";
+  }): Promise<void>;
+  result(): CostEstimate;
+}
+
+export interface CostEstimatorDeps {
+  provider?: LlmProvider;
+  cacheStore?: AiCacheStore;
+  budgetUsd?: number;
+}
+
+export function createCostEstimator(deps?: CostEstimatorDeps): CostEstimator {
+  const provider = deps?.provider ?? getLlmProvider();
+  const cacheStore_ = deps?.cacheStore ?? aiCacheStore;
+  const budgetUsd = deps?.budgetUsd ?? getDailyBudgetUsd();
+  const useCache = isAiCacheEnabled();
+
+  let items = 0;
+  const byPurpose: Partial<Record<AiPurpose, PurposeEstimate>> = {};
+
+  // Count one call; returns the cached response when the cache would answer it
+  async function count(call: PipelineCall): Promise<string | null> {
+    const route = resolveRoute(call.purpose);
+    const stats = byPurpose[call.purpose] ??= {
+      calls: 0,
+      cachedCalls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+    };
+    stats.calls++;
+
+    if (useCache) {
+      const key = await aiCacheKey({
+        purpose: call.purpose,
+        model: route.model,
+        promptVersion: route.promptVersion,
+        language: call.language,
+        systemPrompt: call.systemPrompt,
+        messages: [{ role: "user", content: call.prompt }],
+      });
+      const cached = await cacheStore_.peek(key).catch(() => null);
+      if (cached) {
+        stats.cachedCalls++;
+        return cached.response;
+      }
+    }
+
+    const inputTokens = estimateTokens(call.systemPrompt) + estimateTokens(call.prompt);
+    const outputTokens = Math.min(call.maxTokens, ASSUMED_OUTPUT_TOKENS[call.purpose] ?? 0);
+    stats.inputTokens += inputTokens;
+    stats.outputTokens += outputTokens;
+    stats.costUsd += estimateCostUsd(route.model, inputTokens, outputTokens, provider.name);
+    return null;
+  }
+
+  return {
+    async addItem(input) {
+      items++;
+      const language = MODEL_TRANSLATED_LANGUAGE.name;
+      const terms = await getTerminology();
+      const summary = await count(summarizeCall(input));
+      await count(translateTitleCall(input.title, language, terms));
+      // The summary is unknown until it is generated: translate a stand-in of the assumed size
+      const standIn = "x".repeat((ASSUMED_OUTPUT_TOKENS.summarize ?? 0) * 4);
+      await count(translateSummaryCall(summary?.trim() ?? standIn, language, terms));
+    },
+
+    result() {
+      const totalUsd = Object.values(byPurpose).reduce((sum, p) => sum + p.costUsd, 0);
+      return {
+        items,
+        provider: provider.name,
+        byPurpose,
+        totalUsd,
+        budgetUsd,
+        budgetDays: totalUsd > 0 ? Math.ceil(totalUsd / budgetUsd) : 0,
+      };
+    },
+  };
+}
+
+/** Human-readable per-purpose breakdown for the `--estimate` modes of scripts and workers. */
+export function formatCostEstimate(estimate: CostEstimate): string {
+  const n = (value: number) => value.toLocaleString("en-US");
+  const lines = [
+    `💰 Cost estimate for ${n(estimate.items)} items (${estimate.provider}, tokens approximate)`,
+    "",
+    `  ${"purpose".padEnd(20)}${"calls".padStart(8)}${"cached".padStart(8)}` +
+    `${"input tok".padStart(12)}${"output tok".padStart(12)}${"cost".padStart(11)}`,
+  ];
+  for (const [purpose, p] of Object.entries(estimate.byPurpose)) {
+    lines.push(
+      `  ${purpose.padEnd(20)}${n(p.calls).padStart(8)}${n(p.cachedCalls).padStart(8)}` +
+        `${n(p.inputTokens).padStart(12)}${n(p.outputTokens).padStart(12)}` +
+        `${("$" + p.costUsd.toFixed(4)).padStart(11)}`,
+    );
+  }
+  lines.push(
+    `  ${"total".padEnd(60)}${("$" + estimate.totalUsd.toFixed(4)).padStart(11)}`,
+    "",
+    `Daily budget $${estimate.budgetUsd.toFixed(2)} (AI_DAILY_BUDGET_USD): ` +
+      `${estimate.budgetDays} budget-day${estimate.budgetDays === 1 ? "" : "s"} needed`,
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,263 @@
+import { and, asc, desc, eq, gte, inArray, lt, lte, or, sql } from "drizzle-orm";
+import { db } from "../../db/client.ts";
+import { type AiJob, aiJobs } from "../../db/schema.ts";
+import type { AiProvenance } from "./routing.ts";
+
+export type AiJobItemType = "paper" | "video" | "nasa";
+
+export type AiJobStatus = "pending" | "running" | "done" | "dead";
+
+/** Claim order (higher first): today's APOD, then fresh papers and videos, then the rest. */
+export const AI_JOB_PRIORITY = {
+  apod: 30,
+  arxiv: 20,
+  video: 20,
+  ntrs: 10,
+  nasaLibrary: 10,
+  backfill: 0,
+  reprocess: -10,
+} as const;
+
+/** Failed attempts before a job is dead-lettered. Budget stops do not count as attempts. */
+export const MAX_AI_JOB_ATTEMPTS = 5;
+
+const RETRY_BASE_MS = 5 * 60 * 1000;
+const RETRY_MAX_MS = 24 * 60 * 60 * 1000;
+
+// A job still 'running' after this long belongs to a worker that died mid-item
+const STALE_RUNNING_MS = 60 * 60 * 1000;
+
+const MAX_ERROR_LENGTH = 1000;
+
+const ITEM_TABLES: Array<[AiJobItemType, string]> = [
+  ["paper", "papers"],
+  ["video", "videos"],
+  ["nasa", "nasa_content"],
+];
+
+/** Backoff after `attempts` failures: 5 min, 10 min, 20 min, ... capped at one day. */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/** Queue AI processing for a row the crawler just inserted with `processed = false`. */
+export async function enqueueAiJob(
+  job: { itemType: AiJobItemType; itemId: string; priority: number },
+  database: typeof db = db,
+): Promise<void> {
+  await database.insert(aiJobs).values(job);
+}
+
+/**
+ * Queue every unprocessed row that has no job yet (rows from before the queue existed, or
+ * whose job was deleted). Returns the number of jobs created.
+ */
+export async function enqueueUnprocessedItems(database: typeof db = db): Promise<number> {
+  let created = 0;
+  for (const [itemType, table] of ITEM_TABLES) {
+    const result = await database.run(sql`
+      INSERT INTO ai_jobs (item_type, item_id, priority)
+      SELECT ${itemType}, t.id, ${AI_JOB_PRIORITY.backfill} FROM ${sql.raw(table)} t
+      WHERE t.processed = 0
+        AND NOT EXISTS (SELECT 1 FROM ai_jobs j WHERE j.item_type = ${itemType} AND j.item_id = t.id)
+    `);
+    created += result.rowsAffected;
+  }
+  return created;
+}
+
+export interface OutdatedItemsOptions {
+  /** Current provenance of base summaries and translations (see currentProvenance). */
+  expected: { summary: AiProvenance; translation: AiProvenance };
+  /** Also match items processed before provenance was recorded (a full reindex). */
+  includeUnstamped?: boolean;
+}
+
+// Processed rows whose summary, or any non-English translation, came from another model or prompt
+function outdatedCondition(itemType: AiJobItemType, options: OutdatedItemsOptions) {
+  const { summary, translation } = options.expected;
+  const unstamped = options.includeUnstamped ? 1 : 0;
+  return sql`t.processed = 1 AND (
+    (t.summary_model IS NULL AND ${unstamped} = 1)
+    OR t.summary_model != ${summary.model}
+    OR t.summary_prompt_version != ${summary.promptVersion}
+    OR EXISTS (
+      SELECT 1 FROM translations tr
+      WHERE tr.item_type = ${itemType} AND tr.item_id = t.id AND tr.lang != 'en' AND (
+        (tr.model IS NULL AND ${unstamped} = 1)
+        OR tr.model != ${translation.model}
+        OR tr.prompt_version != ${translation.promptVersion}
+      )
+    )
+  )`;
+}
+
+/** Number of processed items per type whose AI outputs are outdated. */
+export async function countOutdatedItems(
+  options: OutdatedItemsOptions,
+  database: typeof db = db,
+): Promise<Record<AiJobItemType, number>> {
+  const counts: Record<AiJobItemType, number> = { paper: 0, video: 0, nasa: 0 };
+  for (const [itemType, table] of ITEM_TABLES) {
+    const outdated = outdatedCondition(itemType, options);
+    const [row] = await database.all<{ count: number }>(
+      sql`SELECT count(*) AS count FROM ${sql.raw(table)} t WHERE ${outdated}`,
+    );
+    counts[itemType] = Number(row?.count ?? 0);
+  }
+  return counts;
+}
+
+/**
+ * Queue reprocessing for items whose AI outputs are outdated, skipping items that already have
+ * a pending or running job. Returns the number of jobs created.
+ */
+export async function enqueueOutdatedItems(
+  options: OutdatedItemsOptions,
+  database: typeof db = db,
+): Promise<number> {
+  let created = 0;
+  for (const [itemType, table] of ITEM_TABLES) {
+    const result = await database.run(sql`
+      INSERT INTO ai_jobs (item_type, item_id, priority)
+      SELECT ${itemType}, t.id, ${AI_JOB_PRIORITY.reprocess} FROM ${sql.raw(table)} t
+      WHERE ${outdatedCondition(itemType, options)}
+        AND NOT EXISTS (
+          SELECT 1 FROM ai_jobs j
+          WHERE j.item_type = ${itemType} AND j.item_id = t.id AND j.status IN ('pending', 'running')
+        )
+    `);
+    created += result.rowsAffected;
+  }
+  return created;
+}
+
+/**
+ * Items the queue would process, in claim order: pending and running jobs, then unprocessed
+ * rows without a job (which the worker backfills before draining). Used for cost estimates.
+ */
+export async function listQueuedItems(
+  limit: number,
+  database: typeof db = db,
+): Promise<Array<{ itemType: AiJobItemType; itemId: string }>> {
+  const unqueued = ITEM_TABLES.map(([itemType, table]) =>
+    sql`SELECT ${itemType} AS item_type, t.id AS item_id, ${AI_JOB_PRIORITY.backfill} AS priority
+      FROM ${sql.raw(table)} t
+      WHERE t.processed = 0
+        AND NOT EXISTS (SELECT 1 FROM ai_jobs j WHERE j.item_type = ${itemType} AND j.item_id = t.id)`
+  );
+  const rows = await database.all<{ item_type: AiJobItemType; item_id: string }>(sql`
+    SELECT item_type, item_id, priority FROM ai_jobs WHERE status IN ('pending', 'running')
+    UNION ALL ${sql.join(unqueued, sql` UNION ALL `)}
+    ORDER BY priority DESC
+    LIMIT ${limit}
+  `);
+  return rows.map((row) => ({ itemType: row.item_type, itemId: row.item_id }));
+}
+
+/** Job persistence used by the queue worker; injectable so tests can run without a database. */
+export interface AiJobStore {
+  /** Take the highest-priority job that is due, or null when nothing is due. */
+  claimNext(): Promise<AiJob | null>;
+  complete(job: AiJob): Promise<void>;
+  /**
+   * Record a failed attempt: back off and retry, or dead-letter after MAX_AI_JOB_ATTEMPTS.
+   * `permanent` failures (e.g. the row is gone) are dead-lettered immediately.
+   */
+  fail(job: AiJob, error: unknown, options?: { permanent?: boolean }): Promise<AiJobStatus>;
+  /** Put a claimed job back untouched, e.g. when the daily budget stops the worker. */
+  release(job: AiJob): Promise<void>;
+}
+
+export function createAiJobStore(database: typeof db = db): AiJobStore {
+  return {
+    async claimNext() {
+      const now = new Date();
+      const stale = and(
+        eq(aiJobs.status, "running"),
+        lt(aiJobs.updatedAt, new Date(now.getTime() - STALE_RUNNING_MS)),
+      );
+      // A stale job's worker died mid-item (e.g. out of memory), which counts as an attempt;
+      // dead-letter it rather than let an item that kills workers be retried forever
+      await database
+        .update(aiJobs)
+        .set({
+          status: "dead",
+          attempts: sql`${aiJobs.attempts} + 1`,
+          lastError: "Worker stopped while processing the job",
+          updatedAt: now,
+        })
+        .where(and(stale, gte(aiJobs.attempts, MAX_AI_JOB_ATTEMPTS - 1)));
+
+      // Select and claim in one statement, so two workers cannot claim the same job
+      const due = or(and(eq(aiJobs.status, "pending"), lte(aiJobs.runAfter, now)), stale);
+      const next = database
+        .select({ id: aiJobs.id })
+        .from(aiJobs)
+        .where(due)
+        .orderBy(desc(aiJobs.priority), asc(aiJobs.id))
+        .limit(1);
+      const [job] = await database
+        .update(aiJobs)
+        .set({
+          status: "running",
+          attempts: sql`CASE WHEN ${aiJobs.status} = 'running' THEN ${aiJobs.attempts} + 1
+            ELSE ${aiJobs.attempts} END`,
+          updatedAt: now,
+        })
+        .where(and(inArray(aiJobs.id, next), due))
+        .returning();
+      return job ?? null;
+    },
+
+    async complete(job) {
+      await database
+        .update(aiJobs)
+        .set({ status: "done", lastError: null, updatedAt: new Date() })
+        .where(eq(aiJobs.id, job.id));
+    },
+
+    async fail(job, error, options) {
+      const attempts = job.attempts + 1;
+      const status: AiJobStatus = options?.permanent || attempts >= MAX_AI_JOB_ATTEMPTS
+        ? "dead"
+        : "pending";
+      const now = Date.now();
+      await database
+        .update(aiJobs)
+        .set({
+          status,
+          attempts,
+          runAfter: new Date(now + retryDelayMs(attempts)),
+          lastError: String(error).slice(0, MAX_ERROR_LENGTH),
+          updatedAt: new Date(now),
+        })
+        .where(eq(aiJobs.id, job.id));
+      return status;
+    },
+
+    async release(job) {
+      await database
+        .update(aiJobs)
+        .set({ status: "pending", updatedAt: new Date() })
+        .where(eq(aiJobs.id, job.id));
+    },
+  };
+}
+
+export const aiJobStore = createAiJobStore();
+
+/** Number of jobs per status, for monitoring the queue. */
+export async function getAiQueueSummary(
+  database: typeof db = db,
+): Promise<Record<AiJobStatus, number>> {
+  const rows = await database
+    .select({ status: aiJobs.status, count: sql<number>`count(*)` })
+    .from(aiJobs)
+    .groupBy(aiJobs.status);
+  const summary: Record<AiJobStatus, number> = { pending: 0, running: 0, done: 0, dead: 0 };
+  for (const row of rows) {
+    if (row.status in summary) summary[row.status as AiJobStatus] = Number(row.count);
+  }
+  return summary;
+}
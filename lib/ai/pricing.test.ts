@@ -1,5 +1,5 @@
 import { assertEquals } from "jsr:@std/assert@1";
-import { estimateCostUsd } from "./pricing.ts";
+import { estimateCostUsd, estimateTokens } from "./pricing.ts";
 
 Deno.test("pricing: Haiku 4.5 costs $1/$5 per MTok", () => {
   const cost = estimateCostUsd("claude-haiku-4-5-20251001", 1_000_000, 1_000_000);
@@ -25,3 +25,27 @@ Deno.test("pricing: matches by prefix regardless of dated snapshot suffix", () =
   const alias = estimateCostUsd("claude-haiku-4-5", 1_000_000, 0);
   assertEquals(dated, alias);
 });
+
+Deno.test("pricing: the fake provider is free", () => {
+  assertEquals(estimateCostUsd("fake-llm", 1_000_000, 1_000_000, "fake"), 0);
+});
+
+Deno.test("pricing: OpenAI-compatible servers use LLM_PRICE_PER_MTOK, free when unset", () => {
+  const previous = Deno.env.get("LLM_PRICE_PER_MTOK");
+  try {
+    Deno.env.delete("LLM_PRICE_PER_MTOK");
+    assertEquals(estimateCostUsd("llama-3.1-8b", 1_000_000, 1_000_000, "openai"), 0);
+    Deno.env.set("LLM_PRICE_PER_MTOK", "0.2,0.6");
+    assertEquals(estimateCostUsd("llama-3.1-8b", 1_000_000, 1_000_000, "openai"), 0.8);
+  } finally {
+    if (previous === undefined) Deno.env.delete("LLM_PRICE_PER_MTOK");
+    else Deno.env.set("LLM_PRICE_PER_MTOK", previous);
+  }
+});
+
+Deno.test("pricing: estimateTokens counts CJK characters singly and other text by four", () => {
+  assertEquals(estimateTokens(""), 0);
+  assertEquals(estimateTokens("a pulsar"), 2);
+  assertEquals(estimateTokens("脈衝星"), 3);
+  assertEquals(estimateTokens("脈衝星 pulsar"), 5);
+});
@@ -1,3 +1,5 @@
+import type { LlmProviderName } from "./providers.ts";
+
 /** USD price per million tokens, keyed by model ID prefix (checked longest-match first). */
 const PRICING_PER_MTOK: { prefix: string; input: number; output: number }[] = [
   { prefix: "claude-haiku-4-5", input: 1, output: 5 },
@@ -11,13 +13,45 @@ const PRICING_PER_MTOK: { prefix: string; input: number; output: number }[] = [
 /** Fallback price if a model isn't in the table above (assume the expensive tier). */
 const FALLBACK_PRICING = { input: 5, output: 25 };
 
-function getPricing(model: string): { input: number; output: number } {
+/** No charge: a local server or the offline fake. */
+const FREE_PRICING = { input: 0, output: 0 };
+
+/**
+ * Price of an OpenAI-compatible server, from LLM_PRICE_PER_MTOK="input,output" (USD per million
+ * tokens). Unset means a self-hosted model, which costs nothing per token.
+ */
+function getOpenAiCompatiblePricing(): { input: number; output: number } {
+  const [input, output] = (Deno.env.get("LLM_PRICE_PER_MTOK") ?? "").split(",").map(Number);
+  if (!Number.isFinite(input) || input < 0) return FREE_PRICING;
+  return { input, output: Number.isFinite(output) && output >= 0 ? output : input };
+}
+
+function getPricing(provider: LlmProviderName, model: string): { input: number; output: number } {
+  if (provider === "fake") return FREE_PRICING;
+  if (provider === "openai") return getOpenAiCompatiblePricing();
   const match = PRICING_PER_MTOK.find((p) => model.startsWith(p.prefix));
   return match ?? FALLBACK_PRICING;
 }
 
-/** Estimate the USD cost of a single Claude API call from its token usage. */
-export function estimateCostUsd(model: string, inputTokens: number, outputTokens: number): number {
-  const pricing = getPricing(model);
+/** Estimate the USD cost of a single LLM call from its token usage. */
+export function estimateCostUsd(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+  provider: LlmProviderName = "anthropic",
+): number {
+  const pricing = getPricing(provider, model);
   return (inputTokens / 1_000_000) * pricing.input + (outputTokens / 1_000_000) * pricing.output;
 }
+
+const CJK_PATTERN = /[\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]/g;
+
+/**
+ * Approximate token count: about one token per CJK character and four characters per token
+ * for everything else. Good enough for cost forecasts and budget reservations; no tokenizer
+ * is needed.
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
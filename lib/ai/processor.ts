@@ -1,5 +1,16 @@
 import * as OpenCC from "opencc-js";
+import {
+  checkTerminology,
+  findEnglishTerms,
+  getTerminology,
+  glossaryFor,
+  type TermEntry,
+  type TermIssue,
+  type TermLocale,
+} from "../terminology.ts";
 import { sendMessage } from "./client.ts";
+import type { AiJobItemType } from "./jobs.ts";
+import { type AiPurpose, type AiProvenance, currentProvenance, resolveRoute } from "./routing.ts";
 import { checkBudget } from "./usage.ts";
 
 let _twToCn: ((text: string) => string) | null = null;
@@ -8,6 +19,23 @@ function twToCn(text: string): string {
   return _twToCn(text);
 }
 
+/**
+ * zh-TW → zh-CN. OpenCC converts the script but not the vocabulary, so where the converted zh-TW
+ * rendering of a source term differs from its zh-CN rendering (酬載 → 酬载, not 有效载荷), the
+ * preferred zh-CN term is swapped in. A rendering that is also another term's zh-CN rendering is
+ * left alone.
+ */
+function toZhCn(text: string, sourceTerms: TermEntry[]): string {
+  let converted = twToCn(text);
+  const zhCnTerms = new Set(sourceTerms.map((term) => term.zhCn));
+  const swaps = sourceTerms
+    .map((term) => ({ from: twToCn(term.zhTw), to: term.zhCn }))
+    .filter(({ from, to }) => from !== to && !zhCnTerms.has(from) && !to.includes(from))
+    .sort((a, b) => b.from.length - a.from.length);
+  for (const { from, to } of swaps) converted = converted.replaceAll(from, to);
+  return converted;
+}
+
 /** Supported content languages for summaries/translations (aligned with i18n locales). */
 export const SUPPORTED_LANGUAGES = [
   { code: "en", name: "English" },
@@ -15,6 +43,9 @@ export const SUPPORTED_LANGUAGES = [
   { code: "zh-CN", name: "Simplified Chinese" },
 ] as const;
 
+/** The only language translated by the model; zh-CN is converted from it with OpenCC. */
+export const MODEL_TRANSLATED_LANGUAGE = SUPPORTED_LANGUAGES.find((l) => l.code === "zh-TW")!;
+
 export interface ProcessingResult {
   summary: string;
   translation?: string;
@@ -25,10 +56,16 @@ export interface MultilingualTranslation {
   lang: string;
   title: string;
   summary: string;
+  /** Model and prompt version that produced this title/summary (stored with the translation). */
+  provenance: AiProvenance;
+  /** Source terms not rendered the preferred way (lib/terminology.ts); zh translations only. */
+  terminologyIssues?: TermIssue[];
 }
 
 export interface ProcessMultilingualResult {
   baseSummary: string;
+  /** Model and prompt version that produced baseSummary. */
+  summaryProvenance: AiProvenance;
   translations: MultilingualTranslation[];
 }
 
@@ -77,12 +114,9 @@ TRANSLATION RULES (STRICT):
    - Keep original: "von Braun", "錢學森 (Qian Xuesen)" → keep as-is
 
 2. TECHNICAL TERMS & PROPER NOUNS
-   - Translate the term, then append the original in parentheses on FIRST mention
-   - Examples:
-     • "turbopump" → 「渦輪泵（turbopump）」
-     • "regenerative cooling" → 「再生冷卻（regenerative cooling）」
-     • "SpaceX Starship" → 「SpaceX 星艦（Starship）」
-     • "NASA NTRS" → 「NASA 技術報告伺服器（NTRS）」
+   - Translate the term, then append the original in parentheses on FIRST mention,
+     e.g. "turbopump" → 「渦輪泵（turbopump）」
+   - When a TERMINOLOGY list is given, render those terms exactly as listed
 
 3. PRESERVE STRUCTURE
    - Maintain the 4-part structure: Purpose, Methodology, Findings, Implications
@@ -96,12 +130,38 @@ TRANSLATION RULES (STRICT):
    - For Traditional Chinese: use 「」for quotations, maintain technical register
    - For Simplified Chinese: use ""for quotations, follow mainland conventions`;
 
-export async function summarizeText(params: {
+type SourceType = "paper" | "video" | "article";
+
+/** Item type (as in ai_jobs and ai_usage) of each source type; NASA items are articles. */
+const SOURCE_ITEM_TYPE: Record<SourceType, AiJobItemType> = {
+  paper: "paper",
+  video: "video",
+  article: "nasa",
+};
+
+/** Longest source text sent for summarizing; the rest is cut off. */
+export const MAX_INPUT_CHARS = 15000;
+
+/**
+ * One model call of the summarize/translate pipeline exactly as it is sent. Cost estimates
+ * (estimate.ts) build the same calls, so they count the same prompts and truncation.
+ */
+export interface PipelineCall {
+  purpose: AiPurpose;
+  systemPrompt: string;
+  prompt: string;
+  /** Language of the output; part of the AI cache key. */
+  language: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export function summarizeCall(params: {
   text: string;
   title: string;
   sourceType: "paper" | "video" | "article";
   maxLength?: number;
-}): Promise<string> {
+}): PipelineCall {
   const { text, title, sourceType, maxLength } = params;
 
   const sourceLabel = {
@@ -110,7 +170,6 @@ export async function summarizeText(params: {
     article: "article or news item",
   }[sourceType];
 
-  const MAX_INPUT_CHARS = 15000;
   const prompt = `Analyze and summarize this ${sourceLabel}:
 
 TITLE: "${title}"
@@ -128,16 +187,91 @@ ${maxLength ? `Target length: approximately ${maxLength} words.` : "Keep concise
 
 Optimize for semantic search by including relevant technical keywords.`;
 
-  try {
-    const summary = await sendMessage({
-      messages: [{ role: "user", content: prompt }],
-      systemPrompt: SUMMARIZE_SYSTEM_PROMPT,
-      temperature: 0.7,
-      maxTokens: 1024,
-      purpose: "summarize",
-    });
+  return {
+    purpose: "summarize",
+    systemPrompt: SUMMARIZE_SYSTEM_PROMPT,
+    prompt,
+    language: "English",
+    temperature: 0.7,
+    maxTokens: 1024,
+  };
+}
+
+// Terminology locale of a target language; only Simplified Chinese uses the zh-CN renderings
+function termLocale(targetLanguage: string): TermLocale {
+  const code = SUPPORTED_LANGUAGES.find((l) => l.name === targetLanguage)?.code;
+  return code === "zh-CN" ? "zh-CN" : "zh-TW";
+}
+
+// Glossary of the terms in `text`, followed by a blank line; "" when none occur
+function terminologyBlock(text: string, targetLanguage: string, terms: TermEntry[]): string {
+  const glossary = glossaryFor(text, termLocale(targetLanguage), terms);
+  return glossary ? `${glossary}\n\n` : "";
+}
+
+export function translateSummaryCall(
+  summary: string,
+  targetLanguage: string,
+  terms: TermEntry[] = [],
+): PipelineCall {
+  const prompt = `Translate the following astronomy/space science summary to ${targetLanguage}:
+
+${terminologyBlock(summary, targetLanguage, terms)}${summary}`;
+
+  return {
+    purpose: "translate_summary",
+    systemPrompt: TRANSLATE_SYSTEM_PROMPT,
+    prompt,
+    language: targetLanguage,
+    temperature: 0.5,
+    maxTokens: 1024,
+  };
+}
+
+export function translateTitleCall(
+  text: string,
+  targetLanguage: string,
+  terms: TermEntry[] = [],
+): PipelineCall {
+  const prompt = `Translate the following astronomy/space science title or short text to ${targetLanguage}. Return only the translation, no explanation.
+
+${terminologyBlock(text, targetLanguage, terms)}${text}`;
+
+  return {
+    purpose: "translate_title",
+    systemPrompt: TRANSLATE_SYSTEM_PROMPT,
+    prompt,
+    language: targetLanguage,
+    temperature: 0.3,
+    maxTokens: 256,
+  };
+}
 
-    return summary.trim();
+// Send a pipeline call with its purpose's routed model, through the AI result cache. The item
+// type is recorded with the usage, for cost per processed item.
+async function sendPipelineCall(call: PipelineCall, itemType?: AiJobItemType): Promise<string> {
+  const route = resolveRoute(call.purpose);
+  const response = await sendMessage({
+    messages: [{ role: "user", content: call.prompt }],
+    systemPrompt: call.systemPrompt,
+    model: route.model,
+    temperature: call.temperature,
+    maxTokens: call.maxTokens,
+    purpose: call.purpose,
+    cache: { promptVersion: route.promptVersion, language: call.language },
+    itemType,
+  });
+  return response.trim();
+}
+
+export async function summarizeText(params: {
+  text: string;
+  title: string;
+  sourceType: "paper" | "video" | "article";
+  maxLength?: number;
+}): Promise<string> {
+  try {
+    return await sendPipelineCall(summarizeCall(params), SOURCE_ITEM_TYPE[params.sourceType]);
   } catch (error) {
     console.error("Error summarizing text:", error);
     throw error;
@@ -147,23 +281,14 @@ Optimize for semantic search by including relevant technical keywords.`;
 export async function translateSummary(params: {
   summary: string;
   targetLanguage: string;
+  itemType?: AiJobItemType;
 }): Promise<string> {
-  const { summary, targetLanguage } = params;
-
-  const prompt = `Translate the following astronomy/space science summary to ${targetLanguage}:
-
-${summary}`;
-
   try {
-    const translation = await sendMessage({
-      messages: [{ role: "user", content: prompt }],
-      systemPrompt: TRANSLATE_SYSTEM_PROMPT,
-      temperature: 0.5,
-      maxTokens: 1024,
-      purpose: "translate_summary",
-    });
-
-    return translation.trim();
+    const terms = await getTerminology();
+    return await sendPipelineCall(
+      translateSummaryCall(params.summary, params.targetLanguage, terms),
+      params.itemType,
+    );
   } catch (error) {
     console.error("Error translating summary:", error);
     throw error;
@@ -171,28 +296,25 @@ ${summary}`;
 }
 
 /** Translate a short text (e.g. title) to the target language. */
-export async function translateText(text: string, targetLanguage: string): Promise<string> {
-  const prompt = `Translate the following astronomy/space science title or short text to ${targetLanguage}. Return only the translation, no explanation.
-
-${text}`;
-
+export async function translateText(
+  text: string,
+  targetLanguage: string,
+  itemType?: AiJobItemType,
+): Promise<string> {
   try {
-    const translation = await sendMessage({
-      messages: [{ role: "user", content: prompt }],
-      systemPrompt: TRANSLATE_SYSTEM_PROMPT,
-      temperature: 0.3,
-      maxTokens: 256,
-      purpose: "translate_title",
-    });
-
-    return translation.trim();
+    const terms = await getTerminology();
+    return await sendPipelineCall(translateTitleCall(text, targetLanguage, terms), itemType);
   } catch (error) {
     console.error("Error translating text:", error);
     throw error;
   }
 }
 
-export async function extractKeyPoints(text: string, count = 5): Promise<string[]> {
+export async function extractKeyPoints(
+  text: string,
+  count = 5,
+  itemType?: AiJobItemType,
+): Promise<string[]> {
   const prompt = `Extract the ${count} most important technical keywords and key concepts from this aerospace/space science content.
 
 Focus on:
@@ -206,12 +328,16 @@ ${text.slice(0, 30000)}
 
 Return only a numbered list of key terms/concepts, each 1-5 words, optimized for search indexing.`;
 
+  const route = resolveRoute("extract_key_points");
   try {
     const response = await sendMessage({
       messages: [{ role: "user", content: prompt }],
       systemPrompt: SUMMARIZE_SYSTEM_PROMPT,
+      model: route.model,
       temperature: 0.5,
       purpose: "extract_key_points",
+      cache: { promptVersion: route.promptVersion, language: "English" },
+      itemType,
     });
 
     // Parse numbered list into array
@@ -255,13 +381,14 @@ export async function processContent(params: {
     result.translation = await translateSummary({
       summary,
       targetLanguage: translateTo,
+      itemType: SOURCE_ITEM_TYPE[sourceType],
     });
     console.log(`Translation to ${translateTo} completed`);
   }
 
   // Extract key points if requested
   if (shouldExtractKeyPoints) {
-    result.keyPoints = await extractKeyPoints(text);
+    result.keyPoints = await extractKeyPoints(text, 5, SOURCE_ITEM_TYPE[sourceType]);
     console.log(`Extracted ${result.keyPoints.length} key points`);
   }
 
@@ -280,6 +407,7 @@ export async function processMultilingualContent(params: {
 
   await checkBudget();
 
+  const provenance = currentProvenance();
   const baseSummary = await summarizeText({
     text,
     title,
@@ -288,17 +416,55 @@ export async function processMultilingualContent(params: {
 
   // Only zh-TW is translated via the API; zh-CN is derived from it with OpenCC
   // (deterministic script conversion, no extra API call/cost).
-  const zhTw = SUPPORTED_LANGUAGES.find((l) => l.code === "zh-TW")!;
-  const zhTwTitle = await translateText(title, zhTw.name);
-  const zhTwSummary = await translateSummary({ summary: baseSummary, targetLanguage: zhTw.name });
+  const zhTw = MODEL_TRANSLATED_LANGUAGE;
+  const itemType = SOURCE_ITEM_TYPE[sourceType];
+  const zhTwTitle = await translateText(title, zhTw.name, itemType);
+  const zhTwSummary = await translateSummary({
+    summary: baseSummary,
+    targetLanguage: zhTw.name,
+    itemType,
+  });
+
+  const source = `${title}\n${baseSummary}`;
+  const sourceTerms = findEnglishTerms(source, await getTerminology());
+  const zhCnTitle = toZhCn(zhTwTitle, sourceTerms);
+  const zhCnSummary = toZhCn(zhTwSummary, sourceTerms);
 
   const translations: MultilingualTranslation[] = [
-    { lang: "en", title, summary: baseSummary },
-    { lang: "zh-TW", title: zhTwTitle, summary: zhTwSummary },
-    { lang: "zh-CN", title: twToCn(zhTwTitle), summary: twToCn(zhTwSummary) },
+    { lang: "en", title, summary: baseSummary, provenance: provenance.summary },
+    {
+      lang: "zh-TW",
+      title: zhTwTitle,
+      summary: zhTwSummary,
+      provenance: provenance.translation,
+      terminologyIssues: checkTerminology({
+        source,
+        translation: `${zhTwTitle}\n${zhTwSummary}`,
+        locale: "zh-TW",
+        terms: sourceTerms,
+      }),
+    },
+    {
+      lang: "zh-CN",
+      title: zhCnTitle,
+      summary: zhCnSummary,
+      provenance: provenance.translation,
+      terminologyIssues: checkTerminology({
+        source,
+        translation: `${zhCnTitle}\n${zhCnSummary}`,
+        locale: "zh-CN",
+        terms: sourceTerms,
+      }),
+    },
   ];
+  for (const t of translations) {
+    if (t.terminologyIssues?.length) {
+      const list = t.terminologyIssues.map((i) => `${i.en} → ${i.expected}`).join(", ");
+      console.warn(`Terminology (${t.lang}): preferred terms missing: ${list}`);
+    }
+  }
 
-  return { baseSummary, translations };
+  return { baseSummary, summaryProvenance: provenance.summary, translations };
 }
 
 export async function answerQuestion(params: {
@@ -315,12 +481,15 @@ ${context.slice(0, 40000)}
 
 Question: ${question}`;
 
+  const route = resolveRoute("answer_question");
   try {
     const answer = await sendMessage({
       messages: [{ role: "user", content: prompt }],
       systemPrompt,
+      model: route.model,
       temperature: 0.7,
       purpose: "answer_question",
+      cache: { promptVersion: route.promptVersion },
     });
 
     return answer.trim();
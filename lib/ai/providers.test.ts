@@ -0,0 +1,114 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert@1";
+import {
+  createFakeProvider,
+  createOpenAiCompatibleProvider,
+  isLlmProviderName,
+  type LlmRequest,
+} from "./providers.ts";
+
+const request: LlmRequest = {
+  messages: [{ role: "user", content: "What is a pulsar?\nAnswer briefly." }],
+  model: "test-model",
+  maxTokens: 100,
+  temperature: 0,
+  systemPrompt: "You are an astronomy assistant.",
+};
+
+function sseBody(events: unknown[]): ReadableStream<Uint8Array> {
+  const text = events.map((e) => `data: ${typeof e === "string" ? e : JSON.stringify(e)}\n\n`)
+    .join("");
+  // Split mid-line to exercise buffering across chunks
+  const bytes = new TextEncoder().encode(text);
+  const cut = Math.floor(bytes.length / 2);
+  return ReadableStream.from([bytes.slice(0, cut), bytes.slice(cut)]);
+}
+
+Deno.test("fake provider: deterministic answers and streamed words", async () => {
+  const provider = createFakeProvider();
+  const first = await provider.complete(request);
+  const second = await provider.complete(request);
+  assertEquals(first, second);
+  assertEquals(first.text, "Fake answer to: What is a pulsar?");
+
+  const chunks: string[] = [];
+  const usages: number[] = [];
+  const streamed = await provider.stream(request, {
+    onText: (text) => chunks.push(text),
+    onUsage: (usage) => usages.push(usage.outputTokens),
+  });
+  assertEquals(chunks.join(""), first.text);
+  assertEquals(chunks.length > 1, true);
+  assertEquals(streamed.usage, first.usage);
+  assertEquals(usages, [first.usage.outputTokens]);
+});
+
+Deno.test("openai-compatible provider: completes through /chat/completions", async () => {
+  let url = "";
+  let body: Record<string, unknown> = {};
+  const provider = createOpenAiCompatibleProvider({
+    baseUrl: "http://llm.local/v1/",
+    apiKey: "secret",
+    fetch: (input, init) => {
+      url = String(input);
+      body = JSON.parse(String(init?.body));
+      assertEquals((init?.headers as Record<string, string>).Authorization, "Bearer secret");
+      return Promise.resolve(Response.json({
+        choices: [{ message: { content: "A spinning neutron star." } }],
+        usage: { prompt_tokens: 20, completion_tokens: 6 },
+      }));
+    },
+  });
+
+  const result = await provider.complete(request);
+  assertEquals(url, "http://llm.local/v1/chat/completions");
+  assertEquals(body.messages, [
+    { role: "system", content: "You are an astronomy assistant." },
+    ...request.messages,
+  ]);
+  assertEquals(body.max_tokens, 100);
+  assertEquals(result, {
+    text: "A spinning neutron star.",
+    usage: { inputTokens: 20, outputTokens: 6 },
+  });
+});
+
+Deno.test("openai-compatible provider: streams deltas and the final usage", async () => {
+  const provider = createOpenAiCompatibleProvider({
+    fetch: (_input, init) => {
+      assertEquals(JSON.parse(String(init?.body)).stream, true);
+      return Promise.resolve(
+        new Response(sseBody([
+          { choices: [{ delta: { content: "A spinning " } }] },
+          { choices: [{ delta: { content: "neutron star." } }] },
+          { choices: [], usage: { prompt_tokens: 20, completion_tokens: 6 } },
+          "[DONE]",
+        ])),
+      );
+    },
+  });
+
+  const chunks: string[] = [];
+  const result = await provider.stream(request, {
+    onText: (text) => chunks.push(text),
+    onUsage: () => {},
+  });
+  assertEquals(chunks, ["A spinning ", "neutron star."]);
+  assertEquals(result, {
+    text: "A spinning neutron star.",
+    usage: { inputTokens: 20, outputTokens: 6 },
+  });
+});
+
+Deno.test("openai-compatible provider: surfaces server errors", async () => {
+  const provider = createOpenAiCompatibleProvider({
+    fetch: () => Promise.resolve(new Response("model not loaded", { status: 503 })),
+  });
+  await assertRejects(() => provider.complete(request), Error, "LLM server returned 503");
+});
+
+Deno.test("isLlmProviderName accepts only known providers", () => {
+  assertEquals(isLlmProviderName("anthropic"), true);
+  assertEquals(isLlmProviderName("openai"), true);
+  assertEquals(isLlmProviderName("fake"), true);
+  assertEquals(isLlmProviderName("gemini"), false);
+});
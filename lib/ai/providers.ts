@@ -0,0 +1,300 @@
+/**
+ * Pluggable LLM backends behind sendMessage/streamMessage (see client.ts).
+ *
+ * - anthropic: the Anthropic API (ANTHROPIC_API_KEY, ANTHROPIC_MODEL)
+ * - openai: any OpenAI-compatible chat completions server, e.g. llama.cpp or vLLM running
+ *   locally (LLM_BASE_URL, LLM_MODEL, optional LLM_API_KEY)
+ * - fake: deterministic canned answers with no network, for development and tests
+ */
+import Anthropic from "@anthropic-ai/sdk";
+
+export type LlmProviderName = "anthropic" | "openai" | "fake";
+
+export type Message = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+export interface LlmRequest {
+  messages: Message[];
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  systemPrompt?: string;
+  /** Aborts the call, e.g. when the client that asked for it has gone away. */
+  signal?: AbortSignal;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmResult {
+  text: string;
+  usage: LlmUsage;
+}
+
+/** Handlers for a streamed completion; `onUsage` may fire several times with running totals. */
+export interface LlmStreamHandlers {
+  onText(text: string): void;
+  onUsage(usage: LlmUsage): void;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  /** Model used when the caller does not pick one. */
+  readonly defaultModel: string;
+  complete(request: LlmRequest): Promise<LlmResult>;
+  stream(request: LlmRequest, handlers: LlmStreamHandlers): Promise<LlmResult>;
+}
+
+// Haiku 4.5 - cheap and strong enough for the summarize/translate workload this app runs
+export const DEFAULT_ANTHROPIC_MODEL = "claude-haiku-4-5-20251001";
+export const DEFAULT_OPENAI_BASE_URL = "http://localhost:8080/v1";
+export const FAKE_MODEL = "fake-llm";
+
+/** The Anthropic Messages API. The SDK client is created on first use, so importing needs no key. */
+export function createAnthropicProvider(options?: {
+  apiKey?: string;
+  model?: string;
+}): LlmProvider {
+  let client: Anthropic | null = null;
+  function getClient(): Anthropic {
+    if (!client) {
+      if (!options?.apiKey) {
+        throw new Error("ANTHROPIC_API_KEY is not set");
+      }
+      client = new Anthropic({ apiKey: options.apiKey });
+    }
+    return client;
+  }
+
+  return {
+    name: "anthropic",
+    defaultModel: options?.model || DEFAULT_ANTHROPIC_MODEL,
+    async complete(request) {
+      const response = await getClient().messages.create({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: request.systemPrompt,
+        messages: request.messages,
+      }, { signal: request.signal });
+      const content = response.content[0];
+      if (content?.type !== "text") {
+        throw new Error("Unexpected response type from Claude");
+      }
+      return {
+        text: content.text,
+        usage: {
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens,
+        },
+      };
+    },
+    async stream(request, handlers) {
+      const stream = await getClient().messages.create({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: request.systemPrompt,
+        messages: request.messages,
+        stream: true,
+      }, { signal: request.signal });
+      let text = "";
+      const usage: LlmUsage = { inputTokens: 0, outputTokens: 0 };
+      for await (const event of stream) {
+        if (event.type === "message_start") {
+          usage.inputTokens = event.message.usage.input_tokens;
+          usage.outputTokens = event.message.usage.output_tokens;
+          handlers.onUsage({ ...usage });
+        } else if (event.type === "message_delta") {
+          usage.outputTokens = event.usage.output_tokens;
+          handlers.onUsage({ ...usage });
+        } else if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+          text += event.delta.text;
+          handlers.onText(event.delta.text);
+        }
+      }
+      return { text, usage };
+    },
+  };
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null }; message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+}
+
+function openAiUsage(usage: ChatCompletionChunk["usage"]): LlmUsage {
+  return { inputTokens: usage?.prompt_tokens ?? 0, outputTokens: usage?.completion_tokens ?? 0 };
+}
+
+/**
+ * An OpenAI-compatible `/chat/completions` endpoint. llama.cpp's server, vLLM, Ollama and
+ * LM Studio all speak it, so a local model can stand in for Claude during development.
+ */
+export function createOpenAiCompatibleProvider(options?: {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  fetch?: typeof fetch;
+}): LlmProvider {
+  const baseUrl = (options?.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, "");
+  const fetch_ = options?.fetch ?? fetch;
+
+  async function post(request: LlmRequest, stream: boolean): Promise<Response> {
+    const messages = request.systemPrompt
+      ? [{ role: "system", content: request.systemPrompt }, ...request.messages]
+      : request.messages;
+    const response = await fetch_(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(options?.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+      signal: request.signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`LLM server returned ${response.status}: ${detail.slice(0, 200)}`);
+    }
+    return response;
+  }
+
+  return {
+    name: "openai",
+    defaultModel: options?.model || "local-model",
+    async complete(request) {
+      const body = await (await post(request, false)).json() as ChatCompletionChunk;
+      const text = body.choices?.[0]?.message?.content;
+      if (typeof text !== "string") {
+        throw new Error("Unexpected response from LLM server: no message content");
+      }
+      return { text, usage: openAiUsage(body.usage) };
+    },
+    async stream(request, handlers) {
+      const response = await post(request, true);
+      if (!response.body) throw new Error("LLM server returned no response body");
+      let text = "";
+      let usage: LlmUsage = { inputTokens: 0, outputTokens: 0 };
+      let buffer = "";
+      const decoder = new TextDecoder();
+      const handleLine = (line: string) => {
+        if (!line.startsWith("data:")) return;
+        const data = line.slice(5).trim();
+        if (!data || data === "[DONE]") return;
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          handlers.onText(delta);
+        }
+        if (chunk.usage) {
+          usage = openAiUsage(chunk.usage);
+          handlers.onUsage(usage);
+        }
+      };
+      for await (const bytes of response.body) {
+        buffer += decoder.decode(bytes, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        lines.forEach(handleLine);
+      }
+      handleLine(buffer);
+      return { text, usage };
+    },
+  };
+}
+
+/** Rough token count for backends that report none (about four characters per token). */
+function approxTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Deterministic offline backend. By default it answers with a fixed text naming the start of the
+ * last user message; pass `respond` to script answers in tests.
+ */
+export function createFakeProvider(options?: {
+  respond?: (request: LlmRequest) => string;
+}): LlmProvider {
+  const respond = options?.respond ?? ((request: LlmRequest) => {
+    const last = request.messages.at(-1)?.content ?? "";
+    return `Fake answer to: ${last.split("\n")[0].slice(0, 120)}`;
+  });
+
+  function complete(request: LlmRequest): Promise<LlmResult> {
+    request.signal?.throwIfAborted();
+    const text = respond(request);
+    const prompt = [request.systemPrompt ?? "", ...request.messages.map((m) => m.content)].join(
+      "\n",
+    );
+    return Promise.resolve({
+      text,
+      usage: { inputTokens: approxTokens(prompt), outputTokens: approxTokens(text) },
+    });
+  }
+
+  return {
+    name: "fake",
+    defaultModel: FAKE_MODEL,
+    complete,
+    async stream(request, handlers) {
+      const result = await complete(request);
+      for (const piece of result.text.match(/\S+\s*/g) ?? []) handlers.onText(piece);
+      handlers.onUsage(result.usage);
+      return result;
+    },
+  };
+}
+
+export function isLlmProviderName(value: string): value is LlmProviderName {
+  return value === "anthropic" || value === "openai" || value === "fake";
+}
+
+/** Build a provider by name; reads keys, URLs and model overrides from the environment. */
+export function createLlmProvider(name: LlmProviderName): LlmProvider {
+  switch (name) {
+    case "anthropic":
+      return createAnthropicProvider({
+        apiKey: Deno.env.get("ANTHROPIC_API_KEY") || undefined,
+        model: Deno.env.get("ANTHROPIC_MODEL") || undefined,
+      });
+    case "openai":
+      return createOpenAiCompatibleProvider({
+        baseUrl: Deno.env.get("LLM_BASE_URL") || undefined,
+        apiKey: Deno.env.get("LLM_API_KEY") || undefined,
+        model: Deno.env.get("LLM_MODEL") || undefined,
+      });
+    case "fake":
+      return createFakeProvider();
+  }
+}
+
+let defaultProvider: LlmProvider | null = null;
+
+/** Provider selected by LLM_PROVIDER (default "anthropic"), created once per process. */
+export function getLlmProvider(): LlmProvider {
+  if (!defaultProvider) {
+    const name = (Deno.env.get("LLM_PROVIDER") || "anthropic").trim().toLowerCase();
+    if (!isLlmProviderName(name)) {
+      throw new Error(`Unknown LLM_PROVIDER "${name}" (expected "anthropic", "openai" or "fake")`);
+    }
+    defaultProvider = createLlmProvider(name);
+  }
+  return defaultProvider;
+}
+
+/** Replace the process-wide provider (tests); pass null to re-read LLM_PROVIDER. */
+export function setLlmProvider(provider: LlmProvider | null): void {
+  defaultProvider = provider;
+}
@@ -0,0 +1,42 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { createFakeProvider, setLlmProvider } from "./providers.ts";
+import { AI_ROUTES, currentProvenance, resolveRoute } from "./routing.ts";
+
+Deno.test("routing: models come from AI_MODEL_<PURPOSE>, the table, then the provider", () => {
+  setLlmProvider(createFakeProvider());
+  const previous = Deno.env.get("AI_MODEL_TRANSLATE_TITLE");
+  try {
+    const routes = { ...AI_ROUTES, summarize: { model: "big-model", promptVersion: "3" } };
+    assertEquals(resolveRoute("summarize", routes), { model: "big-model", promptVersion: "3" });
+
+    Deno.env.delete("AI_MODEL_TRANSLATE_TITLE");
+    assertEquals(resolveRoute("translate_title", routes).model, "fake-llm");
+    Deno.env.set("AI_MODEL_TRANSLATE_TITLE", "small-model");
+    assertEquals(resolveRoute("translate_title", routes).model, "small-model");
+  } finally {
+    if (previous === undefined) Deno.env.delete("AI_MODEL_TRANSLATE_TITLE");
+    else Deno.env.set("AI_MODEL_TRANSLATE_TITLE", previous);
+    setLlmProvider(null);
+  }
+});
+
+Deno.test("routing: translation provenance combines the title and summary routes", () => {
+  setLlmProvider(createFakeProvider());
+  try {
+    const routes = {
+      ...AI_ROUTES,
+      summarize: { promptVersion: "2" },
+      translate_title: { model: "small-model", promptVersion: "1" },
+      translate_summary: { promptVersion: "4" },
+    };
+    assertEquals(currentProvenance(routes), {
+      summary: { model: "fake-llm", promptVersion: "summarize@2" },
+      translation: {
+        model: "small-model+fake-llm",
+        promptVersion: "translate_title@1,translate_summary@4",
+      },
+    });
+  } finally {
+    setLlmProvider(null);
+  }
+});
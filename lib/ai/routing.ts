@@ -0,0 +1,73 @@
+/**
+ * Routing table for the summarize/translate pipeline (processor.ts): which model serves each
+ * purpose, and which version of its prompt is current. The model and prompt version that
+ * produced a summary or translation are stored next to it, so `deno task reprocess-outdated`
+ * can redo only the outputs of an older prompt or model.
+ *
+ * Per-purpose model overrides come from AI_MODEL_<PURPOSE>, e.g. AI_MODEL_TRANSLATE_TITLE.
+ */
+import { getLlmProvider } from "./providers.ts";
+
+export type AiPurpose =
+  | "summarize"
+  | "translate_summary"
+  | "translate_title"
+  | "extract_key_points"
+  | "answer_question";
+
+export interface AiRoute {
+  /** Model for this purpose; unset uses the active provider's default model. */
+  model?: string;
+  /** Bump whenever the purpose's prompt changes in processor.ts. */
+  promptVersion: string;
+}
+
+export const AI_ROUTES: Record<AiPurpose, AiRoute> = {
+  summarize: { promptVersion: "1" },
+  translate_summary: { promptVersion: "2" },
+  translate_title: { promptVersion: "2" },
+  extract_key_points: { promptVersion: "1" },
+  answer_question: { promptVersion: "1" },
+};
+
+/** The model and prompt version behind a stored AI output. */
+export interface AiProvenance {
+  model: string;
+  promptVersion: string;
+}
+
+/** Route of a purpose with its model resolved (env override, table entry, provider default). */
+export function resolveRoute(
+  purpose: AiPurpose,
+  routes: Record<AiPurpose, AiRoute> = AI_ROUTES,
+): AiProvenance {
+  const model = Deno.env.get(`AI_MODEL_${purpose.toUpperCase()}`) || routes[purpose].model ||
+    getLlmProvider().defaultModel;
+  return { model, promptVersion: routes[purpose].promptVersion };
+}
+
+/**
+ * Provenance of an output built by one or more purposes, e.g. a translation (title + summary):
+ * the distinct models joined with "+" and `purpose@version` pairs joined with ",".
+ */
+export function provenanceOf(
+  purposes: AiPurpose[],
+  routes: Record<AiPurpose, AiRoute> = AI_ROUTES,
+): AiProvenance {
+  const resolved = purposes.map((purpose) => ({ purpose, ...resolveRoute(purpose, routes) }));
+  return {
+    model: [...new Set(resolved.map((r) => r.model))].join("+"),
+    promptVersion: resolved.map((r) => `${r.purpose}@${r.promptVersion}`).join(","),
+  };
+}
+
+/** What stored base summaries and translations would be stamped with if generated now. */
+export function currentProvenance(routes: Record<AiPurpose, AiRoute> = AI_ROUTES): {
+  summary: AiProvenance;
+  translation: AiProvenance;
+} {
+  return {
+    summary: provenanceOf(["summarize"], routes),
+    translation: provenanceOf(["translate_title", "translate_summary"], routes),
+  };
+}
@@ -0,0 +1,77 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { buildUsageReport, type UsageReportRows } from "./usage-report.ts";
+
+const now = new Date("2026-03-04T12:00:00Z");
+const totals = (costUsd: number) => ({ calls: 1, inputTokens: 100, outputTokens: 50, costUsd });
+
+function rows(overrides: Partial<UsageReportRows> = {}): UsageReportRows {
+  return {
+    daily: [],
+    monthly: [],
+    byPurposeModel: [],
+    itemTypes: [],
+    budgetStopDays: [],
+    ...overrides,
+  };
+}
+
+Deno.test("usage report fills empty days and months with zeros, oldest first", () => {
+  const report = buildUsageReport(
+    rows({
+      daily: [{ day: "2026-03-03", ...totals(0.1) }],
+      monthly: [{ month: "2026-02", ...totals(2) }],
+    }),
+    { days: 3, dailyBudgetUsd: 0.5, monthlyBudgetUsd: null, now },
+  );
+
+  assertEquals(report.daily.map((day) => [day.day, day.costUsd]), [
+    ["2026-03-02", 0],
+    ["2026-03-03", 0.1],
+    ["2026-03-04", 0],
+  ]);
+  assertEquals(report.monthly.length, 12);
+  assertEquals(report.monthly[0].month, "2025-04");
+  assertEquals(report.monthly.slice(-2).map((month) => [month.month, month.costUsd]), [
+    ["2026-02", 2],
+    ["2026-03", 0],
+  ]);
+});
+
+Deno.test("usage report flags days at the cap or stopped by the budget", () => {
+  const report = buildUsageReport(
+    rows({
+      daily: [{ day: "2026-03-02", ...totals(0.5) }, { day: "2026-03-03", ...totals(0.2) }],
+      monthly: [{ month: "2026-03", ...totals(0.7) }],
+      budgetStopDays: ["2026-03-04"],
+    }),
+    { days: 3, dailyBudgetUsd: 0.5, monthlyBudgetUsd: 0.6, now },
+  );
+
+  assertEquals(report.daily.map((day) => day.hitCap), [true, false, true]);
+  assertEquals(report.monthly.at(-1)?.hitCap, true);
+  assertEquals(report.monthly.at(-2)?.hitCap, false);
+});
+
+Deno.test("usage report averages cost per item and what the daily cap pays for", () => {
+  const report = buildUsageReport(
+    rows({
+      itemTypes: [
+        { itemType: "video", items: 2, costUsd: 0.02 },
+        { itemType: "paper", items: 4, costUsd: 0.04 },
+        { itemType: "nasa", items: 0, costUsd: 0.01 },
+      ],
+    }),
+    { days: 30, dailyBudgetUsd: 0.5, monthlyBudgetUsd: null, now },
+  );
+
+  assertEquals(report.costPerItem.map((row) => [row.itemType, row.avgCostUsd]), [
+    ["paper", 0.01],
+    ["video", 0.01],
+  ]);
+  assertEquals(report.itemsPerBudgetDay, 50);
+  assertEquals(
+    buildUsageReport(rows(), { days: 1, dailyBudgetUsd: 0.5, monthlyBudgetUsd: null, now })
+      .itemsPerBudgetDay,
+    null,
+  );
+});
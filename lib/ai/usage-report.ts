@@ -0,0 +1,185 @@
+/**
+ * Spend history for the AI usage admin page (/admin/ai-usage): daily and monthly totals, tokens
+ * per purpose and model, and the average cost of processing one item of each content type.
+ * The queries only group ai_usage rows; buildUsageReport fills the gaps and flags capped days.
+ */
+import { sql } from "drizzle-orm";
+import { db } from "../../db/client.ts";
+import { aiUsage, crawlRuns } from "../../db/schema.ts";
+import { getDailyBudgetUsd, getMonthlyBudgetUsd } from "./usage.ts";
+
+export interface SpendTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface DailySpend extends SpendTotals {
+  /** UTC date, YYYY-MM-DD. */
+  day: string;
+  /** Spend reached the daily cap, or the cap stopped a crawl's AI queue that day. */
+  hitCap: boolean;
+}
+
+export interface MonthlySpend extends SpendTotals {
+  /** UTC month, YYYY-MM. */
+  month: string;
+  hitCap: boolean;
+}
+
+export interface PurposeModelSpend extends SpendTotals {
+  purpose: string;
+  model: string;
+}
+
+export interface ItemTypeCost {
+  itemType: string;
+  /** Items processed: one summarize call per item, cache hits included. */
+  items: number;
+  costUsd: number;
+  avgCostUsd: number;
+}
+
+export interface UsageReport {
+  days: number;
+  dailyBudgetUsd: number;
+  monthlyBudgetUsd: number | null;
+  /** Oldest first, one entry per day of the window, zeros where nothing was spent. */
+  daily: DailySpend[];
+  /** Oldest first, the last 12 months. */
+  monthly: MonthlySpend[];
+  /** Over the window, most expensive first. */
+  byPurposeModel: PurposeModelSpend[];
+  /** Over the window, pipeline calls only. */
+  costPerItem: ItemTypeCost[];
+  /** Items per day the daily budget pays for at the window's average cost per item. */
+  itemsPerBudgetDay: number | null;
+}
+
+/** Grouped rows as the queries return them. */
+export interface UsageReportRows {
+  daily: Array<SpendTotals & { day: string }>;
+  monthly: Array<SpendTotals & { month: string }>;
+  byPurposeModel: PurposeModelSpend[];
+  itemTypes: Array<{ itemType: string; items: number; costUsd: number }>;
+  /** Days (YYYY-MM-DD) on which the budget stopped a crawl's AI queue. */
+  budgetStopDays: string[];
+}
+
+const MONTHS = 12;
+const EMPTY_TOTALS: SpendTotals = { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+
+function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Assemble the report from grouped rows; `now` fixes the window's last day. */
+export function buildUsageReport(
+  rows: UsageReportRows,
+  options: { days: number; dailyBudgetUsd: number; monthlyBudgetUsd: number | null; now?: Date },
+): UsageReport {
+  const now = options.now ?? new Date();
+  const stopped = new Set(rows.budgetStopDays);
+
+  const dailyByDay = new Map(rows.daily.map((row) => [row.day, row]));
+  const daily: DailySpend[] = [];
+  for (let i = options.days - 1; i >= 0; i--) {
+    const day = utcDay(new Date(now.getTime() - i * 86400 * 1000));
+    const totals = dailyByDay.get(day) ?? EMPTY_TOTALS;
+    daily.push({
+      ...EMPTY_TOTALS,
+      ...totals,
+      day,
+      hitCap: totals.costUsd >= options.dailyBudgetUsd || stopped.has(day),
+    });
+  }
+
+  const monthlyByMonth = new Map(rows.monthly.map((row) => [row.month, row]));
+  const monthly: MonthlySpend[] = [];
+  for (let i = MONTHS - 1; i >= 0; i--) {
+    const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1))
+      .toISOString().slice(0, 7);
+    const totals = monthlyByMonth.get(month) ?? EMPTY_TOTALS;
+    monthly.push({
+      ...EMPTY_TOTALS,
+      ...totals,
+      month,
+      hitCap: options.monthlyBudgetUsd !== null && totals.costUsd >= options.monthlyBudgetUsd,
+    });
+  }
+
+  const costPerItem = rows.itemTypes
+    .filter((row) => row.items > 0)
+    .map((row) => ({ ...row, avgCostUsd: row.costUsd / row.items }))
+    .sort((a, b) => a.itemType.localeCompare(b.itemType));
+  const items = costPerItem.reduce((sum, row) => sum + row.items, 0);
+  const itemCost = costPerItem.reduce((sum, row) => sum + row.costUsd, 0);
+
+  return {
+    days: options.days,
+    dailyBudgetUsd: options.dailyBudgetUsd,
+    monthlyBudgetUsd: options.monthlyBudgetUsd,
+    daily,
+    monthly,
+    byPurposeModel: [...rows.byPurposeModel].sort((a, b) => b.costUsd - a.costUsd),
+    costPerItem,
+    itemsPerBudgetDay: itemCost > 0
+      ? Math.floor(options.dailyBudgetUsd / (itemCost / items))
+      : null,
+  };
+}
+
+const totalsColumns = {
+  calls: sql<number>`count(*)`.mapWith(Number),
+  inputTokens: sql<number>`coalesce(sum(${aiUsage.inputTokens}), 0)`.mapWith(Number),
+  outputTokens: sql<number>`coalesce(sum(${aiUsage.outputTokens}), 0)`.mapWith(Number),
+  costUsd: sql<number>`coalesce(sum(${aiUsage.costUsd}), 0)`.mapWith(Number),
+};
+
+/** Usage report over the last `days` UTC days (default 30) and the last 12 months. */
+export async function getUsageReport(
+  options?: { days?: number },
+  database: typeof db = db,
+): Promise<UsageReport> {
+  const days = options?.days ?? 30;
+  const now = new Date();
+  const since = Math.floor(now.getTime() / 1000 / 86400) * 86400 - (days - 1) * 86400;
+  const monthsSince = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (MONTHS - 1), 1) / 1000;
+
+  const day = sql<string>`date(${aiUsage.createdAt}, 'unixepoch')`;
+  const month = sql<string>`strftime('%Y-%m', ${aiUsage.createdAt}, 'unixepoch')`;
+  const inWindow = sql`${aiUsage.createdAt} >= ${since}`;
+
+  const [daily, monthly, byPurposeModel, itemTypes, stops] = await Promise.all([
+    database.select({ day, ...totalsColumns }).from(aiUsage).where(inWindow).groupBy(day),
+    database
+      .select({ month, ...totalsColumns })
+      .from(aiUsage)
+      .where(sql`${aiUsage.createdAt} >= ${monthsSince}`)
+      .groupBy(month),
+    database
+      .select({ purpose: aiUsage.purpose, model: aiUsage.model, ...totalsColumns })
+      .from(aiUsage)
+      .where(inWindow)
+      .groupBy(aiUsage.purpose, aiUsage.model),
+    database
+      .select({
+        itemType: sql<string>`${aiUsage.itemType}`,
+        items: sql<number>`sum(${aiUsage.purpose} = 'summarize')`.mapWith(Number),
+        costUsd: totalsColumns.costUsd,
+      })
+      .from(aiUsage)
+      .where(sql`${inWindow} AND ${aiUsage.itemType} IS NOT NULL`)
+      .groupBy(aiUsage.itemType),
+    database
+      .selectDistinct({ day: sql<string>`date(${crawlRuns.startedAt}, 'unixepoch')` })
+      .from(crawlRuns)
+      .where(sql`${crawlRuns.budgetStopReason} IS NOT NULL AND ${crawlRuns.startedAt} >= ${since}`),
+  ]);
+
+  return buildUsageReport(
+    { daily, monthly, byPurposeModel, itemTypes, budgetStopDays: stops.map((row) => row.day) },
+    { days, dailyBudgetUsd: getDailyBudgetUsd(), monthlyBudgetUsd: getMonthlyBudgetUsd(), now },
+  );
+}
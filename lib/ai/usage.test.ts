@@ -0,0 +1,78 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { budgetBuckets, BudgetExceededError, getClientBudgets } from "./usage.ts";
+
+const ENV = ["AI_DAILY_BUDGET_USD", "AI_MONTHLY_BUDGET_USD", "AI_DAILY_BUDGET_ASK_LIBRARY_USD"];
+
+function withEnv(values: Record<string, string>, fn: () => void) {
+  const previous = ENV.map((name) => [name, Deno.env.get(name)] as const);
+  try {
+    for (const name of ENV) Deno.env.delete(name);
+    for (const [name, value] of Object.entries(values)) Deno.env.set(name, value);
+    fn();
+  } finally {
+    for (const [name, value] of previous) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+  }
+}
+
+Deno.test("budget: only the daily cap applies until others are configured", () => {
+  withEnv({}, () => {
+    const buckets = budgetBuckets({ purpose: "ask_library" });
+    assertEquals(buckets.map((b) => [b.name, b.capUsd]), [["daily", 0.5]]);
+    assertEquals(buckets[0].resetsAt - buckets[0].windowStart, 86400);
+  });
+});
+
+Deno.test("budget: monthly, purpose and client caps join the daily cap", () => {
+  withEnv({
+    AI_DAILY_BUDGET_USD: "2",
+    AI_MONTHLY_BUDGET_USD: "30",
+    AI_DAILY_BUDGET_ASK_LIBRARY_USD: "0.2",
+  }, () => {
+    const client = { id: "key:7", dailyBudgetUsd: 0.05 };
+    const buckets = budgetBuckets({ purpose: "ask_library", client });
+    assertEquals(buckets.map((b) => [b.name, b.capUsd]), [
+      ["daily", 2],
+      ["monthly", 30],
+      ["purpose:ask_library", 0.2],
+      ["client:key:7", 0.05],
+    ]);
+    assertEquals(buckets[2].purpose, "ask_library");
+    assertEquals(buckets[3].client, "key:7");
+    assertEquals(new Date(buckets[1].windowStart * 1000).getUTCDate(), 1);
+
+    // Purposes without a cap of their own share the global caps only
+    assertEquals(budgetBuckets({ purpose: "summarize" }).length, 2);
+  });
+});
+
+Deno.test("budget: BudgetExceededError names the exhausted cap", () => {
+  assertEquals(
+    new BudgetExceededError(0.5, 0.5).message,
+    "Daily AI budget exceeded: $0.5000 spent of $0.50 cap",
+  );
+  const error = new BudgetExceededError(0.06, 0.05, "client:key:7");
+  assertEquals(error.bucket, "client:key:7");
+  assertEquals(error.message, "Daily key:7 AI budget exceeded: $0.0600 spent of $0.05 cap");
+  assertEquals(
+    new BudgetExceededError(31, 30, "monthly").message.startsWith("Monthly AI budget"),
+    true,
+  );
+  assertEquals(
+    new BudgetExceededError(31, 30, "monthly", "2026-11-01T00:00:00.000Z").resetsAt,
+    "2026-11-01T00:00:00.000Z",
+  );
+});
+
+Deno.test("budget: getClientBudgets reports each client's daily headroom", async () => {
+  const database = {
+    get: () => Promise.resolve({ spent: 0.02, reserved: 0.01 }),
+  } as unknown as typeof import("../../db/client.ts").db;
+
+  const [status] = await getClientBudgets([{ id: "key:7", dailyBudgetUsd: 0.05 }], database);
+  assertEquals(status.name, "client:key:7");
+  assertEquals(status.spentUsd, 0.02);
+  assertEquals(status.remainingUsd, 0.05 - 0.02 - 0.01);
+});
@@ -1,110 +1,444 @@
-import { sql } from "drizzle-orm";
+import { and, eq, gt, gte, lte, type SQL, sql } from "drizzle-orm";
 import { db } from "../../db/client.ts";
-import { aiUsage } from "../../db/schema.ts";
+import { aiBudgetReservations, aiUsage } from "../../db/schema.ts";
+import { getAiCacheStats } from "./cache.ts";
 import { estimateCostUsd } from "./pricing.ts";
+import type { LlmProviderName } from "./providers.ts";
 
 const DEFAULT_DAILY_BUDGET_USD = 0.5;
+// A reservation whose caller crashed before settling stops counting after this long
+const RESERVATION_TTL_MS = 10 * 60 * 1000;
 
-function getDailyBudgetUsd(): number {
-  const raw = Deno.env.get("AI_DAILY_BUDGET_USD");
+function envBudgetUsd(name: string): number | null {
+  const raw = Deno.env.get(name);
   const parsed = raw ? Number(raw) : NaN;
-  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_DAILY_BUDGET_USD;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/** AI_DAILY_BUDGET_USD: cap on all AI spend per UTC day. */
+export function getDailyBudgetUsd(): number {
+  return envBudgetUsd("AI_DAILY_BUDGET_USD") ?? DEFAULT_DAILY_BUDGET_USD;
+}
+
+/** AI_MONTHLY_BUDGET_USD: cap on all AI spend per UTC calendar month; unset means none. */
+export function getMonthlyBudgetUsd(): number | null {
+  return envBudgetUsd("AI_MONTHLY_BUDGET_USD");
+}
+
+/** AI_DAILY_BUDGET_<PURPOSE>_USD, e.g. AI_DAILY_BUDGET_ASK_LIBRARY_USD; unset means none. */
+export function getPurposeBudgetUsd(purpose: string): number | null {
+  return envBudgetUsd(`AI_DAILY_BUDGET_${purpose.toUpperCase()}_USD`);
+}
+
+/** Purposes with their own daily cap, from the AI_DAILY_BUDGET_<PURPOSE>_USD variables set. */
+function cappedPurposes(): string[] {
+  return Object.keys(Deno.env.toObject())
+    .map((name) => name.match(/^AI_DAILY_BUDGET_(.+)_USD$/)?.[1]?.toLowerCase())
+    .filter((purpose): purpose is string => !!purpose && getPurposeBudgetUsd(purpose) !== null)
+    .sort();
 }
 
 function startOfTodayUtcUnix(): number {
   return Math.floor(Date.now() / 1000 / 86400) * 86400;
 }
 
+/** Who a user-triggered call is charged to, and that client's own daily cap. */
+export interface BudgetClient {
+  /** Stored in ai_usage.client, e.g. "key:12" for an API key. */
+  id: string;
+  dailyBudgetUsd: number;
+}
+
+/** The caps a call is checked against besides the global ones. */
+export interface BudgetScope {
+  purpose?: string;
+  client?: BudgetClient;
+}
+
+/**
+ * One cap. Usage recorded in its window plus open reservations, filtered by purpose or client
+ * when set, may not reach capUsd.
+ */
+export interface BudgetBucket {
+  /** "daily", "monthly", "purpose:<purpose>" or "client:<id>". */
+  name: string;
+  capUsd: number;
+  /** Current window as unix seconds: [windowStart, resetsAt). */
+  windowStart: number;
+  resetsAt: number;
+  purpose?: string;
+  client?: string;
+}
+
+function dailyWindow(): Pick<BudgetBucket, "windowStart" | "resetsAt"> {
+  const today = startOfTodayUtcUnix();
+  return { windowStart: today, resetsAt: today + 86400 };
+}
+
+function monthlyWindow(): Pick<BudgetBucket, "windowStart" | "resetsAt"> {
+  const now = new Date();
+  return {
+    windowStart: Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1) / 1000,
+    resetsAt: Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1) / 1000,
+  };
+}
+
+function globalBuckets(): BudgetBucket[] {
+  const buckets: BudgetBucket[] = [{
+    name: "daily",
+    capUsd: getDailyBudgetUsd(),
+    ...dailyWindow(),
+  }];
+  const monthly = getMonthlyBudgetUsd();
+  if (monthly !== null) buckets.push({ name: "monthly", capUsd: monthly, ...monthlyWindow() });
+  return buckets;
+}
+
+function purposeBucket(purpose: string): BudgetBucket | null {
+  const capUsd = getPurposeBudgetUsd(purpose);
+  return capUsd === null ? null : { name: `purpose:${purpose}`, capUsd, ...dailyWindow(), purpose };
+}
+
+function clientBucket(client: BudgetClient): BudgetBucket {
+  return {
+    name: `client:${client.id}`,
+    capUsd: client.dailyBudgetUsd,
+    ...dailyWindow(),
+    client: client.id,
+  };
+}
+
+/** Every cap that applies to a call in this scope. */
+export function budgetBuckets(scope?: BudgetScope): BudgetBucket[] {
+  const buckets = globalBuckets();
+  const purpose = scope?.purpose ? purposeBucket(scope.purpose) : null;
+  if (purpose) buckets.push(purpose);
+  if (scope?.client) buckets.push(clientBucket(scope.client));
+  return buckets;
+}
+
+function bucketLabel(bucket: string): string {
+  if (bucket === "daily") return "Daily";
+  if (bucket === "monthly") return "Monthly";
+  return `Daily ${bucket.slice(bucket.indexOf(":") + 1)}`;
+}
+
 export class BudgetExceededError extends Error {
-  constructor(spentUsd: number, budgetUsd: number) {
+  /** Name of the exhausted BudgetBucket. */
+  readonly bucket: string;
+  /** ISO time that cap's window resets, when known. */
+  readonly resetsAt?: string;
+
+  constructor(spentUsd: number, budgetUsd: number, bucket = "daily", resetsAt?: string) {
     super(
-      `Daily AI budget exceeded: $${spentUsd.toFixed(4)} spent of $${budgetUsd.toFixed(2)} cap`,
+      `${bucketLabel(bucket)} AI budget exceeded: ` +
+        `$${spentUsd.toFixed(4)} spent of $${budgetUsd.toFixed(2)} cap`,
     );
     this.name = "BudgetExceededError";
+    this.bucket = bucket;
+    this.resetsAt = resetsAt;
   }
 }
 
-// In-memory cache so a long-running crawler daemon doesn't hammer the DB once
-// the cap is hit; it self-invalidates at UTC day rollover.
-let cachedExceededDay: number | null = null;
+// In-memory cache so a long-running crawler daemon doesn't hammer the DB once a global cap
+// is hit; it self-invalidates when that cap's window resets. Purpose and client caps are
+// always read fresh.
+let cachedExhausted: { status: BudgetStatus; until: number } | null = null;
+
+function cachedExhaustedStatus(): BudgetStatus | null {
+  if (cachedExhausted && Date.now() / 1000 < cachedExhausted.until) return cachedExhausted.status;
+  return null;
+}
+
+function spentSql(bucket: BudgetBucket): SQL {
+  const where = and(
+    gte(aiUsage.createdAt, new Date(bucket.windowStart * 1000)),
+    bucket.purpose ? eq(aiUsage.purpose, bucket.purpose) : undefined,
+    bucket.client ? eq(aiUsage.client, bucket.client) : undefined,
+  );
+  return sql`(SELECT coalesce(sum(${aiUsage.costUsd}), 0) FROM ${aiUsage} WHERE ${where})`;
+}
+
+function reservedSql(bucket: BudgetBucket, now: Date): SQL {
+  const where = and(
+    gt(aiBudgetReservations.expiresAt, now),
+    bucket.purpose ? eq(aiBudgetReservations.purpose, bucket.purpose) : undefined,
+    bucket.client ? eq(aiBudgetReservations.client, bucket.client) : undefined,
+  );
+  return sql`(SELECT coalesce(sum(${aiBudgetReservations.amountUsd}), 0)
+    FROM ${aiBudgetReservations} WHERE ${where})`;
+}
+
+/** Headroom of one cap, as reported by getUsageSummary. */
+export interface BudgetStatus {
+  name: string;
+  capUsd: number;
+  spentUsd: number;
+  /** Worst-case cost of calls in flight. */
+  reservedUsd: number;
+  remainingUsd: number;
+  /** ISO time the window resets. */
+  resetsAt: string;
+}
 
-/** Record token usage for a completed API call. Never throws - logging must not break the caller. */
+async function bucketStatus(
+  bucket: BudgetBucket,
+  database: typeof db,
+  now = new Date(),
+): Promise<BudgetStatus> {
+  const row = await database.get<{ spent: number; reserved: number }>(
+    sql`SELECT ${spentSql(bucket)} AS spent, ${reservedSql(bucket, now)} AS reserved`,
+  );
+  const spentUsd = Number(row?.spent ?? 0);
+  const reservedUsd = Number(row?.reserved ?? 0);
+  return {
+    name: bucket.name,
+    capUsd: bucket.capUsd,
+    spentUsd,
+    reservedUsd,
+    remainingUsd: Math.max(0, bucket.capUsd - spentUsd - reservedUsd),
+    resetsAt: new Date(bucket.resetsAt * 1000).toISOString(),
+  };
+}
+
+/** A budget reservation taken by reserveBudget; settle it with recordUsage or releaseBudget. */
+export interface BudgetReservation {
+  id: number;
+  amountUsd: number;
+}
+
+/**
+ * Reserve the worst-case cost of a call against every cap in its scope, before making it.
+ * The check and the insert are one statement, so concurrent callers cannot overshoot a cap
+ * together. Throws BudgetExceededError naming the first cap without room.
+ */
+export async function reserveBudget(
+  params: BudgetScope & { purpose: string; amountUsd: number },
+  database: typeof db = db,
+): Promise<BudgetReservation> {
+  const now = new Date();
+  const buckets = budgetBuckets(params);
+  await database.delete(aiBudgetReservations).where(lte(aiBudgetReservations.expiresAt, now));
+
+  const fits = buckets.map((bucket) =>
+    sql`${spentSql(bucket)} + ${reservedSql(bucket, now)} + ${params.amountUsd} < ${bucket.capUsd}`
+  );
+  const [row] = await database.all<{ id: number }>(sql`
+    INSERT INTO ${aiBudgetReservations} (purpose, client, amount_usd, created_at, expires_at)
+    SELECT ${params.purpose}, ${params.client?.id ?? null}, ${params.amountUsd},
+      ${Math.floor(now.getTime() / 1000)},
+      ${Math.floor((now.getTime() + RESERVATION_TTL_MS) / 1000)}
+    WHERE ${sql.join(fits, sql` AND `)}
+    RETURNING id
+  `);
+  if (row) return { id: row.id, amountUsd: params.amountUsd };
+
+  // Name the cap with the least room in the error
+  const statuses = await Promise.all(buckets.map((bucket) => bucketStatus(bucket, database, now)));
+  const tightest = statuses.reduce((a, b) => (b.remainingUsd < a.remainingUsd ? b : a));
+  throw new BudgetExceededError(
+    tightest.spentUsd,
+    tightest.capUsd,
+    tightest.name,
+    tightest.resetsAt,
+  );
+}
+
+/** Give back a reservation whose call failed before using any tokens. Never throws. */
+export async function releaseBudget(
+  reservation: BudgetReservation,
+  database: typeof db = db,
+): Promise<void> {
+  try {
+    await database.delete(aiBudgetReservations).where(
+      eq(aiBudgetReservations.id, reservation.id),
+    );
+  } catch (error) {
+    console.warn("⚠️  Failed to release AI budget reservation (non-fatal):", error);
+  }
+}
+
+/**
+ * Record token usage for a completed API call, settling its budget reservation if it has one.
+ * Never throws - logging must not break the caller.
+ */
 export async function recordUsage(params: {
+  provider?: LlmProviderName;
   model: string;
   purpose: string;
   inputTokens: number;
   outputTokens: number;
+  /** Set for cacheable calls: a hit was answered from the AI result cache at no cost. */
+  cache?: "hit" | "miss";
+  /** BudgetClient id the call is charged to. */
+  client?: string;
+  /** Content type of the item a pipeline call processed ("paper", "video" or "nasa"). */
+  itemType?: string;
+  /** Reservation taken for the call; replaced by the recorded cost in the same batch. */
+  reservation?: BudgetReservation;
 }): Promise<void> {
   try {
-    const costUsd = estimateCostUsd(params.model, params.inputTokens, params.outputTokens);
-    await db.insert(aiUsage).values({
+    const provider = params.provider ?? "anthropic";
+    const costUsd = estimateCostUsd(
+      params.model,
+      params.inputTokens,
+      params.outputTokens,
+      provider,
+    );
+    const insert = db.insert(aiUsage).values({
+      provider,
       model: params.model,
       purpose: params.purpose,
       inputTokens: params.inputTokens,
       outputTokens: params.outputTokens,
       costUsd,
+      cache: params.cache ?? null,
+      client: params.client ?? null,
+      itemType: params.itemType ?? null,
     });
+    if (params.reservation) {
+      await db.batch([
+        insert,
+        db.delete(aiBudgetReservations).where(
+          eq(aiBudgetReservations.id, params.reservation.id),
+        ),
+      ]);
+    } else {
+      await insert;
+    }
   } catch (error) {
     console.warn("⚠️  Failed to record AI usage (non-fatal):", error);
   }
 }
 
-/** Sum of costUsd for all AI calls since the start of the current UTC day. */
-export async function getTodaySpendUsd(): Promise<number> {
+async function getSpendSinceUsd(sinceUnix: number): Promise<number> {
   const [row] = await db
     .select({ total: sql<number>`coalesce(sum(${aiUsage.costUsd}), 0)` })
     .from(aiUsage)
-    .where(sql`${aiUsage.createdAt} >= ${startOfTodayUtcUnix()}`);
+    .where(sql`${aiUsage.createdAt} >= ${sinceUnix}`);
   return Number(row?.total ?? 0);
 }
 
-/** Non-throwing check, safe to call before starting a whole crawl/reindex run. */
-export async function isBudgetExceededToday(): Promise<boolean> {
-  const today = startOfTodayUtcUnix();
-  if (cachedExceededDay === today) return true;
-
-  const spent = await getTodaySpendUsd();
-  const exceeded = spent >= getDailyBudgetUsd();
-  if (exceeded) cachedExceededDay = today;
-  return exceeded;
+/** Sum of costUsd for all AI calls since the start of the current UTC day. */
+export function getTodaySpendUsd(): Promise<number> {
+  return getSpendSinceUsd(startOfTodayUtcUnix());
 }
 
-/** Throws BudgetExceededError if today's spend has hit the cap. Call before each AI-processing item. */
-export async function checkBudget(): Promise<void> {
-  const today = startOfTodayUtcUnix();
-  const budget = getDailyBudgetUsd();
-
-  if (cachedExceededDay === today) {
-    throw new BudgetExceededError(budget, budget);
+/** The first cap in the scope whose recorded spend has reached it, or null. */
+async function exhaustedBucket(scope?: BudgetScope): Promise<BudgetStatus | null> {
+  const now = new Date();
+  const buckets = budgetBuckets(scope);
+  for (const bucket of buckets) {
+    const status = await bucketStatus(bucket, db, now);
+    if (status.spentUsd >= status.capUsd) {
+      // Global caps stay exhausted until their window resets
+      if (!bucket.purpose && !bucket.client) {
+        cachedExhausted = { status, until: bucket.resetsAt };
+      }
+      return status;
+    }
   }
+  return null;
+}
+
+/**
+ * Non-throwing check of the global caps (daily and monthly), safe to call before starting a
+ * whole crawl/reindex run.
+ */
+export async function isBudgetExceededToday(): Promise<boolean> {
+  if (cachedExhaustedStatus()) return true;
+  return (await exhaustedBucket()) !== null;
+}
 
-  const spent = await getTodaySpendUsd();
-  if (spent >= budget) {
-    cachedExceededDay = today;
-    throw new BudgetExceededError(spent, budget);
+/**
+ * Throws BudgetExceededError if the recorded spend has hit the global caps or those of the
+ * scope. A cheap early exit before an AI-processing item or request; the calls themselves
+ * reserve their cost with reserveBudget (see client.ts).
+ */
+export async function checkBudget(scope?: BudgetScope): Promise<void> {
+  const exhausted = cachedExhaustedStatus() ?? await exhaustedBucket(scope);
+  if (exhausted) {
+    throw new BudgetExceededError(
+      exhausted.spentUsd,
+      exhausted.capUsd,
+      exhausted.name,
+      exhausted.resetsAt,
+    );
   }
 }
 
 export interface UsageSummary {
   todaySpendUsd: number;
   budgetUsd: number;
+  /** Spend since the start of the UTC month, and AI_MONTHLY_BUDGET_USD (null when unset). */
+  monthSpendUsd: number;
+  monthlyBudgetUsd: number | null;
   last30DaysSpendUsd: number;
+  /** Headroom of the global caps: daily, monthly and each capped purpose. */
+  budgets: BudgetStatus[];
+  /** AI result cache: lookups over the last 30 days, and the entries it holds now. */
+  cache: {
+    hits: number;
+    misses: number;
+    /** hits / (hits + misses), 0 when nothing was looked up. */
+    hitRate: number;
+    entries: number;
+    savedUsd: number;
+  };
+}
+
+/**
+ * Headroom of each client's daily cap. Kept apart from getUsageSummary, which is public:
+ * per-client spend reveals how many API keys exist and how much each one uses.
+ */
+export async function getClientBudgets(
+  clients: BudgetClient[],
+  database: typeof db = db,
+): Promise<BudgetStatus[]> {
+  const now = new Date();
+  return await Promise.all(
+    clients.map((client) => bucketStatus(clientBucket(client), database, now)),
+  );
 }
 
 export async function getUsageSummary(): Promise<UsageSummary> {
   const thirtyDaysAgoUnix = Math.floor(Date.now() / 1000) - 30 * 86400;
-  const [today, last30] = await Promise.all([
+  const buckets = [
+    ...globalBuckets(),
+    ...cappedPurposes().map(purposeBucket).filter((bucket) => bucket !== null),
+  ];
+  const now = new Date();
+  const [today, month, last30, cacheStats, budgets] = await Promise.all([
     getTodaySpendUsd(),
+    getSpendSinceUsd(monthlyWindow().windowStart),
     db
-      .select({ total: sql<number>`coalesce(sum(${aiUsage.costUsd}), 0)` })
+      .select({
+        total: sql<number>`coalesce(sum(${aiUsage.costUsd}), 0)`,
+        hits: sql<number>`coalesce(sum(${aiUsage.cache} = 'hit'), 0)`,
+        misses: sql<number>`coalesce(sum(${aiUsage.cache} = 'miss'), 0)`,
+      })
       .from(aiUsage)
       .where(sql`${aiUsage.createdAt} >= ${thirtyDaysAgoUnix}`)
-      .then((rows) => Number(rows[0]?.total ?? 0)),
+      .then((rows) => rows[0]),
+    getAiCacheStats(),
+    Promise.all(buckets.map((bucket) => bucketStatus(bucket, db, now))),
   ]);
 
+  const hits = Number(last30?.hits ?? 0);
+  const misses = Number(last30?.misses ?? 0);
   return {
     todaySpendUsd: today,
     budgetUsd: getDailyBudgetUsd(),
-    last30DaysSpendUsd: last30,
+    monthSpendUsd: month,
+    monthlyBudgetUsd: getMonthlyBudgetUsd(),
+    last30DaysSpendUsd: Number(last30?.total ?? 0),
+    budgets,
+    cache: {
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+      entries: cacheStats.entries,
+      savedUsd: cacheStats.savedUsd,
+    },
   };
 }
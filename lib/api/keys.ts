@@ -0,0 +1,108 @@
+import { desc, eq } from "drizzle-orm";
+import { db } from "../../db/client.ts";
+import { type ApiKey, apiKeys } from "../../db/schema.ts";
+import type { BudgetClient } from "../ai/usage.ts";
+import { API_KEY_TIERS, type ApiKeyTier } from "../config.ts";
+
+/** Every key starts with this, so leaked keys are easy to recognize and scan for. */
+export const API_KEY_PREFIX = "ag_";
+
+/** Characters of the key stored in clear, to tell keys apart in listings. */
+const DISPLAY_PREFIX_LENGTH = 10;
+
+// Found keys are cached briefly so a busy client does not cost a database read per request;
+// a revoked key therefore keeps working for up to this long. Misses are not cached, so
+// guessed keys cannot fill the cache (they are rate limited per IP instead).
+const CACHE_TTL_MS = 60 * 1000;
+const CACHE_MAX_ENTRIES = 1000;
+
+const cache = new Map<string, { key: ApiKey; expires: number }>();
+
+export function isApiKeyTier(value: unknown): value is ApiKeyTier {
+  return typeof value === "string" && Object.hasOwn(API_KEY_TIERS, value);
+}
+
+/** The AI budget a key's AI requests are charged to: "key:<id>", capped by its tier. */
+export function aiBudgetClient(key: Pick<ApiKey, "id" | "tier">): BudgetClient {
+  const tier = API_KEY_TIERS[isApiKeyTier(key.tier) ? key.tier : "free"];
+  return { id: `key:${key.id}`, dailyBudgetUsd: tier.aiDailyBudgetUsd };
+}
+
+/** New random key: the prefix plus 32 random bytes, base64url-encoded. */
+export function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const base64 = btoa(String.fromCharCode(...bytes));
+  return API_KEY_PREFIX + base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Store a new key and return it; the plaintext `key` cannot be recovered later. */
+export async function createApiKey(
+  params: { name: string; tier?: ApiKeyTier },
+  database: typeof db = db,
+): Promise<{ id: number; key: string; tier: ApiKeyTier }> {
+  const key = generateApiKey();
+  const tier = params.tier ?? "standard";
+  const [row] = await database
+    .insert(apiKeys)
+    .values({
+      name: params.name,
+      keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: await hashApiKey(key),
+      tier,
+    })
+    .returning({ id: apiKeys.id });
+  return { id: row.id, key, tier };
+}
+
+/** The active (not revoked) key matching a presented plaintext key, or null. */
+export async function findApiKey(key: string, database: typeof db = db): Promise<ApiKey | null> {
+  if (!key.startsWith(API_KEY_PREFIX)) return null;
+  const hash = await hashApiKey(key);
+  const now = Date.now();
+  const cached = cache.get(hash);
+  if (cached && cached.expires > now) return cached.key;
+
+  const row = await database.query.apiKeys.findFirst({ where: eq(apiKeys.keyHash, hash) });
+  cache.delete(hash);
+  if (!row || row.revokedAt) return null;
+  // Evict the oldest entry rather than flushing every busy client's key
+  if (cache.size >= CACHE_MAX_ENTRIES) cache.delete(cache.keys().next().value!);
+  cache.set(hash, { key: row, expires: now + CACHE_TTL_MS });
+  return row;
+}
+
+export async function revokeApiKey(id: number, database: typeof db = db): Promise<boolean> {
+  const rows = await database
+    .update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(eq(apiKeys.id, id))
+    .returning({ id: apiKeys.id });
+  return rows.length > 0;
+}
+
+/** All keys, newest first (hashes are left out). */
+export async function listApiKeys(
+  database: typeof db = db,
+): Promise<Array<Omit<ApiKey, "keyHash">>> {
+  return await database
+    .select({
+      id: apiKeys.id,
+      name: apiKeys.name,
+      keyPrefix: apiKeys.keyPrefix,
+      tier: apiKeys.tier,
+      createdAt: apiKeys.createdAt,
+      revokedAt: apiKeys.revokedAt,
+    })
+    .from(apiKeys)
+    .orderBy(desc(apiKeys.id));
+}
+
+/** Forget cached lookups (tests, or after revoking a key in the same process). */
+export function clearApiKeyCache(): void {
+  cache.clear();
+}
@@ -0,0 +1,171 @@
+import {
+  OpenApiGeneratorV31,
+  OpenAPIRegistry,
+  type ResponseConfig,
+} from "@asteasolutions/zod-to-openapi";
+import { z } from "zod";
+import { CITATION_CONTENT_TYPES } from "../citation.ts";
+import { API_KEY_TIERS } from "../config.ts";
+import {
+  AskRequestSchema,
+  AskResponseSchema,
+  ErrorSchema,
+  ExportQuerySchema,
+  ItemDetailSchema,
+  ItemQuerySchema,
+  LibraryStatsSchema,
+  RelatedQuerySchema,
+  RelatedResponseSchema,
+  SearchQuerySchema,
+  SearchResponseSchema,
+} from "./schemas.ts";
+
+type OpenApiDocument = ReturnType<OpenApiGeneratorV31["generateDocument"]>;
+
+let cached: OpenApiDocument | null = null;
+
+function errorResponse(description: string): ResponseConfig {
+  return { description, content: { "application/json": { schema: ErrorSchema } } };
+}
+
+/** Citation formats as alternative response bodies (see lib/citation.ts). */
+const citationContent = Object.fromEntries(
+  Object.values(CITATION_CONTENT_TYPES).map((type) => [
+    type.split(";")[0],
+    { schema: z.string() },
+  ]),
+);
+
+const commonResponses = {
+  400: errorResponse("Invalid query parameters"),
+  401: errorResponse("Missing, invalid or revoked API key"),
+  429: errorResponse("Per-minute limit or daily quota of the key exceeded"),
+};
+
+const tierTable = Object.entries(API_KEY_TIERS)
+  .map(([name, { perMinute, perDay, aiDailyBudgetUsd }]) =>
+    `| ${name} | ${perMinute.limit} | ${perDay.limit} | $${aiDailyBudgetUsd.toFixed(2)} |`
+  )
+  .join("\n");
+
+/** OpenAPI 3.1 document for /api/v1, generated from the zod schemas the handlers use. */
+export function buildOpenApiDocument(): OpenApiDocument {
+  if (cached) return cached;
+
+  const registry = new OpenAPIRegistry();
+  registry.registerComponent("securitySchemes", "bearerAuth", { type: "http", scheme: "bearer" });
+  registry.registerComponent("securitySchemes", "apiKeyHeader", {
+    type: "apiKey",
+    in: "header",
+    name: "X-API-Key",
+  });
+  const security: Array<Record<string, string[]>> = [{ bearerAuth: [] }, { apiKeyHeader: [] }];
+
+  registry.registerPath({
+    method: "get",
+    path: "/api/v1/search",
+    summary: "Search papers, videos and NASA content",
+    description:
+      "Hybrid semantic and full-text search. Facet parameters can be repeated; values within a facet are ORed. With a citation `format`, the papers in the page of results are exported instead.",
+    security,
+    request: { query: SearchQuerySchema },
+    responses: {
+      200: {
+        description: "Search results, or a citation document when `format` is not `json`",
+        content: { "application/json": { schema: SearchResponseSchema }, ...citationContent },
+      },
+      ...commonResponses,
+    },
+  });
+
+  registry.registerPath({
+    method: "get",
+    path: "/api/v1/item",
+    summary: "Fetch a single paper, video or NASA item",
+    security,
+    request: { query: ItemQuerySchema },
+    responses: {
+      200: {
+        description: "The item",
+        content: { "application/json": { schema: ItemDetailSchema } },
+      },
+      ...commonResponses,
+      404: errorResponse("No item with that type and id"),
+    },
+  });
+
+  registry.registerPath({
+    method: "get",
+    path: "/api/v1/related",
+    summary: "Items similar to a given item",
+    security,
+    request: { query: RelatedQuerySchema },
+    responses: {
+      200: {
+        description: "Nearest neighbours across all content types",
+        content: { "application/json": { schema: RelatedResponseSchema } },
+      },
+      ...commonResponses,
+    },
+  });
+
+  registry.registerPath({
+    method: "get",
+    path: "/api/v1/stats",
+    summary: "Library statistics",
+    security,
+    responses: {
+      200: {
+        description: "Item counts per content type",
+        content: { "application/json": { schema: LibraryStatsSchema } },
+      },
+      ...commonResponses,
+    },
+  });
+
+  registry.registerPath({
+    method: "get",
+    path: "/api/v1/export",
+    summary: "Export citations for papers and NTRS reports",
+    security,
+    request: { query: ExportQuerySchema },
+    responses: {
+      200: { description: "Citation document", content: citationContent },
+      ...commonResponses,
+      404: errorResponse("None of the ids exist"),
+    },
+  });
+
+  registry.registerPath({
+    method: "post",
+    path: "/api/v1/ask",
+    summary: "Ask the library a question",
+    description:
+      "Answers from the best matching items, citing them by number. Every answer spends AI budget: the key's daily AI budget (by tier) and the service's shared caps.",
+    security,
+    request: {
+      body: { content: { "application/json": { schema: AskRequestSchema } }, required: true },
+    },
+    responses: {
+      200: {
+        description: "The answer and the sources it cites",
+        content: { "application/json": { schema: AskResponseSchema } },
+      },
+      400: errorResponse("Invalid request body"),
+      401: commonResponses[401],
+      429: errorResponse("Rate limit, daily quota or daily AI budget of the key exceeded"),
+      503: errorResponse("The service's shared AI budget is spent"),
+    },
+  });
+
+  cached = new OpenApiGeneratorV31(registry.definitions).generateDocument({
+    openapi: "3.1.0",
+    info: {
+      title: "AstroGroot API",
+      version: "1.0.0",
+      description:
+        `Versioned API of the AstroGroot research library. Send an API key as \`Authorization: Bearer <key>\` or \`X-API-Key: <key>\`. Requests are limited per key by its tier:\n\n| Tier | Requests / minute | Requests / day | AI budget / day |\n|------|------|------|------|\n${tierTable}\n\nResponses carry \`X-RateLimit-*\` (per minute) and \`X-Quota-*\` (per day) headers.`,
+    },
+  });
+  return cached;
+}
@@ -0,0 +1,224 @@
+import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+import { z } from "zod";
+import { MAX_QUESTION_LENGTH } from "../ask.ts";
+import { CITATION_FORMATS } from "../citation.ts";
+import { MAX_SEARCH_QUERY_LENGTH } from "../config.ts";
+import { type Locale, SUPPORTED_LOCALES } from "../i18n.ts";
+
+/**
+ * Request and response schemas of /api/v1. Handlers validate with them and openapi.ts builds
+ * the OpenAPI document from them, so the two cannot drift apart.
+ */
+
+extendZodWithOpenApi(z);
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const FacetValues = z.array(z.string()).optional();
+
+export const ItemTypeSchema = z.enum(["paper", "video", "nasa"]);
+
+export const LocaleSchema = z
+  .enum(SUPPORTED_LOCALES as unknown as [Locale, ...Locale[]])
+  .default("en")
+  .openapi({ description: "Language of titles and summaries." });
+
+export const SearchQuerySchema = z.object({
+  q: z.string().max(MAX_SEARCH_QUERY_LENGTH).default("").openapi({
+    description:
+      'Search query. Supports "exact phrases", -excluded words and field filters such as author:, category:, source:ntrs and year:2020..2023.',
+  }),
+  type: z.enum(["all", "papers", "videos", "nasa"]).default("all"),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  page: z.coerce.number().int().min(1).default(1),
+  cursor: z.string().optional().openapi({
+    description: "`pagination.nextCursor` from the previous page; takes precedence over `page`.",
+  }),
+  lang: LocaleSchema,
+  dateFrom: z.string().regex(ISO_DATE).optional().openapi({ description: "YYYY-MM-DD" }),
+  dateTo: z.string().regex(ISO_DATE).optional().openapi({ description: "YYYY-MM-DD" }),
+  category: FacetValues,
+  year: FacetValues,
+  source: FacetValues,
+  channel: FacetValues,
+  center: FacetValues,
+  contentType: FacetValues,
+  format: z.enum(["json", ...CITATION_FORMATS]).default("json").openapi({
+    description: "`json` for results, or a citation format to export the papers among them.",
+  }),
+});
+
+export const ItemQuerySchema = z.object({
+  type: ItemTypeSchema,
+  id: z.string().min(1),
+  lang: LocaleSchema,
+});
+
+export const RelatedQuerySchema = ItemQuerySchema.extend({
+  limit: z.coerce.number().int().min(1).max(20).default(8),
+});
+
+export const ExportQuerySchema = z.object({
+  id: z.array(z.string().min(1)).min(1).max(50).openapi({
+    description: "Paper or NTRS report ids; repeat the parameter for several.",
+  }),
+  format: z.enum(CITATION_FORMATS).default("bibtex"),
+});
+
+export const SearchResultItemSchema = z
+  .object({
+    type: ItemTypeSchema,
+    id: z.string(),
+    title: z.string(),
+    snippet: z.string().optional().openapi({
+      description: "Passage that best matches the query; starts or ends with … when cut.",
+    }),
+    snippetField: z
+      .enum(["translation", "summary", "abstract", "explanation", "description", "transcript"])
+      .optional(),
+    highlights: z
+      .array(z.object({ start: z.number().int(), end: z.number().int() }))
+      .optional()
+      .openapi({
+        description: "Matched terms in `snippet` as [start, end) UTF-16 offsets, for <mark>.",
+      }),
+    matchedFields: z
+      .array(
+        z.enum([
+          "title",
+          "translation",
+          "summary",
+          "abstract",
+          "explanation",
+          "description",
+          "transcript",
+          "semantic",
+        ]),
+      )
+      .optional()
+      .openapi({
+        description: "Why the result was returned: fields its keywords matched, and " +
+          '"semantic" for a vector match.',
+      }),
+    score: z.number().optional(),
+    url: z.string().optional(),
+    publishedDate: z.string().optional(),
+    meta: z.record(z.unknown()).optional(),
+    lowRelevance: z.boolean().optional(),
+  })
+  .openapi("SearchResultItem");
+
+const FacetBucketsSchema = z.array(z.object({ value: z.string(), count: z.number().int() }));
+
+export const SearchResponseSchema = z
+  .object({
+    query: z.string(),
+    papers: z.array(SearchResultItemSchema),
+    videos: z.array(SearchResultItemSchema),
+    nasa: z.array(SearchResultItemSchema),
+    results: z.array(SearchResultItemSchema).optional().openapi({
+      description: "The same page ranked across all types by calibrated score, with per-type " +
+        "boosts and diversity applied.",
+    }),
+    total: z.number().int(),
+    totalExact: z.boolean().optional().openapi({
+      description: "False when `total` is a lower bound: there may be more results.",
+    }),
+    facets: z.record(FacetBucketsSchema).optional(),
+    showingRelated: z.boolean().optional(),
+    pagination: z
+      .object({
+        page: z.number().int(),
+        perPage: z.number().int(),
+        totalPages: z.number().int(),
+        hasNext: z.boolean(),
+        hasPrev: z.boolean(),
+        nextCursor: z.string().optional().openapi({
+          description: "Opaque token for the next page; absent on the last page.",
+        }),
+      })
+      .optional(),
+  })
+  .openapi("SearchResponse");
+
+export const ItemDetailSchema = z
+  .object({
+    type: ItemTypeSchema,
+    id: z.string(),
+    title: z.string(),
+    summary: z.string(),
+    sourceUrl: z.string().nullable(),
+    metadata: z.record(z.unknown()),
+  })
+  .openapi("ItemDetail");
+
+export const RelatedResponseSchema = z
+  .object({
+    type: ItemTypeSchema,
+    id: z.string(),
+    items: z.array(SearchResultItemSchema),
+  })
+  .openapi("RelatedResponse");
+
+export const LibraryStatsSchema = z
+  .object({
+    papers: z.number().int(),
+    videos: z.number().int(),
+    nasa: z.number().int(),
+    total: z.number().int(),
+  })
+  .openapi("LibraryStats");
+
+export const AskRequestSchema = z
+  .object({
+    question: z.string().trim().min(1).max(MAX_QUESTION_LENGTH),
+    lang: LocaleSchema.openapi({ description: "Language of the answer." }),
+  })
+  .openapi("AskRequest");
+
+export const AskResponseSchema = z
+  .object({
+    question: z.string(),
+    answer: z.string(),
+    citations: z.array(z.object({
+      number: z.number().int(),
+      type: ItemTypeSchema,
+      id: z.string(),
+      title: z.string(),
+      url: z.string().optional(),
+      detailUrl: z.string(),
+    })),
+  })
+  .openapi("AskResponse");
+
+export const ErrorSchema = z
+  .object({
+    error: z.string(),
+    message: z.string().optional(),
+    issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+  })
+  .openapi("Error");
+
+/**
+ * Turn URL query parameters into the plain object a query schema expects: parameters the
+ * schema declares as arrays keep every value, all others keep the first.
+ */
+export function queryInput(
+  schema: z.AnyZodObject,
+  queries: Record<string, string[]>,
+): Record<string, string | string[]> {
+  const input: Record<string, string | string[]> = {};
+  for (const [name, values] of Object.entries(queries)) {
+    const field = schema.shape[name];
+    const inner = field instanceof z.ZodOptional || field instanceof z.ZodDefault
+      ? field._def.innerType
+      : field;
+    input[name] = inner instanceof z.ZodArray ? values : values[0];
+  }
+  return input;
+}
+
+/** Zod issues as `{ path, message }` pairs for a 400 response. */
+export function formatIssues(error: z.ZodError): Array<{ path: string; message: string }> {
+  return error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }));
+}
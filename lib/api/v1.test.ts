@@ -0,0 +1,279 @@
+/// <reference lib="deno.unstable" />
+import { assert, assertEquals } from "jsr:@std/assert@1";
+import type { ApiKey } from "../../db/schema.ts";
+import { BudgetExceededError } from "../ai/usage.ts";
+import type { SearchResponse } from "../search.ts";
+import { InvalidSearchCursorError } from "../search-cursor.ts";
+import { closeKv, getKv } from "../rate-limit.ts";
+import { clearApiKeyCache, findApiKey, generateApiKey, hashApiKey } from "./keys.ts";
+import { buildOpenApiDocument } from "./openapi.ts";
+import { type ApiV1Deps, createApiV1 } from "./v1.ts";
+
+const VALID_KEY = "ag_test-valid-key";
+
+function apiKey(overrides?: Partial<ApiKey>): ApiKey {
+  return {
+    id: 1,
+    name: "test",
+    keyPrefix: VALID_KEY.slice(0, 10),
+    keyHash: "hash",
+    tier: "standard",
+    createdAt: new Date(),
+    revokedAt: null,
+    ...overrides,
+  };
+}
+
+const emptySearch: SearchResponse = { query: "", papers: [], videos: [], nasa: [], total: 0 };
+
+async function clearRateLimitKeys(): Promise<void> {
+  const kv = await getKv();
+  for await (const entry of kv.list({ prefix: ["ratelimit"] })) {
+    await kv.delete(entry.key);
+  }
+}
+
+function createApp(deps?: ApiV1Deps) {
+  return createApiV1({
+    findApiKey: (key) => Promise.resolve(key === VALID_KEY ? apiKey() : null),
+    ...deps,
+  });
+}
+
+Deno.test({
+  name: "api v1: rejects requests without a valid key",
+  async fn() {
+    const app = createApp();
+
+    const missing = await app.request("/stats");
+    assertEquals(missing.status, 401);
+    assert(missing.headers.get("WWW-Authenticate")?.startsWith("Bearer"));
+
+    const invalid = await app.request("/stats", { headers: { "X-API-Key": "ag_nope" } });
+    assertEquals(invalid.status, 401);
+    assertEquals((await invalid.json()).message, "Invalid or revoked API key");
+  },
+  sanitizeOps: false,
+  sanitizeResources: false,
+});
+
+Deno.test({
+  name: "api v1: validates query parameters and passes them to search",
+  async fn() {
+    await clearRateLimitKeys();
+    let received: Parameters<typeof import("../search.ts").searchLibrary>[0] | undefined;
+    const app = createApp({
+      searchLibrary: (params) => {
+        received = params;
+        if (params.cursor === "stale") throw new InvalidSearchCursorError();
+        return Promise.resolve(emptySearch);
+      },
+    });
+    const headers = { Authorization: `Bearer ${VALID_KEY}` };
+
+    const bad = await app.request("/search?q=x&limit=500", { headers });
+    assertEquals(bad.status, 400);
+    assertEquals((await bad.json()).issues[0].path, "limit");
+
+    const ok = await app.request(
+      "/search?q=dark+energy&limit=5&lang=zh-TW&category=astro-ph.CO&category=gr-qc",
+      { headers },
+    );
+    assertEquals(ok.status, 200);
+    assertEquals(ok.headers.get("X-RateLimit-Limit"), "120");
+    assertEquals(ok.headers.get("X-Quota-Limit"), "20000");
+    assertEquals(received?.q, "dark energy");
+    assertEquals(received?.limit, 5);
+    assertEquals(received?.locale, "zh-TW");
+    assertEquals(received?.facets, { category: ["astro-ph.CO", "gr-qc"] });
+
+    await app.request("/search?q=dark+energy&cursor=abc", { headers });
+    assertEquals(received?.cursor, "abc");
+    const stale = await app.request("/search?q=dark+energy&cursor=stale", { headers });
+    assertEquals(stale.status, 400);
+  },
+  sanitizeOps: false,
+  sanitizeResources: false,
+});
+
+Deno.test({
+  name: "api v1: limits requests per key by tier",
+  async fn() {
+    await clearRateLimitKeys();
+    const app = createApp({
+      findApiKey: () => Promise.resolve(apiKey({ id: 42, tier: "free" })),
+      getLibraryStats: () => Promise.resolve({ papers: 1, videos: 0, nasa: 0, total: 1 }),
+    });
+    const headers = { "X-API-Key": VALID_KEY };
+
+    for (let i = 0; i < 30; i++) {
+      assertEquals((await app.request("/stats", { headers })).status, 200);
+    }
+    const limited = await app.request("/stats", { headers });
+    assertEquals(limited.status, 429);
+    assert(limited.headers.get("Retry-After"));
+
+    // The request the minute limit turned away was not charged to the daily quota
+    const kv = await getKv();
+    for await (const entry of kv.list({ prefix: ["ratelimit", "v1-free"] })) {
+      await kv.delete(entry.key);
+    }
+    const next = await app.request("/stats", { headers });
+    assertEquals(next.status, 200);
+    assertEquals(next.headers.get("X-Quota-Remaining"), String(1_000 - 31));
+
+    await clearRateLimitKeys();
+    closeKv();
+  },
+  sanitizeOps: false,
+  sanitizeResources: false,
+});
+
+Deno.test("api v1: item returns 404 for unknown ids", async () => {
+  await clearRateLimitKeys();
+  const app = createApp({ getItemDetail: () => Promise.resolve(null) });
+  const res = await app.request("/item?type=paper&id=missing", {
+    headers: { "X-API-Key": VALID_KEY },
+  });
+  assertEquals(res.status, 404);
+  closeKv();
+});
+
+Deno.test("api v1: ask charges the key's AI budget and maps its exhaustion to 429", async () => {
+  await clearRateLimitKeys();
+  let client: { id: string; dailyBudgetUsd: number } | undefined;
+  let budgetLeft = true;
+  const app = createApp({
+    askLibrary: (question, locale, options) => {
+      client = options?.client;
+      if (!budgetLeft) {
+        return Promise.reject(new BudgetExceededError(0.26, 0.25, `client:${client?.id}`));
+      }
+      return Promise.resolve({ question, answer: `(${locale}) Yes [1].`, citations: [] });
+    },
+  });
+  const ask = (body: unknown) =>
+    app.request("/ask", {
+      method: "POST",
+      headers: { "X-API-Key": VALID_KEY, "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  assertEquals((await ask({ question: " " })).status, 400);
+
+  const ok = await ask({ question: "Is Pluto a planet?", lang: "zh-TW" });
+  assertEquals(ok.status, 200);
+  assertEquals((await ok.json()).answer, "(zh-TW) Yes [1].");
+  assertEquals(client, { id: "key:1", dailyBudgetUsd: 0.25 });
+
+  budgetLeft = false;
+  const spent = await ask({ question: "Is Pluto a planet?" });
+  assertEquals(spent.status, 429);
+  assert((await spent.json()).message.startsWith("Daily key:1 AI budget exceeded"));
+  closeKv();
+});
+
+Deno.test("api v1: openapi.json is public and documents every route", async () => {
+  const res = await createApp().request("/openapi.json");
+  assertEquals(res.status, 200);
+  const doc = await res.json();
+  assertEquals(doc.openapi, "3.1.0");
+  assertEquals(Object.keys(doc.paths).sort(), [
+    "/api/v1/ask",
+    "/api/v1/export",
+    "/api/v1/item",
+    "/api/v1/related",
+    "/api/v1/search",
+    "/api/v1/stats",
+  ]);
+  const limit = doc.paths["/api/v1/search"].get.parameters.find(
+    (p: { name: string }) => p.name === "limit",
+  );
+  assertEquals(limit.schema.maximum, 50);
+  assertEquals(buildOpenApiDocument(), buildOpenApiDocument());
+});
+
+Deno.test({
+  name: "api v1: requests without a valid key stay under the global IP limit",
+  async fn() {
+    await clearRateLimitKeys();
+    const app = createApp();
+    const headers = { "X-API-Key": "ag_fake", "X-Forwarded-For": "203.0.113.9" };
+
+    for (let i = 0; i < 120; i++) {
+      assertEquals((await app.request("/openapi.json", { headers })).status, 200);
+    }
+    const spec = await app.request("/openapi.json", { headers });
+    assertEquals(spec.status, 429);
+    const other = await app.request("/nope", { headers });
+    assertEquals(other.status, 429);
+    assertEquals(other.headers.get("X-RateLimit-Limit"), "120");
+
+    await clearRateLimitKeys();
+  },
+  sanitizeOps: false,
+  sanitizeResources: false,
+});
+
+Deno.test({
+  name: "api v1: limits failed key checks per IP before looking keys up",
+  async fn() {
+    await clearRateLimitKeys();
+    let lookups = 0;
+    const app = createApp({
+      findApiKey: (key) => {
+        lookups++;
+        return Promise.resolve(key === VALID_KEY ? apiKey() : null);
+      },
+    });
+    const headers = { "X-API-Key": "ag_guess", "X-Forwarded-For": "203.0.113.7" };
+
+    for (let i = 0; i < 20; i++) {
+      assertEquals((await app.request("/stats", { headers })).status, 401);
+    }
+    const limited = await app.request("/stats", { headers });
+    assertEquals(limited.status, 429);
+    assertEquals(lookups, 20);
+
+    // Other clients are unaffected
+    const other = await app.request("/stats", {
+      headers: { "X-API-Key": "ag_guess", "X-Forwarded-For": "203.0.113.8" },
+    });
+    assertEquals(other.status, 401);
+  },
+  sanitizeOps: false,
+  sanitizeResources: false,
+});
+
+Deno.test("api keys: lookups cache found keys but not misses", async () => {
+  const key = generateApiKey();
+  const hash = await hashApiKey(key);
+  let reads = 0;
+  const database = {
+    query: {
+      apiKeys: {
+        findFirst: () => {
+          reads++;
+          return Promise.resolve(reads > 1 ? apiKey({ keyHash: hash }) : undefined);
+        },
+      },
+    },
+  } as unknown as typeof import("../../db/client.ts").db;
+
+  clearApiKeyCache();
+  assertEquals(await findApiKey(key, database), null);
+  assertEquals((await findApiKey(key, database))?.keyHash, hash);
+  assertEquals((await findApiKey(key, database))?.keyHash, hash);
+  assertEquals(reads, 2);
+  clearApiKeyCache();
+});
+
+Deno.test("api keys: generated keys are prefixed, random and hashed to hex", async () => {
+  const a = generateApiKey();
+  const b = generateApiKey();
+  assert(a.startsWith("ag_"));
+  assert(a !== b);
+  const hash = await hashApiKey(a);
+  assertEquals(hash.length, 64);
+  assertEquals(hash, await hashApiKey(a));
+});
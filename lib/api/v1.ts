@@ -0,0 +1,210 @@
+import { type Context, Hono } from "hono";
+import type { z } from "zod";
+import type { ApiKey } from "../../db/schema.ts";
+import { BudgetExceededError } from "../ai/usage.ts";
+import { askLibrary } from "../ask.ts";
+import { citationResponse, getPaperCitations } from "../citation.ts";
+import { API_KEY_TIERS, INCLUDE_ERROR_DATA, RATE_LIMITS } from "../config.ts";
+import { getItemDetail } from "../detail.ts";
+import { applyRateLimit, getClientIp, isRateLimited, rateLimit } from "../rate-limit.ts";
+import { getRelatedItems } from "../related.ts";
+import { InvalidSearchCursorError } from "../search-cursor.ts";
+import { parseFacetSelection } from "../search-facets.ts";
+import { searchLibrary } from "../search.ts";
+import { getLibraryStats } from "../stats.ts";
+import { aiBudgetClient, findApiKey, isApiKeyTier } from "./keys.ts";
+import { buildOpenApiDocument } from "./openapi.ts";
+import {
+  AskRequestSchema,
+  ExportQuerySchema,
+  formatIssues,
+  ItemQuerySchema,
+  queryInput,
+  RelatedQuerySchema,
+  SearchQuerySchema,
+} from "./schemas.ts";
+
+type ApiV1Env = { Variables: { apiKey: ApiKey } };
+
+/** Optional dependencies for testing (when provided, used instead of the real lookups). */
+export interface ApiV1Deps {
+  findApiKey?: typeof findApiKey;
+  searchLibrary?: typeof searchLibrary;
+  getItemDetail?: typeof getItemDetail;
+  getRelatedItems?: typeof getRelatedItems;
+  getLibraryStats?: typeof getLibraryStats;
+  getPaperCitations?: typeof getPaperCitations;
+  askLibrary?: typeof askLibrary;
+}
+
+/** Key sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`. */
+function presentedKey(c: Context): string | null {
+  const auth = c.req.header("Authorization");
+  if (auth?.toLowerCase().startsWith("bearer ")) return auth.slice(7).trim() || null;
+  return c.req.header("X-API-Key")?.trim() || null;
+}
+
+function badRequest(c: Context, error: z.ZodError) {
+  return c.json(
+    { error: "Bad Request", message: "Invalid query parameters", issues: formatIssues(error) },
+    400,
+  );
+}
+
+/**
+ * Versioned public API (mounted at /api/v1). Every route except /openapi.json needs an API
+ * key; requests are limited per key according to its tier (see API_KEY_TIERS).
+ */
+export function createApiV1(deps?: ApiV1Deps): Hono<ApiV1Env> {
+  const findApiKey_ = deps?.findApiKey ?? findApiKey;
+  const searchLibrary_ = deps?.searchLibrary ?? searchLibrary;
+  const getItemDetail_ = deps?.getItemDetail ?? getItemDetail;
+  const getRelatedItems_ = deps?.getRelatedItems ?? getRelatedItems;
+  const getLibraryStats_ = deps?.getLibraryStats ?? getLibraryStats;
+  const getPaperCitations_ = deps?.getPaperCitations ?? getPaperCitations;
+  const askLibrary_ = deps?.askLibrary ?? askLibrary;
+
+  const api = new Hono<ApiV1Env>();
+
+  api.onError((err, c) => {
+    console.error("API v1 error:", err);
+    return c.json({ error: INCLUDE_ERROR_DATA ? String(err) : "Internal server error" }, 500);
+  });
+
+  // The app-wide per-IP limit skips /api/v1 (keyed clients are limited per key), so it is
+  // applied here to the public spec and to every request without a valid key
+  api.use("/openapi.json", rateLimit(RATE_LIMITS.global));
+  // Registered before the auth middleware, so the spec stays public
+  api.get("/openapi.json", (c) => c.json(buildOpenApiDocument()));
+
+  api.use("*", async (c, next) => {
+    const key = presentedKey(c);
+    // Requests without a valid key count against the global IP limit and failed key checks
+    // against the stricter apiAuth one; a client over either is turned away before its key is
+    // hashed and looked up
+    const ip = getClientIp(c);
+    const ipLimits = ip === "unknown" ? [] : [RATE_LIMITS.global, RATE_LIMITS.apiAuth];
+    for (const config of ipLimits) {
+      if (await isRateLimited(config, ip)) {
+        return await applyRateLimit(c, () => Promise.resolve(), config, ip);
+      }
+    }
+    const apiKey = key ? await findApiKey_(key) : null;
+    if (!apiKey) {
+      for (const config of ipLimits) {
+        const limited = await applyRateLimit(c, () => Promise.resolve(), config, ip);
+        if (limited) return limited;
+      }
+      c.header("WWW-Authenticate", 'Bearer realm="astrogroot"');
+      return c.json(
+        {
+          error: "Unauthorized",
+          message: key ? "Invalid or revoked API key" : "An API key is required",
+        },
+        401,
+      );
+    }
+    c.set("apiKey", apiKey);
+
+    const limits = API_KEY_TIERS[isApiKeyTier(apiKey.tier) ? apiKey.tier : "free"];
+    const identifier = `key:${apiKey.id}`;
+    // Per-minute limit first (X-RateLimit-*), so requests it turns away are not charged to the
+    // daily quota (X-Quota-*)
+    return await applyRateLimit(
+      c,
+      async () => {
+        const limited = await applyRateLimit(c, next, limits.perDay, identifier, "X-Quota");
+        if (limited) c.res = limited;
+      },
+      limits.perMinute,
+      identifier,
+    );
+  });
+
+  api.get("/search", async (c) => {
+    const parsed = SearchQuerySchema.safeParse(queryInput(SearchQuerySchema, c.req.queries()));
+    if (!parsed.success) return badRequest(c, parsed.error);
+    const { q, type, limit, page, cursor, lang, dateFrom, dateTo, format } = parsed.data;
+    const facets = parseFacetSelection((name) => parsed.data[name]);
+    let result;
+    try {
+      result = await searchLibrary_({
+        q,
+        type,
+        limit,
+        page,
+        cursor,
+        locale: lang,
+        dateFrom,
+        dateTo,
+        facets,
+      });
+    } catch (err) {
+      if (!(err instanceof InvalidSearchCursorError)) throw err;
+      return c.json({ error: "Bad Request", message: err.message }, 400);
+    }
+    if (format !== "json") {
+      const { body } = await getPaperCitations_(result.papers.map((p) => p.id), format);
+      return citationResponse(c, body, format, "astrogroot-search");
+    }
+    return c.json(result);
+  });
+
+  api.get("/item", async (c) => {
+    const parsed = ItemQuerySchema.safeParse(queryInput(ItemQuerySchema, c.req.queries()));
+    if (!parsed.success) return badRequest(c, parsed.error);
+    const { type, id, lang } = parsed.data;
+    const detail = await getItemDetail_({ type, id, locale: lang });
+    if (!detail) return c.json({ error: "Not Found", message: `No ${type} with id ${id}` }, 404);
+    return c.json(detail);
+  });
+
+  api.get("/related", async (c) => {
+    const parsed = RelatedQuerySchema.safeParse(queryInput(RelatedQuerySchema, c.req.queries()));
+    if (!parsed.success) return badRequest(c, parsed.error);
+    const { type, id, lang, limit } = parsed.data;
+    return c.json(await getRelatedItems_(type, id, lang, { limit }));
+  });
+
+  api.get("/stats", async (c) => c.json(await getLibraryStats_()));
+
+  api.get("/export", async (c) => {
+    const parsed = ExportQuerySchema.safeParse(queryInput(ExportQuerySchema, c.req.queries()));
+    if (!parsed.success) return badRequest(c, parsed.error);
+    const { id: ids, format } = parsed.data;
+    const { count, body } = await getPaperCitations_(ids, format);
+    if (count === 0) return c.json({ error: "Not Found", message: "None of the ids exist" }, 404);
+    return citationResponse(c, body, format, ids.length === 1 ? ids[0] : "astrogroot-export");
+  });
+
+  // Answers are charged to the key's own daily AI budget as well as the global caps
+  api.post("/ask", async (c) => {
+    const body = await c.req.json().catch(() => null);
+    const parsed = AskRequestSchema.safeParse(body ?? {});
+    if (!parsed.success) {
+      return c.json(
+        {
+          error: "Bad Request",
+          message: "Invalid request body",
+          issues: formatIssues(parsed.error),
+        },
+        400,
+      );
+    }
+    const { question, lang } = parsed.data;
+    try {
+      return c.json(await askLibrary_(question, lang, { client: aiBudgetClient(c.get("apiKey")) }));
+    } catch (err) {
+      if (!(err instanceof BudgetExceededError)) throw err;
+      // The key's own budget is the caller's limit; the shared caps are the service's
+      if (err.bucket.startsWith("client:")) {
+        return c.json({ error: "Too Many Requests", message: err.message }, 429);
+      }
+      return c.json({ error: "Service Unavailable", message: err.message }, 503);
+    }
+  });
+
+  return api;
+}
+
+export const apiV1 = createApiV1();
@@ -0,0 +1,128 @@
+import { assertEquals, assertRejects, assertStringIncludes } from "jsr:@std/assert@1";
+import { BudgetExceededError } from "./ai/usage.ts";
+import { ASK_PURPOSE, askLibrary, citedNumbers } from "./ask.ts";
+import type { SearchResponse, SearchResultItem } from "./search.ts";
+
+function item(overrides: Partial<SearchResultItem>): SearchResultItem {
+  return { type: "paper", id: "x", title: "Untitled", snippet: "", score: 0.5, ...overrides };
+}
+
+const searchResult: SearchResponse = {
+  query: "hot jupiters",
+  papers: [
+    item({
+      id: "2401.00001",
+      title: "Hot Jupiter migration",
+      snippet: "Disk migration.",
+      score: 0.9,
+    }),
+    item({ id: "2401.00002", title: "Unrelated", score: 0.1, lowRelevance: true }),
+  ],
+  videos: [
+    item({ type: "video", id: "vid1", title: "Planet formation lecture", score: 0.7 }),
+  ],
+  nasa: [],
+  total: 3,
+};
+
+Deno.test("askLibrary numbers the best sources and returns the ones the answer cites", async () => {
+  let prompt = "";
+  let purpose: string | undefined;
+  const response = await askLibrary("How do hot Jupiters form?", "zh-TW", undefined, {
+    searchLibrary: () => Promise.resolve(searchResult),
+    checkBudget: () => Promise.resolve(),
+    sendMessage: (params) => {
+      prompt = params.messages[0].content;
+      purpose = params.purpose;
+      assertStringIncludes(params.systemPrompt ?? "", "Traditional Chinese");
+      return Promise.resolve(" They migrate inwards through the disk [1]. [7] ");
+    },
+  });
+
+  assertStringIncludes(prompt, "[1] (paper) Hot Jupiter migration\nDisk migration.");
+  assertStringIncludes(prompt, "[2] (video) Planet formation lecture");
+  assertEquals(prompt.includes("Unrelated"), false);
+  assertEquals(purpose, ASK_PURPOSE);
+  assertEquals(response.answer, "They migrate inwards through the disk [1]. [7]");
+  assertEquals(response.citations, [{
+    number: 1,
+    type: "paper",
+    id: "2401.00001",
+    title: "Hot Jupiter migration",
+    url: undefined,
+    detailUrl: "/detail?type=paper&id=2401.00001&lang=zh-TW",
+  }]);
+});
+
+Deno.test("askLibrary answers without the model when nothing relevant is found", async () => {
+  let called = false;
+  const response = await askLibrary("quasar jets", "en", undefined, {
+    searchLibrary: () =>
+      Promise.resolve({ query: "quasar jets", papers: [], videos: [], nasa: [], total: 0 }),
+    checkBudget: () => Promise.resolve(),
+    sendMessage: () => {
+      called = true;
+      return Promise.resolve("");
+    },
+  });
+  assertEquals(called, false);
+  assertEquals(response.citations, []);
+});
+
+Deno.test("askLibrary stops before the model call when the budget is spent", async () => {
+  let called = false;
+  await assertRejects(
+    () =>
+      askLibrary("How do hot Jupiters form?", "en", undefined, {
+        searchLibrary: () => Promise.resolve(searchResult),
+        checkBudget: () => Promise.reject(new BudgetExceededError(0.5, 0.5)),
+        sendMessage: () => {
+          called = true;
+          return Promise.resolve("");
+        },
+      }),
+    BudgetExceededError,
+  );
+  assertEquals(called, false);
+});
+
+Deno.test("askLibrary passes its signal on and stops when it is aborted during retrieval", async () => {
+  const controller = new AbortController();
+  let searchSignal: AbortSignal | undefined;
+  let called = false;
+  await assertRejects(
+    () =>
+      askLibrary("How do hot Jupiters form?", "en", { signal: controller.signal }, {
+        searchLibrary: (params) => {
+          searchSignal = params.signal;
+          controller.abort();
+          return Promise.resolve(searchResult);
+        },
+        checkBudget: () => Promise.resolve(),
+        sendMessage: () => {
+          called = true;
+          return Promise.resolve("");
+        },
+      }),
+    DOMException,
+  );
+  assertEquals(searchSignal, controller.signal);
+  assertEquals(called, false);
+
+  const live = new AbortController();
+  let modelSignal: AbortSignal | undefined;
+  await askLibrary("How do hot Jupiters form?", "en", { signal: live.signal }, {
+    searchLibrary: () => Promise.resolve(searchResult),
+    checkBudget: () => Promise.resolve(),
+    sendMessage: (params) => {
+      modelSignal = params.signal;
+      return Promise.resolve("Disk migration [1].");
+    },
+  });
+  assertEquals(modelSignal, live.signal);
+});
+
+Deno.test("citedNumbers reads [n] and [n, m] within the source range", () => {
+  assertEquals(citedNumbers("A [2]. B [1, 3][2]. C [9].", 3), [1, 2, 3]);
+  assertEquals(citedNumbers("No citations.", 3), []);
+});
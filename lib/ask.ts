@@ -0,0 +1,147 @@
+import { sendMessage } from "./ai/client.ts";
+import { type BudgetClient, checkBudget } from "./ai/usage.ts";
+import type { Locale } from "./i18n.ts";
+import { searchLibrary, type SearchResultItem } from "./search.ts";
+
+/** Purpose under which askLibrary's model calls are recorded in ai_usage. */
+export const ASK_PURPOSE = "ask_library";
+
+export const MAX_QUESTION_LENGTH = 500;
+
+const DEFAULT_SOURCE_LIMIT = 8;
+const MAX_SOURCE_CHARS = 1500;
+
+/** Language name used in answer prompts for each locale. */
+export const ANSWER_LANGUAGE: Record<Locale, string> = {
+  en: "English",
+  "zh-TW": "Traditional Chinese (Taiwan usage)",
+  "zh-CN": "Simplified Chinese",
+};
+
+const NO_SOURCES_ANSWER: Record<Locale, string> = {
+  en: "The library has nothing relevant to this question yet.",
+  "zh-TW": "館藏中目前沒有與此問題相關的內容。",
+  "zh-CN": "馆藏中目前没有与此问题相关的内容。",
+};
+
+export interface AskCitation {
+  /** The number used for this source in the answer, e.g. 2 for "[2]". */
+  number: number;
+  type: SearchResultItem["type"];
+  id: string;
+  title: string;
+  /** Original source (arXiv, YouTube, NASA). */
+  url?: string;
+  /** This item's page in AstroGroot. */
+  detailUrl: string;
+}
+
+export interface AskResponse {
+  question: string;
+  answer: string;
+  /** The sources the answer cites, in number order. */
+  citations: AskCitation[];
+}
+
+export interface AskDeps {
+  searchLibrary?: typeof searchLibrary;
+  sendMessage?: typeof sendMessage;
+  checkBudget?: typeof checkBudget;
+}
+
+/** Best matches across papers, videos and NASA content, skipping "related" fallbacks. */
+function topSources(
+  result: Awaited<ReturnType<typeof searchLibrary>>,
+  limit: number,
+): SearchResultItem[] {
+  const ranked = result.results ??
+    [...result.papers, ...result.videos, ...result.nasa]
+      .sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+  return ranked.filter((item) => !item.lowRelevance).slice(0, limit);
+}
+
+function sourceBlock(item: SearchResultItem, number: number): string {
+  const date = item.publishedDate ? `, ${item.publishedDate}` : "";
+  const text = (item.snippet ?? "").slice(0, MAX_SOURCE_CHARS);
+  return `[${number}] (${item.type}${date}) ${item.title}\n${text}`;
+}
+
+/** Source numbers cited in the answer as [n] or [n, m], ascending. */
+export function citedNumbers(answer: string, sourceCount: number): number[] {
+  const cited: number[] = [];
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const part of match[1].split(",")) {
+      const n = Number(part.trim());
+      if (n >= 1 && n <= sourceCount && !cited.includes(n)) cited.push(n);
+    }
+  }
+  return cited.sort((a, b) => a - b);
+}
+
+/**
+ * Answer a question from the library: retrieve the best matching items with searchLibrary,
+ * give their localized summaries to the model as numbered sources, and return the answer with
+ * the sources it cites. Throws BudgetExceededError when the AI budget is spent; with `client`
+ * (an API key) the answer is also charged to, and capped by, that client's daily budget.
+ * An aborted `signal` stops it between retrieval and the model call, or cancels that call.
+ */
+export async function askLibrary(
+  question: string,
+  locale: Locale,
+  options?: { sourceLimit?: number; client?: BudgetClient; signal?: AbortSignal },
+  deps?: AskDeps,
+): Promise<AskResponse> {
+  const searchLibrary_ = deps?.searchLibrary ?? searchLibrary;
+  const sendMessage_ = deps?.sendMessage ?? sendMessage;
+  const checkBudget_ = deps?.checkBudget ?? checkBudget;
+
+  const q = question.trim().slice(0, MAX_QUESTION_LENGTH);
+  const sourceLimit = options?.sourceLimit ?? DEFAULT_SOURCE_LIMIT;
+  const result = await searchLibrary_({
+    q,
+    locale,
+    limit: sourceLimit,
+    snippetChars: MAX_SOURCE_CHARS,
+    signal: options?.signal,
+  });
+  options?.signal?.throwIfAborted();
+  const sources = topSources(result, sourceLimit);
+  if (sources.length === 0) {
+    return { question: q, answer: NO_SOURCES_ANSWER[locale], citations: [] };
+  }
+
+  await checkBudget_({ purpose: ASK_PURPOSE, client: options?.client });
+
+  const language = ANSWER_LANGUAGE[locale];
+  const systemPrompt =
+    `You are the research assistant of AstroGroot, an astronomy and space science library. Answer the question using only the numbered sources. Cite the sources behind each statement with their numbers in square brackets, e.g. [1] or [2][3]. If the sources do not answer the question, say so briefly. Answer in ${language}.`;
+  const prompt = `Sources:
+
+${sources.map((item, i) => sourceBlock(item, i + 1)).join("\n\n")}
+
+Question: ${q}`;
+
+  const answer = (await sendMessage_({
+    messages: [{ role: "user", content: prompt }],
+    systemPrompt,
+    temperature: 0.3,
+    maxTokens: 1024,
+    purpose: ASK_PURPOSE,
+    client: options?.client,
+    signal: options?.signal,
+  })).trim();
+
+  const citations = citedNumbers(answer, sources.length).map((number) => {
+    const item = sources[number - 1];
+    return {
+      number,
+      type: item.type,
+      id: item.id,
+      title: item.title,
+      url: item.url,
+      detailUrl: `/detail?type=${item.type}&id=${encodeURIComponent(item.id)}&lang=${locale}`,
+    };
+  });
+
+  return { question: q, answer, citations };
+}
@@ -0,0 +1,119 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert@1";
+import {
+  type CitablePaper,
+  formatCitations,
+  getPaperCitations,
+  splitAuthorName,
+} from "./citation.ts";
+
+const arxivPaper: CitablePaper = {
+  id: "2401.00001v2",
+  title: "Dark Energy & the 100% Hubble_Tension",
+  authors: JSON.stringify(["Alice Smith", "Bob de Vries"]),
+  publishedDate: new Date("2024-01-15T00:00:00Z"),
+  categories: JSON.stringify(["astro-ph.CO", "gr-qc"]),
+  arxivUrl: "https://arxiv.org/abs/2401.00001v2",
+  pdfUrl: "https://arxiv.org/pdf/2401.00001v2",
+};
+
+const ntrsReport: CitablePaper = {
+  id: "ntrs-20240001234",
+  title: "Lunar Lander Thermal Tests",
+  authors: JSON.stringify(["Doe, Jane"]),
+  publishedDate: new Date("2023-06-02T00:00:00Z"),
+  categories: JSON.stringify(["Spacecraft Design"]),
+  arxivUrl: "https://ntrs.nasa.gov/citations/20240001234",
+  pdfUrl: null,
+};
+
+Deno.test("citation: BibTeX cites arXiv papers as preprints and NTRS as techreport", () => {
+  const bib = formatCitations([arxivPaper, ntrsReport], "bibtex");
+
+  assertStringIncludes(bib, "@misc{smith2024dark,\n");
+  assertStringIncludes(bib, "  title = {{Dark Energy \\& the 100\\% Hubble\\_Tension}},\n");
+  assertStringIncludes(bib, "  author = {Alice Smith and Bob de Vries},\n");
+  assertStringIncludes(bib, "  month = jan,\n");
+  assertStringIncludes(bib, "  eprint = {2401.00001},\n");
+  assertStringIncludes(bib, "  primaryClass = {astro-ph.CO},\n");
+  assertStringIncludes(bib, "  doi = {10.48550/arXiv.2401.00001},\n");
+
+  assertStringIncludes(bib, "@techreport{doe2023lunar,\n");
+  assertStringIncludes(bib, "  institution = {NASA},\n");
+  assertStringIncludes(bib, "  number = {20240001234},\n");
+  assertStringIncludes(bib, "  url = {https://ntrs.nasa.gov/citations/20240001234}\n}");
+});
+
+Deno.test("citation: RIS and CSL-JSON carry type, authors, date and links", () => {
+  const ris = formatCitations([arxivPaper, ntrsReport], "ris");
+  assertStringIncludes(ris, "TY  - UNPB\nTI  - Dark Energy & the 100% Hubble_Tension\n");
+  assertStringIncludes(
+    ris,
+    "AU  - Alice Smith\nAU  - Bob de Vries\nPY  - 2024\nDA  - 2024/01/15/\n",
+  );
+  assertStringIncludes(ris, "L1  - https://arxiv.org/pdf/2401.00001v2\nER  -\n\nTY  - RPRT\n");
+  assertStringIncludes(ris, "PB  - NASA\nVL  - 20240001234\n");
+
+  const csl = JSON.parse(formatCitations([arxivPaper, ntrsReport], "csl-json"));
+  assertEquals(csl[0].type, "article");
+  assertEquals(csl[0].author, [
+    { family: "Smith", given: "Alice" },
+    { family: "Vries", given: "Bob de" },
+  ]);
+  assertEquals(csl[0].issued, { "date-parts": [[2024, 1, 15]] });
+  assertEquals(csl[0].DOI, "10.48550/arXiv.2401.00001");
+  assertEquals(csl[1].type, "report");
+  assertEquals(csl[1].author, [{ family: "Doe", given: "Jane" }]);
+  assertEquals(csl[1].number, "20240001234");
+});
+
+Deno.test("citation: repeated keys get letter suffixes", () => {
+  const bib = formatCitations([arxivPaper, { ...arxivPaper, id: "2401.00002" }], "bibtex");
+  assertStringIncludes(bib, "@misc{smith2024darka,");
+  assertStringIncludes(bib, "@misc{smith2024darkb,");
+});
+
+Deno.test("citation: repeats past z continue with aa, ab...", () => {
+  const papers = Array.from({ length: 28 }, (_, i) => ({ ...arxivPaper, id: `2401.${i}` }));
+  const keys = [...formatCitations(papers, "bibtex").matchAll(/@misc\{(\w+),/g)].map((m) => m[1]);
+  assertEquals(keys.slice(24), [
+    "smith2024darky",
+    "smith2024darkz",
+    "smith2024darkaa",
+    "smith2024darkab",
+  ]);
+  assertEquals(new Set(keys).size, 28);
+});
+
+Deno.test("citation: BibTeX escapes TeX in titles and authors in one pass", () => {
+  const bib = formatCitations([{
+    ...arxivPaper,
+    title: "The \\Lambda{CDM} ~model^2",
+    authors: JSON.stringify(['B\\"ohm']),
+  }], "bibtex");
+  assertStringIncludes(
+    bib,
+    "title = {{The \\textbackslash{}Lambda\\{CDM\\} \\textasciitilde{}model\\textasciicircum{}2}}",
+  );
+  assertStringIncludes(bib, 'author = {B\\textbackslash{}"ohm}');
+});
+
+Deno.test("citation: splitAuthorName handles both name orders", () => {
+  assertEquals(splitAuthorName("Jane Q. Public"), { family: "Public", given: "Jane Q." });
+  assertEquals(splitAuthorName("Public, Jane Q."), { family: "Public", given: "Jane Q." });
+  assertEquals(splitAuthorName("Plato"), { family: "Plato" });
+});
+
+Deno.test("citation: getPaperCitations keeps the requested order and skips missing ids", async () => {
+  const mockDb = {
+    query: {
+      papers: { findMany: () => Promise.resolve([arxivPaper, ntrsReport]) },
+    },
+  } as unknown as typeof import("../db/client.ts").db;
+  const { count, body } = await getPaperCitations(
+    ["ntrs-20240001234", "missing", "2401.00001v2"],
+    "csl-json",
+    { db: mockDb },
+  );
+  assertEquals(count, 2);
+  assertEquals(JSON.parse(body).map((item: { type: string }) => item.type), ["report", "article"]);
+});
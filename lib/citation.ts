@@ -0,0 +1,240 @@
+import { inArray } from "drizzle-orm";
+import type { Context } from "hono";
+import { db } from "../db/client.ts";
+import { type Paper, papers } from "../db/schema.ts";
+
+/**
+ * Citation export for papers. arXiv preprints are cited as preprints (with their arXiv DOI);
+ * NASA NTRS reports, stored in `papers` with an `ntrs-` id, as technical reports.
+ */
+
+export const CITATION_FORMATS = ["bibtex", "ris", "csl-json"] as const;
+
+export type CitationFormat = (typeof CITATION_FORMATS)[number];
+
+export const CITATION_CONTENT_TYPES: Record<CitationFormat, string> = {
+  bibtex: "application/x-bibtex; charset=utf-8",
+  ris: "application/x-research-info-systems; charset=utf-8",
+  "csl-json": "application/vnd.citationstyles.csl+json; charset=utf-8",
+};
+
+export const CITATION_FILE_EXTENSIONS: Record<CitationFormat, string> = {
+  bibtex: "bib",
+  ris: "ris",
+  "csl-json": "json",
+};
+
+/** Paper columns a citation is built from. */
+export type CitablePaper = Pick<
+  Paper,
+  "id" | "title" | "authors" | "publishedDate" | "categories" | "arxivUrl" | "pdfUrl"
+>;
+
+export interface CitationDeps {
+  db?: typeof db;
+}
+
+const NTRS_PREFIX = "ntrs-";
+const NTRS_INSTITUTION = "NASA";
+
+const BIBTEX_MONTHS = "jan feb mar apr may jun jul aug sep oct nov dec".split(" ");
+
+export function isCitationFormat(value: unknown): value is CitationFormat {
+  return typeof value === "string" && (CITATION_FORMATS as readonly string[]).includes(value);
+}
+
+function parseJsonArray(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String).filter((v) => v.trim()) : [];
+  } catch {
+    return [];
+  }
+}
+
+function isNtrs(paper: CitablePaper): boolean {
+  return paper.id.startsWith(NTRS_PREFIX);
+}
+
+/** arXiv id without its version suffix (2401.00001v2 -> 2401.00001). */
+function arxivBaseId(id: string): string {
+  return id.replace(/v\d+$/, "");
+}
+
+/** Split a display name into family and given parts; accepts "Given Family" and "Family, Given". */
+export function splitAuthorName(name: string): { family: string; given?: string } {
+  const trimmed = name.trim().replace(/\s+/g, " ");
+  const comma = trimmed.indexOf(",");
+  if (comma > 0) {
+    const given = trimmed.slice(comma + 1).trim();
+    return { family: trimmed.slice(0, comma).trim(), ...(given ? { given } : {}) };
+  }
+  const space = trimmed.lastIndexOf(" ");
+  if (space <= 0) return { family: trimmed };
+  return { family: trimmed.slice(space + 1), given: trimmed.slice(0, space) };
+}
+
+function dateParts(date: Date): [number, number, number] {
+  return [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+}
+
+const BIBTEX_ESCAPES: Record<string, string> = {
+  "\\": "\\textbackslash{}",
+  "{": "\\{",
+  "}": "\\}",
+  "&": "\\&",
+  "%": "\\%",
+  "$": "\\$",
+  "#": "\\#",
+  "_": "\\_",
+  "~": "\\textasciitilde{}",
+  "^": "\\textasciicircum{}",
+};
+
+/** Escape in one pass, so the braces of an inserted command are not escaped again. */
+function escapeBibtex(value: string): string {
+  return value.replace(/[\\{}&%$#_~^]/g, (char) => BIBTEX_ESCAPES[char]);
+}
+
+/** Citation key: first author's family name, year and first title word (e.g. `smith2024dark`). */
+function baseCitationKey(paper: CitablePaper): string {
+  const ascii = (value: string) =>
+    value.normalize("NFKD").replace(/[^A-Za-z0-9]/g, "").toLowerCase();
+  const [firstAuthor] = parseJsonArray(paper.authors);
+  const family = firstAuthor ? ascii(splitAuthorName(firstAuthor).family) : "";
+  const word = paper.title.split(/\s+/).map(ascii).find((w) => w.length > 3) ?? "";
+  return `${family || "anon"}${dateParts(paper.publishedDate)[0]}${word}`;
+}
+
+/** Suffix for the nth repeat of a key: a...z, then aa, ab... */
+function repeatSuffix(n: number): string {
+  let suffix = "";
+  for (let i = n + 1; i > 0; i = Math.floor((i - 1) / 26)) {
+    suffix = String.fromCharCode(97 + ((i - 1) % 26)) + suffix;
+  }
+  return suffix;
+}
+
+/** Keys for a set of papers, made unique by suffixing a, b, c... to repeats. */
+function citationKeys(rows: CitablePaper[]): string[] {
+  const bases = rows.map(baseCitationKey);
+  const seen = new Map<string, number>();
+  return bases.map((key) => {
+    if (bases.filter((k) => k === key).length === 1) return key;
+    const n = seen.get(key) ?? 0;
+    seen.set(key, n + 1);
+    return `${key}${repeatSuffix(n)}`;
+  });
+}
+
+function toBibtex(paper: CitablePaper, key: string): string {
+  const [year, month] = dateParts(paper.publishedDate);
+  const authors = parseJsonArray(paper.authors);
+  const fields = [`title = {{${escapeBibtex(paper.title)}}}`];
+  if (authors.length) fields.push(`author = {${authors.map(escapeBibtex).join(" and ")}}`);
+  // Month macros stay unbraced so bibliography styles can localize them
+  fields.push(`year = {${year}}`, `month = ${BIBTEX_MONTHS[month - 1]}`);
+
+  if (isNtrs(paper)) {
+    fields.push(`institution = {${NTRS_INSTITUTION}}`);
+    fields.push(`number = {${paper.id.slice(NTRS_PREFIX.length)}}`);
+  } else {
+    const arxivId = arxivBaseId(paper.id);
+    fields.push(`eprint = {${arxivId}}`, "archivePrefix = {arXiv}");
+    const [primaryClass] = parseJsonArray(paper.categories);
+    if (primaryClass) fields.push(`primaryClass = {${primaryClass}}`);
+    fields.push(`doi = {10.48550/arXiv.${arxivId}}`);
+  }
+  fields.push(`url = {${paper.arxivUrl}}`);
+
+  const entryType = isNtrs(paper) ? "techreport" : "misc";
+  return `@${entryType}{${key},\n${fields.map((field) => `  ${field}`).join(",\n")}\n}`;
+}
+
+function toRis(paper: CitablePaper): string {
+  const [year, month, day] = dateParts(paper.publishedDate);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const lines: Array<[string, string]> = [["TY", isNtrs(paper) ? "RPRT" : "UNPB"]];
+  lines.push(["TI", paper.title]);
+  for (const author of parseJsonArray(paper.authors)) lines.push(["AU", author]);
+  lines.push(["PY", String(year)]);
+  lines.push(["DA", `${year}/${pad(month)}/${pad(day)}/`]);
+  if (isNtrs(paper)) {
+    lines.push(["PB", NTRS_INSTITUTION]);
+    lines.push(["VL", paper.id.slice(NTRS_PREFIX.length)]);
+    lines.push(["DP", "NASA Technical Reports Server"]);
+  } else {
+    const arxivId = arxivBaseId(paper.id);
+    lines.push(["DO", `10.48550/arXiv.${arxivId}`]);
+    lines.push(["M1", `arXiv:${arxivId}`]);
+    lines.push(["DP", "arXiv"]);
+  }
+  for (const category of parseJsonArray(paper.categories)) lines.push(["KW", category]);
+  lines.push(["UR", paper.arxivUrl]);
+  if (paper.pdfUrl) lines.push(["L1", paper.pdfUrl]);
+  lines.push(["ER", ""]);
+  return lines.map(([tag, value]) => `${tag}  - ${value}`.trimEnd()).join("\n");
+}
+
+function toCslJson(paper: CitablePaper, key: string): Record<string, unknown> {
+  const authors = parseJsonArray(paper.authors).map(splitAuthorName);
+  const categories = parseJsonArray(paper.categories);
+  const item: Record<string, unknown> = {
+    id: key,
+    type: isNtrs(paper) ? "report" : "article",
+    title: paper.title,
+    ...(authors.length ? { author: authors } : {}),
+    issued: { "date-parts": [dateParts(paper.publishedDate)] },
+    URL: paper.arxivUrl,
+    ...(categories.length ? { keyword: categories.join(", ") } : {}),
+  };
+  if (isNtrs(paper)) {
+    item.publisher = NTRS_INSTITUTION;
+    item.number = paper.id.slice(NTRS_PREFIX.length);
+  } else {
+    const arxivId = arxivBaseId(paper.id);
+    item.publisher = "arXiv";
+    item.number = `arXiv:${arxivId}`;
+    item.DOI = `10.48550/arXiv.${arxivId}`;
+  }
+  return item;
+}
+
+/** Render papers as one BibTeX, RIS or CSL-JSON document, in the given order. */
+export function formatCitations(rows: CitablePaper[], format: CitationFormat): string {
+  const keys = citationKeys(rows);
+  switch (format) {
+    case "bibtex":
+      return rows.map((paper, i) => toBibtex(paper, keys[i])).join("\n\n") + "\n";
+    case "ris":
+      return rows.map(toRis).join("\n\n") + "\n";
+    case "csl-json":
+      return JSON.stringify(rows.map((paper, i) => toCslJson(paper, keys[i])), null, 2);
+  }
+}
+
+/** Load papers by id (missing ids are skipped) and format them in the order given. */
+export async function getPaperCitations(
+  ids: string[],
+  format: CitationFormat,
+  deps?: CitationDeps,
+): Promise<{ count: number; body: string }> {
+  const db_ = deps?.db ?? db;
+  const unique = [...new Set(ids.filter(Boolean))];
+  if (unique.length === 0) return { count: 0, body: formatCitations([], format) };
+  const rows = await db_.query.papers.findMany({ where: inArray(papers.id, unique) });
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  const ordered = unique.map((id) => byId.get(id)).filter((row): row is Paper => row != null);
+  return { count: ordered.length, body: formatCitations(ordered, format) };
+}
+
+/** Serve a citation document as a download named after the item or export. */
+export function citationResponse(c: Context, body: string, format: CitationFormat, name: string) {
+  c.header("Content-Type", CITATION_CONTENT_TYPES[format]);
+  c.header(
+    "Content-Disposition",
+    `attachment; filename="${name.replace(/[^\w.-]/g, "_")}.${CITATION_FILE_EXTENSIONS[format]}"`,
+  );
+  return c.body(body, 200);
+}
@@ -173,6 +173,11 @@ function formatArxivDate(date: Date): string {
   return date.toISOString().split("T")[0].replace(/-/g, "");
 }
 
+// Format date as YYYYMMDDHHMM (UTC) for arXiv query
+function formatArxivMinute(date: Date): string {
+  return date.toISOString().slice(0, 16).replace(/[-T:]/g, "");
+}
+
 // Generate monthly date segments for a given range
 function generateDateSegments(daysBack: number): Array<{ start: Date; end: Date }> {
   const segments: Array<{ start: Date; end: Date }> = [];
@@ -261,10 +266,29 @@ export async function getRecentArxivPapers(params: {
   keywords?: string[];
   maxResults?: number;
   daysBack?: number;
+  /**
+   * Resume point (a submission timestamp): papers submitted from then on are fetched oldest
+   * first instead, so a capped page leaves no gap after it and daysBack is ignored
+   */
+  since?: string;
 }): Promise<ArxivEntry[]> {
-  const { categories, keywords, maxResults = 30, daysBack = 7 } = params;
+  const { categories, keywords, maxResults = 30, daysBack = 7, since } = params;
   const kwQuery = keywords && keywords.length > 0 ? buildKeywordQuery(keywords) : null;
 
+  const sinceDate = since ? new Date(since) : null;
+  if (sinceDate && !Number.isNaN(sinceDate.getTime())) {
+    const range = `${formatArxivMinute(sinceDate)} TO ${formatArxivMinute(new Date())}`;
+    const catQuery = categories.map((cat) => `cat:${cat}`).join(" OR ");
+    const boundQuery = `submittedDate:[${range}] AND (${catQuery})`;
+    // No fallback without the date bound: that page would not start at the resume point
+    return await searchArxiv({
+      query: kwQuery ? `${boundQuery} AND ${kwQuery}` : boundQuery,
+      maxResults: Math.min(maxResults, 30),
+      sortBy: "submittedDate",
+      sortOrder: "ascending",
+    });
+  }
+
   // For short ranges, use single query (original behavior)
   if (daysBack <= 30) {
     const capped = Math.min(maxResults, 30);
@@ -402,9 +426,10 @@ export const ROCKET_KEYWORDS = [
 export function collectAstronomyPapers(params: {
   maxResults?: number;
   daysBack?: number;
+  since?: string;
   includeAllCategories?: boolean;
 }): Promise<ArxivEntry[]> {
-  const { maxResults = 30, daysBack = 7, includeAllCategories = true } = params;
+  const { maxResults = 30, daysBack = 7, includeAllCategories = true, since } = params;
 
   const categories = includeAllCategories
     ? ASTRO_CATEGORIES
@@ -414,6 +439,7 @@ export function collectAstronomyPapers(params: {
     categories,
     maxResults,
     daysBack,
+    since,
   });
 }
 
@@ -423,13 +449,15 @@ export function collectAstronomyPapers(params: {
 export function collectRocketPapers(params: {
   maxResults?: number;
   daysBack?: number;
+  since?: string;
 }): Promise<ArxivEntry[]> {
-  const { maxResults = 20, daysBack = 14 } = params;
+  const { maxResults = 20, daysBack = 14, since } = params;
   return getRecentArxivPapers({
     categories: ROCKET_CATEGORIES,
     keywords: ROCKET_KEYWORDS,
     maxResults,
     daysBack,
+    since,
   });
 }
 
@@ -469,13 +497,15 @@ export const ROBOTICS_KEYWORDS = [
 export function collectRoboticsPapers(params: {
   maxResults?: number;
   daysBack?: number;
+  since?: string;
 }): Promise<ArxivEntry[]> {
-  const { maxResults = 20, daysBack = 14 } = params;
+  const { maxResults = 20, daysBack = 14, since } = params;
   return getRecentArxivPapers({
     categories: ROBOTICS_CATEGORIES,
     keywords: ROBOTICS_KEYWORDS,
     maxResults,
     daysBack,
+    since,
   });
 }
 
@@ -509,13 +539,15 @@ export const AI_ROBOTICS_ASTRO_KEYWORDS = [
 export function collectAiPapers(params: {
   maxResults?: number;
   daysBack?: number;
+  since?: string;
 }): Promise<ArxivEntry[]> {
-  const { maxResults = 20, daysBack = 14 } = params;
+  const { maxResults = 20, daysBack = 14, since } = params;
   return getRecentArxivPapers({
     categories: AI_CATEGORIES,
     keywords: AI_ROBOTICS_ASTRO_KEYWORDS,
     maxResults,
     daysBack,
+    since,
   });
 }
 
@@ -523,12 +555,14 @@ export function collectAiPapers(params: {
 export function collectSatellitePapers(params: {
   maxResults?: number;
   daysBack?: number;
+  since?: string;
 }): Promise<ArxivEntry[]> {
-  const { maxResults = 20, daysBack = 14 } = params;
+  const { maxResults = 20, daysBack = 14, since } = params;
   return getRecentArxivPapers({
     categories: SATELLITE_CATEGORIES,
     maxResults,
     daysBack,
+    since,
   });
 }
 
@@ -536,11 +570,13 @@ export function collectSatellitePapers(params: {
 export function collectSpaceTravelPapers(params: {
   maxResults?: number;
   daysBack?: number;
+  since?: string;
 }): Promise<ArxivEntry[]> {
-  const { maxResults = 20, daysBack = 14 } = params;
+  const { maxResults = 20, daysBack = 14, since } = params;
   return getRecentArxivPapers({
     categories: SPACE_TRAVEL_CATEGORIES,
     maxResults,
     daysBack,
+    since,
   });
 }
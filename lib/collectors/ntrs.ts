@@ -16,6 +16,8 @@ const NtrsEntrySchema = z.object({
   ntrsUrl: z.string(),
   documentType: z.string(),
   center: z.string().optional(),
+  /** When the report was added to NTRS; crawl checkpoints resume from it */
+  created: z.string().optional(),
 });
 
 export type NtrsEntry = z.infer<typeof NtrsEntrySchema>;
@@ -41,6 +43,7 @@ interface NtrsRawResult {
   }>;
   stiType?: string;
   center?: { name?: string };
+  created?: string;
 }
 
 interface NtrsApiResponse {
@@ -86,6 +89,7 @@ function parseNtrsResponse(data: NtrsApiResponse): NtrsEntry[] {
           ntrsUrl: `https://ntrs.nasa.gov/citations/${id}`,
           documentType: item.stiType || "UNKNOWN",
           center: item.center?.name,
+          created: item.created,
         });
       } catch {
         return null;
@@ -99,13 +103,22 @@ export async function searchNtrs(params: {
   query: string;
   page?: number;
   pageSize?: number;
+  /** Only reports added to NTRS at or after this timestamp */
+  createdAfter?: string;
+  /** Sort by the date reports were added to NTRS instead of by relevance */
+  sortOrder?: "asc" | "desc";
 }): Promise<{ entries: NtrsEntry[]; total: number }> {
-  const { query, page = 1, pageSize = 25 } = params;
+  const { query, page = 1, pageSize = 25, createdAfter, sortOrder } = params;
 
   const url = new URL(NTRS_API_BASE);
   url.searchParams.set("q", query);
   url.searchParams.set("page", page.toString());
   url.searchParams.set("pageSize", pageSize.toString());
+  if (createdAfter) url.searchParams.set("created.gte", createdAfter);
+  if (sortOrder) {
+    url.searchParams.set("sort.field", "created");
+    url.searchParams.set("sort.order", sortOrder);
+  }
 
   const maxAttempts = 3;
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
@@ -140,6 +153,42 @@ export async function searchNtrs(params: {
   return { entries: [], total: 0 };
 }
 
+// Pages read per query when resuming; a query with more new reports than this is cut off
+const MAX_RESUME_PAGES = 5;
+
+/**
+ * One collector query. Without a resume point: the top page by relevance. With one: the
+ * reports added since, oldest first, paging until the query runs dry. `cutOff` is set when
+ * the query stopped early - reports added after it may be missing from `entries`.
+ */
+async function searchNtrsQuery(
+  query: string,
+  pageSize: number,
+  createdAfter: string | undefined,
+): Promise<{ entries: NtrsEntry[]; cutOff?: string }> {
+  if (!createdAfter) return await searchNtrs({ query, pageSize });
+
+  const entries: NtrsEntry[] = [];
+  for (let page = 1; page <= MAX_RESUME_PAGES; page++) {
+    const result = await searchNtrs({ query, page, pageSize, createdAfter, sortOrder: "asc" });
+    entries.push(...result.entries);
+    if (page * pageSize >= result.total) return { entries };
+    await new Promise((r) => setTimeout(r, 200));
+  }
+  return { entries, cutOff: entries.at(-1)?.created ?? createdAfter };
+}
+
+/**
+ * Resumed reports, oldest first, up to the earliest query cut-off: nothing after the resume
+ * point is left out before the newest report returned, so the checkpoint can move to it.
+ */
+function throughCutOff(entries: NtrsEntry[], cutOffs: string[]): NtrsEntry[] {
+  const ceiling = Math.min(...cutOffs.map((value) => Date.parse(value)));
+  return entries
+    .filter((entry) => !entry.created || Date.parse(entry.created) <= ceiling)
+    .sort((a, b) => Date.parse(a.created ?? "") - Date.parse(b.created ?? ""));
+}
+
 // Rocket/propulsion related search queries
 export const ROCKET_QUERIES = [
   // Propulsion fundamentals
@@ -176,14 +225,18 @@ export const ROCKET_QUERIES = [
 export async function collectRocketReports(params: {
   queries?: string[];
   maxResultsPerQuery?: number;
+  /** Resume point: only reports added to NTRS since this timestamp, oldest first */
+  createdAfter?: string;
 }): Promise<NtrsEntry[]> {
   const {
     queries = ROCKET_QUERIES,
     maxResultsPerQuery = 10,
+    createdAfter,
   } = params;
 
   const allEntries: NtrsEntry[] = [];
   const seenIds = new Set<number>();
+  const cutOffs: string[] = [];
 
   // Limit queries to avoid hitting rate limits (500 req/15min)
   const maxQueries = 20;
@@ -196,10 +249,8 @@ export async function collectRocketReports(params: {
     }
 
     try {
-      const { entries } = await searchNtrs({
-        query,
-        pageSize: maxResultsPerQuery,
-      });
+      const { entries, cutOff } = await searchNtrsQuery(query, maxResultsPerQuery, createdAfter);
+      if (cutOff) cutOffs.push(cutOff);
 
       // Deduplicate
       for (const entry of entries) {
@@ -215,11 +266,13 @@ export async function collectRocketReports(params: {
       await new Promise((r) => setTimeout(r, 200));
     } catch (error) {
       console.error(`Failed to search NTRS for "${query}":`, error);
+      // Its new reports were not read, so nothing past the resume point is known complete
+      if (createdAfter) cutOffs.push(createdAfter);
     }
   }
 
   console.log(`  📊 Found ${allEntries.length} unique NTRS reports from ${queryCount} queries`);
-  return allEntries;
+  return createdAfter ? throughCutOff(allEntries, cutOffs) : allEntries;
 }
 
 // Robotics-related search queries for NASA NTRS
@@ -240,14 +293,18 @@ export const ROBOTICS_QUERIES = [
 export async function collectRoboticsReports(params: {
   queries?: string[];
   maxResultsPerQuery?: number;
+  /** Resume point: only reports added to NTRS since this timestamp, oldest first */
+  createdAfter?: string;
 }): Promise<NtrsEntry[]> {
   const {
     queries = ROBOTICS_QUERIES,
     maxResultsPerQuery = 10,
+    createdAfter,
   } = params;
 
   const allEntries: NtrsEntry[] = [];
   const seenIds = new Set<number>();
+  const cutOffs: string[] = [];
 
   const maxQueries = 10;
   let queryCount = 0;
@@ -259,10 +316,8 @@ export async function collectRoboticsReports(params: {
     }
 
     try {
-      const { entries } = await searchNtrs({
-        query,
-        pageSize: maxResultsPerQuery,
-      });
+      const { entries, cutOff } = await searchNtrsQuery(query, maxResultsPerQuery, createdAfter);
+      if (cutOff) cutOffs.push(cutOff);
 
       for (const entry of entries) {
         if (!seenIds.has(entry.id)) {
@@ -275,11 +330,13 @@ export async function collectRoboticsReports(params: {
       await new Promise((r) => setTimeout(r, 200));
     } catch (error) {
       console.error(`Failed to search NTRS for "${query}":`, error);
+      // Its new reports were not read, so nothing past the resume point is known complete
+      if (createdAfter) cutOffs.push(createdAfter);
     }
   }
 
   console.log(`  📊 Found ${allEntries.length} unique NTRS robotics reports from ${queryCount} queries`);
-  return allEntries;
+  return createdAfter ? throughCutOff(allEntries, cutOffs) : allEntries;
 }
 
 // Satellite-related search queries for NASA NTRS
@@ -300,14 +357,18 @@ export const SATELLITE_QUERIES = [
 export async function collectSatelliteReports(params: {
   queries?: string[];
   maxResultsPerQuery?: number;
+  /** Resume point: only reports added to NTRS since this timestamp, oldest first */
+  createdAfter?: string;
 }): Promise<NtrsEntry[]> {
   const {
     queries = SATELLITE_QUERIES,
     maxResultsPerQuery = 10,
+    createdAfter,
   } = params;
 
   const allEntries: NtrsEntry[] = [];
   const seenIds = new Set<number>();
+  const cutOffs: string[] = [];
 
   const maxQueries = 10;
   let queryCount = 0;
@@ -319,10 +380,8 @@ export async function collectSatelliteReports(params: {
     }
 
     try {
-      const { entries } = await searchNtrs({
-        query,
-        pageSize: maxResultsPerQuery,
-      });
+      const { entries, cutOff } = await searchNtrsQuery(query, maxResultsPerQuery, createdAfter);
+      if (cutOff) cutOffs.push(cutOff);
 
       for (const entry of entries) {
         if (!seenIds.has(entry.id)) {
@@ -335,11 +394,13 @@ export async function collectSatelliteReports(params: {
       await new Promise((r) => setTimeout(r, 200));
     } catch (error) {
       console.error(`Failed to search NTRS for "${query}":`, error);
+      // Its new reports were not read, so nothing past the resume point is known complete
+      if (createdAfter) cutOffs.push(createdAfter);
     }
   }
 
   console.log(`  📊 Found ${allEntries.length} unique NTRS satellite reports from ${queryCount} queries`);
-  return allEntries;
+  return createdAfter ? throughCutOff(allEntries, cutOffs) : allEntries;
 }
 
 // Space travel / mission-related search queries for NASA NTRS
@@ -360,14 +421,18 @@ export const SPACE_TRAVEL_QUERIES = [
 export async function collectSpaceTravelReports(params: {
   queries?: string[];
   maxResultsPerQuery?: number;
+  /** Resume point: only reports added to NTRS since this timestamp, oldest first */
+  createdAfter?: string;
 }): Promise<NtrsEntry[]> {
   const {
     queries = SPACE_TRAVEL_QUERIES,
     maxResultsPerQuery = 10,
+    createdAfter,
   } = params;
 
   const allEntries: NtrsEntry[] = [];
   const seenIds = new Set<number>();
+  const cutOffs: string[] = [];
 
   const maxQueries = 10;
   let queryCount = 0;
@@ -379,10 +444,8 @@ export async function collectSpaceTravelReports(params: {
     }
 
     try {
-      const { entries } = await searchNtrs({
-        query,
-        pageSize: maxResultsPerQuery,
-      });
+      const { entries, cutOff } = await searchNtrsQuery(query, maxResultsPerQuery, createdAfter);
+      if (cutOff) cutOffs.push(cutOff);
 
       for (const entry of entries) {
         if (!seenIds.has(entry.id)) {
@@ -395,11 +458,13 @@ export async function collectSpaceTravelReports(params: {
       await new Promise((r) => setTimeout(r, 200));
     } catch (error) {
       console.error(`Failed to search NTRS for "${query}":`, error);
+      // Its new reports were not read, so nothing past the resume point is known complete
+      if (createdAfter) cutOffs.push(createdAfter);
     }
   }
 
   console.log(`  📊 Found ${allEntries.length} unique NTRS space travel reports from ${queryCount} queries`);
-  return allEntries;
+  return createdAfter ? throughCutOff(allEntries, cutOffs) : allEntries;
 }
 
 // Fetch full text content for a document
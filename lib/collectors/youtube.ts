@@ -133,14 +133,23 @@ export async function fetchVideoMetadata(videoId: string): Promise<VideoMetadata
   }
 }
 
+export interface YouTubeSearchResult {
+  videoId: string;
+  title: string;
+  channelName: string;
+  publishedAt?: string;
+}
+
 // Search YouTube videos
 export async function searchYouTubeVideos(params: {
   query: string;
   maxResults?: number;
   order?: "date" | "relevance" | "viewCount" | "rating";
   channelId?: string;
-}): Promise<Array<{ videoId: string; title: string; channelName: string }>> {
-  const { query, maxResults = 10, order = "relevance", channelId } = params;
+  /** RFC 3339 timestamp; only videos published after it are returned */
+  publishedAfter?: string;
+}): Promise<YouTubeSearchResult[]> {
+  const { query, maxResults = 10, order = "relevance", channelId, publishedAfter } = params;
 
   const apiKey = Deno.env.get("YOUTUBE_API_KEY");
   if (!apiKey) {
@@ -155,6 +164,7 @@ export async function searchYouTubeVideos(params: {
   url.searchParams.set("order", order);
   url.searchParams.set("key", apiKey);
   if (channelId) url.searchParams.set("channelId", channelId);
+  if (publishedAfter) url.searchParams.set("publishedAfter", publishedAfter);
 
   try {
     const response = await fetch(url.toString());
@@ -165,11 +175,12 @@ export async function searchYouTubeVideos(params: {
     const data = await response.json();
     return (data.items || []).map((item: {
       id?: { videoId?: string };
-      snippet?: { title?: string; channelTitle?: string };
+      snippet?: { title?: string; channelTitle?: string; publishedAt?: string };
     }) => ({
       videoId: item.id?.videoId || "",
       title: item.snippet?.title || "",
       channelName: item.snippet?.channelTitle || "",
+      publishedAt: item.snippet?.publishedAt,
     }));
   } catch (error) {
     console.error("Error searching YouTube:", error);
@@ -212,11 +223,15 @@ function isQuotaExhausted(error: unknown): boolean {
   return msg.includes("Forbidden") || msg.includes("quotaExceeded") || msg.includes("dailyLimitExceeded");
 }
 
-// Collect astronomy videos from specific channels or search
+// Collect astronomy videos from specific channels or search. `truncated` is set when a search
+// returned a full page or did not run (an error or the quota): videos published after
+// `publishedAfter` may then be missing, even ones older than the newest video returned.
 export async function collectAstronomyVideos(params: {
   searchQueries?: string[];
   maxResultsPerQuery?: number;
-}): Promise<Array<{ videoId: string; title: string; channelName: string }>> {
+  /** Resume point: only search videos published after this RFC 3339 timestamp */
+  publishedAfter?: string;
+}): Promise<{ videos: YouTubeSearchResult[]; truncated: boolean }> {
   const {
     searchQueries = [
       // Rocket & Launch (priority - first 8 for relevance search)
@@ -273,15 +288,17 @@ export async function collectAstronomyVideos(params: {
       "robot SLAM navigation",
     ],
     maxResultsPerQuery = 10,
+    publishedAfter,
   } = params;
 
-  const allVideos: Array<{ videoId: string; title: string; channelName: string }> = [];
+  const allVideos: YouTubeSearchResult[] = [];
 
   // Limit searches to stay within YouTube API quota (10,000 units/day)
   // Each search costs 100 units, so we limit to ~30-40 searches per run
   const maxSearches = 30;
   let searchCount = 0;
   let quotaExhausted = false;
+  let truncated = false;
 
   // Strategy 1: Search with relevance sort (popular videos) - 8 searches
   console.log("  📡 Searching by relevance...");
@@ -292,7 +309,9 @@ export async function collectAstronomyVideos(params: {
         query,
         maxResults: Math.min(maxResultsPerQuery, 10),
         order: "relevance",
+        publishedAfter,
       });
+      if (videos.length >= Math.min(maxResultsPerQuery, 10)) truncated = true;
       allVideos.push(...videos);
       searchCount++;
     } catch (error) {
@@ -302,6 +321,7 @@ export async function collectAstronomyVideos(params: {
         break;
       }
       console.error(`Failed to search for "${query}":`, error);
+      truncated = true;
     }
   }
 
@@ -315,7 +335,9 @@ export async function collectAstronomyVideos(params: {
           query,
           maxResults: Math.min(maxResultsPerQuery, 10),
           order: "date",
+          publishedAfter,
         });
+        if (videos.length >= Math.min(maxResultsPerQuery, 10)) truncated = true;
         allVideos.push(...videos);
         searchCount++;
       } catch (error) {
@@ -325,6 +347,7 @@ export async function collectAstronomyVideos(params: {
           break;
         }
         console.error(`Failed to search for "${query}" (date):`, error);
+        truncated = true;
       }
     }
   }
@@ -339,7 +362,9 @@ export async function collectAstronomyVideos(params: {
           query,
           maxResults: Math.min(maxResultsPerQuery, 10),
           order: "viewCount",
+          publishedAfter,
         });
+        if (videos.length >= Math.min(maxResultsPerQuery, 10)) truncated = true;
         allVideos.push(...videos);
         searchCount++;
       } catch (error) {
@@ -349,6 +374,7 @@ export async function collectAstronomyVideos(params: {
           break;
         }
         console.error(`Failed to search for "${query}" (viewCount):`, error);
+        truncated = true;
       }
     }
   }
@@ -367,7 +393,9 @@ export async function collectAstronomyVideos(params: {
             maxResults: 5,
             order: "date",
             channelId: channel.id,
+            publishedAfter,
           });
+          if (videos.length >= 5) truncated = true;
           allVideos.push(...videos);
           searchCount++;
         } catch (error) {
@@ -390,7 +418,7 @@ export async function collectAstronomyVideos(params: {
   );
 
   console.log(`  📊 Found ${uniqueVideos.length} unique videos from ${allVideos.length} results`);
-  return uniqueVideos;
+  return { videos: uniqueVideos, truncated: truncated || quotaExhausted };
 }
 
 // Fetch complete video data (metadata + transcript)
@@ -1,4 +1,6 @@
+import type { FusionWeights } from "./fusion.ts";
 import type { RateLimitConfig } from "./rate-limit.ts";
+import type { DiversityOptions, TypeBoosts } from "./search-ranking.ts";
 
 export const INCLUDE_ERROR_DATA = Deno.env.get("ASTROGROOT_DEBUG") === "1";
 
@@ -16,9 +18,55 @@ export const MCP_MAX_BODY_BYTES = parseInt(
   10,
 ) || 102400;
 
+// MCP sessions (Mcp-Session-Id) expire after this long without a request (default: 1 hour)
+export const MCP_SESSION_TTL_MS = parseInt(
+  Deno.env.get("MCP_SESSION_TTL_MS") ?? "3600000",
+  10,
+) || 3600000;
+
 // Maximum search query length (characters)
 export const MAX_SEARCH_QUERY_LENGTH = 500;
 
+// Hybrid search: reciprocal-rank fusion weights per content type.
+// Override with "vector,bm25", e.g. SEARCH_FUSION_WEIGHTS_PAPERS="1,0.6"
+function parseFusionWeights(name: string): FusionWeights {
+  const [vector, bm25] = (Deno.env.get(name) ?? "").split(",").map((v) => parseFloat(v));
+  return {
+    vector: Number.isFinite(vector) && vector >= 0 ? vector : 1,
+    bm25: Number.isFinite(bm25) && bm25 >= 0 ? bm25 : 1,
+  };
+}
+
+export const SEARCH_FUSION_WEIGHTS: Record<"paper" | "video" | "nasa", FusionWeights> = {
+  paper: parseFusionWeights("SEARCH_FUSION_WEIGHTS_PAPERS"),
+  video: parseFusionWeights("SEARCH_FUSION_WEIGHTS_VIDEOS"),
+  nasa: parseFusionWeights("SEARCH_FUSION_WEIGHTS_NASA"),
+};
+
+// Unified ranking: multiplier on each type's calibrated score.
+// Override per type, e.g. SEARCH_TYPE_BOOST_VIDEOS="1.2"
+function parseTypeBoost(name: string): number {
+  const boost = parseFloat(Deno.env.get(name) ?? "");
+  return Number.isFinite(boost) && boost >= 0 ? boost : 1;
+}
+
+export const SEARCH_TYPE_BOOSTS: TypeBoosts = {
+  paper: parseTypeBoost("SEARCH_TYPE_BOOST_PAPERS"),
+  video: parseTypeBoost("SEARCH_TYPE_BOOST_VIDEOS"),
+  nasa: parseTypeBoost("SEARCH_TYPE_BOOST_NASA"),
+};
+
+// Unified ranking: every type with a relevant result gets at least `minPerType` of the top
+// `window` results. Override with "window,minPerType", e.g. SEARCH_DIVERSITY="10,1" ("0,0" = off)
+export const SEARCH_DIVERSITY: DiversityOptions = (() => {
+  const [window, minPerType] = (Deno.env.get("SEARCH_DIVERSITY") ?? "").split(",")
+    .map((v) => parseInt(v, 10));
+  return {
+    window: Number.isInteger(window) && window >= 0 ? window : 10,
+    minPerType: Number.isInteger(minPerType) && minPerType >= 0 ? minPerType : 1,
+  };
+})();
+
 // Request timeout in milliseconds (30 seconds)
 export const REQUEST_TIMEOUT_MS = 30000;
 
@@ -30,8 +78,41 @@ export const RATE_LIMITS: Record<string, RateLimitConfig> = {
   html: { tier: "html", limit: 60, windowSec: 60 },
   // API endpoints - search, stats
   api: { tier: "api", limit: 30, windowSec: 60 },
+  // Failed /api/v1 key checks per IP - keyed requests skip the global limit, so guessing keys
+  // is capped here
+  apiAuth: { tier: "api-auth", limit: 20, windowSec: 60 },
+  // Ask the library - every answer spends AI budget
+  ask: { tier: "ask", limit: 5, windowSec: 60 },
+  // Item chat on detail pages - one request per chat turn
+  chat: { tier: "chat", limit: 10, windowSec: 60 },
   // MCP endpoint - AI tool calls
   mcp: { tier: "mcp", limit: 10, windowSec: 60 },
   // Health endpoint - monitoring probes
   health: { tier: "health", limit: 120, windowSec: 60 },
 };
+
+// Per-key limits for /api/v1: a per-minute burst limit and a daily quota, counted per API key
+// (not per IP) in the same Deno KV limiter. A key's tier is stored in the api_keys table.
+// aiDailyBudgetUsd caps the AI spend of the key's AI requests (POST /api/v1/ask) per UTC day.
+export const API_KEY_TIERS = {
+  free: {
+    perMinute: { tier: "v1-free", limit: 30, windowSec: 60 },
+    perDay: { tier: "v1-free-day", limit: 1_000, windowSec: 86_400 },
+    aiDailyBudgetUsd: 0.05,
+  },
+  standard: {
+    perMinute: { tier: "v1-standard", limit: 120, windowSec: 60 },
+    perDay: { tier: "v1-standard-day", limit: 20_000, windowSec: 86_400 },
+    aiDailyBudgetUsd: 0.25,
+  },
+  internal: {
+    perMinute: { tier: "v1-internal", limit: 600, windowSec: 60 },
+    perDay: { tier: "v1-internal-day", limit: 200_000, windowSec: 86_400 },
+    aiDailyBudgetUsd: 1,
+  },
+} satisfies Record<
+  string,
+  { perMinute: RateLimitConfig; perDay: RateLimitConfig; aiDailyBudgetUsd: number }
+>;
+
+export type ApiKeyTier = keyof typeof API_KEY_TIERS;
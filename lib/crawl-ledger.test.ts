@@ -0,0 +1,63 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { advanceCheckpoint, readCheckpoint } from "./crawl-ledger.ts";
+
+Deno.test("crawl-ledger: checkpoint advances to the newest handled value", () => {
+  assertEquals(
+    advanceCheckpoint(
+      "2024-01-01T00:00:00.000Z",
+      ["2024-01-03T00:00:00Z", "2024-01-05T00:00:00Z", "2023-12-30T00:00:00Z"],
+      [],
+    ),
+    "2024-01-05T00:00:00.000Z",
+  );
+  // Nothing newer than the current mark: keep it
+  assertEquals(
+    advanceCheckpoint("2024-01-01T00:00:00.000Z", ["2023-12-30T00:00:00Z"], []),
+    "2024-01-01T00:00:00.000Z",
+  );
+  assertEquals(advanceCheckpoint(undefined, [], []), undefined);
+});
+
+Deno.test("crawl-ledger: checkpoint stops short of the earliest failed item", () => {
+  assertEquals(
+    advanceCheckpoint(
+      undefined,
+      ["2024-03-01T00:00:00Z", "2024-03-02T00:00:00Z", "2024-03-03T00:00:00Z"],
+      ["2024-03-03T00:00:00Z"],
+    ),
+    "2024-03-02T00:00:00.000Z",
+  );
+  assertEquals(
+    advanceCheckpoint(
+      "2024-02-01T00:00:00.000Z",
+      ["2024-02-02T00:00:00Z", "2024-02-03T00:00:00Z"],
+      ["2024-02-02T00:00:00Z"],
+    ),
+    "2024-02-01T00:00:00.000Z",
+  );
+});
+
+Deno.test("crawl-ledger: a truncated page does not move the mark past items it missed", () => {
+  // A capped relevance page returned Feb 5 and Feb 9; Feb 3 and Feb 7 are also new but did
+  // not make the page. Moving to Feb 9 would skip them for good.
+  const mark = "2024-02-01T00:00:00.000Z";
+  const page = ["2024-02-05T00:00:00Z", "2024-02-09T00:00:00Z"];
+  assertEquals(advanceCheckpoint(mark, page, [], true), mark);
+  // Still asked for next run; once a fetch is not truncated the mark covers them all
+  const next = ["2024-02-03T00:00:00Z", "2024-02-07T00:00:00Z", ...page];
+  assertEquals(advanceCheckpoint(mark, next, [], false), "2024-02-09T00:00:00.000Z");
+  // Without a mark there is nothing to skip past: the first page seeds it
+  assertEquals(advanceCheckpoint(undefined, page, [], true), "2024-02-09T00:00:00.000Z");
+});
+
+Deno.test("crawl-ledger: marks from before NTRS was date-ordered are ignored", () => {
+  assertEquals(readCheckpoint("ntrs:rocket", { "ntrs:rocket": "20240001234" }), undefined);
+  assertEquals(
+    readCheckpoint("ntrs:rocket", { "ntrs:rocket": "2024-05-01T10:00:00.000Z" }),
+    "2024-05-01T10:00:00.000Z",
+  );
+  assertEquals(
+    advanceCheckpoint("20240001234", ["2024-05-01T10:00:00Z"], []),
+    "2024-05-01T10:00:00.000Z",
+  );
+});
@@ -0,0 +1,220 @@
+import { desc, eq } from "drizzle-orm";
+import { db } from "../db/client.ts";
+import { crawlCheckpoints, type CrawlRun, crawlRuns } from "../db/schema.ts";
+
+/**
+ * Checkpointed crawl sources and the date their high-water mark tracks: arXiv streams and
+ * YouTube resume from the newest publication date handled, NTRS from the newest date a report
+ * was added to NTRS.
+ */
+export const CRAWL_SOURCES = {
+  "arxiv:astronomy": "published",
+  "arxiv:rocket": "published",
+  "arxiv:robotics": "published",
+  "arxiv:satellite": "published",
+  "arxiv:space-travel": "published",
+  "arxiv:ai": "published",
+  "ntrs:rocket": "created",
+  "ntrs:robotics": "created",
+  "ntrs:satellite": "created",
+  "ntrs:space-travel": "created",
+  "youtube": "published",
+} as const;
+
+export type CrawlSource = keyof typeof CRAWL_SOURCES;
+
+export type CrawlRunStatus = "running" | "completed" | "failed";
+
+export type CrawlCheckpoints = Partial<Record<CrawlSource, string>>;
+
+export interface CrawlRunResult {
+  status: Exclude<CrawlRunStatus, "running">;
+  counts: Record<string, number>;
+  errors: string[];
+  budgetStopReason?: string | null;
+}
+
+export interface CrawlRunSummary {
+  id: number;
+  status: CrawlRunStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  counts: Record<string, number>;
+  errors: string[];
+  budgetStopReason: string | null;
+}
+
+/** Persistence used by the crawler; injectable so tests can run without a database. */
+export interface CrawlLedger {
+  /** Record a run as started; returns its id, or null if the ledger is unavailable. */
+  startRun(): Promise<number | null>;
+  finishRun(runId: number | null, result: CrawlRunResult): Promise<void>;
+  getCheckpoints(): Promise<CrawlCheckpoints>;
+  setCheckpoint(source: CrawlSource, value: string): Promise<void>;
+}
+
+/** Errors kept per run; a budget stop can otherwise fail every remaining item. */
+const MAX_STORED_ERRORS = 100;
+
+function parseJson<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function toSummary(row: CrawlRun): CrawlRunSummary {
+  return {
+    id: row.id,
+    status: row.status as CrawlRunStatus,
+    startedAt: row.startedAt.toISOString(),
+    finishedAt: row.finishedAt?.toISOString() ?? null,
+    counts: parseJson(row.counts, {}),
+    errors: parseJson(row.errors, []),
+    budgetStopReason: row.budgetStopReason,
+  };
+}
+
+/**
+ * Database-backed ledger. Writes never throw - a missing table or a Turso hiccup must not
+ * stop a crawl; without checkpoints the collectors simply fall back to a full crawl.
+ */
+export function createCrawlLedger(database: typeof db = db): CrawlLedger {
+  return {
+    async startRun() {
+      try {
+        const [row] = await database
+          .insert(crawlRuns)
+          .values({ status: "running" })
+          .returning({ id: crawlRuns.id });
+        return row?.id ?? null;
+      } catch (error) {
+        console.warn("⚠️  Failed to record crawl run start (non-fatal):", error);
+        return null;
+      }
+    },
+
+    async finishRun(runId, result) {
+      const values = {
+        status: result.status,
+        finishedAt: new Date(),
+        counts: JSON.stringify(result.counts),
+        errors: JSON.stringify(result.errors.slice(0, MAX_STORED_ERRORS)),
+        budgetStopReason: result.budgetStopReason ?? null,
+      };
+      try {
+        if (runId == null) {
+          await database.insert(crawlRuns).values(values);
+        } else {
+          await database.update(crawlRuns).set(values).where(eq(crawlRuns.id, runId));
+        }
+      } catch (error) {
+        console.warn("⚠️  Failed to record crawl run result (non-fatal):", error);
+      }
+    },
+
+    async getCheckpoints() {
+      try {
+        const rows = await database.select().from(crawlCheckpoints);
+        const checkpoints: CrawlCheckpoints = {};
+        for (const row of rows) {
+          if (row.source in CRAWL_SOURCES) checkpoints[row.source as CrawlSource] = row.value;
+        }
+        return checkpoints;
+      } catch (error) {
+        console.warn("⚠️  Failed to read crawl checkpoints, crawling from scratch:", error);
+        return {};
+      }
+    },
+
+    async setCheckpoint(source, value) {
+      try {
+        await database
+          .insert(crawlCheckpoints)
+          .values({ source, value })
+          .onConflictDoUpdate({
+            target: crawlCheckpoints.source,
+            set: { value, updatedAt: new Date() },
+          });
+      } catch (error) {
+        console.warn(`⚠️  Failed to save checkpoint for ${source} (non-fatal):`, error);
+      }
+    },
+  };
+}
+
+export const crawlLedger = createCrawlLedger();
+
+/** Most recent crawl runs, newest first. */
+export async function listCrawlRuns(
+  limit = 20,
+  database: typeof db = db,
+): Promise<CrawlRunSummary[]> {
+  const rows = await database
+    .select()
+    .from(crawlRuns)
+    .orderBy(desc(crawlRuns.id))
+    .limit(Math.max(1, Math.min(100, limit)));
+  return rows.map(toSummary);
+}
+
+/** Current checkpoint of every source that has one. */
+export async function listCrawlCheckpoints(
+  database: typeof db = db,
+): Promise<Array<{ source: string; value: string; updatedAt: string }>> {
+  const rows = await database.select().from(crawlCheckpoints);
+  return rows.map((row) => ({
+    source: row.source,
+    value: row.value,
+    updatedAt: row.updatedAt.toISOString(),
+  }));
+}
+
+function checkpointOrder(value: string): number {
+  // A bare number is a mark from before NTRS was date-ordered (a report id)
+  return /^\d+$/.test(value) ? NaN : Date.parse(value);
+}
+
+/** The stored mark, or undefined when it cannot be read (e.g. written in an older format). */
+export function readCheckpoint(
+  source: CrawlSource,
+  checkpoints: CrawlCheckpoints,
+): string | undefined {
+  const value = checkpoints[source];
+  return value != null && Number.isFinite(checkpointOrder(value)) ? value : undefined;
+}
+
+/**
+ * Next high-water mark for a source: the newest value handled this run, but never past the
+ * earliest item that failed (so it is retried next run) and never behind the current mark.
+ *
+ * `truncated` says the fetch may have left out items newer than the current mark but older
+ * than the newest item it returned - a capped page that was not read oldest-first from the
+ * mark. The mark then stays where it is, so those items are still asked for next run. A
+ * source without a mark yet is seeded from whatever it returned.
+ */
+export function advanceCheckpoint(
+  current: string | undefined,
+  handled: string[],
+  failed: string[],
+  truncated = false,
+): string | undefined {
+  if (current != null && !Number.isFinite(checkpointOrder(current))) current = undefined;
+  if (truncated && current != null) return current;
+  const ceiling = Math.min(
+    ...failed.map((value) => checkpointOrder(value)).filter(Number.isFinite),
+  );
+  let best = current != null ? checkpointOrder(current) : -Infinity;
+  let next = current;
+  for (const value of handled) {
+    const order = checkpointOrder(value);
+    if (Number.isFinite(order) && order < ceiling && order > best) {
+      best = order;
+      next = value;
+    }
+  }
+  if (next === current || next == null) return current;
+  return new Date(best).toISOString();
+}
@@ -0,0 +1,113 @@
+import { db } from "../db/client.ts";
+import { nasaContent, papers, translations, videos } from "../db/schema.ts";
+import { and, eq } from "drizzle-orm";
+import type { Locale } from "./i18n.ts";
+
+export interface ItemDetail {
+  type: "paper" | "video" | "nasa";
+  id: string;
+  title: string;
+  summary: string;
+  sourceUrl: string | null;
+  metadata: Record<string, unknown>;
+}
+
+/** A single paper, video or NASA item with its localized title and summary, or null if missing. */
+export async function getItemDetail(params: {
+  type: "paper" | "video" | "nasa";
+  id: string;
+  locale: Locale;
+}): Promise<ItemDetail | null> {
+  const { type, id, locale } = params;
+  const trans = await db.query.translations.findFirst({
+    where: and(
+      eq(translations.itemType, type),
+      eq(translations.itemId, id),
+      eq(translations.lang, locale),
+    ),
+    columns: { title: true, summary: true },
+  });
+
+  if (type === "paper") {
+    const row = await db.query.papers.findFirst({ where: eq(papers.id, id) });
+    if (!row) return null;
+    const summary = trans?.summary ?? row.summary ?? row.abstract ?? "";
+    const title = trans?.title ?? row.title;
+    return {
+      type,
+      id: row.id,
+      title,
+      summary,
+      sourceUrl: row.arxivUrl ?? row.pdfUrl ?? null,
+      metadata: {
+        authors: row.authors,
+        abstract: row.abstract,
+        publishedDate: row.publishedDate,
+        updatedDate: row.updatedDate,
+        categories: row.categories,
+        pdfUrl: row.pdfUrl,
+        arxivUrl: row.arxivUrl,
+        vectorId: row.vectorId,
+        processed: row.processed,
+      },
+    };
+  }
+
+  if (type === "video") {
+    const row = await db.query.videos.findFirst({ where: eq(videos.id, id) });
+    if (!row) return null;
+    const summary = trans?.summary ?? row.summary ?? row.description ?? "";
+    const title = trans?.title ?? row.title;
+    return {
+      type,
+      id: row.id,
+      title,
+      summary,
+      sourceUrl: row.videoUrl,
+      metadata: {
+        channelName: row.channelName,
+        channelId: row.channelId,
+        description: row.description,
+        transcript: row.transcript,
+        publishedDate: row.publishedDate,
+        duration: row.duration,
+        viewCount: row.viewCount,
+        likeCount: row.likeCount,
+        tags: row.tags,
+        thumbnailUrl: row.thumbnailUrl,
+        videoUrl: row.videoUrl,
+        vectorId: row.vectorId,
+        processed: row.processed,
+      },
+    };
+  }
+
+  const row = await db.query.nasaContent.findFirst({ where: eq(nasaContent.id, id) });
+  if (!row) return null;
+  const summary = trans?.summary ?? row.summary ?? row.explanation ?? row.description ?? "";
+  const title = trans?.title ?? row.title;
+  return {
+    type,
+    id: row.id,
+    title,
+    summary,
+    sourceUrl: row.url,
+    metadata: {
+      contentType: row.contentType,
+      description: row.description,
+      explanation: row.explanation,
+      date: row.date,
+      credit: row.credit,
+      mediaType: row.mediaType,
+      hdUrl: row.hdUrl,
+      url: row.url,
+      thumbnailUrl: row.thumbnailUrl,
+      copyright: row.copyright,
+      nasaId: row.nasaId,
+      center: row.center,
+      keywords: row.keywords,
+      vectorId: row.vectorId,
+      processed: row.processed,
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { assertEquals, assertNotEquals } from "jsr:@std/assert@1";
+import {
+  createHashEmbeddingProvider,
+  HASH_EMBEDDING_DIM,
+  HASH_EMBEDDING_MODEL,
+  isEmbeddingProviderName,
+} from "./embeddings.ts";
+import { EMBEDDING_DIM_KEY, EMBEDDING_MODEL_KEY, getStoredEmbedding } from "./vector.ts";
+
+Deno.test("embeddings: hash provider is deterministic and fixed-size", async () => {
+  const provider = createHashEmbeddingProvider();
+  const [a, b, c] = await provider.embed(["black hole", "black hole", "exoplanet"]);
+  assertEquals(a.length, HASH_EMBEDDING_DIM);
+  assertEquals(a, b);
+  assertNotEquals(a, c);
+});
+
+Deno.test("embeddings: only known provider names are accepted", () => {
+  assertEquals(isEmbeddingProviderName("minilm"), true);
+  assertEquals(isEmbeddingProviderName("hash"), true);
+  assertEquals(isEmbeddingProviderName("openai"), false);
+});
+
+Deno.test("embeddings: collections without a record are treated as hash vectors", () => {
+  assertEquals(getStoredEmbedding(undefined), {
+    model: HASH_EMBEDDING_MODEL,
+    dimension: HASH_EMBEDDING_DIM,
+  });
+  assertEquals(getStoredEmbedding({ description: "arXiv papers (en)" }).model, HASH_EMBEDDING_MODEL);
+});
+
+Deno.test("embeddings: recorded model id and dimension are read back", () => {
+  const stored = getStoredEmbedding({
+    [EMBEDDING_MODEL_KEY]: "Xenova/all-MiniLM-L6-v2",
+    [EMBEDDING_DIM_KEY]: 384,
+  });
+  assertEquals(stored, { model: "Xenova/all-MiniLM-L6-v2", dimension: 384 });
+});
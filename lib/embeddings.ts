@@ -0,0 +1,144 @@
+/**
+ * Pluggable embedding providers for the Chroma vector store.
+ *
+ * Every collection records the provider's model id and dimension in its metadata
+ * (see lib/vector.ts), so vectors from different providers never share a collection.
+ */
+
+/** Produces fixed-size vectors for documents and queries. */
+export interface EmbeddingProvider {
+  /** Stable model identifier recorded on each collection (e.g. "Xenova/all-MiniLM-L6-v2"). */
+  readonly model: string;
+  /** Length of every vector returned by `embed`. */
+  readonly dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderName = "minilm" | "hash";
+
+/** Model id recorded for the legacy hash vectors (also assumed for collections with no record). */
+export const HASH_EMBEDDING_MODEL = "astrogroot-hash-v1";
+export const HASH_EMBEDDING_DIM = 384;
+export const DEFAULT_MINILM_MODEL = "Xenova/all-MiniLM-L6-v2";
+const MINILM_DIM = 384;
+/** Texts per forward pass; keeps peak memory flat when rebuilding whole collections. */
+const MINILM_BATCH_SIZE = 32;
+
+/**
+ * Deterministic hash-based vectors with no semantic meaning. Kept for tests and for
+ * reading collections built before real embeddings existed.
+ */
+export function createHashEmbeddingProvider(): EmbeddingProvider {
+  function hash(s: string): number {
+    let h = 0;
+    for (let i = 0; i < s.length; i++) {
+      h = (Math.imul(31, h) + s.charCodeAt(i)) | 0;
+    }
+    return h;
+  }
+  return {
+    model: HASH_EMBEDDING_MODEL,
+    dimension: HASH_EMBEDDING_DIM,
+    embed(texts: string[]): Promise<number[][]> {
+      return Promise.resolve(texts.map((text) => {
+        const v = new Array(HASH_EMBEDDING_DIM).fill(0);
+        const h = hash(text);
+        for (let i = 0; i < HASH_EMBEDDING_DIM; i++) {
+          v[i] = (hash(text + i + h) % 1000) / 1000 - 0.5;
+        }
+        return v;
+      }));
+    },
+  };
+}
+
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: "mean"; normalize: boolean },
+) => Promise<{ tolist(): number[][] }>;
+
+/**
+ * Sentence-transformers MiniLM running locally on CPU through ONNX Runtime.
+ * The model is fetched from the Hugging Face hub once and cached on disk; set
+ * EMBEDDING_MODELS_DIR to a directory holding the model files to run fully offline.
+ */
+export function createMiniLmEmbeddingProvider(options?: {
+  model?: string;
+  modelsDir?: string;
+  cacheDir?: string;
+}): EmbeddingProvider {
+  const model = options?.model ?? DEFAULT_MINILM_MODEL;
+  let extractorPromise: Promise<FeatureExtractor> | null = null;
+
+  function getExtractor(): Promise<FeatureExtractor> {
+    if (!extractorPromise) {
+      extractorPromise = (async () => {
+        const { pipeline, env } = await import("@huggingface/transformers");
+        if (options?.modelsDir) {
+          env.localModelPath = options.modelsDir;
+          env.allowRemoteModels = false;
+        }
+        if (options?.cacheDir) {
+          env.cacheDir = options.cacheDir;
+        }
+        const extractor = await pipeline("feature-extraction", model, { device: "cpu" });
+        return extractor as unknown as FeatureExtractor;
+      })().catch((error) => {
+        // Allow a retry on the next call (e.g. after a transient download failure)
+        extractorPromise = null;
+        throw error;
+      });
+    }
+    return extractorPromise;
+  }
+
+  return {
+    model,
+    dimension: MINILM_DIM,
+    async embed(texts: string[]): Promise<number[][]> {
+      if (texts.length === 0) return [];
+      const extractor = await getExtractor();
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += MINILM_BATCH_SIZE) {
+        const output = await extractor(texts.slice(i, i + MINILM_BATCH_SIZE), {
+          pooling: "mean",
+          normalize: true,
+        });
+        vectors.push(...output.tolist());
+      }
+      return vectors;
+    },
+  };
+}
+
+/** Build a provider by name; reads model overrides from the environment. */
+export function createEmbeddingProvider(name: EmbeddingProviderName): EmbeddingProvider {
+  switch (name) {
+    case "hash":
+      return createHashEmbeddingProvider();
+    case "minilm":
+      return createMiniLmEmbeddingProvider({
+        model: Deno.env.get("EMBEDDING_MODEL") || undefined,
+        modelsDir: Deno.env.get("EMBEDDING_MODELS_DIR") || undefined,
+        cacheDir: Deno.env.get("EMBEDDING_CACHE_DIR") || undefined,
+      });
+  }
+}
+
+export function isEmbeddingProviderName(value: string): value is EmbeddingProviderName {
+  return value === "minilm" || value === "hash";
+}
+
+let defaultProvider: EmbeddingProvider | null = null;
+
+/** Provider selected by EMBEDDING_PROVIDER (default "minilm"), created once per process. */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!defaultProvider) {
+    const name = (Deno.env.get("EMBEDDING_PROVIDER") || "minilm").trim().toLowerCase();
+    if (!isEmbeddingProviderName(name)) {
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${name}" (expected "minilm" or "hash")`);
+    }
+    defaultProvider = createEmbeddingProvider(name);
+  }
+  return defaultProvider;
+}
@@ -0,0 +1,215 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import type { Client } from "@libsql/client";
+import {
+  buildFtsMatch,
+  ensureFtsTables,
+  escapeFtsQuery,
+  FTS_INDEX_VERSION,
+  ftsInsertTranslation,
+  ftsSearch,
+  segmentCjk,
+  unsegmentCjk,
+} from "./fts.ts";
+
+type Statement = string | { sql: string; args?: (string | number | null)[] };
+
+/**
+ * libSQL client stub recording every statement. `metadata` reads return the stored index
+ * version, source-table reads page through `sourceRows` by `id`, FTS counts return `ftsCount`,
+ * and taking the index lock fails when `lockHeld` is set.
+ */
+function createRecordingClient(options: {
+  indexVersion?: number;
+  sourceRows?: Record<string, Record<string, string>[]>;
+  ftsCount?: number;
+  lockHeld?: boolean;
+}) {
+  const statements: { sql: string; args: unknown[] }[] = [];
+  const execute = (statement: Statement) => {
+    const { sql, args = [] } = typeof statement === "string" ? { sql: statement } : statement;
+    statements.push({ sql, args });
+    if (sql.startsWith("SELECT value FROM metadata")) {
+      const version = options.indexVersion;
+      return Promise.resolve({ rows: version === undefined ? [] : [{ value: String(version) }] });
+    }
+    if (sql.startsWith("SELECT COUNT(*)")) {
+      return Promise.resolve({ rows: [{ cnt: options.ftsCount ?? 0 }] });
+    }
+    if (sql.startsWith("INSERT INTO metadata") && args[0] === "fts_rebuild_lock") {
+      return Promise.resolve({ rows: [], rowsAffected: options.lockHeld ? 0 : 1 });
+    }
+    const source = sql.match(/^SELECT .* FROM (\w+) (?:WHERE|ORDER BY)/)?.[1];
+    if (!source) return Promise.resolve({ rows: [], rowsAffected: 1 });
+    const [after, limit] = args.length === 2 ? args : [undefined, args[0]];
+    const rows = (options.sourceRows?.[source] ?? [])
+      .filter((row) => after === undefined || row.id > String(after))
+      .map((row) => ({ ...row, doc_id: row.id }))
+      .slice(0, Number(limit));
+    return Promise.resolve({ rows });
+  };
+  const batch = async (batched: Statement[]) => {
+    for (const statement of batched) await execute(statement);
+    return [];
+  };
+  return { client: { execute, batch } as unknown as Client, statements };
+}
+
+Deno.test("fts: Han runs are split into bigrams, other text is untouched", () => {
+  assertEquals(segmentCjk("觀測渦輪泵").trim(), "觀測 測渦 渦輪 輪泵");
+  assertEquals(segmentCjk("X射線 and 星").replace(/\s+/g, " ").trim(), "X 射線 and 星");
+  assertEquals(segmentCjk("dark matter halo"), "dark matter halo");
+});
+
+Deno.test("fts: unsegmenting joins chained bigrams back into the original run", () => {
+  assertEquals(unsegmentCjk(segmentCjk("觀測渦輪泵")), "觀測渦輪泵");
+  assertEquals(unsegmentCjk(" 渦輪 輪泵 "), "渦輪泵");
+  assertEquals(unsegmentCjk("dark matter"), "dark matter");
+});
+
+Deno.test("fts: search results carry the text each column matched", async () => {
+  let sql = "";
+  const client = {
+    execute: (statement: { sql: string }) => {
+      sql = statement.sql;
+      return Promise.resolve({
+        rows: [{
+          id: "p1",
+          rank: -3,
+          match_title: "\uE000渦輪 輪泵\uE001 空蝕",
+          match_summary: "no marks here",
+        }],
+      });
+    },
+  } as unknown as Client;
+
+  const results = await ftsSearch(client, "translations_fts", "渦輪泵", 10);
+  assertEquals(results, [{ id: "p1", score: 0.9, matches: { title: ["渦輪泵"] } }]);
+  assertEquals(sql.includes("snippet(translations_fts, 3,"), true);
+  assertEquals(sql.includes("snippet(translations_fts, 4,"), true);
+});
+
+Deno.test("fts: filters join the item table inside the keyword query", async () => {
+  const statements: { sql: string; args: unknown[] }[] = [];
+  const client = {
+    execute: (statement: { sql: string; args: unknown[] }) => {
+      statements.push(statement);
+      return Promise.resolve({ rows: [] });
+    },
+  } as unknown as Client;
+  const filter = { table: "videos", sql: `"videos"."published_date" >= ?`, args: [100] };
+
+  await ftsSearch(client, "videos_fts", "halo", 5, filter);
+  await ftsSearch(client, "translations_fts", "halo", 5, { ...filter, itemType: "video" });
+
+  assertEquals(statements[0].sql.includes("JOIN videos ON videos.id = videos_fts.doc_id"), true);
+  assertEquals(statements[0].args, ['"halo"', 100, 5]);
+  assertEquals(
+    statements[1].sql.includes("JOIN videos ON videos.id = translations_fts.item_id"),
+    true,
+  );
+  assertEquals(statements[1].args, ['"halo"', 100, "video", 5]);
+});
+
+Deno.test("fts: query terms are segmented like indexed text", () => {
+  assertEquals(escapeFtsQuery("渦輪泵 cavitation"), '"渦輪 輪泵" OR "cavitation"');
+  assertEquals(
+    buildFtsMatch({ terms: ["星"], phrases: ["中子星"], excluded: [] }),
+    '"中子 子星" AND "星"*',
+  );
+});
+
+Deno.test("fts: ensureFtsTables rebuilds an index from before segmentation", async () => {
+  const { client, statements } = createRecordingClient({
+    sourceRows: {
+      translations: [
+        {
+          id: "1",
+          item_type: "paper",
+          item_id: "p1",
+          lang: "zh-TW",
+          title: "渦輪泵空蝕",
+          summary: "",
+        },
+      ],
+    },
+  });
+  await ensureFtsTables(client);
+
+  const sqls = statements.map((statement) => statement.sql);
+  assertEquals(sqls.filter((sql) => sql.startsWith("DROP TABLE")).length, 4);
+  const insert = statements.find((statement) =>
+    statement.sql.startsWith("INSERT INTO translations_fts")
+  );
+  assertEquals(insert?.args.slice(0, 3), ["paper", "p1", "zh-TW"]);
+  assertEquals(String(insert?.args[3]).trim(), "渦輪 輪泵 泵空 空蝕");
+  const versionWrite = sqls.findIndex((sql, i) =>
+    sql.startsWith("INSERT INTO metadata") && statements[i].args[0] === "fts_index_version"
+  );
+  assertEquals(statements[versionWrite].args[1], String(FTS_INDEX_VERSION));
+  // The version is written once every table is rebuilt, and the lock released after that
+  assertEquals(
+    sqls.findLastIndex((sql) => sql.startsWith("INSERT INTO translations_fts")) <
+      versionWrite,
+    true,
+  );
+  assertEquals(sqls.at(-1), "DELETE FROM metadata WHERE key = ? AND value = ?");
+});
+
+Deno.test("fts: backfills read source tables in keyset pages", async () => {
+  const papers = Array.from({ length: 450 }, (_, i) => ({
+    id: `p${String(i).padStart(3, "0")}`,
+    title: `Paper ${i}`,
+    abstract: "",
+    summary: "",
+  }));
+  const { client, statements } = createRecordingClient({ sourceRows: { papers } });
+  await ensureFtsTables(client);
+
+  const pages = statements.filter((statement) => / FROM papers /.test(statement.sql));
+  assertEquals(pages.map((page) => page.args), [[200], ["p199", 200], ["p399", 200]]);
+  const inserted = statements.filter((statement) =>
+    statement.sql.startsWith("INSERT INTO papers_fts")
+  );
+  assertEquals(inserted.length, 450);
+  assertEquals(inserted.at(-1)?.args[0], "p449");
+});
+
+Deno.test("fts: ensureFtsTables leaves the index to a process holding the lock", async () => {
+  const { client, statements } = createRecordingClient({ lockHeld: true });
+  await ensureFtsTables(client);
+
+  const sqls = statements.map((statement) => statement.sql);
+  assertEquals(
+    sqls.some((sql) => sql.startsWith("DROP TABLE") || sql.startsWith("DELETE FROM metadata")),
+    false,
+  );
+  assertEquals(
+    statements.some((statement) =>
+      statement.args[0] === "fts_index_version" &&
+      statement.sql.startsWith("INSERT")
+    ),
+    false,
+  );
+});
+
+Deno.test("fts: ensureFtsTables keeps a current index and segments new rows", async () => {
+  const { client, statements } = createRecordingClient({
+    indexVersion: FTS_INDEX_VERSION,
+    ftsCount: 3,
+  });
+  await ensureFtsTables(client);
+  await ftsInsertTranslation(client, {
+    itemType: "paper",
+    itemId: "p1",
+    lang: "zh-CN",
+    title: "红外光谱",
+    summary: "",
+  });
+
+  const sqls = statements.map((statement) => statement.sql);
+  assertEquals(
+    sqls.some((sql) => sql.startsWith("DROP TABLE") || sql.startsWith("INSERT INTO metadata")),
+    false,
+  );
+  assertEquals(String(statements.at(-1)?.args[3]).trim(), "红外 外光 光谱");
+});
@@ -1,11 +1,18 @@
-import type { Client } from "@libsql/client";
+import type { Client, InValue } from "@libsql/client";
+
+/**
+ * FTS5 tables keep the default unicode61 tokenizer, which treats a run of Han characters as a
+ * single token. Chinese text is therefore segmented before it is indexed or queried: each run is
+ * split into overlapping bigrams (see segmentCjk), so 渦輪泵 matches inside any longer sentence.
+ */
+export type FtsTable = "papers_fts" | "videos_fts" | "nasa_fts" | "translations_fts";
 
 // FTS5 table creation SQL
 const CREATE_PAPERS_FTS = `CREATE VIRTUAL TABLE IF NOT EXISTS papers_fts USING fts5(
   doc_id UNINDEXED, title, abstract, summary
 )`;
 const CREATE_VIDEOS_FTS = `CREATE VIRTUAL TABLE IF NOT EXISTS videos_fts USING fts5(
-  doc_id UNINDEXED, title, summary, description
+  doc_id UNINDEXED, title, summary, description, transcript
 )`;
 const CREATE_NASA_FTS = `CREATE VIRTUAL TABLE IF NOT EXISTS nasa_fts USING fts5(
   doc_id UNINDEXED, title, summary, explanation, description
@@ -15,63 +22,283 @@ const CREATE_TRANSLATIONS_FTS = `CREATE VIRTUAL TABLE IF NOT EXISTS translations
   title, summary
 )`;
 
-/** Ensure FTS5 virtual tables exist and backfill from source tables if empty. */
-export async function ensureFtsTables(client: Client): Promise<void> {
-  await client.execute(CREATE_PAPERS_FTS);
-  await client.execute(CREATE_VIDEOS_FTS);
-  await client.execute(CREATE_NASA_FTS);
-  await client.execute(CREATE_TRANSLATIONS_FTS);
-
-  // Backfill from source tables if FTS tables are empty
-  const [papersCount, videosCount, nasaCount, transCount] = await Promise.all([
-    client.execute("SELECT COUNT(*) as cnt FROM papers_fts"),
-    client.execute("SELECT COUNT(*) as cnt FROM videos_fts"),
-    client.execute("SELECT COUNT(*) as cnt FROM nasa_fts"),
-    client.execute("SELECT COUNT(*) as cnt FROM translations_fts"),
-  ]);
-
-  if (Number(papersCount.rows[0]?.cnt) === 0) {
-    await client.execute(
-      "INSERT INTO papers_fts(doc_id, title, abstract, summary) SELECT id, title, abstract, COALESCE(summary, '') FROM papers",
-    );
+interface FtsTableSpec {
+  create: string;
+  columns: string[];
+  /** Leading UNINDEXED columns, stored as-is rather than segmented. */
+  unindexed: number;
+  /**
+   * Source rows for a backfill, aliased to the FTS column names. Read in pages ordered by the
+   * source table's `id`, which the query returns as `cursor`.
+   */
+  backfill: string;
+  cursor: string;
+}
+
+const FTS_TABLES: Record<FtsTable, FtsTableSpec> = {
+  papers_fts: {
+    create: CREATE_PAPERS_FTS,
+    columns: ["doc_id", "title", "abstract", "summary"],
+    unindexed: 1,
+    backfill:
+      "SELECT id AS doc_id, title, abstract, COALESCE(summary, '') AS summary FROM papers",
+    cursor: "doc_id",
+  },
+  videos_fts: {
+    create: CREATE_VIDEOS_FTS,
+    columns: ["doc_id", "title", "summary", "description", "transcript"],
+    unindexed: 1,
+    backfill:
+      "SELECT id AS doc_id, title, COALESCE(summary, '') AS summary, COALESCE(description, '') AS description, COALESCE(transcript, '') AS transcript FROM videos",
+    cursor: "doc_id",
+  },
+  nasa_fts: {
+    create: CREATE_NASA_FTS,
+    columns: ["doc_id", "title", "summary", "explanation", "description"],
+    unindexed: 1,
+    backfill:
+      "SELECT id AS doc_id, title, COALESCE(summary, '') AS summary, COALESCE(explanation, '') AS explanation, COALESCE(description, '') AS description FROM nasa_content",
+    cursor: "doc_id",
+  },
+  translations_fts: {
+    create: CREATE_TRANSLATIONS_FTS,
+    columns: ["item_type", "item_id", "lang", "title", "summary"],
+    unindexed: 3,
+    backfill:
+      "SELECT id, item_type, item_id, lang, COALESCE(title, '') AS title, COALESCE(summary, '') AS summary FROM translations",
+    cursor: "id",
+  },
+};
+
+/**
+ * Version of the indexed text format, kept in the `metadata` table. Bump it whenever
+ * segmentation changes so ensureFtsTables rebuilds indexes written the old way.
+ * 1 = raw text (no version row), 2 = Han runs split into bigrams, 3 = video transcripts indexed.
+ */
+export const FTS_INDEX_VERSION = 3;
+const FTS_INDEX_VERSION_KEY = "fts_index_version";
+const BACKFILL_BATCH_SIZE = 200;
+
+// `metadata` row held while a process rebuilds or backfills the index, so concurrent starts
+// do not drop and refill the tables twice. A lock older than the TTL is left by a process that
+// died and can be taken over.
+const FTS_LOCK_KEY = "fts_rebuild_lock";
+const FTS_LOCK_TTL_SEC = 60 * 60;
+
+/**
+ * Split each run of Han characters into overlapping bigrams: "觀測渦輪泵" → "觀測 測渦 渦輪 輪泵".
+ * A lone character stays a token of its own. Other text is left as it is.
+ */
+export function segmentCjk(text: string): string {
+  return text.replace(/\p{Script=Han}+/gu, (run) => {
+    const chars = [...run];
+    if (chars.length === 1) return ` ${run} `;
+    const bigrams = chars.slice(1).map((char, i) => chars[i] + char);
+    return ` ${bigrams.join(" ")} `;
+  });
+}
+
+/**
+ * Undo segmentCjk on a stretch of indexed text: chained bigrams collapse back into the run
+ * ("渦輪 輪泵" → "渦輪泵") and the padding around Han text is dropped.
+ */
+export function unsegmentCjk(text: string): string {
+  const han = /^\p{Script=Han}+$/u;
+  let joined = "";
+  let previous = "";
+  for (const token of text.trim().split(/\s+/)) {
+    if (!token) continue;
+    const chars = [...token];
+    const prevChars = [...previous];
+    if (chars.length === 2 && prevChars.length >= 2 && han.test(token) && han.test(previous) &&
+      prevChars[prevChars.length - 1] === chars[0]) {
+      joined += chars[1];
+    } else if (han.test(token) && han.test(previous)) {
+      joined += token;
+    } else {
+      joined += joined ? ` ${token}` : token;
+    }
+    previous = token;
   }
-  if (Number(videosCount.rows[0]?.cnt) === 0) {
-    await client.execute(
-      "INSERT INTO videos_fts(doc_id, title, summary, description) SELECT id, title, COALESCE(summary, ''), COALESCE(description, '') FROM videos",
+  return joined;
+}
+
+/** INSERT for one FTS row; indexed columns are segmented, UNINDEXED ones kept verbatim. */
+function ftsInsertStatement(table: FtsTable, values: string[]) {
+  const spec = FTS_TABLES[table];
+  return {
+    sql: `INSERT INTO ${table}(${spec.columns.join(", ")}) VALUES (${
+      spec.columns.map(() => "?").join(", ")
+    })`,
+    args: values.map((value, i) => (i < spec.unindexed ? value : segmentCjk(value))),
+  };
+}
+
+/** Index a source table in keyset-paged batches, so it is never read into memory whole. */
+async function backfillFtsTable(client: Client, table: FtsTable): Promise<number> {
+  const spec = FTS_TABLES[table];
+  let cursor: InValue | undefined;
+  let indexed = 0;
+  while (true) {
+    const { rows } = await client.execute(
+      cursor === undefined
+        ? { sql: `${spec.backfill} ORDER BY id LIMIT ?`, args: [BACKFILL_BATCH_SIZE] }
+        : {
+          sql: `${spec.backfill} WHERE id > ? ORDER BY id LIMIT ?`,
+          args: [cursor, BACKFILL_BATCH_SIZE],
+        },
     );
-  }
-  if (Number(nasaCount.rows[0]?.cnt) === 0) {
-    await client.execute(
-      "INSERT INTO nasa_fts(doc_id, title, summary, explanation, description) SELECT id, title, COALESCE(summary, ''), COALESCE(explanation, ''), COALESCE(description, '') FROM nasa_content",
+    if (!rows.length) break;
+    const statements = rows.map((row) =>
+      ftsInsertStatement(table, spec.columns.map((column) => String(row[column] ?? "")))
     );
+    await client.batch(statements, "write");
+    indexed += rows.length;
+    if (rows.length < BACKFILL_BATCH_SIZE) break;
+    cursor = rows[rows.length - 1][spec.cursor] as InValue;
   }
-  if (Number(transCount.rows[0]?.cnt) === 0) {
-    await client.execute(
-      "INSERT INTO translations_fts(item_type, item_id, lang, title, summary) SELECT item_type, item_id, lang, COALESCE(title, ''), COALESCE(summary, '') FROM translations",
-    );
+  return indexed;
+}
+
+async function getFtsIndexVersion(client: Client): Promise<number> {
+  const result = await client.execute({
+    sql: "SELECT value FROM metadata WHERE key = ?",
+    args: [FTS_INDEX_VERSION_KEY],
+  });
+  return result.rows.length ? Number(result.rows[0].value) : 1;
+}
+
+/** Create any missing FTS table and list the ones with no rows yet. */
+async function emptyFtsTables(client: Client): Promise<FtsTable[]> {
+  const tables = Object.keys(FTS_TABLES) as FtsTable[];
+  for (const table of tables) await client.execute(FTS_TABLES[table].create);
+  const counts = await Promise.all(
+    tables.map((table) => client.execute(`SELECT COUNT(*) as cnt FROM ${table}`)),
+  );
+  return tables.filter((_, i) => Number(counts[i].rows[0]?.cnt) === 0);
+}
+
+/**
+ * Run `work` holding the index lock row in `metadata`. Returns null without running it when
+ * another process holds the lock.
+ */
+async function withFtsLock<T>(client: Client, work: () => Promise<T>): Promise<T | null> {
+  const owner = crypto.randomUUID();
+  const acquired = await client.execute({
+    sql: `INSERT INTO metadata(key, value, description) VALUES (?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = unixepoch()
+      WHERE metadata.updated_at < unixepoch() - ?`,
+    args: [
+      FTS_LOCK_KEY,
+      owner,
+      "Held while the FTS5 index is rebuilt (lib/fts.ts)",
+      FTS_LOCK_TTL_SEC,
+    ],
+  });
+  if (!acquired.rowsAffected) return null;
+  try {
+    return await work();
+  } finally {
+    await client.execute({
+      sql: "DELETE FROM metadata WHERE key = ? AND value = ?",
+      args: [FTS_LOCK_KEY, owner],
+    });
   }
 }
 
+async function rebuildUnlocked(client: Client): Promise<Record<FtsTable, number>> {
+  const counts = {} as Record<FtsTable, number>;
+  for (const table of Object.keys(FTS_TABLES) as FtsTable[]) {
+    await client.execute(`DROP TABLE IF EXISTS ${table}`);
+    await client.execute(FTS_TABLES[table].create);
+    counts[table] = await backfillFtsTable(client, table);
+  }
+  // Only now: a rebuild that fails part way leaves the old version, so the next start retries
+  await client.execute({
+    sql: `INSERT INTO metadata(key, value, description) VALUES (?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = unixepoch()`,
+    args: [
+      FTS_INDEX_VERSION_KEY,
+      String(FTS_INDEX_VERSION),
+      "Text format of the FTS5 search index (lib/fts.ts)",
+    ],
+  });
+  return counts;
+}
+
+/**
+ * Drop every FTS table, recreate it and re-index the source tables with the current
+ * segmentation. Returns the number of rows indexed per table, or null when another process is
+ * already rebuilding the index.
+ */
+export async function rebuildFtsTables(
+  client: Client,
+): Promise<Record<FtsTable, number> | null> {
+  return await withFtsLock(client, () => rebuildUnlocked(client));
+}
+
+/**
+ * Ensure FTS5 virtual tables exist and backfill from source tables if empty.
+ * Indexes built by an older FTS_INDEX_VERSION are rebuilt from scratch. Either is skipped while
+ * another process holds the index lock.
+ */
+export async function ensureFtsTables(client: Client): Promise<void> {
+  const current = await getFtsIndexVersion(client) >= FTS_INDEX_VERSION;
+  if (current && !(await emptyFtsTables(client)).length) return;
+
+  const updated = await withFtsLock(client, async () => {
+    // Checked again under the lock: the process that held it before may have done the work
+    if (await getFtsIndexVersion(client) < FTS_INDEX_VERSION) {
+      const counts = await rebuildUnlocked(client);
+      console.log(`🔎 Rebuilt FTS index (v${FTS_INDEX_VERSION}):`, counts);
+      return true;
+    }
+    for (const table of await emptyFtsTables(client)) await backfillFtsTable(client, table);
+    return true;
+  });
+  if (!updated) console.log("🔎 Another process is updating the FTS index; skipping");
+}
+
+/** Remove an item and its translations from the FTS index, before re-inserting it. */
+export async function ftsDeleteItem(
+  client: Client,
+  itemType: "paper" | "video" | "nasa",
+  itemId: string,
+): Promise<void> {
+  const table = { paper: "papers_fts", video: "videos_fts", nasa: "nasa_fts" }[itemType];
+  await client.batch([
+    { sql: `DELETE FROM ${table} WHERE doc_id = ?`, args: [itemId] },
+    {
+      sql: "DELETE FROM translations_fts WHERE item_type = ? AND item_id = ?",
+      args: [itemType, itemId],
+    },
+  ], "write");
+}
+
 /** Insert a paper into the FTS index. */
 export async function ftsInsertPaper(
   client: Client,
   data: { id: string; title: string; abstract: string; summary: string },
 ): Promise<void> {
-  await client.execute({
-    sql: "INSERT INTO papers_fts(doc_id, title, abstract, summary) VALUES (?, ?, ?, ?)",
-    args: [data.id, data.title, data.abstract, data.summary],
-  });
+  await client.execute(
+    ftsInsertStatement("papers_fts", [data.id, data.title, data.abstract, data.summary]),
+  );
 }
 
 /** Insert a video into the FTS index. */
 export async function ftsInsertVideo(
   client: Client,
-  data: { id: string; title: string; summary: string; description: string },
+  data: { id: string; title: string; summary: string; description: string; transcript: string },
 ): Promise<void> {
-  await client.execute({
-    sql: "INSERT INTO videos_fts(doc_id, title, summary, description) VALUES (?, ?, ?, ?)",
-    args: [data.id, data.title, data.summary, data.description],
-  });
+  await client.execute(
+    ftsInsertStatement("videos_fts", [
+      data.id,
+      data.title,
+      data.summary,
+      data.description,
+      data.transcript,
+    ]),
+  );
 }
 
 /** Insert a NASA content item into the FTS index. */
@@ -79,10 +306,15 @@ export async function ftsInsertNasa(
   client: Client,
   data: { id: string; title: string; summary: string; explanation: string; description: string },
 ): Promise<void> {
-  await client.execute({
-    sql: "INSERT INTO nasa_fts(doc_id, title, summary, explanation, description) VALUES (?, ?, ?, ?, ?)",
-    args: [data.id, data.title, data.summary, data.explanation, data.description],
-  });
+  await client.execute(
+    ftsInsertStatement("nasa_fts", [
+      data.id,
+      data.title,
+      data.summary,
+      data.explanation,
+      data.description,
+    ]),
+  );
 }
 
 /** Insert a translation into the FTS index. */
@@ -90,46 +322,155 @@ export async function ftsInsertTranslation(
   client: Client,
   data: { itemType: string; itemId: string; lang: string; title: string; summary: string },
 ): Promise<void> {
-  await client.execute({
-    sql: "INSERT INTO translations_fts(item_type, item_id, lang, title, summary) VALUES (?, ?, ?, ?, ?)",
-    args: [data.itemType, data.itemId, data.lang, data.title, data.summary],
-  });
+  await client.execute(
+    ftsInsertStatement("translations_fts", [
+      data.itemType,
+      data.itemId,
+      data.lang,
+      data.title,
+      data.summary,
+    ]),
+  );
 }
 
 /** Escape user input for safe use in FTS5 MATCH expressions. */
 export function escapeFtsQuery(query: string): string {
-  // Remove FTS5 special operators and wrap each term in double quotes
+  // Remove FTS5 special operators and quote each term as a phrase
   return query
     .replace(/['"*(){}[\]:^~@#$\\]/g, " ")
     .split(/\s+/)
     .filter((t) => t.length > 0)
-    .map((t) => `"${t}"`)
+    .map(ftsPhrase)
     .join(" OR ");
 }
 
+/** Structured FTS input: any of `terms`, all of `phrases`, none of `excluded`. */
+export interface FtsQuery {
+  terms: string[];
+  phrases: string[];
+  excluded: string[];
+}
+
+/** FTS5 string literal; embedded double quotes are doubled. */
+function quoteFts(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * FTS5 phrase for one term, segmented the way indexed text is: 渦輪泵 becomes the phrase
+ * "渦輪 輪泵". A single Han character is only indexed inside bigrams, so it matches as a prefix.
+ */
+function ftsPhrase(value: string): string {
+  const phrase = quoteFts(segmentCjk(value).trim().replace(/\s+/g, " "));
+  return /^\p{Script=Han}$/u.test(value.trim()) ? `${phrase}*` : phrase;
+}
+
+/**
+ * Compile a structured query into an FTS5 MATCH expression, e.g.
+ * `"dark matter" AND ("halo" OR "cluster") NOT "simulation"`.
+ * Returns "" when nothing positive is left to match (FTS5 cannot evaluate a bare NOT).
+ */
+export function buildFtsMatch(query: FtsQuery): string {
+  const clean = (values: string[]) =>
+    [...new Set(values.map((v) => v.trim()).filter((v) => /[\p{L}\p{N}]/u.test(v)))];
+  const terms = clean(query.terms);
+  const phrases = clean(query.phrases);
+  const excluded = clean(query.excluded);
+
+  const positive = phrases.map(ftsPhrase);
+  if (terms.length) {
+    const anyTerm = terms.map(ftsPhrase).join(" OR ");
+    // OR binds loosest in FTS5, so the any-of group needs parentheses next to AND/NOT
+    positive.push(terms.length > 1 ? `(${anyTerm})` : anyTerm);
+  }
+  if (!positive.length) return "";
+  const expression = positive.join(" AND ");
+  if (!excluded.length) return expression;
+  return `(${expression}) NOT ${excluded.map(ftsPhrase).join(" NOT ")}`;
+}
+
 export interface FtsResult {
   id: string;
   score: number;
+  /** Indexed columns that matched, each with the distinct matched text (Han text unsegmented). */
+  matches?: Record<string, string[]>;
 }
 
 /**
- * Search an FTS5 table, returning doc IDs with normalized BM25 scores.
- * Score is normalized to the 0.5–0.9 range.
+ * Condition on the indexed items' own table, joined to the FTS rows by id, so filters apply
+ * before the LIMIT instead of to its survivors.
+ */
+export interface FtsFilter {
+  /** Item table (e.g. "papers"); `sql` refers to its columns by this name. */
+  table: string;
+  sql: string;
+  args: InValue[];
+  /** For translations_fts, which holds every content type: the type the filter is for. */
+  itemType?: string;
+}
+
+// Private-use characters bracketing matched tokens in snippet() output
+const MATCH_OPEN = "\uE000";
+const MATCH_CLOSE = "\uE001";
+const MATCH_SPAN = new RegExp(`${MATCH_OPEN}([^${MATCH_CLOSE}]*)${MATCH_CLOSE}`, "g");
+/** Tokens per snippet() fragment; only the marked tokens are kept, so a few suffice. */
+const MATCH_FRAGMENT_TOKENS = 8;
+
+/** Matched text per column, read from the marked snippet() fragments of one result row. */
+function matchesFromRow(row: Record<string, unknown>, columns: string[]) {
+  const matches: Record<string, string[]> = {};
+  for (const column of columns) {
+    const fragment = row[`match_${column}`];
+    if (typeof fragment !== "string") continue;
+    const found = [...fragment.matchAll(MATCH_SPAN)]
+      .map((match) => unsegmentCjk(match[1]))
+      .filter(Boolean);
+    if (found.length) matches[column] = [...new Set(found)];
+  }
+  return matches;
+}
+
+/**
+ * Search an FTS5 table, returning doc IDs with normalized BM25 scores and the text each
+ * column matched. Plain strings match any of their words; structured queries go through buildFtsMatch.
+ * Score is normalized to the 0.5–0.9 range. An optional filter restricts the matches to items
+ * whose row satisfies it.
  */
 export async function ftsSearch(
   client: Client,
-  table: "papers_fts" | "videos_fts" | "nasa_fts" | "translations_fts",
-  query: string,
+  table: FtsTable,
+  query: string | FtsQuery,
   limit: number,
+  filter?: FtsFilter,
 ): Promise<FtsResult[]> {
-  const escaped = escapeFtsQuery(query);
+  const escaped = typeof query === "string" ? escapeFtsQuery(query) : buildFtsMatch(query);
   if (!escaped) return [];
 
   const idCol = table === "translations_fts" ? "item_id" : "doc_id";
+  const spec = FTS_TABLES[table];
+  const indexed = spec.columns.slice(spec.unindexed);
+  // snippet() marks the matched tokens of each column; columns without a match come back unmarked
+  const matchColumns = indexed.map((column, i) =>
+    `snippet(${table}, ${spec.unindexed + i}, char(${MATCH_OPEN.codePointAt(0)}), ` +
+    `char(${MATCH_CLOSE.codePointAt(0)}), '', ${MATCH_FRAGMENT_TOKENS}) as match_${column}`
+  );
+
+  let join = "";
+  let conditions = "";
+  const filterArgs: InValue[] = [];
+  if (filter) {
+    join = ` JOIN ${filter.table} ON ${filter.table}.id = ${table}.${idCol}`;
+    conditions = ` AND (${filter.sql})`;
+    filterArgs.push(...filter.args);
+    if (table === "translations_fts" && filter.itemType) {
+      conditions += ` AND ${table}.item_type = ?`;
+      filterArgs.push(filter.itemType);
+    }
+  }
 
   const result = await client.execute({
-    sql: `SELECT ${idCol} as id, rank FROM ${table} WHERE ${table} MATCH ? ORDER BY rank LIMIT ?`,
-    args: [escaped, limit],
+    sql: `SELECT ${table}.${idCol} as id, ${table}.rank as rank, ${matchColumns.join(", ")} FROM ${table}${join} WHERE ${table} MATCH ?${conditions} ORDER BY ${table}.rank LIMIT ?`,
+    args: [escaped, ...filterArgs, limit],
   });
 
   if (result.rows.length === 0) return [];
@@ -144,5 +485,6 @@ export async function ftsSearch(
     score: maxRank > 0
       ? 0.5 + 0.4 * (ranks[i] / maxRank)
       : 0.7,
+    matches: matchesFromRow(row as Record<string, unknown>, indexed),
   }));
 }
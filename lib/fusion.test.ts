@@ -0,0 +1,38 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { fuseRankings, maxFusedScore, RRF_K } from "./fusion.ts";
+
+const EQUAL = { vector: 1, bm25: 1 };
+
+Deno.test("fusion: items ranked by both retrievers win", () => {
+  const fused = fuseRankings(["a", "b", "c"], ["c", "d"], EQUAL);
+  assertEquals(fused.map((f) => f.id), ["c", "a", "b", "d"]);
+  assertEquals(fused[0], {
+    id: "c",
+    vectorRank: 3,
+    bm25Rank: 1,
+    fusedScore: 1 / (RRF_K + 3) + 1 / (RRF_K + 1),
+  });
+});
+
+Deno.test("fusion: missing retriever rank is null and contributes nothing", () => {
+  const [only] = fuseRankings(["a"], [], EQUAL);
+  assertEquals(only, { id: "a", vectorRank: 1, bm25Rank: null, fusedScore: 1 / (RRF_K + 1) });
+});
+
+Deno.test("fusion: weights shift the order between retrievers", () => {
+  const bm25Heavy = fuseRankings(["a"], ["b"], { vector: 0.5, bm25: 1 });
+  assertEquals(bm25Heavy.map((f) => f.id), ["b", "a"]);
+  const vectorHeavy = fuseRankings(["a"], ["b"], { vector: 1, bm25: 0.5 });
+  assertEquals(vectorHeavy.map((f) => f.id), ["a", "b"]);
+});
+
+Deno.test("fusion: ties keep vector order and duplicates keep their first rank", () => {
+  const fused = fuseRankings(["a", "b", "a"], [], EQUAL);
+  assertEquals(fused.map((f) => [f.id, f.vectorRank]), [["a", 1], ["b", 2]]);
+  assertEquals(fuseRankings(["a"], ["b"], EQUAL).map((f) => f.id), ["a", "b"]);
+});
+
+Deno.test("fusion: best reachable score is first place in every retriever", () => {
+  const [top] = fuseRankings(["a"], ["a"], EQUAL);
+  assertEquals(top.fusedScore, maxFusedScore(EQUAL));
+});
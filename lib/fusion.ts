@@ -0,0 +1,66 @@
+/**
+ * Reciprocal-rank fusion (RRF) for hybrid search.
+ *
+ * Vector similarity and BM25 scores live on different scales, so instead of mixing raw
+ * scores each retriever contributes `weight / (k + rank)` for every item it returned.
+ */
+
+/** Relative weight of each retriever for one content type. */
+export interface FusionWeights {
+  vector: number;
+  bm25: number;
+}
+
+export interface ScoreBreakdown {
+  /** 1-based rank in the vector retriever, or null if it did not return the item. */
+  vectorRank: number | null;
+  /** 1-based rank in the keyword (FTS5 BM25) retriever, or null if it did not return the item. */
+  bm25Rank: number | null;
+  /** Weighted RRF sum over both retrievers. */
+  fusedScore: number;
+}
+
+/** Standard RRF smoothing constant; dampens the gap between the top ranks. */
+export const RRF_K = 60;
+
+/** Highest fused score reachable: ranked first by every retriever. */
+export function maxFusedScore(weights: FusionWeights, k = RRF_K): number {
+  return (weights.vector + weights.bm25) / (k + 1);
+}
+
+/**
+ * Fuse two ranked id lists (best first). Duplicate ids keep their first rank.
+ * Returns every id from either list, ordered by fused score; ties go to the item
+ * with the better single rank, then to vector order.
+ */
+export function fuseRankings(
+  vectorIds: string[],
+  bm25Ids: string[],
+  weights: FusionWeights,
+  k = RRF_K,
+): Array<{ id: string } & ScoreBreakdown> {
+  const toRanks = (ids: string[]) => {
+    const ranks = new Map<string, number>();
+    for (const id of ids) {
+      if (!ranks.has(id)) ranks.set(id, ranks.size + 1);
+    }
+    return ranks;
+  };
+  const vectorRanks = toRanks(vectorIds);
+  const bm25Ranks = toRanks(bm25Ids);
+  const ids = [...new Set([...vectorRanks.keys(), ...bm25Ranks.keys()])];
+
+  return ids
+    .map((id, order) => {
+      const vectorRank = vectorRanks.get(id) ?? null;
+      const bm25Rank = bm25Ranks.get(id) ?? null;
+      const fusedScore = (vectorRank ? weights.vector / (k + vectorRank) : 0) +
+        (bm25Rank ? weights.bm25 / (k + bm25Rank) : 0);
+      const bestRank = Math.min(vectorRank ?? Infinity, bm25Rank ?? Infinity);
+      return { id, vectorRank, bm25Rank, fusedScore, bestRank, order };
+    })
+    .sort((a, b) =>
+      (b.fusedScore - a.fusedScore) || (a.bestRank - b.bestRank) || (a.order - b.order)
+    )
+    .map(({ id, vectorRank, bm25Rank, fusedScore }) => ({ id, vectorRank, bm25Rank, fusedScore }));
+}
@@ -42,10 +42,24 @@ export interface LocaleDict {
     recentSearches: string;
     clearRecent: string;
     dateRange: string;
+    facetCategory: string;
+    facetYear: string;
+    facetSource: string;
+    facetChannel: string;
+    facetCenter: string;
+    facetContentType: string;
+    syntaxTitle: string;
+    syntaxHelp: string;
     page: string;
     of: string;
     prev: string;
     next: string;
+    askTitle: string;
+    askPlaceholder: string;
+    askButton: string;
+    asking: string;
+    askSources: string;
+    askError: string;
   };
   about: {
     title: string;
@@ -61,8 +75,22 @@ export interface LocaleDict {
     back: string;
     fullSummary: string;
     source: string;
+    related: string;
+    cite: string;
     recommendedPapers: string;
   };
+  chat: {
+    title: string;
+    intro: string;
+    placeholder: string;
+    send: string;
+    clear: string;
+    you: string;
+    assistant: string;
+    thinking: string;
+    budget: string;
+    error: string;
+  };
   donate: {
     title: string;
     intro: string;
@@ -0,0 +1,111 @@
+import { assertEquals, assertRejects, assertStringIncludes } from "jsr:@std/assert@1";
+import { BudgetExceededError } from "./ai/usage.ts";
+import {
+  getItemChatContext,
+  ITEM_CHAT_PURPOSE,
+  type ItemChatContext,
+  MAX_CHAT_MESSAGES,
+  parseChatMessages,
+  streamItemAnswer,
+} from "./item-chat.ts";
+
+const context: ItemChatContext = {
+  type: "video",
+  id: "vid1",
+  title: "Planet formation lecture",
+  text: "Transcript:\nDust grains stick together into pebbles.",
+};
+
+Deno.test("item chat: getItemChatContext uses the transcript of videos", async () => {
+  const mockDb = {
+    query: {
+      videos: {
+        findFirst: () =>
+          Promise.resolve({
+            id: "vid1",
+            title: "Planet formation lecture",
+            channelName: "Astro Talks",
+            description: null,
+            transcript: "Dust grains stick together.",
+            summary: "A lecture on planet formation.",
+          }),
+      },
+    },
+  } as unknown as typeof import("../db/client.ts").db;
+
+  const result = await getItemChatContext("video", "vid1", { db: mockDb });
+  assertEquals(
+    result?.text,
+    "Channel:\nAstro Talks\n\nTranscript:\nDust grains stick together.\n\nSummary:\nA lecture on planet formation.",
+  );
+});
+
+Deno.test("item chat: parseChatMessages accepts alternating turns ending with a question", () => {
+  const turn = (i: number) => [
+    { role: "user", content: `question ${i}` },
+    { role: "assistant", content: `answer ${i}` },
+  ];
+  assertEquals(parseChatMessages([{ role: "user", content: "hi" }]), [
+    { role: "user", content: "hi" },
+  ]);
+  assertEquals(parseChatMessages([{ role: "assistant", content: "hi" }]), null);
+  assertEquals(
+    parseChatMessages([{ role: "user", content: "a" }, { role: "user", content: "b" }]),
+    null,
+  );
+  assertEquals(parseChatMessages([{ role: "system", content: "x" }]), null);
+  assertEquals(parseChatMessages([]), null);
+
+  const long = [...Array.from({ length: 15 }, (_, i) => turn(i)).flat(), {
+    role: "user",
+    content: "last",
+  }];
+  const parsed = parseChatMessages(long);
+  assertEquals(parsed?.[0].role, "user");
+  assertEquals(parsed!.length <= MAX_CHAT_MESSAGES, true);
+  assertEquals(parsed?.at(-1)?.content, "last");
+});
+
+Deno.test("item chat: streamItemAnswer grounds the answer in the item and streams chunks", async () => {
+  const chunks: string[] = [];
+  const answer = await streamItemAnswer(
+    {
+      context,
+      messages: [{ role: "user", content: "How do planets start?" }],
+      locale: "zh-CN",
+      onChunk: (text) => chunks.push(text),
+    },
+    {
+      checkBudget: () => Promise.resolve(),
+      streamMessage: (params) => {
+        assertStringIncludes(params.systemPrompt ?? "", "Dust grains stick together into pebbles.");
+        assertStringIncludes(params.systemPrompt ?? "", "Simplified Chinese");
+        assertEquals(params.purpose, ITEM_CHAT_PURPOSE);
+        params.onChunk?.("从尘埃");
+        params.onChunk?.("开始。");
+        return Promise.resolve("从尘埃开始。");
+      },
+    },
+  );
+  assertEquals(chunks, ["从尘埃", "开始。"]);
+  assertEquals(answer, "从尘埃开始。");
+});
+
+Deno.test("item chat: streamItemAnswer stops before the model when the budget is spent", async () => {
+  let called = false;
+  await assertRejects(
+    () =>
+      streamItemAnswer(
+        { context, messages: [{ role: "user", content: "?" }], locale: "en", onChunk: () => {} },
+        {
+          checkBudget: () => Promise.reject(new BudgetExceededError(0.5, 0.5)),
+          streamMessage: () => {
+            called = true;
+            return Promise.resolve("");
+          },
+        },
+      ),
+    BudgetExceededError,
+  );
+  assertEquals(called, false);
+});
@@ -0,0 +1,159 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db/client.ts";
+import { nasaContent, papers, videos } from "../db/schema.ts";
+import { type Message, streamMessage } from "./ai/client.ts";
+import { checkBudget } from "./ai/usage.ts";
+import { ANSWER_LANGUAGE } from "./ask.ts";
+import type { Locale } from "./i18n.ts";
+
+/** Purpose under which item chat answers are recorded in ai_usage. */
+export const ITEM_CHAT_PURPOSE = "item_chat";
+
+/** Most recent messages sent to the model; older turns of a long chat are dropped. */
+export const MAX_CHAT_MESSAGES = 20;
+export const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+const MAX_CONTEXT_CHARS = 40000;
+
+export type ChatItemType = "paper" | "video" | "nasa";
+
+export interface ItemChatContext {
+  type: ChatItemType;
+  id: string;
+  title: string;
+  /** Everything the library holds about the item, as plain text for the system prompt. */
+  text: string;
+}
+
+export interface ItemChatDeps {
+  db?: typeof db;
+  streamMessage?: typeof streamMessage;
+  checkBudget?: typeof checkBudget;
+}
+
+function section(label: string, value: string | null | undefined): string {
+  return value?.trim() ? `${label}:\n${value.trim()}` : "";
+}
+
+function joinSections(...sections: string[]): string {
+  return sections.filter(Boolean).join("\n\n");
+}
+
+/**
+ * The full text available for an item: abstract and summary for papers (full texts are not
+ * stored), the transcript for videos, the explanation for NASA items. Null if it does not exist.
+ */
+export async function getItemChatContext(
+  type: ChatItemType,
+  id: string,
+  deps?: ItemChatDeps,
+): Promise<ItemChatContext | null> {
+  const db_ = deps?.db ?? db;
+
+  if (type === "paper") {
+    const row = await db_.query.papers.findFirst({ where: eq(papers.id, id) });
+    if (!row) return null;
+    let authors = row.authors;
+    try {
+      authors = (JSON.parse(row.authors) as string[]).join(", ");
+    } catch {
+      // Stored as plain text
+    }
+    return {
+      type,
+      id,
+      title: row.title,
+      text: joinSections(
+        section("Authors", authors),
+        section("Abstract", row.abstract),
+        section("Summary", row.summary),
+      ),
+    };
+  }
+
+  if (type === "video") {
+    const row = await db_.query.videos.findFirst({ where: eq(videos.id, id) });
+    if (!row) return null;
+    return {
+      type,
+      id,
+      title: row.title,
+      text: joinSections(
+        section("Channel", row.channelName),
+        section("Description", row.description),
+        section("Transcript", row.transcript),
+        section("Summary", row.summary),
+      ),
+    };
+  }
+
+  const row = await db_.query.nasaContent.findFirst({ where: eq(nasaContent.id, id) });
+  if (!row) return null;
+  return {
+    type,
+    id,
+    title: row.title,
+    text: joinSections(
+      section("Explanation", row.explanation ?? row.description),
+      section("Summary", row.summary),
+      section("Credit", row.credit),
+    ),
+  };
+}
+
+/**
+ * Check a chat history from the client: alternating user/assistant messages ending with a
+ * question. Returns the most recent MAX_CHAT_MESSAGES of it, or null if it is malformed.
+ */
+export function parseChatMessages(value: unknown): Message[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const messages: Message[] = [];
+  for (const message of value) {
+    const { role, content } = (message ?? {}) as Record<string, unknown>;
+    if ((role !== "user" && role !== "assistant") || typeof content !== "string") return null;
+    if (!content.trim() || content.length > MAX_CHAT_MESSAGE_LENGTH) return null;
+    messages.push({ role, content });
+  }
+  if (messages.at(-1)?.role !== "user") return null;
+  if (messages.some((m, i) => i > 0 && m.role === messages[i - 1].role)) return null;
+  // Keep the window starting at a question
+  const recent = messages.slice(-MAX_CHAT_MESSAGES);
+  return recent[0].role === "user" ? recent : recent.slice(1);
+}
+
+/**
+ * Stream an answer to the last question of `messages`, grounded in the item's text. Throws
+ * BudgetExceededError (before calling the model) when the AI budget is spent.
+ */
+export async function streamItemAnswer(
+  params: {
+    context: ItemChatContext;
+    messages: Message[];
+    locale: Locale;
+    onChunk: (text: string) => void;
+  },
+  deps?: ItemChatDeps,
+): Promise<string> {
+  const streamMessage_ = deps?.streamMessage ?? streamMessage;
+  const checkBudget_ = deps?.checkBudget ?? checkBudget;
+  const { context, messages, locale, onChunk } = params;
+
+  await checkBudget_({ purpose: ITEM_CHAT_PURPOSE });
+
+  const kind = { paper: "research paper", video: "video", nasa: "NASA item" }[context.type];
+  const text = context.text.slice(0, MAX_CONTEXT_CHARS);
+  const language = ANSWER_LANGUAGE[locale];
+  const systemPrompt =
+    `You are an expert astronomy assistant answering questions about one ${kind} from the AstroGroot library, "${context.title}". Base your answers on its text below. If the text does not answer a question, say so clearly. Answer in ${language}.
+
+${text}${context.text.length > text.length ? "\n[Text truncated...]" : ""}`;
+
+  return await streamMessage_({
+    messages,
+    systemPrompt,
+    temperature: 0.5,
+    maxTokens: 1024,
+    purpose: ITEM_CHAT_PURPOSE,
+    onChunk,
+  });
+}
@@ -0,0 +1,217 @@
+import { assert, assertEquals } from "jsr:@std/assert@1";
+import { handleMCPRequest } from "./mcp.ts";
+import {
+  createMcpHttp,
+  MCP_SESSION_HEADER,
+  type McpSession,
+  type McpSessionStore,
+} from "./mcp-http.ts";
+
+function memorySessionStore(): McpSessionStore & { sessions: Map<string, McpSession> } {
+  const sessions = new Map<string, McpSession>();
+  return {
+    sessions,
+    get: (id) => Promise.resolve(sessions.get(id) ?? null),
+    set: (id, session) => {
+      sessions.set(id, session);
+      return Promise.resolve();
+    },
+    delete: (id) => Promise.resolve(sessions.delete(id)),
+  };
+}
+
+function post(body: unknown, headers?: Record<string, string>): RequestInit {
+  return {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  };
+}
+
+async function initialize(app: ReturnType<typeof createMcpHttp>): Promise<string> {
+  const res = await app.request(
+    "/",
+    post({
+      jsonrpc: "2.0",
+      id: 0,
+      method: "initialize",
+      params: { protocolVersion: "2025-03-26" },
+    }),
+  );
+  assertEquals(res.status, 200);
+  await res.body?.cancel();
+  const sessionId = res.headers.get(MCP_SESSION_HEADER);
+  assert(sessionId);
+  return sessionId;
+}
+
+Deno.test("mcp http: initialize opens a session that later requests and DELETE use", async () => {
+  const sessions = memorySessionStore();
+  const app = createMcpHttp({ sessions });
+  const sessionId = await initialize(app);
+  assertEquals(sessions.sessions.get(sessionId)?.protocolVersion, "2025-03-26");
+
+  const ping = await app.request(
+    "/",
+    post({ jsonrpc: "2.0", id: 1, method: "ping" }, { [MCP_SESSION_HEADER]: sessionId }),
+  );
+  assertEquals((await ping.json()).result, {});
+
+  const unknown = await app.request(
+    "/",
+    post({ jsonrpc: "2.0", id: 2, method: "ping" }, { [MCP_SESSION_HEADER]: "nope" }),
+  );
+  assertEquals(unknown.status, 404);
+  await unknown.body?.cancel();
+
+  const stateless = await app.request("/", post({ jsonrpc: "2.0", id: 3, method: "ping" }));
+  assertEquals(stateless.status, 200);
+  assertEquals(stateless.headers.get(MCP_SESSION_HEADER), null);
+  await stateless.body?.cancel();
+
+  const deleted = await app.request("/", {
+    method: "DELETE",
+    headers: { [MCP_SESSION_HEADER]: sessionId },
+  });
+  assertEquals(deleted.status, 204);
+  assertEquals(sessions.sessions.size, 0);
+  const again = await app.request("/", {
+    method: "DELETE",
+    headers: { [MCP_SESSION_HEADER]: sessionId },
+  });
+  assertEquals(again.status, 404);
+  await again.body?.cancel();
+});
+
+Deno.test("mcp http: batches return an array and notification-only POSTs return 202", async () => {
+  const app = createMcpHttp({ sessions: memorySessionStore() });
+
+  const batch = await app.request(
+    "/",
+    post([
+      { jsonrpc: "2.0", id: 1, method: "ping" },
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+    ]),
+  );
+  assertEquals(batch.status, 200);
+  const responses = await batch.json();
+  assertEquals(responses.map((r: { id: number }) => r.id), [1, 2]);
+
+  const notifications = await app.request(
+    "/",
+    post([{ jsonrpc: "2.0", method: "notifications/initialized" }]),
+  );
+  assertEquals(notifications.status, 202);
+
+  const parseError = await app.request("/", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: "{",
+  });
+  assertEquals(parseError.status, 400);
+  assertEquals((await parseError.json()).error.code, -32700);
+});
+
+Deno.test("mcp http: tool calls with a progress token stream progress over SSE", async () => {
+  const app = createMcpHttp({ sessions: memorySessionStore() });
+  const res = await app.request(
+    "/",
+    post(
+      {
+        jsonrpc: "2.0",
+        id: 5,
+        method: "tools/call",
+        params: { name: "unknown_tool", arguments: {}, _meta: { progressToken: 7 } },
+      },
+      { Accept: "application/json, text/event-stream" },
+    ),
+  );
+  assertEquals(res.headers.get("Content-Type"), "text/event-stream");
+  const events = (await res.text())
+    .split("\n")
+    .filter((line) => line.startsWith("data: "))
+    .map((line) => JSON.parse(line.slice(6)));
+  assertEquals(events.map((e) => e.method ?? "response"), [
+    "notifications/progress",
+    "notifications/progress",
+    "response",
+  ]);
+  assertEquals(events[0].params.progressToken, 7);
+  assertEquals(events[2].id, 5);
+});
+
+Deno.test("mcp http: notifications/cancelled aborts an in-flight request of the session", async () => {
+  let started!: () => void;
+  const running = new Promise<void>((resolve) => (started = resolve));
+  const app = createMcpHttp({
+    sessions: memorySessionStore(),
+    handleMCPRequest: (raw, context) => {
+      if ((raw as { method?: string }).method !== "slow") return handleMCPRequest(raw, context);
+      started();
+      return new Promise((resolve) => {
+        context?.signal?.addEventListener("abort", () => resolve(null));
+      });
+    },
+  });
+  const sessionId = await initialize(app);
+  const headers = { [MCP_SESSION_HEADER]: sessionId };
+
+  const slow = app.request("/", post({ jsonrpc: "2.0", id: "s1", method: "slow" }, headers));
+  await running;
+  const cancel = await app.request(
+    "/",
+    post(
+      { jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: "s1" } },
+      headers,
+    ),
+  );
+  assertEquals(cancel.status, 202);
+  assertEquals((await slow).status, 202);
+});
+
+Deno.test("mcp http: a request id already in flight in the session is refused", async () => {
+  let started!: () => void;
+  const running = new Promise<void>((resolve) => (started = resolve));
+  const app = createMcpHttp({
+    sessions: memorySessionStore(),
+    handleMCPRequest: (raw, context) => {
+      if ((raw as { method?: string }).method !== "slow") return handleMCPRequest(raw, context);
+      started();
+      return new Promise((resolve) => {
+        context?.signal?.addEventListener("abort", () => resolve(null));
+      });
+    },
+  });
+  const sessionId = await initialize(app);
+  const headers = { [MCP_SESSION_HEADER]: sessionId };
+
+  const slow = app.request("/", post({ jsonrpc: "2.0", id: "s1", method: "slow" }, headers));
+  await running;
+  const duplicate = await app.request(
+    "/",
+    post({ jsonrpc: "2.0", id: "s1", method: "ping" }, headers),
+  );
+  assertEquals((await duplicate.json()).error.code, -32600);
+
+  // The first request is still tracked, so it can be cancelled
+  await app.request(
+    "/",
+    post(
+      { jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: "s1" } },
+      headers,
+    ),
+  );
+  assertEquals((await slow).status, 202);
+});
+
+Deno.test("mcp http: GET requires an event-stream Accept header and a session", async () => {
+  const app = createMcpHttp({ sessions: memorySessionStore() });
+  const notAccepted = await app.request("/");
+  assertEquals(notAccepted.status, 406);
+  await notAccepted.body?.cancel();
+
+  const noSession = await app.request("/", { headers: { Accept: "text/event-stream" } });
+  assertEquals(noSession.status, 400);
+  await noSession.body?.cancel();
+});
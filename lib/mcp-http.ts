@@ -0,0 +1,296 @@
+/// <reference lib="deno.unstable" />
+import { type Context, Hono } from "hono";
+import { type SSEStreamingApi, streamSSE } from "hono/streaming";
+import { INCLUDE_ERROR_DATA, MCP_SESSION_TTL_MS } from "./config.ts";
+import {
+  handleMCPBatch,
+  handleMCPRequest,
+  type JsonRpcResponse,
+  type MCPRequestContext,
+} from "./mcp.ts";
+import { getKv } from "./rate-limit.ts";
+
+/**
+ * Streamable HTTP transport for the MCP server (mounted at /api/mcp).
+ *
+ * - POST carries one JSON-RPC message or a batch. Responses come back as JSON, or as an SSE
+ *   stream when the client accepts one and asked for progress (`_meta.progressToken`).
+ * - `initialize` opens a session: its response carries `Mcp-Session-Id`, which later requests
+ *   send back. Requests without the header are served statelessly, as before.
+ * - GET opens an SSE stream for server notifications of a session; DELETE ends the session.
+ */
+
+export const MCP_SESSION_HEADER = "Mcp-Session-Id";
+
+const KV_PREFIX = "mcp-session";
+const KEEPALIVE_MS = 25_000;
+
+export interface McpSession {
+  protocolVersion: string;
+  createdAt: string;
+}
+
+/** Where sessions live; Deno KV by default so they survive across isolates. */
+export interface McpSessionStore {
+  get(id: string): Promise<McpSession | null>;
+  /** Create or refresh a session; it expires after `ttlMs` without another set. */
+  set(id: string, session: McpSession, ttlMs: number): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+export const kvSessionStore: McpSessionStore = {
+  async get(id) {
+    const kv = await getKv();
+    return (await kv.get<McpSession>([KV_PREFIX, id])).value;
+  },
+  async set(id, session, ttlMs) {
+    const kv = await getKv();
+    await kv.set([KV_PREFIX, id], session, { expireIn: ttlMs });
+  },
+  async delete(id) {
+    const kv = await getKv();
+    const existing = await kv.get([KV_PREFIX, id]);
+    if (existing.value === null) return false;
+    await kv.delete([KV_PREFIX, id]);
+    return true;
+  },
+};
+
+/** Optional dependencies for testing (when provided, used instead of the real ones). */
+export interface McpHttpDeps {
+  sessions?: McpSessionStore;
+  sessionTtlMs?: number;
+  handleMCPRequest?: typeof handleMCPRequest;
+}
+
+type JsonRpcNotification = Parameters<NonNullable<MCPRequestContext["notify"]>>[0];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** A message with a method and an id expects a response; one without an id is a notification. */
+function isRequest(message: unknown): message is Record<string, unknown> {
+  return isObject(message) && typeof message.method === "string" && message.id != null;
+}
+
+function wantsProgress(message: unknown): boolean {
+  return isRequest(message) && isObject(message.params) && isObject(message.params._meta) &&
+    message.params._meta.progressToken !== undefined;
+}
+
+function acceptsEventStream(c: Context): boolean {
+  return (c.req.header("Accept") ?? "").includes("text/event-stream");
+}
+
+function jsonRpcError(
+  c: Context,
+  status: 400 | 404 | 500,
+  code: number,
+  message: string,
+  data?: unknown,
+) {
+  return c.json(
+    {
+      jsonrpc: "2.0",
+      id: null,
+      error: { code, message, data: INCLUDE_ERROR_DATA ? data : undefined },
+    },
+    status,
+  );
+}
+
+export function createMcpHttp(deps?: McpHttpDeps): Hono {
+  const sessions = deps?.sessions ?? kvSessionStore;
+  const sessionTtlMs = deps?.sessionTtlMs ?? MCP_SESSION_TTL_MS;
+  const handleMCPRequest_ = deps?.handleMCPRequest ?? handleMCPRequest;
+
+  // Per-isolate state of open sessions: requests that can still be cancelled, keyed by their
+  // JSON-RPC id, and the GET streams that receive the session's notifications.
+  const inflight = new Map<string, Map<string, AbortController>>();
+  const streams = new Map<string, Set<SSEStreamingApi>>();
+
+  // A stream that went away is dropped by its GET handler; it must not fail the tool call
+  async function broadcast(sessionId: string, notification: JsonRpcNotification) {
+    for (const stream of streams.get(sessionId) ?? []) {
+      if (stream.aborted || stream.closed) continue;
+      try {
+        await stream.writeSSE({ data: JSON.stringify(notification) });
+      } catch {
+        // Closed while writing
+      }
+    }
+  }
+
+  /** The session named by the request header: undefined without one, null when unknown. */
+  async function resolveSession(c: Context): Promise<string | null | undefined> {
+    const id = c.req.header(MCP_SESSION_HEADER);
+    if (!id) return undefined;
+    const session = await sessions.get(id);
+    if (!session) return null;
+    await sessions.set(id, session, sessionTtlMs);
+    return id;
+  }
+
+  const mcp = new Hono();
+
+  mcp.post("/", async (c) => {
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch (error) {
+      return jsonRpcError(c, 400, -32700, "Parse error", String(error));
+    }
+
+    try {
+      const sessionId = await resolveSession(c);
+      if (sessionId === null) return jsonRpcError(c, 404, -32001, "Session not found");
+
+      const messages = Array.isArray(body) ? body : [body];
+
+      const stream = acceptsEventStream(c) && messages.some(wantsProgress);
+      let notify: MCPRequestContext["notify"] = sessionId
+        ? (notification) => broadcast(sessionId, notification)
+        : undefined;
+
+      const contextFor = (message: unknown): MCPRequestContext => {
+        const context: MCPRequestContext = {
+          notify: (notification) => notify?.(notification),
+          cancelRequest: (requestId) =>
+            sessionId && inflight.get(sessionId)?.get(JSON.stringify(requestId))?.abort(),
+        };
+        if (sessionId && isRequest(message)) {
+          const pending = inflight.get(sessionId) ?? new Map<string, AbortController>();
+          inflight.set(sessionId, pending);
+          const key = JSON.stringify(message.id);
+          // Cancellation names requests by id, so an id already in flight is refused
+          if (pending.has(key)) {
+            duplicates.add(message);
+            return context;
+          }
+          const controller = new AbortController();
+          pending.set(key, controller);
+          registered.push(key);
+          context.signal = controller.signal;
+        }
+        return context;
+      };
+      const duplicates = new Set<unknown>();
+      const registered: string[] = [];
+      const handle: typeof handleMCPRequest_ = (message, context) =>
+        duplicates.has(message)
+          ? Promise.resolve({
+            jsonrpc: "2.0",
+            id: (message as Record<string, unknown>).id as string | number,
+            error: { code: -32600, message: "Invalid request: id is already in flight" },
+          })
+          : handleMCPRequest_(message, context);
+      // Drop the session's entry once nothing is in flight, so expired sessions do not leak
+      const finish = () => {
+        const pending = sessionId ? inflight.get(sessionId) : undefined;
+        if (!pending) return;
+        for (const key of registered) pending.delete(key);
+        if (pending.size === 0) inflight.delete(sessionId!);
+      };
+      const dispatch = async (): Promise<JsonRpcResponse | JsonRpcResponse[] | null> => {
+        try {
+          return Array.isArray(body)
+            ? await handleMCPBatch(body, contextFor, handle)
+            : await handle(body, contextFor(body));
+        } finally {
+          finish();
+        }
+      };
+
+      if (!messages.some(isRequest)) {
+        // Only notifications or responses: nothing to answer (an empty batch is an error)
+        const response = await dispatch();
+        if (Array.isArray(response) ? response.length === 0 : response === null) {
+          return c.body(null, 202);
+        }
+        return c.json(response, 200);
+      }
+
+      if (stream) {
+        return streamSSE(c, async (sse) => {
+          notify = (notification) => sse.writeSSE({ data: JSON.stringify(notification) });
+          const response = await dispatch();
+          for (const message of Array.isArray(response) ? response : [response]) {
+            if (message) await sse.writeSSE({ data: JSON.stringify(message) });
+          }
+        });
+      }
+
+      const response = await dispatch();
+      if (response === null || (Array.isArray(response) && response.length === 0)) {
+        // Every request was cancelled
+        return c.body(null, 202);
+      }
+
+      if (
+        !Array.isArray(body) && isRequest(body) && body.method === "initialize" &&
+        !Array.isArray(response) && response.result && !sessionId
+      ) {
+        const newSessionId = crypto.randomUUID();
+        const result = response.result as { protocolVersion: string };
+        await sessions.set(newSessionId, {
+          protocolVersion: result.protocolVersion,
+          createdAt: new Date().toISOString(),
+        }, sessionTtlMs);
+        c.header(MCP_SESSION_HEADER, newSessionId);
+      }
+      return c.json(response, 200);
+    } catch (error) {
+      return jsonRpcError(c, 500, -32603, "Internal error", String(error));
+    }
+  });
+
+  mcp.get("/", async (c) => {
+    if (!acceptsEventStream(c)) {
+      return c.text("GET /api/mcp opens an event stream; send Accept: text/event-stream", 406);
+    }
+    const sessionId = await resolveSession(c);
+    if (sessionId === undefined) return jsonRpcError(c, 400, -32600, "Mcp-Session-Id required");
+    if (sessionId === null) return jsonRpcError(c, 404, -32001, "Session not found");
+
+    return streamSSE(c, async (sse) => {
+      const open = streams.get(sessionId) ?? new Set();
+      streams.set(sessionId, open);
+      open.add(sse);
+      sse.onAbort(() => {
+        open.delete(sse);
+      });
+      try {
+        // Keep proxies from closing an idle stream and the session from expiring under it
+        while (!sse.aborted && !sse.closed) {
+          await sse.sleep(KEEPALIVE_MS);
+          if (sse.aborted || sse.closed) break;
+          await sse.write(": keepalive\n\n");
+          const session = await sessions.get(sessionId);
+          if (!session) break;
+          await sessions.set(sessionId, session, sessionTtlMs);
+        }
+      } finally {
+        open.delete(sse);
+        if (open.size === 0) streams.delete(sessionId);
+      }
+    });
+  });
+
+  mcp.delete("/", async (c) => {
+    const sessionId = c.req.header(MCP_SESSION_HEADER);
+    if (!sessionId) return jsonRpcError(c, 400, -32600, "Mcp-Session-Id required");
+    if (!(await sessions.delete(sessionId))) {
+      return jsonRpcError(c, 404, -32001, "Session not found");
+    }
+    for (const controller of inflight.get(sessionId)?.values() ?? []) controller.abort();
+    inflight.delete(sessionId);
+    for (const sse of streams.get(sessionId) ?? []) await sse.close();
+    streams.delete(sessionId);
+    return c.body(null, 204);
+  });
+
+  return mcp;
+}
+
+export const mcpHttp = createMcpHttp();
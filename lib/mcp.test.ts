@@ -1,5 +1,11 @@
 import { assertEquals, assert } from "jsr:@std/assert@1";
-import { handleMCPRequest } from "./mcp.ts";
+import {
+  handleMCPBatch,
+  handleMCPRequest,
+  itemMarkdown,
+  itemResourceUri,
+  parseItemResourceUri,
+} from "./mcp.ts";
 
 // Validation-only tests; avoid DB-backed tool execution to keep tests hermetic.
 Deno.test("MCP initialize returns protocolVersion and serverInfo", async () => {
@@ -8,12 +14,22 @@ Deno.test("MCP initialize returns protocolVersion and serverInfo", async () => {
   assertEquals(response.jsonrpc, "2.0");
   assertEquals(response.id, 1);
   const result = response.result as Record<string, unknown>;
-  assertEquals(result.protocolVersion, "2024-11-05");
+  assertEquals(result.protocolVersion, "2025-03-26");
   const serverInfo = result.serverInfo as Record<string, unknown>;
   assertEquals(typeof serverInfo.name, "string");
   assertEquals(typeof serverInfo.version, "string");
 });
 
+Deno.test("MCP initialize echoes a supported protocolVersion", async () => {
+  const response = await handleMCPRequest({
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: { protocolVersion: "2024-11-05" },
+  });
+  assertEquals((response?.result as Record<string, unknown>).protocolVersion, "2024-11-05");
+});
+
 Deno.test("MCP ping returns empty result", async () => {
   const response = await handleMCPRequest({ jsonrpc: "2.0", id: "ping-1", method: "ping" });
   assert(response !== null);
@@ -39,7 +55,10 @@ Deno.test("tools/list returns tool definitions", async () => {
   const result = response.result as Record<string, unknown>;
   const tools = result.tools as Array<{ name: string }>;
   const toolNames = tools.map((t) => t.name).sort();
-  assertEquals(toolNames, ["get_detail", "get_stats", "search"].sort());
+  assertEquals(
+    toolNames,
+    ["ask_library", "cite", "find_related", "get_detail", "get_stats", "search"].sort(),
+  );
 });
 
 Deno.test("tools/call rejects missing params", async () => {
@@ -70,6 +89,39 @@ Deno.test("tools/call get_detail requires type and id", async () => {
   assertEquals(response.error?.code, -32602);
 });
 
+Deno.test("tools/call find_related requires a valid type and id", async () => {
+  const response = await handleMCPRequest({
+    jsonrpc: "2.0",
+    id: 7,
+    method: "tools/call",
+    params: { name: "find_related", arguments: { type: "book", id: "x" } },
+  });
+  assert(response !== null);
+  assertEquals(response.error?.code, -32602);
+});
+
+Deno.test("tools/call cite requires ids and a known format", async () => {
+  const response = await handleMCPRequest({
+    jsonrpc: "2.0",
+    id: 8,
+    method: "tools/call",
+    params: { name: "cite", arguments: { ids: ["2401.00001"], format: "endnote" } },
+  });
+  assert(response !== null);
+  assertEquals(response.error?.code, -32602);
+});
+
+Deno.test("tools/call ask_library requires a question", async () => {
+  const response = await handleMCPRequest({
+    jsonrpc: "2.0",
+    id: 10,
+    method: "tools/call",
+    params: { name: "ask_library", arguments: { question: "  " } },
+  });
+  assert(response !== null);
+  assertEquals(response.error?.code, -32602);
+});
+
 Deno.test("tools/call rejects unknown tool", async () => {
   const response = await handleMCPRequest({
     jsonrpc: "2.0",
@@ -81,9 +133,171 @@ Deno.test("tools/call rejects unknown tool", async () => {
   assertEquals(response.error?.code, -32602);
 });
 
+Deno.test("MCP initialize advertises resources and prompts", async () => {
+  const response = await handleMCPRequest({ jsonrpc: "2.0", id: 9, method: "initialize" });
+  assert(response !== null);
+  const capabilities = (response.result as Record<string, Record<string, unknown>>).capabilities;
+  assert("resources" in capabilities);
+  assert("prompts" in capabilities);
+});
+
+Deno.test("resources/templates/list returns a template per content type", async () => {
+  const response = await handleMCPRequest({
+    jsonrpc: "2.0",
+    id: 10,
+    method: "resources/templates/list",
+  });
+  assert(response !== null);
+  const templates = (response.result as { resourceTemplates: Array<{ uriTemplate: string }> })
+    .resourceTemplates.map((t) => t.uriTemplate);
+  assertEquals(templates, [
+    "astrogroot://paper/{id}{?lang}",
+    "astrogroot://video/{id}{?lang}",
+    "astrogroot://nasa/{id}{?lang}",
+  ]);
+});
+
+Deno.test("resources/read rejects URIs outside the astrogroot scheme", async () => {
+  const response = await handleMCPRequest({
+    jsonrpc: "2.0",
+    id: 11,
+    method: "resources/read",
+    params: { uri: "file:///etc/passwd" },
+  });
+  assert(response !== null);
+  assertEquals(response.error?.code, -32602);
+});
+
+Deno.test("resources/list rejects a malformed cursor", async () => {
+  const response = await handleMCPRequest({
+    jsonrpc: "2.0",
+    id: 12,
+    method: "resources/list",
+    params: { cursor: "not-a-cursor" },
+  });
+  assert(response !== null);
+  assertEquals(response.error?.code, -32602);
+});
+
+Deno.test("prompts/list and prompts/get argument validation", async () => {
+  const list = await handleMCPRequest({ jsonrpc: "2.0", id: 13, method: "prompts/list" });
+  assert(list !== null);
+  const names = (list.result as { prompts: Array<{ name: string }> }).prompts.map((p) => p.name);
+  assertEquals(names, ["literature_review", "explain_paper"]);
+
+  const missing = await handleMCPRequest({
+    jsonrpc: "2.0",
+    id: 14,
+    method: "prompts/get",
+    params: { name: "literature_review", arguments: {} },
+  });
+  assert(missing !== null);
+  assertEquals(missing.error?.code, -32602);
+
+  const unknown = await handleMCPRequest({
+    jsonrpc: "2.0",
+    id: 15,
+    method: "prompts/get",
+    params: { name: "nope" },
+  });
+  assert(unknown !== null);
+  assertEquals(unknown.error?.code, -32602);
+});
+
+Deno.test("item resource URIs round-trip ids and locales", () => {
+  const uri = itemResourceUri("paper", "astro-ph/0601001", "zh-TW");
+  assertEquals(uri, "astrogroot://paper/astro-ph%2F0601001?lang=zh-TW");
+  assertEquals(parseItemResourceUri(uri), {
+    type: "paper",
+    id: "astro-ph/0601001",
+    locale: "zh-TW",
+  });
+  assertEquals(parseItemResourceUri("astrogroot://video/abc123"), {
+    type: "video",
+    id: "abc123",
+    locale: "en",
+  });
+  assertEquals(parseItemResourceUri("astrogroot://book/1"), null);
+  assertEquals(parseItemResourceUri("astrogroot://paper/"), null);
+});
+
+Deno.test("itemMarkdown renders paper metadata, summary and abstract", () => {
+  const text = itemMarkdown({
+    type: "paper",
+    id: "2401.00001",
+    title: "Dark Energy Survey",
+    summary: "A short summary.",
+    sourceUrl: "https://arxiv.org/abs/2401.00001",
+    metadata: {
+      authors: JSON.stringify(["Alice Smith", "Bob Jones"]),
+      abstract: "The full abstract.",
+      publishedDate: new Date("2024-01-15T00:00:00Z"),
+      categories: JSON.stringify(["astro-ph.CO"]),
+    },
+  });
+  assertEquals(
+    text,
+    [
+      "# Dark Energy Survey",
+      "",
+      "- Type: arXiv paper",
+      "- Authors: Alice Smith, Bob Jones",
+      "- Published: 2024-01-15",
+      "- Categories: astro-ph.CO",
+      "- Source: https://arxiv.org/abs/2401.00001",
+      "",
+      "## Summary",
+      "",
+      "A short summary.",
+      "",
+      "## Abstract",
+      "",
+      "The full abstract.",
+      "",
+    ].join("\n"),
+  );
+});
+
 Deno.test("Invalid request returns -32600", async () => {
   const response = await handleMCPRequest("nope" as unknown);
   assert(response !== null);
   assertEquals(response.error?.code, -32600);
   assertEquals(response.id, null);
 });
+
+Deno.test("handleMCPBatch answers requests in order and skips notifications", async () => {
+  const responses = await handleMCPBatch([
+    { jsonrpc: "2.0", id: 1, method: "ping" },
+    { jsonrpc: "2.0", method: "notifications/initialized" },
+    { jsonrpc: "2.0", id: 2, method: "initialize" },
+    { jsonrpc: "2.0", id: 3, method: "nope" },
+  ]);
+  assertEquals(responses.map((r) => r.id), [1, 2, 3]);
+  assertEquals(responses[0].result, {});
+  assertEquals(responses[1].error?.code, -32600);
+  assertEquals(responses[2].error?.code, -32601);
+  assertEquals((await handleMCPBatch([]))[0].error?.code, -32600);
+});
+
+Deno.test("tools/call reports progress and notifications/cancelled reaches the transport", async () => {
+  const notifications: unknown[] = [];
+  const response = await handleMCPRequest(
+    {
+      jsonrpc: "2.0",
+      id: 9,
+      method: "tools/call",
+      params: { name: "unknown_tool", arguments: {}, _meta: { progressToken: "p1" } },
+    },
+    { notify: (n) => void notifications.push(n.params?.progress) },
+  );
+  assertEquals(response?.error?.code, -32602);
+  assertEquals(notifications, [0, 1]);
+
+  const cancelled: Array<string | number> = [];
+  const none = await handleMCPRequest(
+    { jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: 9 } },
+    { cancelRequest: (id) => void cancelled.push(id) },
+  );
+  assertEquals(none, null);
+  assertEquals(cancelled, [9]);
+});
@@ -1,10 +1,17 @@
 // MCP (Model Context Protocol) Server over HTTP
 
 import { searchLibrary } from "./search.ts";
+import { InvalidSearchCursorError } from "./search-cursor.ts";
+import { FACET_NAMES, parseFacetSelection } from "./search-facets.ts";
+import { getRelatedItems, isRelatedItemType } from "./related.ts";
 import { getLibraryStats } from "./stats.ts";
+import { CITATION_FORMATS, getPaperCitations, isCitationFormat } from "./citation.ts";
+import { getItemDetail, type ItemDetail } from "./detail.ts";
+import { askLibrary, MAX_QUESTION_LENGTH } from "./ask.ts";
+import { BudgetExceededError } from "./ai/usage.ts";
 import { db } from "../db/client.ts";
-import { nasaContent, papers, translations, videos } from "../db/schema.ts";
-import { and, eq } from "drizzle-orm";
+import { nasaContent, papers, videos } from "../db/schema.ts";
+import { desc } from "drizzle-orm";
 import { SUPPORTED_LOCALES } from "./i18n.ts";
 import { INCLUDE_ERROR_DATA, MAX_SEARCH_QUERY_LENGTH } from "./config.ts";
 import type { Locale } from "./i18n.ts";
@@ -12,6 +19,8 @@ import type { SearchResponse } from "./search.ts";
 
 const SERVER_NAME = "AstroGroot MCP Server";
 const SERVER_VERSION = "1.0.0";
+/** Protocol revisions this server speaks, newest first. */
+export const SUPPORTED_PROTOCOL_VERSIONS = ["2025-03-26", "2024-11-05"];
 
 type JsonRpcId = string | number | null;
 
@@ -28,13 +37,29 @@ interface JsonRpcError {
   data?: unknown;
 }
 
-interface JsonRpcResponse {
+export interface JsonRpcResponse {
   jsonrpc: "2.0";
   id: JsonRpcId;
   result?: unknown;
   error?: JsonRpcError;
 }
 
+interface JsonRpcNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/** Hooks a transport passes to handleMCPRequest (see mcp-http.ts). */
+export interface MCPRequestContext {
+  /** Aborted when the client cancels the request; its response is then dropped. */
+  signal?: AbortSignal;
+  /** Deliver a notification (e.g. notifications/progress) to the client. */
+  notify?: (notification: JsonRpcNotification) => void | Promise<void>;
+  /** Called for notifications/cancelled with the id of the request to cancel. */
+  cancelRequest?: (requestId: string | number) => void;
+}
+
 interface ToolDefinition {
   name: string;
   description: string;
@@ -44,7 +69,8 @@ interface ToolDefinition {
 const TOOL_DEFINITIONS: ToolDefinition[] = [
   {
     name: "search",
-    description: "Search the library using natural language.",
+    description:
+      'Search the library using natural language. Supports "exact phrases", -excluded words, and field filters: author:, category:, channel:, center:, source:ntrs|arxiv, year:2020..2023. `results` ranks the page across papers, videos and NASA items.',
     inputSchema: {
       type: "object",
       properties: {
@@ -57,9 +83,23 @@ const TOOL_DEFINITIONS: ToolDefinition[] = [
         },
         limit: { type: "integer", minimum: 1, maximum: 50, default: 20 },
         page: { type: "integer", minimum: 1, default: 1 },
+        cursor: {
+          type: "string",
+          description:
+            "pagination.nextCursor of a previous result, to fetch the next page (overrides page).",
+        },
         locale: { type: "string", enum: ["en", "zh-TW", "zh-CN"], default: "en" },
         dateFrom: { type: "string", description: "YYYY-MM-DD" },
         dateTo: { type: "string", description: "YYYY-MM-DD" },
+        facets: {
+          type: "object",
+          description:
+            "Facet values to filter by, as returned in the `facets` of a previous search (values within a facet are ORed).",
+          properties: Object.fromEntries(
+            FACET_NAMES.map((facet) => [facet, { type: "array", items: { type: "string" } }]),
+          ),
+          additionalProperties: false,
+        },
       },
       required: ["query"],
     },
@@ -86,6 +126,110 @@ const TOOL_DEFINITIONS: ToolDefinition[] = [
       required: ["type", "id"],
     },
   },
+  {
+    name: "find_related",
+    description:
+      "Find papers, videos, and NASA content similar to a given item (nearest neighbours of its embedding).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        type: { type: "string", enum: ["paper", "video", "nasa"] },
+        id: { type: "string" },
+        limit: { type: "integer", minimum: 1, maximum: 20, default: 8 },
+        locale: { type: "string", enum: ["en", "zh-TW", "zh-CN"], default: "en" },
+      },
+      required: ["type", "id"],
+    },
+  },
+  {
+    name: "cite",
+    description:
+      "Export citations for papers and NASA NTRS reports (ids as returned by search, e.g. 2401.12345 or ntrs-20240001234) as BibTeX, RIS or CSL-JSON.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ids: { type: "array", items: { type: "string" }, minItems: 1, maxItems: 50 },
+        format: { type: "string", enum: [...CITATION_FORMATS], default: "bibtex" },
+      },
+      required: ["ids"],
+    },
+  },
+  {
+    name: "ask_library",
+    description:
+      "Answer a question from the library's papers, videos and NASA content. The answer cites its sources as [n]; `citations` maps each number to an item id and URL. Uses the AI budget.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        question: { type: "string", maxLength: MAX_QUESTION_LENGTH },
+        locale: { type: "string", enum: ["en", "zh-TW", "zh-CN"], default: "en" },
+      },
+      required: ["question"],
+    },
+  },
+];
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: Array<{ name: string; description: string; required?: boolean }>;
+}
+
+type ItemType = "paper" | "video" | "nasa";
+
+const RESOURCE_SCHEME = "astrogroot:";
+const RESOURCE_MIME_TYPE = "text/markdown";
+const RESOURCE_PAGE_SIZE = 100;
+const RESOURCE_TYPES: ItemType[] = ["paper", "video", "nasa"];
+
+// MCP error code for a resource URI that does not resolve to an item
+const RESOURCE_NOT_FOUND = -32002;
+
+const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "astrogroot://paper/{id}{?lang}",
+    name: "Paper",
+    description:
+      "An arXiv paper or NASA NTRS report (ids like 2401.12345 or ntrs-20240001234). lang: en, zh-TW or zh-CN.",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: "astrogroot://video/{id}{?lang}",
+    name: "Video",
+    description: "An educational YouTube video, by video id.",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: "astrogroot://nasa/{id}{?lang}",
+    name: "NASA item",
+    description: "A NASA Astronomy Picture of the Day or NASA Image Library item.",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+];
+
+const PROMPT_DEFINITIONS: PromptDefinition[] = [
+  {
+    name: "literature_review",
+    description:
+      "Write a literature review on a topic from the papers and NTRS reports in the library.",
+    arguments: [
+      { name: "topic", description: "Topic or research question to review.", required: true },
+      { name: "locale", description: "Language of the review: en, zh-TW or zh-CN." },
+    ],
+  },
+  {
+    name: "explain_paper",
+    description: "Explain a paper or NTRS report from the library in plain language.",
+    arguments: [
+      { name: "id", description: "Paper id, e.g. 2401.12345 or ntrs-20240001234.", required: true },
+      {
+        name: "audience",
+        description:
+          "Who the explanation is for, e.g. 'high school student' (default: general public).",
+      },
+      { name: "locale", description: "Language of the explanation: en, zh-TW or zh-CN." },
+    ],
+  },
 ];
 
 function isObject(value: unknown): value is Record<string, unknown> {
@@ -104,106 +248,394 @@ function errorResponse(id: JsonRpcId, code: number, message: string, data?: unkn
   return { jsonrpc: "2.0", id, error: { code, message, data: INCLUDE_ERROR_DATA ? data : undefined } };
 }
 
-function toolResult(content: unknown): { content: Array<{ type: "text"; text: string }> } {
-  return { content: [{ type: "text", text: JSON.stringify(content) }] };
+/** `astrogroot://{type}/{id}` (id percent-encoded), with `?lang=` for a non-English locale. */
+export function itemResourceUri(type: ItemType, id: string, locale: Locale = "en"): string {
+  const uri = `astrogroot://${type}/${encodeURIComponent(id)}`;
+  return locale === "en" ? uri : `${uri}?lang=${encodeURIComponent(locale)}`;
+}
+
+export function parseItemResourceUri(
+  uri: string,
+): { type: ItemType; id: string; locale: Locale } | null {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return null;
+  }
+  const type = url.hostname as ItemType;
+  if (url.protocol !== RESOURCE_SCHEME || !RESOURCE_TYPES.includes(type)) return null;
+  let id: string;
+  try {
+    id = decodeURIComponent(url.pathname.replace(/^\//, ""));
+  } catch {
+    return null;
+  }
+  if (!id) return null;
+  const lang = url.searchParams.get("lang");
+  return { type, id, locale: isLocale(lang) ? lang : "en" };
+}
+
+function parseList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== "string" || !value.trim()) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [value];
+  } catch {
+    return [value];
+  }
+}
+
+function dateOnly(value: unknown): string | undefined {
+  if (!(value instanceof Date) && typeof value !== "string" && typeof value !== "number") {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+}
+
+/** Markdown body of an item resource: title, key metadata, localized summary, original text. */
+export function itemMarkdown(detail: ItemDetail): string {
+  const meta = detail.metadata;
+  const facts: Array<[string, string | undefined]> = [];
+  let body: [string, unknown] | null = null;
+
+  if (detail.type === "paper") {
+    const isNtrs = detail.id.startsWith("ntrs-");
+    facts.push(["Type", isNtrs ? "NASA NTRS report" : "arXiv paper"]);
+    facts.push(["Authors", parseList(meta.authors).join(", ") || undefined]);
+    facts.push(["Published", dateOnly(meta.publishedDate)]);
+    facts.push(["Categories", parseList(meta.categories).join(", ") || undefined]);
+    facts.push(["PDF", typeof meta.pdfUrl === "string" ? meta.pdfUrl : undefined]);
+    body = ["Abstract", meta.abstract];
+  } else if (detail.type === "video") {
+    facts.push(["Type", "Video"]);
+    facts.push(["Channel", typeof meta.channelName === "string" ? meta.channelName : undefined]);
+    facts.push(["Published", dateOnly(meta.publishedDate)]);
+    body = ["Description", meta.description];
+  } else {
+    const isApod = meta.contentType === "apod";
+    facts.push(["Type", isApod ? "NASA Astronomy Picture of the Day" : "NASA"]);
+    facts.push(["Date", dateOnly(meta.date)]);
+    facts.push(["Center", typeof meta.center === "string" ? meta.center : undefined]);
+    facts.push(["Credit", typeof meta.credit === "string" ? meta.credit : undefined]);
+    body = meta.explanation ? ["Explanation", meta.explanation] : ["Description", meta.description];
+  }
+  facts.push(["Source", detail.sourceUrl ?? undefined]);
+
+  const lines = [`# ${detail.title}`, ""];
+  for (const [label, value] of facts) {
+    if (value) lines.push(`- ${label}: ${value}`);
+  }
+  if (detail.summary) lines.push("", "## Summary", "", detail.summary);
+  if (typeof body[1] === "string" && body[1].trim() && body[1] !== detail.summary) {
+    lines.push("", `## ${body[0]}`, "", body[1]);
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** Cursor for resources/list: the content type being listed and the offset within it. */
+function encodeCursor(type: ItemType, offset: number): string {
+  return btoa(JSON.stringify({ type, offset }));
 }
 
-async function getDetail(params: {
-  type: "paper" | "video" | "nasa";
-  id: string;
-  locale: Locale;
-}): Promise<Record<string, unknown> | null> {
-  const { type, id, locale } = params;
-  const trans = await db.query.translations.findFirst({
-    where: and(eq(translations.itemType, type), eq(translations.itemId, id), eq(translations.lang, locale)),
-    columns: { title: true, summary: true },
-  });
-
-  if (type === "paper") {
-    const row = await db.query.papers.findFirst({ where: eq(papers.id, id) });
-    if (!row) return null;
-    const summary = trans?.summary ?? row.summary ?? row.abstract ?? "";
-    const title = trans?.title ?? row.title;
+function decodeCursor(cursor: unknown): { type: ItemType; offset: number } | null {
+  if (cursor === undefined) return { type: "paper", offset: 0 };
+  if (typeof cursor !== "string") return null;
+  try {
+    const { type, offset } = JSON.parse(atob(cursor));
+    if (!RESOURCE_TYPES.includes(type) || !Number.isInteger(offset) || offset < 0) return null;
+    return { type, offset };
+  } catch {
+    return null;
+  }
+}
+
+async function listItemPage(
+  type: ItemType,
+  offset: number,
+  limit: number,
+): Promise<Array<{ id: string; title: string }>> {
+  const columns = type === "paper"
+    ? { table: papers, id: papers.id, title: papers.title, order: papers.publishedDate }
+    : type === "video"
+    ? { table: videos, id: videos.id, title: videos.title, order: videos.publishedDate }
+    : {
+      table: nasaContent,
+      id: nasaContent.id,
+      title: nasaContent.title,
+      order: nasaContent.createdAt,
+    };
+  return await db
+    .select({ id: columns.id, title: columns.title })
+    .from(columns.table)
+    .orderBy(desc(columns.order))
+    .limit(limit)
+    .offset(offset);
+}
+
+/** One page of resources: newest papers first, then videos, then NASA items. */
+async function listResources(cursor: unknown) {
+  const start = decodeCursor(cursor);
+  if (!start) return null;
+  const resources: Array<{ uri: string; name: string; mimeType: string }> = [];
+  let { type, offset } = start;
+  while (true) {
+    const remaining = RESOURCE_PAGE_SIZE - resources.length;
+    // One extra row tells whether this type has more after the page
+    const rows = await listItemPage(type, offset, remaining + 1);
+    for (const row of rows.slice(0, remaining)) {
+      resources.push({
+        uri: itemResourceUri(type, row.id),
+        name: row.title,
+        mimeType: RESOURCE_MIME_TYPE,
+      });
+    }
+    if (rows.length > remaining) {
+      return { resources, nextCursor: encodeCursor(type, offset + remaining) };
+    }
+    const next = RESOURCE_TYPES[RESOURCE_TYPES.indexOf(type) + 1];
+    if (!next) return { resources };
+    if (resources.length === RESOURCE_PAGE_SIZE) {
+      return { resources, nextCursor: encodeCursor(next, 0) };
+    }
+    type = next;
+    offset = 0;
+  }
+}
+
+function promptText(locale: Locale, text: string): string {
+  if (locale === "en") return text;
+  const language = locale === "zh-TW" ? "Traditional Chinese" : "Simplified Chinese";
+  return `${text}\n\nWrite your answer in ${language}.`;
+}
+
+/** Build the messages of a prompt, or a string describing what is wrong with the arguments. */
+async function getPrompt(
+  name: string,
+  args: Record<string, unknown>,
+): Promise<{ description: string; messages: unknown[] } | string> {
+  const locale = isLocale(args.locale) ? args.locale : "en";
+
+  if (name === "literature_review") {
+    const topic = typeof args.topic === "string" ? args.topic.trim() : "";
+    if (!topic) return "topic is required";
+    if (topic.length > MAX_SEARCH_QUERY_LENGTH) {
+      return `topic exceeds maximum length of ${MAX_SEARCH_QUERY_LENGTH} characters`;
+    }
+    const result = await searchLibrary({ q: topic, type: "papers", limit: 15, locale });
+    const sources = result.papers.map((item) =>
+      `- [${item.title}](${itemResourceUri("paper", item.id, locale)})` +
+      (item.publishedDate ? ` (${item.publishedDate.slice(0, 4)})` : "")
+    );
+    const text = [
+      `Write a literature review on: ${topic}`,
+      "",
+      "Organize it by theme rather than paper by paper: summarize the main findings and methods, " +
+      "point out where results agree or conflict, and end with open questions. Cite papers by " +
+      "title. Read the resources below for their summaries and abstracts, and use the search " +
+      "tool to find more if they do not cover the topic.",
+      "",
+      sources.length ? "Papers in the AstroGroot library:" : "The library search found no papers.",
+      ...sources,
+    ].join("\n");
     return {
-      type,
-      id: row.id,
-      title,
-      summary,
-      sourceUrl: row.arxivUrl ?? row.pdfUrl ?? null,
-      metadata: {
-        authors: row.authors,
-        abstract: row.abstract,
-        publishedDate: row.publishedDate,
-        updatedDate: row.updatedDate,
-        categories: row.categories,
-        pdfUrl: row.pdfUrl,
-        arxivUrl: row.arxivUrl,
-        vectorId: row.vectorId,
-        processed: row.processed,
-      },
+      description: `Literature review on ${topic}`,
+      messages: [{ role: "user", content: { type: "text", text: promptText(locale, text) } }],
     };
   }
 
-  if (type === "video") {
-    const row = await db.query.videos.findFirst({ where: eq(videos.id, id) });
-    if (!row) return null;
-    const summary = trans?.summary ?? row.summary ?? row.description ?? "";
-    const title = trans?.title ?? row.title;
+  if (name === "explain_paper") {
+    const paperId = typeof args.id === "string" ? args.id.trim() : "";
+    if (!paperId) return "id is required";
+    const detail = await getItemDetail({ type: "paper", id: paperId, locale });
+    if (!detail) return `no paper with id ${paperId}`;
+    const audience = typeof args.audience === "string" && args.audience.trim()
+      ? args.audience.trim()
+      : "a general audience";
+    const text = `Explain the paper "${detail.title}" to ${audience}. Cover the question it ` +
+      "addresses, how the authors approached it, what they found and why it matters. Define " +
+      "jargon when you first use it and say what the paper does not show.";
     return {
-      type,
-      id: row.id,
-      title,
-      summary,
-      sourceUrl: row.videoUrl,
-      metadata: {
-        channelName: row.channelName,
-        channelId: row.channelId,
-        description: row.description,
-        transcript: row.transcript,
-        publishedDate: row.publishedDate,
-        duration: row.duration,
-        viewCount: row.viewCount,
-        likeCount: row.likeCount,
-        tags: row.tags,
-        thumbnailUrl: row.thumbnailUrl,
-        videoUrl: row.videoUrl,
-        vectorId: row.vectorId,
-        processed: row.processed,
-      },
+      description: `Explain ${detail.title}`,
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "resource",
+            resource: {
+              uri: itemResourceUri("paper", detail.id, locale),
+              mimeType: RESOURCE_MIME_TYPE,
+              text: itemMarkdown(detail),
+            },
+          },
+        },
+        { role: "user", content: { type: "text", text: promptText(locale, text) } },
+      ],
     };
   }
 
-  const row = await db.query.nasaContent.findFirst({ where: eq(nasaContent.id, id) });
-  if (!row) return null;
-  const summary = trans?.summary ?? row.summary ?? row.explanation ?? row.description ?? "";
-  const title = trans?.title ?? row.title;
-  return {
-    type,
-    id: row.id,
-    title,
-    summary,
-    sourceUrl: row.url,
-    metadata: {
-      contentType: row.contentType,
-      description: row.description,
-      explanation: row.explanation,
-      date: row.date,
-      credit: row.credit,
-      mediaType: row.mediaType,
-      hdUrl: row.hdUrl,
-      url: row.url,
-      thumbnailUrl: row.thumbnailUrl,
-      copyright: row.copyright,
-      nasaId: row.nasaId,
-      center: row.center,
-      keywords: row.keywords,
-      vectorId: row.vectorId,
-      processed: row.processed,
-    },
-  };
+  return "unknown prompt";
+}
+
+function toolResult(content: unknown): { content: Array<{ type: "text"; text: string }> } {
+  return { content: [{ type: "text", text: JSON.stringify(content) }] };
+}
+
+async function callTool(
+  id: JsonRpcId,
+  name: string,
+  args: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<JsonRpcResponse> {
+  if (name === "search") {
+    const query = args.query;
+    if (typeof query !== "string") {
+      return errorResponse(id, -32602, "Invalid params: query must be a string");
+    }
+    if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+      return errorResponse(
+        id,
+        -32602,
+        `Invalid params: query exceeds maximum length of ${MAX_SEARCH_QUERY_LENGTH} characters`,
+      );
+    }
+    const allowedTypes = ["all", "papers", "videos", "nasa"] as const;
+    const type = typeof args.type === "string" && allowedTypes.includes(args.type as (typeof allowedTypes)[number])
+      ? args.type
+      : "all";
+    const limit = typeof args.limit === "number" ? Math.max(1, Math.min(50, Math.trunc(args.limit))) : 20;
+    const page = typeof args.page === "number" ? Math.max(1, Math.trunc(args.page)) : 1;
+    const cursor = typeof args.cursor === "string" && args.cursor ? args.cursor : undefined;
+    const locale = isLocale(args.locale) ? args.locale : "en";
+    const dateFrom = typeof args.dateFrom === "string" ? args.dateFrom : undefined;
+    const dateTo = typeof args.dateTo === "string" ? args.dateTo : undefined;
+    const facetArgs = isObject(args.facets) ? args.facets : {};
+    const facets = parseFacetSelection((facet) => {
+      const values = facetArgs[facet];
+      return Array.isArray(values)
+        ? values.filter((v): v is string => typeof v === "string")
+        : undefined;
+    });
+
+    let result: SearchResponse;
+    try {
+      result = await searchLibrary({
+        q: query,
+        type: type as "all" | "papers" | "videos" | "nasa",
+        limit,
+        page,
+        cursor,
+        locale,
+        dateFrom,
+        dateTo,
+        facets,
+        signal,
+      });
+    } catch (err) {
+      if (!(err instanceof InvalidSearchCursorError)) throw err;
+      return errorResponse(id, -32602, `Invalid params: ${err.message}`);
+    }
+    return okResponse(id, toolResult(result));
+  }
+
+  if (name === "get_stats") {
+    const stats = await getLibraryStats();
+    return okResponse(id, toolResult(stats));
+  }
+
+  if (name === "get_detail") {
+    const detailType = args.type;
+    const detailId = args.id;
+    const locale = isLocale(args.locale) ? args.locale : "en";
+    if (
+      (detailType !== "paper" && detailType !== "video" && detailType !== "nasa") ||
+      typeof detailId !== "string" ||
+      detailId.trim() === ""
+    ) {
+      return errorResponse(id, -32602, "Invalid params: type and id are required");
+    }
+
+    const detail = await getItemDetail({
+      type: detailType,
+      id: detailId,
+      locale,
+    });
+    if (!detail) {
+      return okResponse(id, {
+        content: [{ type: "text", text: "Item not found" }],
+        isError: true,
+      });
+    }
+    return okResponse(id, toolResult(detail));
+  }
+
+  if (name === "find_related") {
+    const itemType = args.type;
+    const itemId = args.id;
+    const locale = isLocale(args.locale) ? args.locale : "en";
+    if (!isRelatedItemType(itemType) || typeof itemId !== "string" || itemId.trim() === "") {
+      return errorResponse(id, -32602, "Invalid params: type and id are required");
+    }
+    const limit = typeof args.limit === "number" ? Math.trunc(args.limit) : undefined;
+    const related = await getRelatedItems(itemType, itemId, locale, { limit });
+    return okResponse(id, toolResult(related));
+  }
+
+  if (name === "cite") {
+    const ids = Array.isArray(args.ids)
+      ? args.ids.filter((v): v is string => typeof v === "string" && v.trim() !== "")
+      : [];
+    const format = args.format ?? "bibtex";
+    if (ids.length === 0 || ids.length > 50 || !isCitationFormat(format)) {
+      return errorResponse(
+        id,
+        -32602,
+        "Invalid params: ids (1-50) are required and format must be bibtex, ris or csl-json",
+      );
+    }
+    const { count, body } = await getPaperCitations(ids, format);
+    if (count === 0) {
+      return okResponse(id, {
+        content: [{ type: "text", text: "Item not found" }],
+        isError: true,
+      });
+    }
+    return okResponse(id, { content: [{ type: "text", text: body }] });
+  }
+
+  if (name === "ask_library") {
+    const question = args.question;
+    const locale = isLocale(args.locale) ? args.locale : "en";
+    if (typeof question !== "string" || question.trim() === "") {
+      return errorResponse(id, -32602, "Invalid params: question is required");
+    }
+    if (question.length > MAX_QUESTION_LENGTH) {
+      return errorResponse(id, -32602, "Invalid params: question too long");
+    }
+    try {
+      return okResponse(id, toolResult(await askLibrary(question, locale, { signal })));
+    } catch (error) {
+      if (!(error instanceof BudgetExceededError)) throw error;
+      return okResponse(id, {
+        content: [{ type: "text", text: error.message }],
+        isError: true,
+      });
+    }
+  }
+
+  return errorResponse(id, -32602, "Invalid params: unknown tool");
 }
 
-export async function handleMCPRequest(raw: unknown): Promise<JsonRpcResponse | null> {
+/**
+ * Dispatch one JSON-RPC message. Returns null for notifications (and cancelled requests).
+ * `context` connects the call to its transport: progress notifications and cancellation.
+ */
+export async function handleMCPRequest(
+  raw: unknown,
+  context?: MCPRequestContext,
+): Promise<JsonRpcResponse | null> {
   if (!isObject(raw)) {
     return errorResponse(null, -32600, "Invalid request");
   }
@@ -215,26 +647,78 @@ export async function handleMCPRequest(raw: unknown): Promise<JsonRpcResponse |
 
   try {
     if (id === undefined || id === null) {
-      if (method === "notifications/initialized") {
-        return null;
+      if (method === "notifications/cancelled" && isObject(params)) {
+        const requestId = params.requestId;
+        if (typeof requestId === "string" || typeof requestId === "number") {
+          context?.cancelRequest?.(requestId);
+        }
       }
       return null;
     }
     switch (method) {
       case "initialize":
         return okResponse(id, {
-          protocolVersion: "2024-11-05",
+          // Echo the client's revision when we speak it, otherwise offer our newest
+          protocolVersion: isObject(params) &&
+              SUPPORTED_PROTOCOL_VERSIONS.includes(params.protocolVersion as string)
+            ? params.protocolVersion
+            : SUPPORTED_PROTOCOL_VERSIONS[0],
           serverInfo: { name: SERVER_NAME, version: SERVER_VERSION },
           capabilities: {
             tools: {
               listChanged: false,
             },
+            resources: {
+              subscribe: false,
+              listChanged: false,
+            },
+            prompts: {
+              listChanged: false,
+            },
           },
         });
       case "ping":
         return okResponse(id, {});
       case "tools/list":
         return okResponse(id, { tools: TOOL_DEFINITIONS });
+      case "resources/list": {
+        const page = await listResources(isObject(params) ? params.cursor : undefined);
+        if (!page) {
+          return errorResponse(id, -32602, "Invalid params: unknown cursor");
+        }
+        return okResponse(id, page);
+      }
+      case "resources/templates/list":
+        return okResponse(id, { resourceTemplates: RESOURCE_TEMPLATES });
+      case "resources/read": {
+        const uri = isObject(params) ? params.uri : undefined;
+        const target = typeof uri === "string" ? parseItemResourceUri(uri) : null;
+        if (typeof uri !== "string" || !target) {
+          return errorResponse(id, -32602, "Invalid params: uri must be astrogroot://{type}/{id}");
+        }
+        const detail = await getItemDetail(target);
+        if (!detail) {
+          return errorResponse(id, RESOURCE_NOT_FOUND, "Resource not found", { uri });
+        }
+        return okResponse(id, {
+          contents: [{ uri, mimeType: RESOURCE_MIME_TYPE, text: itemMarkdown(detail) }],
+        });
+      }
+      case "prompts/list":
+        return okResponse(id, { prompts: PROMPT_DEFINITIONS });
+      case "prompts/get": {
+        if (!isObject(params) || typeof params.name !== "string") {
+          return errorResponse(id, -32602, "Invalid params");
+        }
+        const prompt = await getPrompt(
+          params.name,
+          isObject(params.arguments) ? params.arguments : {},
+        );
+        if (typeof prompt === "string") {
+          return errorResponse(id, -32602, `Invalid params: ${prompt}`);
+        }
+        return okResponse(id, prompt);
+      }
       case "tools/call": {
         if (!isObject(params)) {
           return errorResponse(id, -32602, "Invalid params");
@@ -245,77 +729,57 @@ export async function handleMCPRequest(raw: unknown): Promise<JsonRpcResponse |
           return errorResponse(id, -32602, "Invalid params");
         }
 
-        if (name === "search") {
-          const query = args.query;
-          if (typeof query !== "string") {
-            return errorResponse(id, -32602, "Invalid params: query must be a string");
-          }
-          if (query.length > MAX_SEARCH_QUERY_LENGTH) {
-            return errorResponse(
-              id,
-              -32602,
-              `Invalid params: query exceeds maximum length of ${MAX_SEARCH_QUERY_LENGTH} characters`,
-            );
-          }
-          const allowedTypes = ["all", "papers", "videos", "nasa"] as const;
-          const type = typeof args.type === "string" && allowedTypes.includes(args.type as (typeof allowedTypes)[number])
-            ? args.type
-            : "all";
-          const limit = typeof args.limit === "number" ? Math.max(1, Math.min(50, Math.trunc(args.limit))) : 20;
-          const page = typeof args.page === "number" ? Math.max(1, Math.trunc(args.page)) : 1;
-          const locale = isLocale(args.locale) ? args.locale : "en";
-          const dateFrom = typeof args.dateFrom === "string" ? args.dateFrom : undefined;
-          const dateTo = typeof args.dateTo === "string" ? args.dateTo : undefined;
-
-          const result: SearchResponse = await searchLibrary({
-            q: query,
-            type: type as "all" | "papers" | "videos" | "nasa",
-            limit,
-            page,
-            locale,
-            dateFrom,
-            dateTo,
+        const progressToken = isObject(params._meta) ? params._meta.progressToken : undefined;
+        const reportProgress = async (progress: number, message?: string) => {
+          if (progressToken === undefined || !context?.notify) return;
+          await context.notify({
+            jsonrpc: "2.0",
+            method: "notifications/progress",
+            params: { progressToken, progress, total: 1, ...(message ? { message } : {}) },
           });
-          return okResponse(id, toolResult(result));
-        }
-
-        if (name === "get_stats") {
-          const stats = await getLibraryStats();
-          return okResponse(id, toolResult(stats));
-        }
-
-        if (name === "get_detail") {
-          const detailType = args.type;
-          const detailId = args.id;
-          const locale = isLocale(args.locale) ? args.locale : "en";
-          if (
-            (detailType !== "paper" && detailType !== "video" && detailType !== "nasa") ||
-            typeof detailId !== "string" ||
-            detailId.trim() === ""
-          ) {
-            return errorResponse(id, -32602, "Invalid params: type and id are required");
-          }
-
-          const detail = await getDetail({
-            type: detailType,
-            id: detailId,
-            locale,
-          });
-          if (!detail) {
-            return okResponse(id, {
-              content: [{ type: "text", text: "Item not found" }],
-              isError: true,
-            });
-          }
-          return okResponse(id, toolResult(detail));
-        }
+        };
 
-        return errorResponse(id, -32602, "Invalid params: unknown tool");
+        // Progress marks only the start and the end of the call; search and ask_library stop
+        // between their steps once the request is cancelled
+        await reportProgress(0, `Running ${name}`);
+        const response = await callTool(id, name, args, context?.signal);
+        // A cancelled request gets no response (the client has stopped waiting for it)
+        if (context?.signal?.aborted) return null;
+        await reportProgress(1);
+        return response;
       }
       default:
         return errorResponse(id, -32601, "Method not found");
     }
   } catch (error) {
+    if (context?.signal?.aborted) return null;
     return errorResponse(id, -32603, "Internal error", String(error));
   }
 }
+
+/**
+ * Dispatch a JSON-RPC batch. Returns the responses in request order, without entries for
+ * notifications (an empty array when the batch held only notifications). `contextFor` gives
+ * each message its own context, so requests of one batch can be cancelled separately.
+ */
+export async function handleMCPBatch(
+  batch: unknown[],
+  contextFor?: (message: unknown) => MCPRequestContext | undefined,
+  handle: typeof handleMCPRequest = handleMCPRequest,
+): Promise<JsonRpcResponse[]> {
+  if (batch.length === 0) {
+    return [errorResponse(null, -32600, "Invalid request: empty batch")];
+  }
+  const responses = await Promise.all(batch.map((message) => {
+    // initialize must be the only message of its POST
+    if (isObject(message) && message.method === "initialize") {
+      return errorResponse(
+        (message.id ?? null) as JsonRpcId,
+        -32600,
+        "Invalid request: initialize cannot be batched",
+      );
+    }
+    return handle(message, contextFor?.(message));
+  }));
+  return responses.filter((response): response is JsonRpcResponse => response !== null);
+}
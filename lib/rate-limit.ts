@@ -1,7 +1,7 @@
 /// <reference lib="deno.unstable" />
 // Deno KV-backed fixed-window rate limiter middleware for Hono
 
-import type { Context, MiddlewareHandler } from "hono";
+import type { Context, MiddlewareHandler, Next } from "hono";
 
 export interface RateLimitConfig {
   tier: string;
@@ -66,8 +66,6 @@ function getWindowKey(windowSec: number): number {
  * Returns 429 JSON with Retry-After header when limit exceeded.
  */
 export function rateLimit(config: RateLimitConfig): MiddlewareHandler {
-  const { tier, limit, windowSec } = config;
-
   return async (c, next) => {
     const ip = getClientIp(c);
 
@@ -77,74 +75,107 @@ export function rateLimit(config: RateLimitConfig): MiddlewareHandler {
       return;
     }
 
-    const windowKey = getWindowKey(windowSec);
-    const key = ["ratelimit", tier, ip, windowKey];
+    return await applyRateLimit(c, next, config, ip);
+  };
+}
+
+/**
+ * Whether `identifier` has already used up the tier's current window, without counting a
+ * request. Lets a caller turn a client away before doing expensive work; fails open.
+ */
+export async function isRateLimited(config: RateLimitConfig, identifier: string): Promise<boolean> {
+  const key = ["ratelimit", config.tier, identifier, getWindowKey(config.windowSec)];
+  try {
+    const kv = await getKv();
+    const entry = await kv.get<number>(key);
+    return (entry.value ?? 0) >= config.limit;
+  } catch (err) {
+    console.error(`[rate-limit] KV error on tier=${config.tier}:`, err);
+    return false;
+  }
+}
+
+/**
+ * Count one request for `identifier` (an IP, or e.g. "key:12" for an API key) against a
+ * tier and either continue or answer 429. Headers use `headerPrefix` so several limits
+ * (say a burst limit and a daily quota) can report side by side.
+ */
+export async function applyRateLimit(
+  c: Context,
+  next: Next,
+  config: RateLimitConfig,
+  identifier: string,
+  headerPrefix = "X-RateLimit",
+): Promise<Response | void> {
+  const { tier, limit, windowSec } = config;
 
-    let count = 0;
-    try {
-      const kv = await getKv();
+  const windowKey = getWindowKey(windowSec);
+  const key = ["ratelimit", tier, identifier, windowKey];
 
-      // Atomic check-and-set with one retry on contention
-      let success = false;
+  let count = 0;
+  try {
+    const kv = await getKv();
 
-      for (let attempt = 0; attempt < 2; attempt++) {
-        const entry = await kv.get<number>(key);
-        const currentCount = entry.value ?? 0;
+    // Atomic check-and-set with one retry on contention
+    let success = false;
 
-        // Calculate TTL - expire at end of current window plus buffer
-        const windowEndSec = (windowKey + 1) * windowSec;
-        const nowSec = Math.floor(Date.now() / 1000);
-        const ttlMs = Math.max((windowEndSec - nowSec + 1) * 1000, 1000);
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const entry = await kv.get<number>(key);
+      const currentCount = entry.value ?? 0;
 
-        const result = await kv.atomic()
-          .check(entry)
-          .set(key, currentCount + 1, { expireIn: ttlMs })
-          .commit();
+      // Calculate TTL - expire at end of current window plus buffer
+      const windowEndSec = (windowKey + 1) * windowSec;
+      const nowSec = Math.floor(Date.now() / 1000);
+      const ttlMs = Math.max((windowEndSec - nowSec + 1) * 1000, 1000);
 
-        if (result.ok) {
-          count = currentCount + 1;
-          success = true;
-          break;
-        }
-        // Contention - retry
-      }
+      const result = await kv.atomic()
+        .check(entry)
+        .set(key, currentCount + 1, { expireIn: ttlMs })
+        .commit();
 
-      // If atomic failed twice, read current value
-      if (!success) {
-        const entry = await kv.get<number>(key);
-        count = (entry.value ?? 0) + 1;
+      if (result.ok) {
+        count = currentCount + 1;
+        success = true;
+        break;
       }
-    } catch (err) {
-      // KV unavailable - fail open to avoid 500s on legitimate traffic
-      console.error(`[rate-limit] KV error on tier=${tier}:`, err);
-      await next();
-      return;
+      // Contention - retry
     }
 
-    // Calculate reset time (end of current window)
-    const resetTime = (windowKey + 1) * windowSec;
-    const remaining = Math.max(0, limit - count);
-
-    // Set rate limit headers on response
-    c.header("X-RateLimit-Limit", String(limit));
-    c.header("X-RateLimit-Remaining", String(remaining));
-    c.header("X-RateLimit-Reset", String(resetTime));
-
-    // Check if rate limited
-    if (count > limit) {
-      const retryAfter = Math.max(1, resetTime - Math.floor(Date.now() / 1000));
-      c.header("Retry-After", String(retryAfter));
-
-      return c.json(
-        {
-          error: "Too Many Requests",
-          message: `Rate limit exceeded for ${tier} tier. Try again in ${retryAfter} seconds.`,
-          retryAfter,
-        },
-        429,
-      );
+    // If atomic failed twice, read current value
+    if (!success) {
+      const entry = await kv.get<number>(key);
+      count = (entry.value ?? 0) + 1;
     }
-
+  } catch (err) {
+    // KV unavailable - fail open to avoid 500s on legitimate traffic
+    console.error(`[rate-limit] KV error on tier=${tier}:`, err);
     await next();
-  };
+    return;
+  }
+
+  // Calculate reset time (end of current window)
+  const resetTime = (windowKey + 1) * windowSec;
+  const remaining = Math.max(0, limit - count);
+
+  // Set rate limit headers on response
+  c.header(`${headerPrefix}-Limit`, String(limit));
+  c.header(`${headerPrefix}-Remaining`, String(remaining));
+  c.header(`${headerPrefix}-Reset`, String(resetTime));
+
+  // Check if rate limited
+  if (count > limit) {
+    const retryAfter = Math.max(1, resetTime - Math.floor(Date.now() / 1000));
+    c.header("Retry-After", String(retryAfter));
+
+    return c.json(
+      {
+        error: "Too Many Requests",
+        message: `Rate limit exceeded for ${tier} tier. Try again in ${retryAfter} seconds.`,
+        retryAfter,
+      },
+      429,
+    );
+  }
+
+  await next();
 }
@@ -0,0 +1,104 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { getRelatedItems } from "./related.ts";
+
+type QueryResult = { ids: string[][]; distances: number[][] };
+
+function createStore(options: {
+  embeddings?: Record<string, number[]>;
+  result?: QueryResult;
+  onQuery?: (params: { queryEmbedding?: number[]; nResults?: number }) => void;
+}) {
+  return {
+    getEmbedding: (id: string) => Promise.resolve(options.embeddings?.[id] ?? null),
+    query: (params: { queryEmbedding?: number[]; nResults?: number }) => {
+      options.onQuery?.(params);
+      return Promise.resolve(options.result ?? { ids: [[]], distances: [[]] });
+    },
+  };
+}
+
+function createCollections(stores: {
+  papers: ReturnType<typeof createStore>;
+  videos?: ReturnType<typeof createStore>;
+  nasa?: ReturnType<typeof createStore>;
+  enPapers?: ReturnType<typeof createStore>;
+}) {
+  const empty = createStore({});
+  const byLocale = (store: ReturnType<typeof createStore>, en = store) => ({
+    en,
+    "zh-TW": store,
+    "zh-CN": store,
+  });
+  return () =>
+    Promise.resolve({
+      papers: byLocale(stores.papers, stores.enPapers ?? stores.papers),
+      videos: byLocale(stores.videos ?? empty),
+      nasa: byLocale(stores.nasa ?? empty),
+    }) as unknown as ReturnType<typeof import("./vector.ts").initializeCollections>;
+}
+
+function createDbMock(rows: {
+  papers?: Record<string, unknown>[];
+  videos?: Record<string, unknown>[];
+  nasa?: Record<string, unknown>[];
+}) {
+  return {
+    query: {
+      papers: { findMany: () => Promise.resolve(rows.papers ?? []) },
+      videos: { findMany: () => Promise.resolve(rows.videos ?? []) },
+      nasaContent: { findMany: () => Promise.resolve(rows.nasa ?? []) },
+      translations: { findMany: () => Promise.resolve([]) },
+    },
+  } as unknown as typeof import("../db/client.ts").db;
+}
+
+Deno.test("getRelatedItems ranks neighbours across types and excludes the item itself", async () => {
+  const vector = [0.1, 0.2, 0.3];
+  let queriedWith: number[] | undefined;
+  const result = await getRelatedItems("paper", "p1", "en", { limit: 2 }, {
+    db: createDbMock({
+      papers: [{ id: "p2", title: "Paper 2", publishedDate: new Date("2024-01-02") }],
+      videos: [{
+        id: "v1",
+        title: "Video 1",
+        videoUrl: "https://youtu.be/v1",
+        channelName: "NASA",
+      }],
+    }),
+    initializeCollections: createCollections({
+      papers: createStore({
+        embeddings: { p1: vector },
+        result: { ids: [["p1", "p2", "p3"]], distances: [[0, 0.6, 0.9]] },
+        onQuery: (params) => queriedWith = params.queryEmbedding,
+      }),
+      videos: createStore({ result: { ids: [["v1"]], distances: [[0.2]] } }),
+    }),
+  });
+
+  assertEquals(queriedWith, vector);
+  assertEquals(result.items.map((item) => `${item.type}:${item.id}`), ["video:v1", "paper:p2"]);
+  assertEquals(result.items[0].score, 0.9);
+  assertEquals(result.items[1].publishedDate, "2024-01-02");
+});
+
+Deno.test("getRelatedItems falls back to the English vector and returns nothing without one", async () => {
+  let englishQueried = false;
+  const deps = {
+    db: createDbMock({ papers: [{ id: "p2", title: "Paper 2" }] }),
+    initializeCollections: createCollections({
+      papers: createStore({}),
+      enPapers: createStore({
+        embeddings: { p1: [1, 0] },
+        result: { ids: [["p2"]], distances: [[0.5]] },
+        onQuery: () => englishQueried = true,
+      }),
+    }),
+  };
+
+  const translated = await getRelatedItems("paper", "p1", "zh-TW", undefined, deps);
+  assertEquals(englishQueried, true);
+  assertEquals(translated.items.map((item) => item.id), ["p2"]);
+
+  const missing = await getRelatedItems("paper", "unknown", "zh-TW", undefined, deps);
+  assertEquals(missing.items, []);
+});
@@ -0,0 +1,162 @@
+import { db } from "../db/client.ts";
+import { nasaContent, papers, translations, videos } from "../db/schema.ts";
+import { and, eq, inArray } from "drizzle-orm";
+import { initializeCollections } from "./vector.ts";
+import type { SearchResultItem } from "./search.ts";
+import type { Locale } from "./i18n.ts";
+import { SUPPORTED_LOCALES } from "./i18n.ts";
+
+export type RelatedItemType = SearchResultItem["type"];
+
+export interface RelatedResponse {
+  type: RelatedItemType;
+  id: string;
+  items: SearchResultItem[];
+}
+
+export interface RelatedDeps {
+  db?: typeof db;
+  initializeCollections?: typeof initializeCollections;
+}
+
+const DEFAULT_RELATED_LIMIT = 8;
+const MAX_RELATED_LIMIT = 20;
+
+const COLLECTION_KEY = { paper: "papers", video: "videos", nasa: "nasa" } as const;
+
+export function isRelatedItemType(value: unknown): value is RelatedItemType {
+  return value === "paper" || value === "video" || value === "nasa";
+}
+
+/**
+ * "More like this": nearest neighbours of an item across papers, videos and NASA content.
+ * Reuses the item's stored vector from the locale collection (falling back to English when
+ * the item has no vector there), so no text is re-embedded. The item itself is excluded.
+ */
+export async function getRelatedItems(
+  type: RelatedItemType,
+  id: string,
+  locale: Locale,
+  options?: { limit?: number },
+  deps?: RelatedDeps,
+): Promise<RelatedResponse> {
+  const db_ = deps?.db ?? db;
+  const initializeCollections_ = deps?.initializeCollections ?? initializeCollections;
+  const limit = Math.max(1, Math.min(MAX_RELATED_LIMIT, options?.limit ?? DEFAULT_RELATED_LIMIT));
+  const lang = SUPPORTED_LOCALES.includes(locale) ? locale : "en";
+
+  const collections = await initializeCollections_();
+  let searchLocale: Locale = lang;
+  let embedding = await collections[COLLECTION_KEY[type]][lang].getEmbedding(id);
+  if (!embedding && lang !== "en") {
+    searchLocale = "en";
+    embedding = await collections[COLLECTION_KEY[type]].en.getEmbedding(id);
+  }
+  if (!embedding) {
+    return { type, id, items: [] };
+  }
+
+  // One extra result per collection, since the item itself comes back as its own best match
+  const query = { queryEmbedding: embedding, nResults: limit + 1 };
+  const [paperRes, videoRes, nasaRes] = await Promise.all([
+    collections.papers[searchLocale].query(query),
+    collections.videos[searchLocale].query(query),
+    collections.nasa[searchLocale].query(query),
+  ]);
+
+  const neighbours: { type: RelatedItemType; id: string; score: number }[] = [];
+  const collect = (
+    kind: RelatedItemType,
+    res: { ids: string[][]; distances?: (number | null)[][] | null },
+  ) => {
+    res.ids[0]?.forEach((neighbourId, i) => {
+      if (kind === type && neighbourId === id) return;
+      const dist = res.distances?.[0]?.[i];
+      neighbours.push({ type: kind, id: neighbourId, score: dist != null ? 1 - dist / 2 : 0 });
+    });
+  };
+  collect("paper", paperRes);
+  collect("video", videoRes);
+  collect("nasa", nasaRes);
+  const top = neighbours.sort((a, b) => b.score - a.score).slice(0, limit);
+  if (top.length === 0) {
+    return { type, id, items: [] };
+  }
+
+  const idsOf = (kind: RelatedItemType) => top.filter((n) => n.type === kind).map((n) => n.id);
+  const [paperRows, videoRows, nasaRows, transRows] = await Promise.all([
+    idsOf("paper").length
+      ? db_.query.papers.findMany({ where: inArray(papers.id, idsOf("paper")) })
+      : [],
+    idsOf("video").length
+      ? db_.query.videos.findMany({ where: inArray(videos.id, idsOf("video")) })
+      : [],
+    idsOf("nasa").length
+      ? db_.query.nasaContent.findMany({ where: inArray(nasaContent.id, idsOf("nasa")) })
+      : [],
+    lang !== "en"
+      ? db_.query.translations.findMany({
+        where: and(
+          eq(translations.lang, lang),
+          inArray(translations.itemId, top.map((n) => n.id)),
+        ),
+        columns: { itemType: true, itemId: true, title: true, summary: true },
+      })
+      : [],
+  ]);
+
+  const transByKey = new Map(transRows.map((t) => [`${t.itemType}:${t.itemId}`, t]));
+  const toDateOnly = (value: Date | null) =>
+    value ? new Date(value).toISOString().slice(0, 10) : undefined;
+
+  const items = new Map<string, SearchResultItem>();
+  for (const row of paperRows) {
+    const trans = transByKey.get(`paper:${row.id}`);
+    items.set(`paper:${row.id}`, {
+      type: "paper",
+      id: row.id,
+      title: trans?.title || row.title,
+      snippet: (trans?.summary ?? row.summary ?? row.abstract?.slice(0, 200)) ?? undefined,
+      url: row.arxivUrl ?? row.pdfUrl ?? undefined,
+      publishedDate: toDateOnly(row.publishedDate),
+      meta: { authors: row.authors, categories: row.categories },
+    });
+  }
+  for (const row of videoRows) {
+    const trans = transByKey.get(`video:${row.id}`);
+    items.set(`video:${row.id}`, {
+      type: "video",
+      id: row.id,
+      title: trans?.title || row.title,
+      snippet: (trans?.summary ?? row.summary ?? row.description?.slice(0, 200)) ?? undefined,
+      url: row.videoUrl,
+      publishedDate: toDateOnly(row.publishedDate),
+      meta: { channelName: row.channelName },
+    });
+  }
+  for (const row of nasaRows) {
+    const trans = transByKey.get(`nasa:${row.id}`);
+    items.set(`nasa:${row.id}`, {
+      type: "nasa",
+      id: row.id,
+      title: trans?.title || row.title,
+      snippet:
+        (trans?.summary ?? row.summary ?? row.explanation ?? row.description?.slice(0, 200)) ??
+          undefined,
+      url: row.url,
+      publishedDate: toDateOnly(row.date),
+      meta: { contentType: row.contentType, center: row.center },
+    });
+  }
+
+  return {
+    type,
+    id,
+    items: top
+      .map((n): SearchResultItem | undefined => {
+        const item = items.get(`${n.type}:${n.id}`);
+        return item ? { ...item, score: n.score } : undefined;
+      })
+      .filter((item): item is SearchResultItem => item != null),
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Opaque cursors for paging through search results. A cursor records how deep the retrievers
+ * had to go and where the previous page ended in the ranking, so the next page is ranked from
+ * at least the same candidates and starts right after the last item already returned.
+ */
+
+import type { FacetSelection } from "./search-facets.ts";
+
+export interface SearchCursor {
+  /** Fingerprint of the query, filters and facets the cursor was issued for. */
+  query: string;
+  /** Candidates requested from each retriever for the previous page. */
+  depth: number;
+  /** Results returned before the next page. */
+  offset: number;
+  /** Ranking position of the last returned result: its score and `type:id`. */
+  after: { score: number; key: string };
+}
+
+/** Thrown for a malformed cursor, or one issued for a different search. */
+export class InvalidSearchCursorError extends Error {
+  constructor(message = "Invalid search cursor") {
+    super(message);
+    this.name = "InvalidSearchCursorError";
+  }
+}
+
+/** What a cursor is bound to; a cursor is only accepted for the same search. */
+export interface SearchFingerprintInput {
+  q: string;
+  type: string;
+  locale: string;
+  dateFrom?: string;
+  dateTo?: string;
+  facets: FacetSelection;
+}
+
+export async function searchFingerprint(input: SearchFingerprintInput): Promise<string> {
+  const facets = Object.entries(input.facets)
+    .filter(([, values]) => values?.length)
+    .map(([facet, values]) => [facet, [...values!].sort()])
+    .sort(([a], [b]) => String(a).localeCompare(String(b)));
+  const material = JSON.stringify([
+    input.q,
+    input.type,
+    input.locale,
+    input.dateFrom ?? "",
+    input.dateTo ?? "",
+    facets,
+  ]);
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(material));
+  return Array.from(new Uint8Array(digest).slice(0, 8), (b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  const json = JSON.stringify([
+    cursor.query,
+    cursor.depth,
+    cursor.offset,
+    cursor.after.score,
+    cursor.after.key,
+  ]);
+  const bytes = new TextEncoder().encode(json);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/** Decode a cursor, checking it belongs to the search with the given fingerprint. */
+export function decodeSearchCursor(token: string, fingerprint: string): SearchCursor {
+  let fields: unknown;
+  try {
+    const binary = atob(token.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    fields = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new InvalidSearchCursorError();
+  }
+  if (!Array.isArray(fields) || fields.length !== 5) throw new InvalidSearchCursorError();
+  const [query, depth, offset, score, key] = fields;
+  if (
+    typeof query !== "string" || !Number.isInteger(depth) || depth < 1 ||
+    !Number.isInteger(offset) || offset < 0 || typeof score !== "number" ||
+    typeof key !== "string"
+  ) {
+    throw new InvalidSearchCursorError();
+  }
+  if (query !== fingerprint) {
+    throw new InvalidSearchCursorError("Search cursor belongs to a different query");
+  }
+  return { query, depth, offset, after: { score, key } };
+}
@@ -0,0 +1,95 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import {
+  computeFacets,
+  type FacetSource,
+  facetValues,
+  matchesFacets,
+  parseFacetSelection,
+} from "./search-facets.ts";
+
+const items: FacetSource[] = [
+  {
+    type: "paper",
+    id: "2401.00001",
+    publishedDate: "2024-01-05",
+    meta: { categories: '["astro-ph.CO","gr-qc"]' },
+  },
+  {
+    type: "paper",
+    id: "2301.00002",
+    publishedDate: "2023-03-01",
+    meta: { categories: '["astro-ph.CO"]' },
+  },
+  {
+    type: "paper",
+    id: "ntrs-20230001",
+    publishedDate: "2023-06-01",
+    meta: { categories: "Propulsion" },
+  },
+  { type: "video", id: "v1", publishedDate: "2024-02-01", meta: { channelName: "NASA" } },
+  {
+    type: "nasa",
+    id: "n1",
+    publishedDate: "2024-02-01",
+    meta: { contentType: "apod", center: null },
+  },
+];
+
+Deno.test("search-facets: derives values per content type", () => {
+  assertEquals(facetValues(items[0]), {
+    year: ["2024"],
+    category: ["astro-ph.CO", "gr-qc"],
+    source: ["arxiv"],
+  });
+  assertEquals(facetValues(items[2]).source, ["ntrs"]);
+  assertEquals(facetValues(items[2]).category, ["Propulsion"]);
+  assertEquals(facetValues(items[3]), { year: ["2024"], channel: ["NASA"] });
+  assertEquals(facetValues(items[4]), { year: ["2024"], center: [], contentType: ["apod"] });
+});
+
+Deno.test("search-facets: counts every candidate without a selection", () => {
+  const facets = computeFacets(items, {});
+  assertEquals(facets.year, [{ value: "2024", count: 3 }, { value: "2023", count: 2 }]);
+  assertEquals(facets.category, [
+    { value: "astro-ph.CO", count: 2 },
+    { value: "gr-qc", count: 1 },
+    { value: "Propulsion", count: 1 },
+  ]);
+  assertEquals(facets.source, [{ value: "arxiv", count: 2 }, { value: "ntrs", count: 1 }]);
+  assertEquals(facets.center, []);
+});
+
+Deno.test("search-facets: a facet's counts ignore its own selection", () => {
+  const selection = { year: ["2023"] };
+  const facets = computeFacets(items, selection);
+  // Year counts still show 2024 so it can be added to the selection
+  assertEquals(facets.year, [{ value: "2024", count: 3 }, { value: "2023", count: 2 }]);
+  // Other facets only count 2023 items
+  assertEquals(facets.source, [{ value: "arxiv", count: 1 }, { value: "ntrs", count: 1 }]);
+  assertEquals(facets.channel, []);
+});
+
+Deno.test("search-facets: values are ORed within a facet and ANDed across facets", () => {
+  const selection = { category: ["gr-qc", "Propulsion"], year: ["2023"] };
+  assertEquals(items.filter((item) => matchesFacets(item, selection)).map((item) => item.id), [
+    "ntrs-20230001",
+  ]);
+  // Items without the facet (videos have no category) are excluded
+  assertEquals(matchesFacets(items[3], { category: ["astro-ph.CO"] }), false);
+});
+
+Deno.test("search-facets: keeps selected values with no matches", () => {
+  const facets = computeFacets(items, { channel: ["PBS Space Time"] });
+  assertEquals(facets.channel, [{ value: "NASA", count: 1 }, {
+    value: "PBS Space Time",
+    count: 0,
+  }]);
+});
+
+Deno.test("search-facets: parses repeated query parameters", () => {
+  const params = new URLSearchParams("category=astro-ph.CO&category=gr-qc&source=NTRS&year=&q=x");
+  assertEquals(parseFacetSelection((name) => params.getAll(name)), {
+    category: ["astro-ph.CO", "gr-qc"],
+    source: ["ntrs"],
+  });
+});
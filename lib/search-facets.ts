@@ -0,0 +1,144 @@
+/**
+ * Facets for search results: value counts over the candidate set, and the matching filter.
+ *
+ * Facets are disjunctive: values selected within one facet are ORed, facets are ANDed, and
+ * each facet's counts ignore its own selection so sibling values stay visible and countable.
+ * A selection on a facet an item does not have (e.g. `channel` for a paper) excludes the item.
+ */
+
+export const FACET_NAMES = [
+  "category",
+  "year",
+  "source",
+  "channel",
+  "center",
+  "contentType",
+] as const;
+
+export type FacetName = (typeof FACET_NAMES)[number];
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export type SearchFacets = Record<FacetName, FacetBucket[]>;
+
+/** Selected values per facet, as accepted back from the API query string. */
+export type FacetSelection = Partial<Record<FacetName, string[]>>;
+
+/** Fields of a search result that facets are derived from. */
+export interface FacetSource {
+  type: "paper" | "video" | "nasa";
+  id: string;
+  publishedDate?: string;
+  meta?: Record<string, unknown>;
+}
+
+type FacetValues = Partial<Record<FacetName, string[]>>;
+
+/** Values shown per facet, most frequent first; the selected values are always kept. */
+const MAX_BUCKETS = 20;
+
+/** Categories are stored as a JSON array; older rows may hold a comma-separated list. */
+export function parseCategories(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== "string" || !value.trim()) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) return parsed.map(String);
+  } catch {
+    // Not JSON; fall through to the comma-separated form
+  }
+  return value.split(",");
+}
+
+function nonEmpty(values: unknown[]): string[] {
+  return [...new Set(values.map((v) => (typeof v === "string" ? v.trim() : "")).filter(Boolean))];
+}
+
+/** Facet values of one result; facets that do not apply to its type are left out. */
+export function facetValues(item: FacetSource): FacetValues {
+  const values: FacetValues = {};
+  const year = item.publishedDate?.slice(0, 4);
+  if (year && /^\d{4}$/.test(year)) values.year = [year];
+
+  switch (item.type) {
+    case "paper":
+      values.category = nonEmpty(parseCategories(item.meta?.categories));
+      values.source = [item.id.startsWith("ntrs-") ? "ntrs" : "arxiv"];
+      break;
+    case "video":
+      values.channel = nonEmpty([item.meta?.channelName]);
+      break;
+    case "nasa":
+      values.center = nonEmpty([item.meta?.center]);
+      values.contentType = nonEmpty([item.meta?.contentType]);
+      break;
+  }
+  return values;
+}
+
+function matches(values: FacetValues, selection: FacetSelection, except?: FacetName): boolean {
+  for (const name of FACET_NAMES) {
+    const selected = selection[name];
+    if (name === except || !selected?.length) continue;
+    const own = values[name] ?? [];
+    if (!selected.some((value) => own.includes(value))) return false;
+  }
+  return true;
+}
+
+/** True if the item satisfies every selected facet. */
+export function matchesFacets(item: FacetSource, selection: FacetSelection): boolean {
+  return matches(facetValues(item), selection);
+}
+
+/** Count facet values over the candidates, honoring the selection on all other facets. */
+export function computeFacets(items: FacetSource[], selection: FacetSelection): SearchFacets {
+  const entries = items.map(facetValues);
+  const facets = {} as SearchFacets;
+
+  for (const name of FACET_NAMES) {
+    const counts = new Map<string, number>();
+    for (const values of entries) {
+      if (!matches(values, selection, name)) continue;
+      for (const value of values[name] ?? []) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+    // Keep selected values visible even when nothing else matches them
+    for (const value of selection[name] ?? []) {
+      if (!counts.has(value)) counts.set(value, 0);
+    }
+
+    const selected = new Set(selection[name] ?? []);
+    const buckets = [...counts.entries()]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) =>
+        name === "year"
+          ? b.value.localeCompare(a.value)
+          : (b.count - a.count) || a.value.localeCompare(b.value)
+      );
+    facets[name] = buckets.filter((bucket, i) => i < MAX_BUCKETS || selected.has(bucket.value));
+  }
+  return facets;
+}
+
+/** Read a facet selection from query parameters; repeat a facet to select several values. */
+export function parseFacetSelection(
+  getAll: (name: FacetName) => string[] | undefined,
+): FacetSelection {
+  const selection: FacetSelection = {};
+  for (const name of FACET_NAMES) {
+    const values = nonEmpty(getAll(name) ?? []);
+    if (values.length) {
+      selection[name] = name === "source" ? values.map((v) => v.toLowerCase()) : values;
+    }
+  }
+  return selection;
+}
+
+export function hasFacetSelection(selection: FacetSelection): boolean {
+  return FACET_NAMES.some((name) => (selection[name]?.length ?? 0) > 0);
+}
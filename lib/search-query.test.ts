@@ -0,0 +1,176 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { SQLiteSyncDialect } from "drizzle-orm/sqlite-core";
+import {
+  allowedKinds,
+  compileChromaWhere,
+  compileFtsFilter,
+  compileSqlFilter,
+  dateBounds,
+  type FilterValues,
+  hasStructuredFilters,
+  parseSearchQuery,
+} from "./search-query.ts";
+import { buildFtsMatch } from "./fts.ts";
+
+Deno.test("search-query: plain words stay free-text terms", () => {
+  const parsed = parseSearchQuery("dark energy");
+  assertEquals(parsed.terms, ["dark", "energy"]);
+  assertEquals(parsed.text, "dark energy");
+  assertEquals(hasStructuredFilters(parsed), false);
+});
+
+Deno.test("search-query: phrases, exclusions and NOT", () => {
+  const parsed = parseSearchQuery('"dark matter" halo -simulation NOT "n-body"');
+  assertEquals(parsed.phrases, ["dark matter"]);
+  assertEquals(parsed.terms, ["halo"]);
+  assertEquals(parsed.excluded, ["simulation", "n-body"]);
+  assertEquals(parsed.text, "dark matter halo");
+});
+
+Deno.test("search-query: field filters with quoted values and negation", () => {
+  const parsed = parseSearchQuery('author:"Jane Doe" cat:astro-ph.CO -channel:NASA source:NTRS');
+  assertEquals(parsed.filters, [
+    { field: "author", value: "Jane Doe", negated: false },
+    { field: "category", value: "astro-ph.CO", negated: false },
+    { field: "channel", value: "NASA", negated: true },
+    { field: "source", value: "ntrs", negated: false },
+  ]);
+  assertEquals(parsed.text, "");
+});
+
+Deno.test("search-query: year ranges", () => {
+  assertEquals(
+    [parseSearchQuery("year:2020..2023").yearFrom, parseSearchQuery("year:2020..2023").yearTo],
+    [2020, 2023],
+  );
+  const single = parseSearchQuery("year:2021");
+  assertEquals([single.yearFrom, single.yearTo], [2021, 2021]);
+  const openEnd = parseSearchQuery("year:2020..");
+  assertEquals([openEnd.yearFrom, openEnd.yearTo], [2020, undefined]);
+  const openStart = parseSearchQuery("year:..2019");
+  assertEquals([openStart.yearFrom, openStart.yearTo], [undefined, 2019]);
+  assertEquals(hasStructuredFilters(parseSearchQuery("year:soon")), false);
+});
+
+Deno.test("search-query: unknown fields and invalid sources are not filters", () => {
+  const parsed = parseSearchQuery("foo:bar source:youtube");
+  assertEquals(parsed.filters, []);
+  assertEquals(parsed.terms, ["foo:bar"]);
+});
+
+Deno.test("search-query: type-specific filters narrow the content types", () => {
+  assertEquals([...allowedKinds(parseSearchQuery("author:Doe"))], ["paper"]);
+  assertEquals([...allowedKinds(parseSearchQuery("channel:NASA"))], ["video"]);
+  assertEquals([...allowedKinds(parseSearchQuery("author:Doe channel:NASA"))], []);
+  assertEquals([...allowedKinds(parseSearchQuery("-author:Doe"))], ["paper", "video", "nasa"]);
+});
+
+Deno.test("search-query: compiles filters to SQL for the matching table only", () => {
+  const dialect = new SQLiteSyncDialect();
+  const parsed = parseSearchQuery("author:Doe_1 year:2020..2020 -simulation");
+
+  const paper = dialect.sqlToQuery(compileSqlFilter(parsed, "paper")!);
+  assertEquals(paper.params, [
+    "%Doe\\_1%",
+    Date.UTC(2020, 0, 1) / 1000,
+    Date.UTC(2021, 0, 1) / 1000,
+    "%simulation%",
+    "%simulation%",
+    "%simulation%",
+  ]);
+
+  // Videos have no authors: only the year range and the exclusion apply
+  const video = dialect.sqlToQuery(compileSqlFilter(parsed, "video")!);
+  assertEquals(video.params.length, 5);
+  assertEquals(compileSqlFilter(parseSearchQuery("dark energy"), "paper"), undefined);
+});
+
+Deno.test("search-query: only exact metadata filters reach Chroma", () => {
+  assertEquals(compileChromaWhere(parseSearchQuery("source:ntrs"), "paper"), {
+    source: "NASA NTRS",
+  });
+  assertEquals(compileChromaWhere(parseSearchQuery("source:ntrs"), "video"), undefined);
+  assertEquals(compileChromaWhere(parseSearchQuery("author:Doe"), "paper"), undefined);
+});
+
+Deno.test("search-query: request dates narrow the year range, dateTo inclusive", () => {
+  const parsed = parseSearchQuery("halo year:2020..2021");
+  assertEquals(dateBounds(parsed), {
+    from: Date.UTC(2020, 0, 1) / 1000,
+    to: Date.UTC(2022, 0, 1) / 1000,
+  });
+  assertEquals(dateBounds(parsed, "2021-03-01", "2023-01-01"), {
+    from: Date.UTC(2021, 2, 1) / 1000,
+    to: Date.UTC(2022, 0, 1) / 1000,
+  });
+  assertEquals(dateBounds(parseSearchQuery("halo"), undefined, "2021-03-01"), {
+    from: undefined,
+    to: Date.UTC(2021, 2, 2) / 1000,
+  });
+
+  const dialect = new SQLiteSyncDialect();
+  const dates = dateBounds(parseSearchQuery("halo"), "2021-03-01", "2021-03-01");
+  const video = dialect.sqlToQuery(compileSqlFilter(parseSearchQuery("halo"), "video", dates)!);
+  assertEquals(video.params, [Date.UTC(2021, 2, 1) / 1000, Date.UTC(2021, 2, 2) / 1000]);
+});
+
+Deno.test("search-query: dates and resolved field values become Chroma where clauses", () => {
+  const parsed = parseSearchQuery("halo category:astro-ph -channel:Shorts");
+  const [category, channel] = parsed.filters;
+  const values: FilterValues = new Map([
+    [category, ["astro-ph.CO", "astro-ph.GA"]],
+    [channel, ["Space Shorts"]],
+  ]);
+  const dates = { from: 100, to: 200 };
+
+  assertEquals(compileChromaWhere(parsed, "paper", { dates, values }), {
+    $and: [
+      { publishedAt: { $gte: 100 } },
+      { publishedAt: { $lt: 200 } },
+      { $or: [{ "category:astro-ph.CO": true }, { "category:astro-ph.GA": true }] },
+    ],
+  });
+  assertEquals(compileChromaWhere(parsed, "video", { values }), {
+    channelName: { $nin: ["Space Shorts"] },
+  });
+  // A positive filter matching no stored value leaves nothing for the vector query
+  assertEquals(
+    compileChromaWhere(parsed, "paper", { values: new Map([[category, []]]) }),
+    null,
+  );
+  // Unresolved substring filters are left to SQL
+  assertEquals(compileChromaWhere(parsed, "paper"), undefined);
+});
+
+Deno.test("search-query: a negated filter matching no stored value is dropped", () => {
+  const parsed = parseSearchQuery("foo -channel:nosuch -center:nowhere");
+  const [channel, center] = parsed.filters;
+  const values: FilterValues = new Map([[channel, []], [center, []]]);
+
+  assertEquals(compileChromaWhere(parsed, "video", { values }), undefined);
+  assertEquals(compileChromaWhere(parsed, "nasa", { values }), undefined);
+});
+
+Deno.test("search-query: SQL filters are compiled for the FTS join", () => {
+  const parsed = parseSearchQuery("halo author:Doe");
+  const filter = compileFtsFilter("paper", compileSqlFilter(parsed, "paper"));
+  assertEquals(filter?.table, "papers");
+  assertEquals(filter?.itemType, "paper");
+  assertEquals(filter?.sql.includes(`"papers"."authors"`), true);
+  assertEquals(filter?.args, ["%Doe%"]);
+  assertEquals(compileFtsFilter("video", compileSqlFilter(parsed, "video")), undefined);
+});
+
+Deno.test("search-query: builds FTS5 MATCH expressions", () => {
+  assertEquals(
+    buildFtsMatch({ terms: ["dark", "energy"], phrases: [], excluded: [] }),
+    '("dark" OR "energy")',
+  );
+  assertEquals(
+    buildFtsMatch({ terms: ["halo"], phrases: ["dark matter"], excluded: ["simulation"] }),
+    '("dark matter" AND "halo") NOT "simulation"',
+  );
+  assertEquals(buildFtsMatch({ terms: ['say "hi"'], phrases: [], excluded: [] }), '"say ""hi"""');
+  // FTS5 cannot evaluate a bare NOT
+  assertEquals(buildFtsMatch({ terms: [], phrases: [], excluded: ["x"] }), "");
+});
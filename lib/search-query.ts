@@ -0,0 +1,405 @@
+/**
+ * Structured search syntax for /api/search and the MCP `search` tool.
+ *
+ *   dark energy                 any of the words
+ *   "dark matter halo"          exact phrase (required)
+ *   -simulation  -"n-body"      exclude a word or phrase (also `NOT word`)
+ *   author:"Jane Doe"           papers by an author (substring, case-insensitive)
+ *   category:astro-ph.CO        arXiv / NTRS subject category (substring)
+ *   channel:"PBS Space Time"    YouTube channel
+ *   center:JPL                  NASA center
+ *   source:ntrs | source:arxiv  paper source
+ *   year:2020..2023  year:2021  year:2020..  year:..2019
+ *
+ * Field filters can be negated with a leading `-` (e.g. `-category:gr-qc`). Filters are
+ * ANDed; a positive filter that only applies to one content type restricts the search to it.
+ */
+
+import type { Where } from "chromadb";
+import type { InValue } from "@libsql/client";
+import { and, getTableName, not, or, type SQL, sql } from "drizzle-orm";
+import { type SQLiteColumn, SQLiteSyncDialect, type SQLiteTable } from "drizzle-orm/sqlite-core";
+import type { db } from "../db/client.ts";
+import { nasaContent, papers, videos } from "../db/schema.ts";
+import type { FtsFilter } from "./fts.ts";
+import { categoryKey, PUBLISHED_AT_KEY } from "./vector-metadata.ts";
+
+export type QueryField = "author" | "category" | "channel" | "center" | "source";
+
+export interface FieldFilter {
+  field: QueryField;
+  value: string;
+  negated: boolean;
+}
+
+export interface ParsedQuery {
+  /** Bare words; any of them may match. */
+  terms: string[];
+  /** Quoted phrases; all must match. */
+  phrases: string[];
+  /** Words or phrases that must not appear. */
+  excluded: string[];
+  filters: FieldFilter[];
+  yearFrom?: number;
+  yearTo?: number;
+  /** Free text (terms and phrases) for vector search and keyword reranking. */
+  text: string;
+}
+
+type ContentKind = "paper" | "video" | "nasa";
+
+const FIELD_ALIASES: Record<string, QueryField | "year"> = {
+  author: "author",
+  au: "author",
+  category: "category",
+  cat: "category",
+  channel: "channel",
+  center: "center",
+  source: "source",
+  year: "year",
+};
+
+/** Content type each field exists on. */
+const FIELD_KIND: Record<QueryField, ContentKind> = {
+  author: "paper",
+  category: "paper",
+  source: "paper",
+  channel: "video",
+  center: "nasa",
+};
+
+const YEAR_PATTERN = /^(\d{4})?(?:(\.\.)(\d{4})?)?$/;
+
+/** Split a query into tokens, keeping quoted values (incl. `field:"a b"`) together. */
+function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /-?(?:[A-Za-z]+:)?"[^"]*"?|\S+/g;
+  for (const match of input.matchAll(pattern)) {
+    tokens.push(match[0]);
+  }
+  return tokens;
+}
+
+function unquote(value: string): { text: string; quoted: boolean } {
+  if (value.startsWith('"')) {
+    return { text: value.replace(/^"|"$/g, "").trim(), quoted: true };
+  }
+  return { text: value.trim(), quoted: false };
+}
+
+function hasSearchableText(value: string): boolean {
+  return /[\p{L}\p{N}]/u.test(value);
+}
+
+/** Parse the search syntax. Unknown `field:` prefixes are kept as plain words. */
+export function parseSearchQuery(input: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], phrases: [], excluded: [], filters: [], text: "" };
+  const tokens = tokenize(input.trim());
+
+  for (let i = 0; i < tokens.length; i++) {
+    let token = tokens[i];
+    let negated = false;
+
+    if (token === "NOT" && i + 1 < tokens.length) {
+      negated = true;
+      token = tokens[++i];
+    } else if (token === "OR" || token === "AND") {
+      // Words already match any-of and phrases all-of; bare operators carry no extra meaning
+      continue;
+    }
+    if (token.length > 1 && token.startsWith("-")) {
+      negated = true;
+      token = token.slice(1);
+    }
+
+    const fieldMatch = token.match(/^([A-Za-z]+):(.+)$/);
+    const field = fieldMatch ? FIELD_ALIASES[fieldMatch[1].toLowerCase()] : undefined;
+    if (fieldMatch && field) {
+      const value = unquote(fieldMatch[2]).text;
+      if (!value) continue;
+      if (field === "year") {
+        const range = value.match(YEAR_PATTERN);
+        if (range && (range[1] || range[3]) && !negated) {
+          const from = range[1] ? Number(range[1]) : undefined;
+          const to = range[2] ? (range[3] ? Number(range[3]) : undefined) : from;
+          parsed.yearFrom = from;
+          parsed.yearTo = to;
+        }
+        continue;
+      }
+      if (field === "source") {
+        const source = value.toLowerCase();
+        if (source !== "ntrs" && source !== "arxiv") continue;
+        parsed.filters.push({ field, value: source, negated });
+        continue;
+      }
+      parsed.filters.push({ field, value, negated });
+      continue;
+    }
+
+    const { text, quoted } = unquote(token);
+    if (!hasSearchableText(text)) continue;
+    if (negated) {
+      parsed.excluded.push(text);
+    } else if (quoted) {
+      parsed.phrases.push(text);
+    } else {
+      parsed.terms.push(text);
+    }
+  }
+
+  parsed.terms = [...new Set(parsed.terms)];
+  parsed.phrases = [...new Set(parsed.phrases)];
+  parsed.excluded = [...new Set(parsed.excluded)];
+  parsed.text = [...parsed.phrases, ...parsed.terms].join(" ");
+  return parsed;
+}
+
+/** True if the query carries field filters or a year range. */
+export function hasStructuredFilters(parsed: ParsedQuery): boolean {
+  return parsed.filters.length > 0 || parsed.yearFrom != null || parsed.yearTo != null;
+}
+
+/**
+ * Content types the filters allow. A positive filter on a type-specific field (e.g.
+ * `author:`) rules out the other types; negated filters never do.
+ */
+export function allowedKinds(parsed: ParsedQuery): Set<ContentKind> {
+  const kinds = new Set<ContentKind>(["paper", "video", "nasa"]);
+  for (const filter of parsed.filters) {
+    if (filter.negated) continue;
+    const only = FIELD_KIND[filter.field];
+    for (const kind of [...kinds]) {
+      if (kind !== only) kinds.delete(kind);
+    }
+  }
+  return kinds;
+}
+
+/** Escape LIKE wildcards so user input only ever matches literally. */
+function likePattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+/** Case-insensitive substring match that treats NULL as the empty string. */
+function contains(column: SQLiteColumn, value: string): SQL {
+  return sql`COALESCE(${column}, '') LIKE ${likePattern(value)} ESCAPE '\\'`;
+}
+
+function anyContains(columns: SQLiteColumn[], value: string): SQL {
+  return or(...columns.map((column) => contains(column, value)))!;
+}
+
+/** Publication window in unix seconds; `to` is exclusive. */
+export interface DateBounds {
+  from?: number;
+  to?: number;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * The `year:` range intersected with the request's `dateFrom`/`dateTo` (YYYY-MM-DD, both
+ * inclusive; callers validate the format).
+ */
+export function dateBounds(parsed: ParsedQuery, dateFrom?: string, dateTo?: string): DateBounds {
+  const startOfYear = (year: number) => Date.UTC(year, 0, 1) / 1000;
+  const startOfDay = (date: string) => Date.parse(`${date}T00:00:00Z`) / 1000;
+  const from = [
+    parsed.yearFrom != null ? startOfYear(parsed.yearFrom) : undefined,
+    dateFrom ? startOfDay(dateFrom) : undefined,
+  ].filter((value): value is number => value != null && !Number.isNaN(value));
+  const to = [
+    parsed.yearTo != null ? startOfYear(parsed.yearTo + 1) : undefined,
+    dateTo ? startOfDay(dateTo) + DAY_SECONDS : undefined,
+  ].filter((value): value is number => value != null && !Number.isNaN(value));
+  return {
+    from: from.length ? Math.max(...from) : undefined,
+    to: to.length ? Math.min(...to) : undefined,
+  };
+}
+
+/** Date window on a unix-seconds timestamp column; undated rows never match a bound. */
+function dateConditions(column: SQLiteColumn, dates: DateBounds): SQL[] {
+  const conditions: SQL[] = [];
+  if (dates.from != null) conditions.push(sql`${column} >= ${dates.from}`);
+  if (dates.to != null) conditions.push(sql`${column} < ${dates.to}`);
+  return conditions;
+}
+
+function fieldCondition(kind: ContentKind, filter: FieldFilter): SQL | undefined {
+  if (FIELD_KIND[filter.field] !== kind) return undefined;
+  switch (filter.field) {
+    case "author":
+      return contains(papers.authors, filter.value);
+    case "category":
+      return contains(papers.categories, filter.value);
+    case "source":
+      return filter.value === "ntrs"
+        ? sql`${papers.id} LIKE 'ntrs-%'`
+        : sql`${papers.id} NOT LIKE 'ntrs-%'`;
+    case "channel":
+      return contains(videos.channelName, filter.value);
+    case "center":
+      return contains(nasaContent.center, filter.value);
+  }
+}
+
+const TEXT_COLUMNS: Record<ContentKind, SQLiteColumn[]> = {
+  paper: [papers.title, papers.abstract, papers.summary],
+  video: [videos.title, videos.summary, videos.description],
+  nasa: [nasaContent.title, nasaContent.summary, nasaContent.explanation, nasaContent.description],
+};
+
+const DATE_COLUMN: Record<ContentKind, SQLiteColumn> = {
+  paper: papers.publishedDate,
+  video: videos.publishedDate,
+  nasa: nasaContent.date,
+};
+
+/**
+ * Compile field filters, the date window (the year range unless `dates` is given) and
+ * exclusions into a SQL condition for one content type's table. Returns undefined when
+ * nothing applies.
+ */
+export function compileSqlFilter(
+  parsed: ParsedQuery,
+  kind: ContentKind,
+  dates: DateBounds = dateBounds(parsed),
+): SQL | undefined {
+  const conditions: SQL[] = [];
+  for (const filter of parsed.filters) {
+    const condition = fieldCondition(kind, filter);
+    if (condition) conditions.push(filter.negated ? not(condition) : condition);
+  }
+  conditions.push(...dateConditions(DATE_COLUMN[kind], dates));
+  for (const excluded of parsed.excluded) {
+    conditions.push(not(anyContains(TEXT_COLUMNS[kind], excluded)));
+  }
+  return conditions.length ? and(...conditions) : undefined;
+}
+
+const ITEM_TABLE: Record<ContentKind, SQLiteTable> = {
+  paper: papers,
+  video: videos,
+  nasa: nasaContent,
+};
+
+const sqlDialect = new SQLiteSyncDialect();
+
+/**
+ * A compileSqlFilter condition as raw SQL for ftsSearch, which joins the FTS rows to the item
+ * table so the filter applies inside the keyword query.
+ */
+export function compileFtsFilter(
+  kind: ContentKind,
+  condition: SQL | undefined,
+): FtsFilter | undefined {
+  if (!condition) return undefined;
+  const query = sqlDialect.sqlToQuery(condition);
+  return {
+    table: getTableName(ITEM_TABLE[kind]),
+    sql: query.sql,
+    args: query.params as InValue[],
+    itemType: kind,
+  };
+}
+
+export type ChromaWhere = Where;
+
+/** Substring filters resolved to the exact stored values they match (see resolveFilterValues). */
+export type FilterValues = Map<FieldFilter, string[]>;
+
+/** Value columns for `channel:` and `center:`; categories are read from the JSON array. */
+const VALUE_COLUMNS: Partial<Record<QueryField, SQLiteColumn>> = {
+  channel: videos.channelName,
+  center: nasaContent.center,
+};
+
+/** Distinct stored values a substring filter matches, or undefined for unresolved fields. */
+async function matchingValues(
+  filter: FieldFilter,
+  database: typeof db,
+): Promise<string[] | undefined> {
+  if (filter.field === "category") {
+    const rows = await database.all<{ value: string }>(sql`
+      SELECT DISTINCT category.value AS value
+      FROM ${papers}, json_each(
+        CASE WHEN json_valid(${papers.categories}) THEN ${papers.categories} ELSE '[]' END
+      ) AS category
+      WHERE category.value LIKE ${likePattern(filter.value)} ESCAPE '\\'`);
+    return rows.map((row) => row.value);
+  }
+  const column = VALUE_COLUMNS[filter.field];
+  if (!column) return undefined;
+  const rows = await database.selectDistinct({ value: column }).from(column.table)
+    .where(contains(column, filter.value));
+  return rows.map((row) => String(row.value ?? ""));
+}
+
+/**
+ * Look up the stored categories, channels and centers each `category:`, `channel:` and
+ * `center:` filter matches, so compileChromaWhere can test them exactly. Filters with no
+ * entry (e.g. when a lookup fails) are left to the SQL filter.
+ */
+export async function resolveFilterValues(
+  parsed: ParsedQuery,
+  database: typeof db,
+): Promise<FilterValues> {
+  const values: FilterValues = new Map();
+  for (const filter of parsed.filters) {
+    try {
+      const matches = await matchingValues(filter, database);
+      if (matches) values.set(filter, matches.filter(Boolean));
+    } catch {
+      // Left to the SQL filter
+    }
+  }
+  return values;
+}
+
+function fieldWhere(filter: FieldFilter, values: FilterValues): ChromaWhere | undefined {
+  if (filter.field === "source") {
+    const ntrs = (filter.value === "ntrs") !== filter.negated;
+    return { source: ntrs ? "NASA NTRS" : "arXiv" };
+  }
+  const matches = values.get(filter);
+  if (!matches) return undefined;
+  if (filter.field === "category") {
+    // Each category is its own flag; a missing flag does not match `$ne`, so negated
+    // categories are left to the SQL filter
+    if (filter.negated) return undefined;
+    const flags = matches.map((category) => ({ [categoryKey(category)]: true }));
+    return flags.length > 1 ? { $or: flags } : flags[0];
+  }
+  // Excluding nothing is a no-op, and Chroma rejects an empty `$nin`
+  if (filter.negated && !matches.length) return undefined;
+  const key = filter.field === "channel" ? "channelName" : "center";
+  return { [key]: { [filter.negated ? "$nin" : "$in"]: matches } };
+}
+
+/**
+ * Compile the filters Chroma can evaluate from vector metadata (see vector-metadata.ts):
+ * the date window, `source:`, and `category:`/`channel:`/`center:` once resolved to exact
+ * values. `author:`, negated categories and exclusions are enforced by the SQL filter when
+ * rows are loaded. Returns undefined when nothing applies, and null when a positive filter
+ * matches no stored value, so the vector query can be skipped.
+ */
+export function compileChromaWhere(
+  parsed: ParsedQuery,
+  kind: ContentKind,
+  options: { dates?: DateBounds; values?: FilterValues } = {},
+): ChromaWhere | null | undefined {
+  const { dates = dateBounds(parsed), values = new Map() } = options;
+  const clauses: ChromaWhere[] = [];
+  if (dates.from != null) clauses.push({ [PUBLISHED_AT_KEY]: { $gte: dates.from } });
+  if (dates.to != null) clauses.push({ [PUBLISHED_AT_KEY]: { $lt: dates.to } });
+  for (const filter of parsed.filters) {
+    if (FIELD_KIND[filter.field] !== kind) continue;
+    if (!filter.negated && values.get(filter)?.length === 0) return null;
+    const clause = fieldWhere(filter, values);
+    if (clause) clauses.push(clause);
+  }
+  if (!clauses.length) return undefined;
+  return clauses.length > 1 ? { $and: clauses } : clauses[0];
+}
@@ -0,0 +1,36 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { calibrateScore, diversify, type RankedKind } from "./search-ranking.ts";
+
+const ranked = (spec: string) =>
+  spec.split(" ").map((token) => ({
+    type: ({ p: "paper", v: "video", n: "nasa" } as Record<string, RankedKind>)[token[0]],
+    id: token.replace("~", ""),
+    lowRelevance: token.endsWith("~"),
+  }));
+const ids = (items: { id: string }[]) => items.map((item) => item.id).join(" ");
+
+Deno.test("calibrateScore anchors within-type scores on similarity and keyword coverage", () => {
+  // Similarity 0.75 is cosine 0.5; 0.5 is unrelated text and counts as no evidence
+  assertEquals(calibrateScore({ typeScore: 0.5, similarity: 0.75, keywordScore: 1 }), 0.625);
+  assertEquals(calibrateScore({ typeScore: 0.5, similarity: 0.5, keywordScore: 0 }), 0.25);
+  // Without absolute evidence the within-type score stands alone; boosts scale the result
+  assertEquals(calibrateScore({ typeScore: 0.5, similarity: null, keywordScore: null }), 0.5);
+  assertEquals(calibrateScore({ typeScore: 0.5, similarity: null, keywordScore: null }, 1.5), 0.75);
+});
+
+Deno.test("diversify promotes the best relevant result of a missing type into the window", () => {
+  const items = ranked("p1 p2 p3 p4 v1~ v2 n1");
+  assertEquals(ids(diversify(items, { window: 3, minPerType: 1 })), "p1 v2 n1 p2 p3 p4 v1");
+  // Low-relevance results are never promoted
+  assertEquals(
+    ids(diversify(ranked("p1 p2 p3 v1~"), { window: 2, minPerType: 1 })),
+    "p1 p2 p3 v1",
+  );
+});
+
+Deno.test("diversify keeps each type's minimum and leaves satisfied rankings alone", () => {
+  const items = ranked("p1 v1 p2 p3 n1");
+  assertEquals(ids(diversify(items, { window: 3, minPerType: 1 })), "p1 v1 n1 p2 p3");
+  assertEquals(ids(diversify(items, { window: 2, minPerType: 1 })), "p1 v1 p2 p3 n1");
+  assertEquals(diversify(items, { window: 0, minPerType: 1 }), items);
+});
@@ -0,0 +1,88 @@
+/**
+ * Unified ranking across papers, videos and NASA items.
+ *
+ * Fused scores are normalized within each content type, so the best of a dozen videos scores
+ * like the best of thousands of papers. Calibration anchors them on evidence measured the same
+ * way for every type (embedding similarity to the query and query-term coverage), per-type
+ * boosts scale the result, and diversity keeps every type with a relevant result near the top.
+ */
+
+export type RankedKind = "paper" | "video" | "nasa";
+
+/** Per-type multipliers applied to calibrated scores. */
+export type TypeBoosts = Record<RankedKind, number>;
+
+export interface DiversityOptions {
+  /** Leading positions the constraint covers; 0 disables it. */
+  window: number;
+  /** Results each type with a relevant result is guaranteed within the window. */
+  minPerType: number;
+}
+
+/** What a result's calibrated score is derived from; each signal is in [0, 1]. */
+export interface RankingSignals {
+  /** Within-type score: normalized fused rank blended with keyword overlap. */
+  typeScore: number;
+  /** Vector similarity as 1 - cosineDistance / 2, or null if the vector retriever missed it. */
+  similarity: number | null;
+  /** Share of query terms in the title/snippet, or null for a query without terms. */
+  keywordScore: number | null;
+}
+
+/**
+ * Score comparable across content types: half the within-type score, half the mean of the
+ * absolute signals available. Similarity is rescaled so unrelated text (cosine 0, i.e. 0.5)
+ * counts as no evidence.
+ */
+export function calibrateScore(signals: RankingSignals, boost = 1): number {
+  const evidence: number[] = [];
+  if (signals.similarity !== null) {
+    evidence.push(Math.max(0, Math.min(1, signals.similarity * 2 - 1)));
+  }
+  if (signals.keywordScore !== null) evidence.push(signals.keywordScore);
+  const typeScore = Math.max(0, Math.min(1, signals.typeScore));
+  const absolute = evidence.length
+    ? evidence.reduce((sum, value) => sum + value, 0) / evidence.length
+    : typeScore;
+  return boost * (typeScore * 0.5 + absolute * 0.5);
+}
+
+/**
+ * Promote the best relevant result of each under-represented type into the first `window`
+ * positions, displacing the lowest-ranked results of types that have more than `minPerType`
+ * there. Items must arrive ranked; promoted items close the window, and everything after it
+ * keeps its ranked order.
+ */
+export function diversify<T extends { type: RankedKind; lowRelevance?: boolean }>(
+  items: T[],
+  options: DiversityOptions,
+): T[] {
+  const { window, minPerType } = options;
+  if (window <= 0 || minPerType <= 0 || items.length <= window) return items;
+
+  const head = items.slice(0, window);
+  const tail = items.slice(window);
+  const promoted = new Set<T>();
+  const displaced: T[] = [];
+  const countInHead = (kind: RankedKind) => head.filter((item) => item.type === kind).length;
+
+  for (const item of tail) {
+    if (item.lowRelevance || countInHead(item.type) >= minPerType) continue;
+    let victim = -1;
+    for (let i = head.length - 1; i >= 0; i--) {
+      if (!promoted.has(head[i]) && countInHead(head[i].type) > minPerType) {
+        victim = i;
+        break;
+      }
+    }
+    // Every type in the window is at its minimum; nothing more can be promoted
+    if (victim === -1) break;
+    displaced.unshift(...head.splice(victim, 1));
+    head.push(item);
+    promoted.add(item);
+  }
+
+  // Displaced items outrank the rest of the tail and are removed bottom-up, so they are
+  // already in ranked order
+  return [...head, ...displaced, ...tail.filter((item) => !promoted.has(item))];
+}
@@ -1,5 +1,7 @@
-import { assertEquals } from "jsr:@std/assert@1";
+import { assertEquals, assertRejects } from "jsr:@std/assert@1";
 import { searchLibrary } from "./search.ts";
+import { InvalidSearchCursorError } from "./search-cursor.ts";
+import { EmbeddingMismatchError } from "./vector.ts";
 import type { Locale } from "./i18n.ts";
 
 function createCollections(options: {
@@ -36,6 +38,21 @@ function createLegacyCollections(options?: {
   };
 }
 
+/**
+ * libSQL client stub answering FTS5 queries per table with rows of {id, rank}, plus optional
+ * `match_<column>` snippet fragments.
+ */
+function createFtsClient(
+  rowsByTable: Record<string, { id: string; rank: number; [column: string]: unknown }[]> = {},
+) {
+  return {
+    execute: ({ sql }: { sql: string }) => {
+      const table = sql.match(/FROM (\w+_fts)/)?.[1] ?? "";
+      return Promise.resolve({ rows: rowsByTable[table] ?? [] });
+    },
+  };
+}
+
 function createDbMock(options?: {
   papersFindMany?: () => Promise<unknown[]>;
   videosFindMany?: () => Promise<unknown[]>;
@@ -136,7 +153,7 @@ Deno.test("searchLibrary only searches papers when type=papers", async () => {
 
 Deno.test("searchLibrary paginates combined results and returns pagination info", async () => {
   const ids = ["p1", "p2", "p3", "p4", "p5"];
-  const distances = [0.0, 0.4, 0.8, 1.2, 1.6]; // higher distance => lower score
+  const distances = [0.0, 0.4, 0.8, 1.2, 1.6]; // higher distance => lower vector rank
   const collections = createCollections({
     papersQuery: () => Promise.resolve({ ids: [ids], distances: [distances] }),
   });
@@ -160,6 +177,7 @@ Deno.test("searchLibrary paginates combined results and returns pagination info"
     { q: "zz", type: "papers", locale: "en", limit: 2, page: 2 },
     {
       db: dbMock as unknown as typeof import("../db/client.ts").db,
+      client: createFtsClient() as unknown as typeof import("../db/client.ts").client,
       initializeCollections: (() => Promise.resolve(
         collections as unknown as Awaited<ReturnType<typeof import("./vector.ts").initializeCollections>>,
       )) as unknown as typeof import("./vector.ts").initializeCollections,
@@ -169,11 +187,331 @@ Deno.test("searchLibrary paginates combined results and returns pagination info"
     },
   );
 
-  assertEquals(result.total, 4);
+  assertEquals(result.total, 5);
   assertEquals(result.papers.map((p) => p.id), ["p3", "p4"]);
   assertEquals(result.pagination?.page, 2);
   assertEquals(result.pagination?.perPage, 2);
-  assertEquals(result.pagination?.totalPages, 2);
+  assertEquals(result.pagination?.totalPages, 3);
   assertEquals(result.pagination?.hasPrev, true);
-  assertEquals(result.pagination?.hasNext, false);
+  assertEquals(result.pagination?.hasNext, true);
+});
+
+Deno.test("searchLibrary fuses vector and FTS rankings and reports a score breakdown", async () => {
+  const collections = createCollections({
+    papersQuery: () => Promise.resolve({ ids: [["p1", "p2", "p3"]], distances: [[0.2, 0.4, 0.6]] }),
+  });
+  const ftsClient = createFtsClient({
+    papers_fts: [
+      { id: "p3", rank: -9 },
+      { id: "p4", rank: -4 },
+    ],
+  });
+  const dbMock = createDbMock({
+    papersFindMany: () =>
+      Promise.resolve(
+        ["p1", "p2", "p3", "p4"].map((id) => ({
+          id,
+          title: `Paper ${id}`,
+          summary: "",
+          abstract: "",
+          arxivUrl: "",
+          pdfUrl: "",
+          publishedDate: "2024-01-01",
+        })),
+      ),
+  });
+
+  const result = await searchLibrary(
+    { q: "zz", type: "papers", locale: "en" },
+    {
+      db: dbMock as unknown as typeof import("../db/client.ts").db,
+      client: ftsClient as unknown as typeof import("../db/client.ts").client,
+      initializeCollections: (() => Promise.resolve(
+        collections as unknown as Awaited<ReturnType<typeof import("./vector.ts").initializeCollections>>,
+      )) as unknown as typeof import("./vector.ts").initializeCollections,
+      initializeLegacyCollections: (() => Promise.reject(new Error("should not be called"))) as unknown as typeof import("./vector.ts").initializeLegacyCollections,
+    },
+  );
+
+  // p3 is ranked by both retrievers, so it outranks p1 (vector #1 only)
+  assertEquals(result.papers.map((p) => p.id), ["p3", "p1", "p2", "p4"]);
+  const p3 = result.papers[0].scoreBreakdown;
+  assertEquals(p3?.vectorRank, 3);
+  assertEquals(p3?.bm25Rank, 1);
+  assertEquals(p3?.fusedScore, 1 / 63 + 1 / 61);
+  const p4 = result.papers[3].scoreBreakdown;
+  assertEquals(p4?.vectorRank, null);
+  assertEquals(p4?.bm25Rank, 2);
+});
+
+Deno.test("searchLibrary returns facet counts and applies selected facets", async () => {
+  const collections = createCollections({
+    papersQuery: () =>
+      Promise.resolve({ ids: [["p1", "ntrs-1", "p2"]], distances: [[0.2, 0.4, 0.6]] }),
+  });
+  const dbMock = createDbMock({
+    papersFindMany: () =>
+      Promise.resolve([
+        { id: "p1", categories: '["astro-ph.CO"]', publishedDate: "2024-01-01" },
+        { id: "ntrs-1", categories: '["Propulsion"]', publishedDate: "2023-01-01" },
+        { id: "p2", categories: '["astro-ph.CO","gr-qc"]', publishedDate: "2023-05-01" },
+      ].map((row) => ({ ...row, title: `Paper ${row.id}`, summary: "", abstract: "", arxivUrl: "" }))),
+  });
+
+  const result = await searchLibrary(
+    { q: "zz", type: "papers", locale: "en", facets: { source: ["arxiv"], year: ["2023"] } },
+    {
+      db: dbMock as unknown as typeof import("../db/client.ts").db,
+      client: createFtsClient() as unknown as typeof import("../db/client.ts").client,
+      initializeCollections: (() => Promise.resolve(
+        collections as unknown as Awaited<ReturnType<typeof import("./vector.ts").initializeCollections>>,
+      )) as unknown as typeof import("./vector.ts").initializeCollections,
+      initializeLegacyCollections: (() => Promise.reject(new Error("should not be called"))) as unknown as typeof import("./vector.ts").initializeLegacyCollections,
+    },
+  );
+
+  assertEquals(result.papers.map((p) => p.id), ["p2"]);
+  assertEquals(result.total, 1);
+  assertEquals(result.facets?.source, [{ value: "arxiv", count: 1 }, { value: "ntrs", count: 1 }]);
+  assertEquals(result.facets?.year, [{ value: "2024", count: 1 }, { value: "2023", count: 1 }]);
+  assertEquals(result.facets?.category, [
+    { value: "astro-ph.CO", count: 1 },
+    { value: "gr-qc", count: 1 },
+  ]);
+});
+
+Deno.test("searchLibrary returns query-aware snippets, highlights and matched fields", async () => {
+  const collections = createCollections({
+    papersQuery: () => Promise.resolve({ ids: [["p2", "p1"]], distances: [[0.2, 0.5]] }),
+  });
+  const ftsClient = createFtsClient({
+    papers_fts: [{ id: "p1", rank: -5, match_abstract: "the \uE000halo\uE001 of" }],
+  });
+  const filler = "Observations were taken over several nights with the survey telescope. ";
+  const dbMock = createDbMock({
+    papersFindMany: () =>
+      Promise.resolve([
+        {
+          id: "p1",
+          title: "Paper p1",
+          summary: "",
+          abstract: filler.repeat(4) + "The halo of dark matter around the galaxy is measured.",
+        },
+        {
+          id: "p2",
+          title: "Paper p2",
+          summary: filler.repeat(3) + "Weak lensing maps trace the mass. " + filler,
+          abstract: "",
+        },
+      ].map((row) => ({ ...row, arxivUrl: "", pdfUrl: "", publishedDate: "2024-01-01" }))),
+  });
+
+  const result = await searchLibrary(
+    { q: "dark matter halo", type: "papers", locale: "en" },
+    {
+      db: dbMock as unknown as typeof import("../db/client.ts").db,
+      client: ftsClient as unknown as typeof import("../db/client.ts").client,
+      initializeCollections: (() => Promise.resolve(
+        collections as unknown as Awaited<ReturnType<typeof import("./vector.ts").initializeCollections>>,
+      )) as unknown as typeof import("./vector.ts").initializeCollections,
+      initializeLegacyCollections: (() => Promise.reject(new Error("should not be called"))) as unknown as typeof import("./vector.ts").initializeLegacyCollections,
+      getTerminology: () => Promise.resolve([]),
+      // The query and the lensing sentence point the same way; everything else is orthogonal
+      embed: (texts) =>
+        Promise.resolve(
+          texts.map((t) => (t === "dark matter halo" || t.includes("lensing") ? [1, 0] : [0, 1])),
+        ),
+    },
+  );
+
+  const byId = new Map(result.papers.map((p) => [p.id, p]));
+  const p1 = byId.get("p1")!;
+  assertEquals(p1.snippetField, "abstract");
+  assertEquals(p1.snippet?.startsWith("…"), true);
+  assertEquals(
+    p1.highlights?.map((h) => p1.snippet!.slice(h.start, h.end)),
+    ["halo", "dark", "matter"],
+  );
+  assertEquals(p1.matchedFields, ["abstract", "semantic"]);
+
+  const p2 = byId.get("p2")!;
+  assertEquals(p2.snippetField, "summary");
+  assertEquals(p2.snippet?.startsWith("…Weak lensing maps trace the mass."), true);
+  assertEquals(p2.highlights, []);
+  assertEquals(p2.matchedFields, ["semantic"]);
+});
+
+/**
+ * A library of `count` papers titled "Halo <n>" whose retrievers, like Chroma and SQL, return
+ * only as many candidates as asked for. Records the depth of every vector query.
+ */
+function createDeepLibrary(count: number) {
+  const rows = Array.from({ length: count }, (_, i) => ({
+    id: `p${i + 1}`,
+    title: `Halo ${i + 1}`,
+    summary: "",
+    abstract: "",
+    arxivUrl: "",
+    pdfUrl: "",
+    publishedDate: "2024-01-01",
+  }));
+  const depths: number[] = [];
+  const collections = createCollections({});
+  collections.papers.en.query = ((params: { nResults: number }) => {
+    depths.push(params.nResults);
+    const hits = rows.slice(0, params.nResults);
+    return Promise.resolve({
+      ids: [hits.map((row) => row.id)],
+      distances: [hits.map((_, i) => i / count)],
+    });
+  }) as unknown as typeof collections.papers.en.query;
+  const dbMock = createDbMock({
+    papersFindMany: ((args?: { limit?: number }) =>
+      Promise.resolve(rows.slice(0, args?.limit ?? rows.length))) as () => Promise<unknown[]>,
+  });
+  const deps = {
+    db: dbMock as unknown as typeof import("../db/client.ts").db,
+    client: createFtsClient() as unknown as typeof import("../db/client.ts").client,
+    initializeCollections: (() => Promise.resolve(
+      collections as unknown as Awaited<ReturnType<typeof import("./vector.ts").initializeCollections>>,
+    )) as unknown as typeof import("./vector.ts").initializeCollections,
+    initializeLegacyCollections: (() => Promise.resolve(
+      createLegacyCollections() as unknown as Awaited<ReturnType<typeof import("./vector.ts").initializeLegacyCollections>>,
+    )) as unknown as typeof import("./vector.ts").initializeLegacyCollections,
+  };
+  return { deps, depths };
+}
+
+Deno.test("searchLibrary retrieves deeper for later pages and reports a lower-bound total", async () => {
+  const { deps, depths } = createDeepLibrary(200);
+
+  const result = await searchLibrary(
+    { q: "halo", type: "papers", locale: "en", limit: 20, page: 4 },
+    deps,
+  );
+
+  assertEquals(result.papers.map((p) => p.id), Array.from({ length: 20 }, (_, i) => `p${61 + i}`));
+  assertEquals(result.pagination?.page, 4);
+  assertEquals(result.pagination?.hasNext, true);
+  assertEquals(result.totalExact, false);
+  assertEquals(depths.every((depth) => depth > 60), true);
+});
+
+Deno.test("searchLibrary pages through every result with cursors", async () => {
+  const { deps } = createDeepLibrary(130);
+  const seen: string[] = [];
+  let cursor: string | undefined;
+  let last;
+  for (let pages = 0; pages < 10; pages++) {
+    last = await searchLibrary({ q: "halo", type: "papers", locale: "en", limit: 25, cursor }, deps);
+    seen.push(...last.papers.map((p) => p.id));
+    cursor = last.pagination?.nextCursor;
+    if (!cursor) break;
+  }
+
+  assertEquals(seen, Array.from({ length: 130 }, (_, i) => `p${i + 1}`));
+  assertEquals(last?.pagination?.page, 6);
+  assertEquals(last?.pagination?.hasNext, false);
+  assertEquals(last?.total, 130);
+  assertEquals(last?.totalExact, true);
+
+  const first = await searchLibrary({ q: "halo", type: "papers", locale: "en", limit: 25 }, deps);
+  await assertRejects(
+    () =>
+      searchLibrary(
+        { q: "dark matter", type: "papers", locale: "en", cursor: first.pagination?.nextCursor },
+        deps,
+      ),
+    InvalidSearchCursorError,
+  );
+  await assertRejects(
+    () => searchLibrary({ q: "halo", type: "papers", locale: "en", cursor: "not-a-cursor" }, deps),
+    InvalidSearchCursorError,
+  );
+});
+
+Deno.test("searchLibrary ranks results across types by calibrated score", async () => {
+  const collections = createCollections({
+    papersQuery: () => Promise.resolve({ ids: [["p1", "p2"]], distances: [[0.9, 1.0]] }),
+    videosQuery: () => Promise.resolve({ ids: [["v1"]], distances: [[0.1]] }),
+  });
+  const dbMock = createDbMock({
+    papersFindMany: () =>
+      Promise.resolve(["p1", "p2"].map((id) => ({
+        id,
+        title: `Halo ${id}`,
+        summary: "",
+        abstract: "",
+        arxivUrl: "",
+        publishedDate: "2024-01-01",
+      }))),
+    videosFindMany: () =>
+      Promise.resolve([{
+        id: "v1",
+        title: "Halo v1",
+        summary: "",
+        description: "",
+        videoUrl: "",
+        channelName: "Channel",
+        publishedDate: "2024-01-01",
+      }]),
+  });
+
+  const result = await searchLibrary(
+    { q: "halo", type: "all", locale: "en" },
+    {
+      db: dbMock as unknown as typeof import("../db/client.ts").db,
+      client: createFtsClient() as unknown as typeof import("../db/client.ts").client,
+      initializeCollections: (() => Promise.resolve(
+        collections as unknown as Awaited<ReturnType<typeof import("./vector.ts").initializeCollections>>,
+      )) as unknown as typeof import("./vector.ts").initializeCollections,
+      initializeLegacyCollections: (() => Promise.resolve(
+        createLegacyCollections() as unknown as Awaited<ReturnType<typeof import("./vector.ts").initializeLegacyCollections>>,
+      )) as unknown as typeof import("./vector.ts").initializeLegacyCollections,
+    },
+  );
+
+  // p1 and v1 both lead their own type, but v1 is far closer to the query
+  assertEquals(result.results?.map((item) => item.id), ["v1", "p1", "p2"]);
+  assertEquals(
+    result.results?.[0].scoreBreakdown?.typeScore,
+    result.results?.[1].scoreBreakdown?.typeScore,
+  );
+  assertEquals(result.papers.map((p) => p.id), ["p1", "p2"]);
+  assertEquals(result.videos.map((v) => v.id), ["v1"]);
+});
+
+Deno.test("searchLibrary falls back to keyword results when collections need migrating", async () => {
+  const mismatch = () =>
+    Promise.reject(
+      new EmbeddingMismatchError(
+        "astrogroot_papers_en",
+        { model: "hash", dimension: 384 },
+        { model: "Xenova/all-MiniLM-L6-v2", dimension: 384 },
+      ),
+    );
+  const dbMock = createDbMock({
+    papersFindMany: () =>
+      Promise.resolve([{
+        id: "p1",
+        title: "Halo p1",
+        summary: "",
+        abstract: "",
+        arxivUrl: "",
+        publishedDate: "2024-01-01",
+      }]),
+  });
+
+  const result = await searchLibrary(
+    { q: "halo", type: "papers", locale: "en" },
+    {
+      db: dbMock as unknown as typeof import("../db/client.ts").db,
+      client: createFtsClient({ papers_fts: [{ id: "p1", rank: -5 }] }) as unknown as typeof import("../db/client.ts").client,
+      initializeCollections: mismatch as unknown as typeof import("./vector.ts").initializeCollections,
+      initializeLegacyCollections: mismatch as unknown as typeof import("./vector.ts").initializeLegacyCollections,
+    },
+  );
+
+  assertEquals(result.papers.map((p) => p.id), ["p1"]);
+  assertEquals(result.papers[0].scoreBreakdown?.vectorRank, null);
 });
@@ -1,32 +1,106 @@
 import { db, client } from "../db/client.ts";
 import { papers, videos, nasaContent, translations } from "../db/schema.ts";
-import { inArray, and, eq, like, or } from "drizzle-orm";
-import { initializeCollections, initializeLegacyCollections } from "./vector.ts";
-import { ftsSearch } from "./fts.ts";
+import { inArray, and, desc, eq, like, or, type SQL, sql } from "drizzle-orm";
+import {
+  EmbeddingMismatchError,
+  initializeCollections,
+  initializeLegacyCollections,
+  type VectorStore,
+} from "./vector.ts";
+import { type FtsFilter, type FtsQuery, type FtsResult, ftsSearch } from "./fts.ts";
+import { fuseRankings, maxFusedScore, type ScoreBreakdown } from "./fusion.ts";
+import { SEARCH_DIVERSITY, SEARCH_FUSION_WEIGHTS, SEARCH_TYPE_BOOSTS } from "./config.ts";
+import { calibrateScore, diversify } from "./search-ranking.ts";
+import {
+  allowedKinds,
+  compileChromaWhere,
+  compileFtsFilter,
+  compileSqlFilter,
+  dateBounds,
+  hasStructuredFilters,
+  parseSearchQuery,
+  resolveFilterValues,
+} from "./search-query.ts";
+import {
+  computeFacets,
+  type FacetSelection,
+  hasFacetSelection,
+  matchesFacets,
+  type SearchFacets,
+} from "./search-facets.ts";
+import {
+  decodeSearchCursor,
+  encodeSearchCursor,
+  searchFingerprint,
+} from "./search-cursor.ts";
 import type { Locale } from "./i18n.ts";
 import { SUPPORTED_LOCALES } from "./i18n.ts";
+import { expandQuery, getTerminology } from "./terminology.ts";
+import { getEmbeddingProvider } from "./embeddings.ts";
+import {
+  containsTerms,
+  DEFAULT_SNIPPET_CHARS,
+  keywordSnippet,
+  sentenceSnippet,
+  type Snippet,
+  type SnippetField,
+  type SnippetSource,
+  splitSentences,
+  type TextRange,
+} from "./snippets.ts";
 
 export type SearchType = "all" | "papers" | "videos" | "nasa";
 
+/** How a result's score was derived; returned with every result to debug rankings. */
+export interface SearchScoreBreakdown extends ScoreBreakdown {
+  /** Share of query terms found in the title/snippet, blended into the final score. */
+  keywordScore?: number;
+  /** Vector similarity to the query (1 - cosineDistance / 2); absent for keyword-only hits. */
+  similarity?: number;
+  /** Score within the item's own type; `score` is this calibrated for ranking across types. */
+  typeScore?: number;
+}
+
+/** Why a result was returned: the fields its keywords matched, or "semantic" for a vector hit. */
+export type MatchedField = "title" | SnippetField | "semantic";
+
 export interface SearchResultItem {
   type: "paper" | "video" | "nasa";
   id: string;
   title: string;
+  /** Passage that best matches the query, cut from `snippetField`. */
   snippet?: string;
+  snippetField?: SnippetField;
+  /** Matched terms in `snippet` as [start, end) string offsets, for <mark> highlighting. */
+  highlights?: TextRange[];
+  matchedFields?: MatchedField[];
   score?: number;
   url?: string;
   publishedDate?: string;
   meta?: Record<string, unknown>;
   /** True if this result is below the relevance threshold (shown as "related" content) */
   lowRelevance?: boolean;
+  scoreBreakdown?: SearchScoreBreakdown;
 }
 
+type ResultKind = SearchResultItem["type"];
+
 export interface SearchResponse {
   query: string;
   papers: SearchResultItem[];
   videos: SearchResultItem[];
   nasa: SearchResultItem[];
+  /**
+   * The same page ranked across all types by calibrated score, with per-type boosts and
+   * diversity applied; the per-type arrays split it up in this order.
+   */
+  results?: SearchResultItem[];
+  /** Results found; a lower bound ("at least") unless `totalExact`. */
   total: number;
+  /** False when a retriever hit its depth limit, so more results may exist than `total`. */
+  totalExact?: boolean;
+  /** Value counts over the candidate set; send values back as filters to narrow the search. */
+  facets?: SearchFacets;
   /** True if no highly relevant results were found and showing related content instead */
   showingRelated?: boolean;
   /** Pagination info */
@@ -36,412 +110,118 @@ export interface SearchResponse {
     totalPages: number;
     hasNext: boolean;
     hasPrev: boolean;
+    /** Opaque token for the next page (pass as `cursor`); absent on the last page. */
+    nextCursor?: string;
   };
 }
 
 const DEFAULT_LIMIT = 20;
 const PER_COLLECTION_LIMIT = 15;
 const MAX_COLLECTION_LIMIT = 60;
+/** Deepest a retriever is queried when paging; totals past it are reported as lower bounds. */
+const MAX_RETRIEVAL_DEPTH = 960;
 const DEFAULT_LOCALE: Locale = "en";
+let warnedEmbeddingMismatch = false;
 const MIN_RELEVANCE_SCORE = 0.15;
-
-// Chinese-English keyword mappings for cross-language search
-// Covers Traditional (zh-TW) and Simplified (zh-CN) variants
-const keywordMappings: Record<string, string[]> = {
-  // --- Rocket & Propulsion ---
-  "火箭": ["rocket", "launch vehicle", "booster"],
-  "引擎": ["engine", "motor"],
-  "發動機": ["engine", "motor"],
-  "发动机": ["engine", "motor"],
-  "推進": ["propulsion", "thrust"],
-  "推进": ["propulsion", "thrust"],
-  "推進器": ["thruster", "propulsion system"],
-  "推进器": ["thruster", "propulsion system"],
-  "推力": ["thrust", "propulsive force"],
-  "燃料": ["fuel", "propellant"],
-  "推進劑": ["propellant"],
-  "推进剂": ["propellant"],
-  "氧化劑": ["oxidizer"],
-  "氧化剂": ["oxidizer"],
-  "液態氧": ["liquid oxygen", "LOX"],
-  "液态氧": ["liquid oxygen", "LOX"],
-  "液態氫": ["liquid hydrogen", "LH2"],
-  "液态氢": ["liquid hydrogen", "LH2"],
-  "固態燃料": ["solid fuel", "solid propellant"],
-  "固态燃料": ["solid fuel", "solid propellant"],
-  "燃燒室": ["combustion chamber"],
-  "燃烧室": ["combustion chamber"],
-  "噴嘴": ["nozzle"],
-  "喷嘴": ["nozzle"],
-  "噴管": ["nozzle", "exhaust nozzle"],
-  "喷管": ["nozzle", "exhaust nozzle"],
-  "渦輪泵": ["turbopump"],
-  "涡轮泵": ["turbopump"],
-  "助推器": ["booster", "strap-on booster"],
-  "級": ["stage"],
-  "级": ["stage"],
-  "多級火箭": ["multistage rocket"],
-  "多级火箭": ["multistage rocket"],
-  "比衝": ["specific impulse", "Isp"],
-  "比冲": ["specific impulse", "Isp"],
-  "降落傘": ["parachute", "recovery"],
-  "降落伞": ["parachute", "recovery"],
-  "回收": ["recovery", "reusable"],
-  "再入": ["reentry", "re-entry"],
-  "隔熱罩": ["heat shield", "thermal protection"],
-  "隔热罩": ["heat shield", "thermal protection"],
-  "整流罩": ["fairing", "payload fairing"],
-  "點火": ["ignition"],
-  "点火": ["ignition"],
-  "發射": ["launch", "liftoff"],
-  "发射": ["launch", "liftoff"],
-  "發射台": ["launch pad", "launch site"],
-  "发射台": ["launch pad", "launch site"],
-  "酬載": ["payload"],
-  "载荷": ["payload"],
-  "有效載荷": ["payload"],
-  "有效载荷": ["payload"],
-
-  // --- Space & Orbital Mechanics ---
-  "太空": ["space", "outer space"],
-  "航太": ["aerospace", "space"],
-  "航天": ["aerospace", "space"],
-  "軌道": ["orbit", "orbital"],
-  "轨道": ["orbit", "orbital"],
-  "入軌": ["orbit insertion", "orbital insertion"],
-  "入轨": ["orbit insertion", "orbital insertion"],
-  "近地軌道": ["low earth orbit", "LEO"],
-  "近地轨道": ["low earth orbit", "LEO"],
-  "地球同步": ["geosynchronous", "GEO", "geostationary"],
-  "轉移軌道": ["transfer orbit", "Hohmann"],
-  "转移轨道": ["transfer orbit", "Hohmann"],
-  "脫軌": ["deorbit", "de-orbit"],
-  "脱轨": ["deorbit", "de-orbit"],
-  "衛星": ["satellite"],
-  "卫星": ["satellite"],
-  "太空站": ["space station", "ISS"],
-  "空间站": ["space station", "ISS"],
-  "太空梭": ["space shuttle"],
-  "航天飞机": ["space shuttle"],
-  "太空船": ["spacecraft", "spaceship"],
-  "飞船": ["spacecraft", "spaceship"],
-  "太空艙": ["capsule", "space capsule"],
-  "太空舱": ["capsule", "space capsule"],
-  "對接": ["docking", "rendezvous"],
-  "对接": ["docking", "rendezvous"],
-  "太空漫步": ["spacewalk", "EVA", "extravehicular activity"],
-  "太空人": ["astronaut", "cosmonaut"],
-  "宇航员": ["astronaut", "cosmonaut"],
-  "太空衣": ["spacesuit", "EVA suit"],
-  "航天服": ["spacesuit", "EVA suit"],
-  "失重": ["weightlessness", "microgravity", "zero gravity"],
-  "微重力": ["microgravity"],
-
-  // --- Astronomy & Astrophysics ---
-  "天文": ["astronomy", "astronomical"],
-  "天文學": ["astronomy"],
-  "天文学": ["astronomy"],
-  "天體物理": ["astrophysics"],
-  "天体物理": ["astrophysics"],
-  "宇宙": ["universe", "cosmos", "cosmology"],
-  "宇宙學": ["cosmology"],
-  "宇宙学": ["cosmology"],
-  "黑洞": ["black hole"],
-  "恆星": ["star", "stellar"],
-  "恒星": ["star", "stellar"],
-  "行星": ["planet", "planetary"],
-  "系外行星": ["exoplanet", "extrasolar planet"],
-  "星系": ["galaxy", "galactic"],
-  "星雲": ["nebula"],
-  "星云": ["nebula"],
-  "超新星": ["supernova"],
-  "脈衝星": ["pulsar"],
-  "脉冲星": ["pulsar"],
-  "中子星": ["neutron star"],
-  "白矮星": ["white dwarf"],
-  "紅巨星": ["red giant"],
-  "红巨星": ["red giant"],
-  "暗物質": ["dark matter"],
-  "暗物质": ["dark matter"],
-  "暗能量": ["dark energy"],
-  "大爆炸": ["big bang"],
-  "紅移": ["redshift"],
-  "红移": ["redshift"],
-  "藍移": ["blueshift"],
-  "蓝移": ["blueshift"],
-  "重力波": ["gravitational wave"],
-  "引力波": ["gravitational wave"],
-  "重力透鏡": ["gravitational lensing"],
-  "引力透镜": ["gravitational lensing"],
-  "類星體": ["quasar"],
-  "类星体": ["quasar"],
-  "磁星": ["magnetar"],
-  "星團": ["star cluster"],
-  "星团": ["star cluster"],
-  "球狀星團": ["globular cluster"],
-  "球状星团": ["globular cluster"],
-  "星際": ["interstellar"],
-  "星际": ["interstellar"],
-  "星際介質": ["interstellar medium", "ISM"],
-  "星际介质": ["interstellar medium", "ISM"],
-  "吸積盤": ["accretion disk"],
-  "吸积盘": ["accretion disk"],
-  "事件視界": ["event horizon"],
-  "事件视界": ["event horizon"],
-  "奇點": ["singularity"],
-  "奇点": ["singularity"],
-
-  // --- Solar System ---
-  "太陽": ["sun", "solar"],
-  "太阳": ["sun", "solar"],
-  "太陽系": ["solar system"],
-  "太阳系": ["solar system"],
-  "太陽風": ["solar wind"],
-  "太阳风": ["solar wind"],
-  "太陽閃焰": ["solar flare"],
-  "太阳耀斑": ["solar flare"],
-  "日冕": ["corona", "coronal"],
-  "太陽能": ["solar energy", "solar power"],
-  "太阳能": ["solar energy", "solar power"],
-  "太陽能板": ["solar panel", "solar array"],
-  "太阳能板": ["solar panel", "solar array"],
-  "月球": ["moon", "lunar"],
-  "火星": ["Mars", "Martian"],
-  "木星": ["Jupiter", "Jovian"],
-  "土星": ["Saturn"],
-  "水星": ["Mercury"],
-  "金星": ["Venus"],
-  "天王星": ["Uranus"],
-  "海王星": ["Neptune"],
-  "冥王星": ["Pluto"],
-  "小行星": ["asteroid"],
-  "彗星": ["comet"],
-  "隕石": ["meteorite", "meteor"],
-  "陨石": ["meteorite", "meteor"],
-  "流星": ["meteor", "shooting star"],
-  "月食": ["lunar eclipse"],
-  "日食": ["solar eclipse"],
-  "潮汐": ["tidal", "tide"],
-
-  // --- Instruments & Technology ---
-  "望遠鏡": ["telescope"],
-  "望远镜": ["telescope"],
-  "光譜": ["spectrum", "spectroscopy", "spectral"],
-  "光谱": ["spectrum", "spectroscopy", "spectral"],
-  "紅外線": ["infrared", "IR"],
-  "红外线": ["infrared", "IR"],
-  "紫外線": ["ultraviolet", "UV"],
-  "紫外线": ["ultraviolet", "UV"],
-  "X射線": ["X-ray"],
-  "X射线": ["X-ray"],
-  "伽瑪射線": ["gamma ray"],
-  "伽马射线": ["gamma ray"],
-  "雷達": ["radar"],
-  "雷达": ["radar"],
-  "感測器": ["sensor", "detector"],
-  "传感器": ["sensor", "detector"],
-  "探測器": ["probe", "detector"],
-  "探测器": ["probe", "detector"],
-  "天線": ["antenna"],
-  "天线": ["antenna"],
-  "陀螺儀": ["gyroscope"],
-  "陀螺仪": ["gyroscope"],
-  "加速度計": ["accelerometer"],
-  "加速度计": ["accelerometer"],
-  "導航": ["navigation", "guidance"],
-  "导航": ["navigation", "guidance"],
-  "姿態控制": ["attitude control"],
-  "姿态控制": ["attitude control"],
-  "遙測": ["telemetry"],
-  "遥测": ["telemetry"],
-
-  // --- Missions & Programs ---
-  "阿波羅": ["Apollo"],
-  "阿波罗": ["Apollo"],
-  "阿提米絲": ["Artemis"],
-  "阿尔忒弥斯": ["Artemis"],
-  "國際太空站": ["International Space Station", "ISS"],
-  "国际空间站": ["International Space Station", "ISS"],
-  "韋伯": ["Webb", "JWST", "James Webb"],
-  "韦伯": ["Webb", "JWST", "James Webb"],
-  "哈伯": ["Hubble", "HST"],
-  "哈勃": ["Hubble", "HST"],
-  "旅行者": ["Voyager"],
-  "好奇號": ["Curiosity"],
-  "好奇号": ["Curiosity"],
-  "毅力號": ["Perseverance"],
-  "毅力号": ["Perseverance"],
-  "嫦娥": ["Chang'e"],
-  "天問": ["Tianwen"],
-  "天问": ["Tianwen"],
-
-  // --- Physics & General Science ---
-  "重力": ["gravity", "gravitational"],
-  "引力": ["gravity", "gravitational"],
-  "質量": ["mass"],
-  "质量": ["mass"],
-  "密度": ["density"],
-  "溫度": ["temperature"],
-  "温度": ["temperature"],
-  "壓力": ["pressure"],
-  "压力": ["pressure"],
-  "輻射": ["radiation"],
-  "辐射": ["radiation"],
-  "磁場": ["magnetic field"],
-  "磁场": ["magnetic field"],
-  "電漿": ["plasma"],
-  "等离子体": ["plasma"],
-  "光年": ["light year", "light-year"],
-  "天文單位": ["astronomical unit", "AU"],
-  "天文单位": ["astronomical unit", "AU"],
-  "紅外": ["infrared"],
-  "红外": ["infrared"],
-
-  // --- Aerodynamics & Engineering ---
-  "空氣動力學": ["aerodynamics"],
-  "空气动力学": ["aerodynamics"],
-  "馬赫數": ["Mach number"],
-  "马赫数": ["Mach number"],
-  "超音速": ["supersonic"],
-  "極超音速": ["hypersonic"],
-  "高超音速": ["hypersonic"],
-  "阻力": ["drag"],
-  "升力": ["lift"],
-  "熱傳導": ["heat transfer", "thermal conductivity"],
-  "热传导": ["heat transfer", "thermal conductivity"],
-  "冷卻": ["cooling", "regenerative cooling"],
-  "冷却": ["cooling", "regenerative cooling"],
-  "複合材料": ["composite material"],
-  "复合材料": ["composite material"],
-  "碳纖維": ["carbon fiber"],
-  "碳纤维": ["carbon fiber"],
-  "鈦合金": ["titanium alloy"],
-  "钛合金": ["titanium alloy"],
-
-  // --- Robotics ---
-  "機器人": ["robot", "robotics"],
-  "机器人": ["robot", "robotics"],
-  "人形機器人": ["humanoid robot"],
-  "人形机器人": ["humanoid robot"],
-  "機械臂": ["robotic arm", "manipulator"],
-  "机械臂": ["robotic arm", "manipulator"],
-  "機器手臂": ["robotic arm", "manipulator"],
-  "机器手臂": ["robotic arm", "manipulator"],
-  "自主導航": ["autonomous navigation"],
-  "自主导航": ["autonomous navigation"],
-  "運動規劃": ["motion planning", "path planning"],
-  "运动规划": ["motion planning", "path planning"],
-  "抓取": ["grasping", "grasp", "manipulation"],
-  "步態": ["gait", "locomotion"],
-  "步态": ["gait", "locomotion"],
-  "雙足": ["bipedal", "biped"],
-  "双足": ["bipedal", "biped"],
-  "四足": ["quadruped", "legged robot"],
-  "感知": ["perception", "sensing"],
-  "人機互動": ["human-robot interaction", "HRI"],
-  "人机交互": ["human-robot interaction", "HRI"],
-  "遙操作": ["teleoperation", "telemanipulation"],
-  "遥操作": ["teleoperation", "telemanipulation"],
-  "強化學習": ["reinforcement learning", "RL"],
-  "强化学习": ["reinforcement learning", "RL"],
-  "模擬到現實": ["sim-to-real", "simulation to real"],
-  "仿真到现实": ["sim-to-real", "simulation to real"],
-  "全身控制": ["whole-body control"],
-  "靈巧手": ["dexterous hand", "dexterous manipulation"],
-  "灵巧手": ["dexterous hand", "dexterous manipulation"],
-  "即時定位與地圖構建": ["SLAM", "simultaneous localization and mapping"],
-  "即时定位与地图构建": ["SLAM", "simultaneous localization and mapping"],
-  "太空機器人": ["space robot", "space robotics"],
-  "太空机器人": ["space robot", "space robotics"],
-  "行走": ["walking", "locomotion", "legged locomotion"],
-  "操控": ["manipulation", "control"],
-  "視覺伺服": ["visual servoing", "vision-based control"],
-  "视觉伺服": ["visual servoing", "vision-based control"],
-  "逆運動學": ["inverse kinematics", "IK"],
-  "逆运动学": ["inverse kinematics", "IK"],
-  "動力學": ["dynamics", "dynamic control"],
-  "动力学": ["dynamics", "dynamic control"],
-  "力矩控制": ["torque control", "force control"],
-  "避障": ["obstacle avoidance", "collision avoidance"],
-  "自主系統": ["autonomous system", "autonomy"],
-  "自主系统": ["autonomous system", "autonomy"],
-  "深度學習": ["deep learning"],
-  "深度学习": ["deep learning"],
-  "電腦視覺": ["computer vision"],
-  "计算机视觉": ["computer vision"],
-
-  // --- Satellite & Remote Sensing ---
-  "衛星通訊": ["satellite communication", "satcom"],
-  "卫星通信": ["satellite communication", "satcom"],
-  "遙感": ["remote sensing"],
-  "遥感": ["remote sensing"],
-  "地球觀測": ["Earth observation"],
-  "地球观测": ["Earth observation"],
-  "立方衛星": ["CubeSat", "cube satellite"],
-  "立方卫星": ["CubeSat", "cube satellite"],
-  "小衛星": ["small satellite", "smallsat"],
-  "小卫星": ["small satellite", "smallsat"],
-  "衛星星座": ["satellite constellation", "mega-constellation"],
-  "卫星星群": ["satellite constellation", "mega-constellation"],
-  "太空碎片": ["space debris", "orbital debris"],
-  "合成孔徑雷達": ["synthetic aperture radar", "SAR"],
-  "合成孔径雷达": ["synthetic aperture radar", "SAR"],
-  "地面站": ["ground station", "satellite ground station"],
-  "星間鏈路": ["inter-satellite link", "ISL"],
-  "星间链路": ["inter-satellite link", "ISL"],
-  "太空態勢感知": ["space situational awareness", "SSA"],
-  "空间态势感知": ["space situational awareness", "SSA"],
-
-  // --- Space Travel & Settlement ---
-  "太空旅行": ["space travel", "spaceflight"],
-  "太空殖民": ["space colonization", "space colony"],
-  "太空移民": ["space settlement", "space migration"],
-  "生命維持": ["life support", "ECLSS"],
-  "生命维持": ["life support", "ECLSS"],
-  "就地資源利用": ["in-situ resource utilization", "ISRU"],
-  "就地资源利用": ["in-situ resource utilization", "ISRU"],
-  "太空輻射防護": ["space radiation shielding", "radiation protection"],
-  "太空辐射防护": ["space radiation shielding", "radiation protection"],
-  "人工重力": ["artificial gravity"],
-  "太空醫學": ["space medicine", "aerospace medicine"],
-  "太空医学": ["space medicine", "aerospace medicine"],
-  "太空農業": ["space agriculture", "bioregenerative life support"],
-  "太空农业": ["space agriculture", "bioregenerative life support"],
-  "月球基地": ["lunar base", "Moon base"],
-  "火星殖民": ["Mars colonization", "Mars colony"],
-  "軌道棲息地": ["orbital habitat", "space habitat"],
-  "轨道栖息地": ["orbital habitat", "space habitat"],
-  "太空觀光": ["space tourism", "commercial spaceflight"],
-  "太空旅游": ["space tourism", "commercial spaceflight"],
-  "長期太空飛行": ["long-duration spaceflight", "long-duration mission"],
-  "长期太空飞行": ["long-duration spaceflight", "long-duration mission"],
-  "密閉生態系統": ["closed ecosystem", "closed-loop life support"],
-  "封闭生态系统": ["closed ecosystem", "closed-loop life support"],
+/** Sentences per result compared with the query when picking a snippet for a vector hit. */
+const MAX_SNIPPET_SENTENCES = 24;
+const MATCHED_FIELD_ORDER: MatchedField[] = [
+  "title",
+  "translation",
+  "summary",
+  "abstract",
+  "explanation",
+  "description",
+  "transcript",
+  "semantic",
+];
+/** FTS5 columns by the field they report; translations_fts.summary is the translation. */
+const FTS_COLUMN_FIELDS: Record<string, MatchedField> = {
+  title: "title",
+  summary: "summary",
+  abstract: "abstract",
+  explanation: "explanation",
+  description: "description",
+  transcript: "transcript",
 };
 
 export interface SearchDeps {
   db?: typeof db;
+  /** libSQL client used for FTS5 queries. */
+  client?: typeof client;
   initializeCollections?: typeof initializeCollections;
   initializeLegacyCollections?: typeof initializeLegacyCollections;
+  /** Terms for cross-language query expansion (lib/terminology.ts). */
+  getTerminology?: typeof getTerminology;
+  /** Embeds the query and candidate sentences when picking snippets for vector hits. */
+  embed?: (texts: string[]) => Promise<number[][]>;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
 }
 
-/** Run vector search in the given locale's collections; then load full rows and localized title/snippet from DB. */
-export async function searchLibrary(params: {
+export interface SearchParams {
   q: string;
   type?: SearchType;
   limit?: number;
   page?: number;
+  /** `pagination.nextCursor` of the previous page; takes precedence over `page`. */
+  cursor?: string;
   locale?: Locale;
   dateFrom?: string;
   dateTo?: string;
-}, deps?: SearchDeps): Promise<SearchResponse> {
+  /** Selected facet values (see search-facets.ts); applied to the candidate set. */
+  facets?: FacetSelection;
+  /** Longest snippet to return, in characters (default 240). */
+  snippetChars?: number;
+  /** Stops the search between its retrieval steps (throws the signal's reason). */
+  signal?: AbortSignal;
+}
+
+/**
+ * Hybrid search: vector search in the given locale's collections plus FTS5 keyword search,
+ * fused with reciprocal-rank fusion; then load full rows and localized title/snippet from DB.
+ * Each result on the returned page carries a query-aware snippet with highlight offsets.
+ * Throws InvalidSearchCursorError for a cursor that is malformed or from another search.
+ */
+export async function searchLibrary(
+  params: SearchParams,
+  deps?: SearchDeps,
+): Promise<SearchResponse> {
+  return await searchAtDepth(params, deps);
+}
+
+/**
+ * One search pass with `depth` candidates per retriever (derived from the page when omitted).
+ * When the filters, facets or relevance cut leave too few candidates for the page and a
+ * retriever may have more, the search is repeated at twice the depth.
+ */
+async function searchAtDepth(
+  params: SearchParams,
+  deps?: SearchDeps,
+  depth?: number,
+): Promise<SearchResponse> {
   const { q, type = "all", limit = DEFAULT_LIMIT, page = 1, locale: requestedLocale, dateFrom, dateTo } =
     params;
+  const facetSelection = params.facets ?? {};
   // Video and NASA search now enabled in all environments
   // (previously disabled in production when ChromaDB collections were empty)
   const db_ = deps?.db ?? db;
+  const ftsClient = deps?.client ?? client;
   const initializeCollections_ = deps?.initializeCollections ?? initializeCollections;
   const initializeLegacyCollections_ = deps?.initializeLegacyCollections ?? initializeLegacyCollections;
+  const getTerminology_ = deps?.getTerminology ?? getTerminology;
+  const embed_ = deps?.embed ?? ((texts: string[]) => getEmbeddingProvider().embed(texts));
+  const snippetChars = Math.max(1, params.snippetChars ?? DEFAULT_SNIPPET_CHARS);
   const locale = requestedLocale && SUPPORTED_LOCALES.includes(requestedLocale)
     ? requestedLocale
     : DEFAULT_LOCALE;
@@ -455,223 +235,332 @@ export async function searchLibrary(params: {
     return { query: trimmed, papers: [], videos: [], nasa: [], total: 0 };
   }
 
-  const searchPapers = type === "all" || type === "papers";
-  const searchVideos = type === "all" || type === "videos";
-  const searchNasa = type === "all" || type === "nasa";
+  // Structured syntax (phrases, -exclusions, field filters, year ranges); see search-query.ts.
+  // `text` is the free text left for vector search, keyword expansion and reranking.
+  const parsed = parseSearchQuery(trimmed);
+  const text = parsed.text;
+  const filtered = hasStructuredFilters(parsed);
+  if (!text && !filtered) {
+    return { query: trimmed, papers: [], videos: [], nasa: [], total: 0 };
+  }
+
+  const kinds = allowedKinds(parsed);
+  const searchPapers = (type === "all" || type === "papers") && kinds.has("paper");
+  const searchVideos = (type === "all" || type === "videos") && kinds.has("video");
+  const searchNasa = (type === "all" || type === "nasa") && kinds.has("nasa");
+  // Filters and the date window are applied inside both retrievers (Chroma `where` clauses and
+  // SQL on the FTS joins), so a narrow filter does not starve the candidate lists
+  const dates = dateBounds(parsed, normalizedDateFrom, normalizedDateTo);
+  const sqlFilters: Record<ResultKind, SQL | undefined> = {
+    paper: compileSqlFilter(parsed, "paper", dates),
+    video: compileSqlFilter(parsed, "video", dates),
+    nasa: compileSqlFilter(parsed, "nasa", dates),
+  };
 
   if (!searchPapers && !searchVideos && !searchNasa) {
     return { query: trimmed, papers: [], videos: [], nasa: [], total: 0 };
   }
 
   const perPage = Math.max(1, limit);
-  const requestedResults = perPage * Math.max(1, page);
-  const collections = await initializeCollections_();
-  const n = Math.min(MAX_COLLECTION_LIMIT, Math.max(PER_COLLECTION_LIMIT, requestedResults));
-  const paperIds: string[] = [];
-  const videoIds: string[] = [];
-  const nasaIds: string[] = [];
-  const paperScores: Record<string, number> = {};
-  const videoScores: Record<string, number> = {};
-  const nasaScores: Record<string, number> = {};
-
-  const [paperRes, videoRes, nasaRes] = await Promise.all([
-    searchPapers
-      ? collections.papers[locale].query({ queryText: trimmed, nResults: n })
-      : Promise.resolve({ ids: [[]], distances: [[]] }),
-    searchVideos
-      ? collections.videos[locale].query({ queryText: trimmed, nResults: n })
-      : Promise.resolve({ ids: [[]], distances: [[]] }),
-    searchNasa
-      ? collections.nasa[locale].query({ queryText: trimmed, nResults: n })
-      : Promise.resolve({ ids: [[]], distances: [[]] }),
-  ]);
+  // Cursors are bound to the query, filters and facets they were issued for
+  const fingerprint = await searchFingerprint({
+    q: trimmed,
+    type,
+    locale,
+    dateFrom: normalizedDateFrom,
+    dateTo: normalizedDateTo,
+    facets: facetSelection,
+  });
+  const cursor = params.cursor ? decodeSearchCursor(params.cursor, fingerprint) : undefined;
+  // Results ranked before the page, plus the page and one more to tell whether there is a next
+  const requestedResults = (cursor ? cursor.offset : perPage * (Math.max(1, page) - 1)) +
+    perPage + 1;
+  // Collections built with another embedding provider cannot be queried until
+  // `rebuild-vectors --migrate` has run; keyword results are served until then
+  const openVectorStores = async <T>(open: () => Promise<T>): Promise<T | null> => {
+    try {
+      return await open();
+    } catch (error) {
+      if (!(error instanceof EmbeddingMismatchError)) throw error;
+      if (!warnedEmbeddingMismatch) {
+        console.warn(`Vector search disabled, using keyword search only: ${error.message}`);
+        warnedEmbeddingMismatch = true;
+      }
+      return null;
+    }
+  };
+  const collections = await openVectorStores(() => initializeCollections_());
+  // Some filters, facets and the relevance cut are enforced when rows are loaded, so
+  // over-fetch candidates to leave room for them; a cursor keeps its page's depth so pages
+  // are ranked from the same candidates
+  const n = Math.min(
+    MAX_RETRIEVAL_DEPTH,
+    depth ?? Math.max(
+      cursor?.depth ?? 0,
+      requestedResults,
+      filtered || parsed.excluded.length || hasFacetSelection(facetSelection)
+        ? MAX_COLLECTION_LIMIT
+        : PER_COLLECTION_LIMIT,
+    ),
+  );
+  // Set when a retriever returns as many candidates as asked for, so it may have more
+  let saturated = false;
+  const noteDepth = <T>(results: T[], limit_ = n): T[] => {
+    if (results.length >= limit_) saturated = true;
+    return results;
+  };
 
-  if (searchPapers && paperRes.ids[0]?.length) {
-    paperRes.ids[0].forEach((id, i) => {
-      paperIds.push(id);
-      const dist = paperRes.distances?.[0]?.[i];
-      if (dist != null) paperScores[id] = 1 - dist / 2;
-    });
-  }
-  if (searchVideos && videoRes.ids[0]?.length) {
-    videoRes.ids[0].forEach((id, i) => {
-      videoIds.push(id);
-      const dist = videoRes.distances?.[0]?.[i];
-      if (dist != null) videoScores[id] = 1 - dist / 2;
+  // Hybrid retrieval: the vector and keyword (FTS5) retrievers always both run; their
+  // rankings are merged per content type with reciprocal-rank fusion below.
+  // Each map holds id -> retriever score; rank order is derived from the score.
+  const vectorHits: Record<ResultKind, Map<string, number>> = {
+    paper: new Map(),
+    video: new Map(),
+    nasa: new Map(),
+  };
+  const keywordHits: Record<ResultKind, Map<string, number>> = {
+    paper: new Map(),
+    video: new Map(),
+    nasa: new Map(),
+  };
+  const addHit = (hits: Map<string, number>, id: string, score: number) => {
+    hits.set(id, Math.max(hits.get(id) ?? -Infinity, score));
+  };
+  // id -> field -> text matched by FTS5, for matchedFields and snippet highlights
+  const keywordMatches: Record<ResultKind, Map<string, Map<MatchedField, Set<string>>>> = {
+    paper: new Map(),
+    video: new Map(),
+    nasa: new Map(),
+  };
+  const addMatches = (kind: ResultKind, result: FtsResult, translation = false) => {
+    for (const [column, found] of Object.entries(result.matches ?? {})) {
+      const field = translation && column === "summary" ? "translation" : FTS_COLUMN_FIELDS[column];
+      if (!field) continue;
+      const byField = keywordMatches[kind].get(result.id) ?? new Map();
+      keywordMatches[kind].set(result.id, byField);
+      const texts = byField.get(field) ?? new Set<string>();
+      byField.set(field, texts);
+      found.forEach((text) => texts.add(text));
+    }
+  };
+  const addVectorHits = (
+    kind: ResultKind,
+    res: { ids: string[][]; distances?: (number | null)[][] | null },
+  ) => {
+    noteDepth(res.ids[0] ?? []).forEach((id, i) => {
+      const dist = res.distances?.[0]?.[i];
+      addHit(vectorHits[kind], id, dist != null ? 1 - dist / 2 : 0);
     });
-  }
-  if (searchNasa && nasaRes.ids[0]?.length) {
-    nasaRes.ids[0].forEach((id, i) => {
-      nasaIds.push(id);
-      const dist = nasaRes.distances?.[0]?.[i];
-      if (dist != null) nasaScores[id] = 1 - dist / 2;
+  };
+  const hasVectorHits = () =>
+    vectorHits.paper.size > 0 || vectorHits.video.size > 0 || vectorHits.nasa.size > 0;
+
+  const filterValues = text && parsed.filters.length
+    ? await resolveFilterValues(parsed, db_)
+    : new Map();
+  const chromaWhere = (kind: ResultKind) =>
+    compileChromaWhere(parsed, kind, { dates, values: filterValues });
+  const emptyVectorResult = { ids: [[]], distances: [[]] };
+  const queryVectors = async (stores: {
+    papers: Pick<VectorStore, "query">;
+    videos: Pick<VectorStore, "query">;
+    nasa: Pick<VectorStore, "query">;
+  }) => {
+    // null: a filter matches no stored value, so the collection has nothing to return
+    const vectorQuery = (store: Pick<VectorStore, "query">, kind: ResultKind) => {
+      const filter = chromaWhere(kind);
+      return filter === null
+        ? Promise.resolve(emptyVectorResult)
+        : store.query({ queryText: text, nResults: n, filter });
+    };
+    const [paperRes, videoRes, nasaRes] = await Promise.all([
+      searchPapers ? vectorQuery(stores.papers, "paper") : Promise.resolve(emptyVectorResult),
+      searchVideos ? vectorQuery(stores.videos, "video") : Promise.resolve(emptyVectorResult),
+      searchNasa ? vectorQuery(stores.nasa, "nasa") : Promise.resolve(emptyVectorResult),
+    ]);
+    addVectorHits("paper", paperRes);
+    addVectorHits("video", videoRes);
+    addVectorHits("nasa", nasaRes);
+  };
+
+  // Filter-only queries (e.g. `author:"Jane Doe"`) have no text to embed
+  if (text && collections) {
+    await queryVectors({
+      papers: collections.papers[locale],
+      videos: collections.videos[locale],
+      nasa: collections.nasa[locale],
     });
   }
 
   // Cross-language: when using zh-TW/zh-CN and query contains Latin text, also query English collection
-  const hasLatin = /[a-zA-Z]{2,}/.test(trimmed);
-  let hasNoResults = paperIds.length === 0 && videoIds.length === 0 && nasaIds.length === 0;
-  if (locale !== "en" && (hasNoResults || hasLatin)) {
-    const [enPaperRes, enVideoRes, enNasaRes] = await Promise.all([
-      searchPapers ? collections.papers["en"].query({ queryText: trimmed, nResults: n }) : Promise.resolve({ ids: [[]], distances: [[]] }),
-      searchVideos ? collections.videos["en"].query({ queryText: trimmed, nResults: n }) : Promise.resolve({ ids: [[]], distances: [[]] }),
-      searchNasa ? collections.nasa["en"].query({ queryText: trimmed, nResults: n }) : Promise.resolve({ ids: [[]], distances: [[]] }),
-    ]);
-    if (searchPapers && enPaperRes.ids[0]?.length) {
-      enPaperRes.ids[0].forEach((id, i) => {
-        if (!paperScores[id]) paperIds.push(id);
-        const dist = enPaperRes.distances?.[0]?.[i];
-        if (dist != null) {
-          const score = 1 - dist / 2;
-          paperScores[id] = Math.max(paperScores[id] ?? 0, score);
-        }
-      });
-    }
-    if (searchVideos && enVideoRes.ids[0]?.length) {
-      enVideoRes.ids[0].forEach((id, i) => {
-        if (!videoScores[id]) videoIds.push(id);
-        const dist = enVideoRes.distances?.[0]?.[i];
-        if (dist != null) {
-          const score = 1 - dist / 2;
-          videoScores[id] = Math.max(videoScores[id] ?? 0, score);
-        }
-      });
-    }
-    if (searchNasa && enNasaRes.ids[0]?.length) {
-      enNasaRes.ids[0].forEach((id, i) => {
-        if (!nasaScores[id]) nasaIds.push(id);
-        const dist = enNasaRes.distances?.[0]?.[i];
-        if (dist != null) {
-          const score = 1 - dist / 2;
-          nasaScores[id] = Math.max(nasaScores[id] ?? 0, score);
-        }
-      });
-    }
+  const hasLatin = /[a-zA-Z]{2,}/.test(text);
+  if (collections && text && locale !== "en" && (!hasVectorHits() || hasLatin)) {
+    await queryVectors({
+      papers: collections.papers["en"],
+      videos: collections.videos["en"],
+      nasa: collections.nasa["en"],
+    });
   }
 
-  // Fallback 2: query legacy collections (pre-i18n) if still no results
-  hasNoResults = paperIds.length === 0 && videoIds.length === 0 && nasaIds.length === 0;
-  if (hasNoResults) {
-    const legacy = await initializeLegacyCollections_();
-    const [legacyPaperRes, legacyVideoRes, legacyNasaRes] = await Promise.all([
-      searchPapers ? legacy.papers.query({ queryText: trimmed, nResults: n }) : Promise.resolve({ ids: [[]], distances: [[]] }),
-      searchVideos ? legacy.videos.query({ queryText: trimmed, nResults: n }) : Promise.resolve({ ids: [[]], distances: [[]] }),
-      searchNasa ? legacy.nasa.query({ queryText: trimmed, nResults: n }) : Promise.resolve({ ids: [[]], distances: [[]] }),
-    ]);
-    if (searchPapers && legacyPaperRes.ids[0]?.length) {
-      legacyPaperRes.ids[0].forEach((id, i) => {
-        paperIds.push(id);
-        const dist = legacyPaperRes.distances?.[0]?.[i];
-        if (dist != null) paperScores[id] = 1 - dist / 2;
-      });
-    }
-    if (searchVideos && legacyVideoRes.ids[0]?.length) {
-      legacyVideoRes.ids[0].forEach((id, i) => {
-        videoIds.push(id);
-        const dist = legacyVideoRes.distances?.[0]?.[i];
-        if (dist != null) videoScores[id] = 1 - dist / 2;
-      });
-    }
-    if (searchNasa && legacyNasaRes.ids[0]?.length) {
-      legacyNasaRes.ids[0].forEach((id, i) => {
-        nasaIds.push(id);
-        const dist = legacyNasaRes.distances?.[0]?.[i];
-        if (dist != null) nasaScores[id] = 1 - dist / 2;
-      });
-    }
+  // Query legacy collections (pre-i18n) if the locale collections are still empty
+  if (collections && text && !hasVectorHits()) {
+    const legacy = await openVectorStores(() => initializeLegacyCollections_());
+    if (legacy) await queryVectors(legacy);
   }
 
-  // Fallback 3: keyword-based search PER TYPE when vector search returns nothing
-  // or when the best vector score is too low (below MIN_RELEVANCE_SCORE)
-  // First tries FTS5 full-text search (ranked), then degrades to LIKE (flat 0.5 score)
-  const bestPaperScore = Math.max(0, ...Object.values(paperScores));
-  const bestVideoScore = Math.max(0, ...Object.values(videoScores));
-  const bestNasaScore = Math.max(0, ...Object.values(nasaScores));
-  const needsPaperFallback = paperIds.length === 0 || bestPaperScore < MIN_RELEVANCE_SCORE;
-  const needsVideoFallback = videoIds.length === 0 || bestVideoScore < MIN_RELEVANCE_SCORE;
-  const needsNasaFallback = nasaIds.length === 0 || bestNasaScore < MIN_RELEVANCE_SCORE;
-  const needsTranslationFallback = locale !== "en" && (needsPaperFallback || needsVideoFallback || needsNasaFallback);
-
-  // Build FTS query: original terms + bidirectional keyword expansion
-  const ftsTerms: string[] = [trimmed];
-  const hasChinese = /[\u4e00-\u9fff]/.test(trimmed);
-  if (hasChinese) {
-    for (const [chinese, english] of Object.entries(keywordMappings)) {
-      if (trimmed.includes(chinese)) {
-        ftsTerms.push(...english);
-      }
-    }
-  }
-  // English→Chinese expansion: when query has Latin text, add matching Chinese keywords
-  if (hasLatin && locale !== "en") {
-    const lowerTrimmed = trimmed.toLowerCase();
-    for (const [chinese, englishTerms] of Object.entries(keywordMappings)) {
-      if (englishTerms.some((en) => lowerTrimmed.includes(en.toLowerCase()))) {
-        ftsTerms.push(chinese);
+  params.signal?.throwIfAborted();
+
+  // Build FTS query: original terms + bidirectional terminology expansion (English→Chinese only
+  // when the query has Latin text and the UI is not English)
+  const terminologyTerms = await getTerminology_();
+  const hasChinese = /[\u4e00-\u9fff]/.test(text);
+  const toChinese = hasLatin && locale !== "en";
+  const ftsTerms: string[] = [
+    ...parsed.terms,
+    ...expandQuery(text, terminologyTerms, { toChinese }),
+  ];
+  const ftsQuery: FtsQuery = { terms: ftsTerms, phrases: parsed.phrases, excluded: parsed.excluded };
+  const searchTranslations = locale !== "en";
+
+  const addTranslationHits = (
+    rows: { itemType: string; itemId: string }[],
+    scoreFor: (itemId: string) => number,
+    ftsResults: FtsResult[] = [],
+  ) => {
+    const addTranslationHit = (kind: ResultKind, itemId: string) => {
+      addHit(keywordHits[kind], itemId, scoreFor(itemId));
+      ftsResults.filter((r) => r.id === itemId).forEach((r) => addMatches(kind, r, true));
+    };
+    for (const t of rows) {
+      if (t.itemType === "paper" && searchPapers) {
+        addTranslationHit("paper", t.itemId);
+      } else if (t.itemType === "video" && searchVideos) {
+        addTranslationHit("video", t.itemId);
+      } else if (t.itemType === "nasa" && searchNasa) {
+        addTranslationHit("nasa", t.itemId);
       }
     }
-  }
-  const ftsQueryString = ftsTerms.join(" ");
+  };
 
+  // Keyword retriever: FTS5 (BM25-ranked); degrades to LIKE when FTS is unavailable or empty
   let ftsHandled = false;
-  try {
-    const [ftsPapers, ftsVideos, ftsNasa, ftsTranslations] = await Promise.all([
-      searchPapers && needsPaperFallback
-        ? ftsSearch(client, "papers_fts", ftsQueryString, n)
-        : Promise.resolve([]),
-      searchVideos && needsVideoFallback
-        ? ftsSearch(client, "videos_fts", ftsQueryString, n)
-        : Promise.resolve([]),
-      searchNasa && needsNasaFallback
-        ? ftsSearch(client, "nasa_fts", ftsQueryString, n)
-        : Promise.resolve([]),
-      needsTranslationFallback
-        ? ftsSearch(client, "translations_fts", ftsQueryString, n * 3)
-        : Promise.resolve([]),
+  if (!text) {
+    // Filter-only query: the keyword retriever lists matching rows, newest first
+    const [filterPapers, filterVideos, filterNasa] = await Promise.all([
+      searchPapers
+        ? db_.query.papers.findMany({
+            where: sqlFilters.paper,
+            orderBy: desc(papers.publishedDate),
+            columns: { id: true },
+            limit: n,
+          })
+        : [],
+      searchVideos
+        ? db_.query.videos.findMany({
+            where: sqlFilters.video,
+            orderBy: desc(videos.publishedDate),
+            columns: { id: true },
+            limit: n,
+          })
+        : [],
+      searchNasa
+        ? db_.query.nasaContent.findMany({
+            where: sqlFilters.nasa,
+            orderBy: desc(nasaContent.date),
+            columns: { id: true },
+            limit: n,
+          })
+        : [],
     ]);
-
-    const anyFtsResults = ftsPapers.length > 0 || ftsVideos.length > 0 || ftsNasa.length > 0 || ftsTranslations.length > 0;
-    if (anyFtsResults) {
-      ftsHandled = true;
-      for (const r of ftsPapers) { paperIds.push(r.id); paperScores[r.id] = r.score; }
-      for (const r of ftsVideos) { videoIds.push(r.id); videoScores[r.id] = r.score; }
-      for (const r of ftsNasa) { nasaIds.push(r.id); nasaScores[r.id] = r.score; }
-      // translations_fts returns item_id; look up item_type from a second query
-      if (ftsTranslations.length > 0) {
-        const transIds = ftsTranslations.map((r) => r.id);
-        const transRows = await db_.query.translations.findMany({
-          where: and(
-            eq(translations.lang, locale),
-            inArray(translations.itemId, transIds),
-          ),
-          columns: { itemType: true, itemId: true },
-        });
-        for (const t of transRows) {
-          const ftsMatch = ftsTranslations.find((r) => r.id === t.itemId);
-          const score = ftsMatch?.score ?? 0.7;
-          if (t.itemType === "paper" && searchPapers) {
-            paperIds.push(t.itemId);
-            if (!paperScores[t.itemId]) paperScores[t.itemId] = score;
-          } else if (t.itemType === "video" && searchVideos) {
-            videoIds.push(t.itemId);
-            if (!videoScores[t.itemId]) videoScores[t.itemId] = score;
-          } else if (t.itemType === "nasa" && searchNasa) {
-            nasaIds.push(t.itemId);
-            if (!nasaScores[t.itemId]) nasaScores[t.itemId] = score;
-          }
+    noteDepth(filterPapers).forEach((p) => addHit(keywordHits.paper, p.id, 0.5));
+    noteDepth(filterVideos).forEach((v) => addHit(keywordHits.video, v.id, 0.5));
+    noteDepth(filterNasa).forEach((item) => addHit(keywordHits.nasa, item.id, 0.5));
+    ftsHandled = true;
+  } else {
+    try {
+      const ftsFilters: Record<ResultKind, FtsFilter | undefined> = {
+        paper: compileFtsFilter("paper", sqlFilters.paper),
+        video: compileFtsFilter("video", sqlFilters.video),
+        nasa: compileFtsFilter("nasa", sqlFilters.nasa),
+      };
+      // translations_fts holds every content type; with filters it is searched once per type,
+      // joined to that type's table (unfiltered types join on a condition that always holds)
+      const searchTranslationsFts = async (): Promise<FtsResult[]> => {
+        if (!ftsFilters.paper && !ftsFilters.video && !ftsFilters.nasa) {
+          return noteDepth(await ftsSearch(ftsClient, "translations_fts", ftsQuery, n * 3), n * 3);
+        }
+        const kindsToSearch = (["paper", "video", "nasa"] as const).filter((kind) =>
+          kind === "paper" ? searchPapers : kind === "video" ? searchVideos : searchNasa
+        );
+        const results = await Promise.all(kindsToSearch.map((kind) =>
+          ftsSearch(
+            ftsClient,
+            "translations_fts",
+            ftsQuery,
+            n * 3,
+            ftsFilters[kind] ?? compileFtsFilter(kind, sql`1`),
+          ).then((found) => noteDepth(found, n * 3))
+        ));
+        return results.flat();
+      };
+      const [ftsPapers, ftsVideos, ftsNasa, ftsTranslations] = await Promise.all([
+        searchPapers
+          ? ftsSearch(ftsClient, "papers_fts", ftsQuery, n, ftsFilters.paper)
+          : Promise.resolve([]),
+        searchVideos
+          ? ftsSearch(ftsClient, "videos_fts", ftsQuery, n, ftsFilters.video)
+          : Promise.resolve([]),
+        searchNasa
+          ? ftsSearch(ftsClient, "nasa_fts", ftsQuery, n, ftsFilters.nasa)
+          : Promise.resolve([]),
+        searchTranslations ? searchTranslationsFts() : Promise.resolve([]),
+      ]);
+
+      [ftsPapers, ftsVideos, ftsNasa].forEach((found) => noteDepth(found));
+      const anyFtsResults = ftsPapers.length > 0 || ftsVideos.length > 0 || ftsNasa.length > 0 || ftsTranslations.length > 0;
+      if (anyFtsResults) {
+        ftsHandled = true;
+        for (const r of ftsPapers) {
+          addHit(keywordHits.paper, r.id, r.score);
+          addMatches("paper", r);
+        }
+        for (const r of ftsVideos) {
+          addHit(keywordHits.video, r.id, r.score);
+          addMatches("video", r);
+        }
+        for (const r of ftsNasa) {
+          addHit(keywordHits.nasa, r.id, r.score);
+          addMatches("nasa", r);
+        }
+        // translations_fts returns item_id; look up item_type from a second query
+        if (ftsTranslations.length > 0) {
+          const transIds = ftsTranslations.map((r) => r.id);
+          const transRows = await db_.query.translations.findMany({
+            where: and(
+              eq(translations.lang, locale),
+              inArray(translations.itemId, transIds),
+            ),
+            columns: { itemType: true, itemId: true },
+          });
+          addTranslationHits(
+            transRows,
+            (itemId) => ftsTranslations.find((r) => r.id === itemId)?.score ?? 0.7,
+            ftsTranslations,
+          );
         }
       }
+    } catch {
+      // FTS tables don't exist (test env, fresh deploy) — fall through to LIKE
     }
-  } catch {
-    // FTS tables don't exist (test env, fresh deploy) — fall through to LIKE
   }
 
-  // LIKE fallback: used when FTS is unavailable or returned no results
+  // LIKE fallback: used when FTS is unavailable or returned no results.
+  // Rows come back unranked, so every hit gets the same score and keeps DB order.
   if (!ftsHandled) {
-    const keywordPatterns: string[] = [`%${trimmed}%`];
-    if (hasChinese && trimmed.length >= 2) {
-      for (let i = 0; i < trimmed.length - 1; i++) {
-        const bigram = trimmed.slice(i, i + 2);
+    const keywordPatterns: string[] = [`%${text}%`, ...parsed.phrases.map((p) => `%${p}%`)];
+    if (hasChinese && text.length >= 2) {
+      for (let i = 0; i < text.length - 1; i++) {
+        const bigram = text.slice(i, i + 2);
         if (/[\u4e00-\u9fff]/.test(bigram)) {
           keywordPatterns.push(`%${bigram}%`);
         }
@@ -682,25 +571,28 @@ export async function searchLibrary(params: {
       or(...columns.flatMap((col) => uniquePatterns.map((p) => like(col, p))));
 
     const [keywordPapers, keywordVideos, keywordNasa, keywordTranslations] = await Promise.all([
-      searchPapers && needsPaperFallback
+      searchPapers
         ? db_.query.papers.findMany({
-            where: buildLikeOr(papers.title, papers.summary, papers.abstract),
+            where: and(buildLikeOr(papers.title, papers.summary, papers.abstract), sqlFilters.paper),
             limit: n,
           })
         : [],
-      searchVideos && needsVideoFallback
+      searchVideos
         ? db_.query.videos.findMany({
-            where: buildLikeOr(videos.title, videos.summary),
+            where: and(buildLikeOr(videos.title, videos.summary), sqlFilters.video),
             limit: n,
           })
         : [],
-      searchNasa && needsNasaFallback
+      searchNasa
         ? db_.query.nasaContent.findMany({
-            where: buildLikeOr(nasaContent.title, nasaContent.summary, nasaContent.explanation),
+            where: and(
+              buildLikeOr(nasaContent.title, nasaContent.summary, nasaContent.explanation),
+              sqlFilters.nasa,
+            ),
             limit: n,
           })
         : [],
-      needsTranslationFallback
+      searchTranslations
         ? db_.query.translations.findMany({
             where: and(
               eq(translations.lang, locale),
@@ -711,41 +603,53 @@ export async function searchLibrary(params: {
           })
         : [],
     ]);
-    keywordPapers.forEach((p) => {
-      paperIds.push(p.id);
-      paperScores[p.id] = 0.5;
-    });
-    keywordVideos.forEach((v) => {
-      videoIds.push(v.id);
-      videoScores[v.id] = 0.5;
-    });
-    keywordNasa.forEach((item) => {
-      nasaIds.push(item.id);
-      nasaScores[item.id] = 0.5;
-    });
-    for (const t of keywordTranslations) {
-      if (t.itemType === "paper" && searchPapers) {
-        paperIds.push(t.itemId);
-        if (!paperScores[t.itemId]) paperScores[t.itemId] = 0.5;
-      } else if (t.itemType === "video" && searchVideos) {
-        videoIds.push(t.itemId);
-        if (!videoScores[t.itemId]) videoScores[t.itemId] = 0.5;
-      } else if (t.itemType === "nasa" && searchNasa) {
-        nasaIds.push(t.itemId);
-        if (!nasaScores[t.itemId]) nasaScores[t.itemId] = 0.5;
-      }
-    }
+    noteDepth(keywordPapers).forEach((p) => addHit(keywordHits.paper, p.id, 0.5));
+    noteDepth(keywordVideos).forEach((v) => addHit(keywordHits.video, v.id, 0.5));
+    noteDepth(keywordNasa).forEach((item) => addHit(keywordHits.nasa, item.id, 0.5));
+    addTranslationHits(noteDepth(keywordTranslations, n * 3), () => 0.5);
   }
 
+  // Reciprocal-rank fusion per content type. Scores are normalized by the best reachable
+  // fused score so they stay in [0, 1] and are comparable across types.
+  const rankedIds = (hits: Map<string, number>) =>
+    [...hits.entries()]
+      .map(([id, score], order) => ({ id, score, order }))
+      .sort((a, b) => (b.score - a.score) || (a.order - b.order))
+      .map((entry) => entry.id);
+  const fuse = (kind: ResultKind) => {
+    const weights = SEARCH_FUSION_WEIGHTS[kind];
+    const maxScore = maxFusedScore(weights);
+    const fused = fuseRankings(rankedIds(vectorHits[kind]), rankedIds(keywordHits[kind]), weights);
+    const scores: Record<string, number> = {};
+    const breakdowns = new Map<string, SearchScoreBreakdown>();
+    for (const { id, ...breakdown } of fused) {
+      scores[id] = maxScore > 0 ? breakdown.fusedScore / maxScore : 0;
+      breakdowns.set(id, breakdown);
+    }
+    return { ids: fused.map((f) => f.id), scores, breakdowns };
+  };
+  const fusedPapers = fuse("paper");
+  const fusedVideos = fuse("video");
+  const fusedNasa = fuse("nasa");
+  const paperIds = fusedPapers.ids;
+  const videoIds = fusedVideos.ids;
+  const nasaIds = fusedNasa.ids;
+  const paperScores = fusedPapers.scores;
+  const videoScores = fusedVideos.scores;
+  const nasaScores = fusedNasa.scores;
+
+  params.signal?.throwIfAborted();
   const [paperRows, videoRows, nasaRows] = await Promise.all([
     paperIds.length
-      ? db_.query.papers.findMany({ where: inArray(papers.id, paperIds) })
+      ? db_.query.papers.findMany({ where: and(inArray(papers.id, paperIds), sqlFilters.paper) })
       : [],
     videoIds.length
-      ? db_.query.videos.findMany({ where: inArray(videos.id, videoIds) })
+      ? db_.query.videos.findMany({ where: and(inArray(videos.id, videoIds), sqlFilters.video) })
       : [],
     nasaIds.length
-      ? db_.query.nasaContent.findMany({ where: inArray(nasaContent.id, nasaIds) })
+      ? db_.query.nasaContent.findMany({
+          where: and(inArray(nasaContent.id, nasaIds), sqlFilters.nasa),
+        })
       : [],
   ]);
 
@@ -758,36 +662,13 @@ export async function searchLibrary(params: {
   const videoOrdered = orderByIds(videoRows, videoIds);
   const nasaOrdered = orderByIds(nasaRows, nasaIds);
 
-  const toDateOnly = (value: Date | string | null | undefined): string | null => {
-    if (!value) return null;
-    const date = typeof value === "string" ? new Date(value) : value;
-    if (Number.isNaN(date.getTime())) return null;
-    return date.toISOString().slice(0, 10);
-  };
-
-  const inDateRange = (dateOnly: string | null): boolean => {
-    if (!normalizedDateFrom && !normalizedDateTo) return true;
-    if (!dateOnly) return false;
-    if (normalizedDateFrom && dateOnly < normalizedDateFrom) return false;
-    if (normalizedDateTo && dateOnly > normalizedDateTo) return false;
-    return true;
-  };
-
-  const filteredPapers = paperOrdered.filter((row) =>
-    inDateRange(toDateOnly(row.publishedDate))
-  );
-  const filteredVideos = videoOrdered.filter((row) =>
-    inDateRange(toDateOnly(row.publishedDate))
-  );
-  const filteredNasa = nasaOrdered.filter((row) => inDateRange(toDateOnly(row.date)));
-
   // Load localized title/summary from translations when not English
   const transByKey = new Map<string, { title: string | null; summary: string | null }>();
-  if (locale !== "en" && (filteredPapers.length || filteredVideos.length || filteredNasa.length)) {
+  if (locale !== "en" && (paperOrdered.length || videoOrdered.length || nasaOrdered.length)) {
     const allIds = [
-      ...filteredPapers.map((r) => ({ type: "paper" as const, id: r.id })),
-      ...filteredVideos.map((r) => ({ type: "video" as const, id: r.id })),
-      ...filteredNasa.map((r) => ({ type: "nasa" as const, id: r.id })),
+      ...paperOrdered.map((r) => ({ type: "paper" as const, id: r.id })),
+      ...videoOrdered.map((r) => ({ type: "video" as const, id: r.id })),
+      ...nasaOrdered.map((r) => ({ type: "nasa" as const, id: r.id })),
     ];
     const transRows = await db_.query.translations.findMany({
       where: and(
@@ -807,14 +688,32 @@ export async function searchLibrary(params: {
   const getTrans = (itemType: "paper" | "video" | "nasa", id: string) =>
     transByKey.get(`${itemType}:${id}`);
 
+  // Texts each result's snippet may be cut from, the localized summary first
+  const snippetSources = new Map<string, SnippetSource[]>();
+  const setSnippetSources = (
+    kind: ResultKind,
+    id: string,
+    fields: [SnippetField, string | null | undefined][],
+  ) => {
+    const translated = getTrans(kind, id)?.summary;
+    snippetSources.set(
+      `${kind}:${id}`,
+      ([["translation", translated], ...fields] as [SnippetField, string | null | undefined][])
+        .filter(([, value]) => value?.trim())
+        .map(([field, value]) => ({ field, text: value as string })),
+    );
+  };
+
   const toPaperItem = (row: (typeof paperRows)[0]): SearchResultItem => {
     const trans = getTrans("paper", row.id);
+    setSnippetSources("paper", row.id, [["summary", row.summary], ["abstract", row.abstract]]);
     return {
       type: "paper",
       id: row.id,
       title: (trans?.title ?? row.title) || row.title,
       snippet: (trans?.summary ?? row.summary ?? row.abstract?.slice(0, 200)) ?? undefined,
       score: paperScores[row.id],
+      scoreBreakdown: fusedPapers.breakdowns.get(row.id),
       url: row.arxivUrl ?? row.pdfUrl ?? undefined,
       publishedDate: row.publishedDate ? new Date(row.publishedDate).toISOString().slice(0, 10) : undefined,
       meta: { authors: row.authors, categories: row.categories },
@@ -822,12 +721,18 @@ export async function searchLibrary(params: {
   };
   const toVideoItem = (row: (typeof videoRows)[0]): SearchResultItem => {
     const trans = getTrans("video", row.id);
+    setSnippetSources("video", row.id, [
+      ["summary", row.summary],
+      ["description", row.description],
+      ["transcript", row.transcript],
+    ]);
     return {
       type: "video",
       id: row.id,
       title: (trans?.title ?? row.title) || row.title,
       snippet: (trans?.summary ?? row.summary ?? row.description?.slice(0, 200)) ?? undefined,
       score: videoScores[row.id],
+      scoreBreakdown: fusedVideos.breakdowns.get(row.id),
       url: row.videoUrl,
       publishedDate: row.publishedDate ? new Date(row.publishedDate).toISOString().slice(0, 10) : undefined,
       meta: { channelName: row.channelName },
@@ -835,37 +740,29 @@ export async function searchLibrary(params: {
   };
   const toNasaItem = (row: (typeof nasaRows)[0]): SearchResultItem => {
     const trans = getTrans("nasa", row.id);
+    setSnippetSources("nasa", row.id, [
+      ["summary", row.summary],
+      ["explanation", row.explanation],
+      ["description", row.description],
+    ]);
     return {
       type: "nasa",
       id: row.id,
       title: (trans?.title ?? row.title) || row.title,
       snippet: (trans?.summary ?? row.summary ?? row.explanation ?? row.description?.slice(0, 200)) ?? undefined,
       score: nasaScores[row.id],
+      scoreBreakdown: fusedNasa.breakdowns.get(row.id),
       url: row.url,
       publishedDate: row.date ? new Date(row.date).toISOString().slice(0, 10) : undefined,
-      meta: { contentType: row.contentType },
+      meta: { contentType: row.contentType, center: row.center },
     };
   };
 
   const tokenizeQuery = (query: string): string[] => {
     const lower = query.toLowerCase();
-    const terms: string[] = [];
-
-    // Check for Chinese keywords and expand to English equivalents
-    for (const [chinese, english] of Object.entries(keywordMappings)) {
-      if (lower.includes(chinese.toLowerCase()) || lower.includes(chinese)) {
-        terms.push(...english);
-      }
-    }
-
-    // English→Chinese expansion for cross-language reranking
-    if (hasLatin && locale !== "en") {
-      for (const [chinese, englishTerms] of Object.entries(keywordMappings)) {
-        if (englishTerms.some((en) => lower.includes(en.toLowerCase()))) {
-          terms.push(chinese);
-        }
-      }
-    }
+    // Chinese keywords expand to English equivalents, and English ones to Chinese for
+    // cross-language reranking
+    const terms: string[] = expandQuery(query, terminologyTerms, { toChinese });
 
     if (/[\u4e00-\u9fff]/.test(lower)) {
       // Split Chinese text into individual characters and overlapping bigrams
@@ -898,19 +795,32 @@ export async function searchLibrary(params: {
   };
 
   const rerank = (items: SearchResultItem[], keepLowRelevance = false): SearchResultItem[] => {
-    const terms = tokenizeQuery(trimmed);
+    const terms = tokenizeQuery(text);
     const scored = items
       .map((item, index) => {
         const baseScore = Math.max(0, Math.min(1, item.score ?? 0));
         const haystack = `${item.title} ${item.snippet ?? ""}`.toLowerCase();
         const keywordScore = computeKeywordScore(haystack, terms);
-        // Higher weight for keyword match when vector score is low
+        // Blend the fused rank score with literal query-term overlap
         const combined = terms.length
           ? baseScore * 0.5 + keywordScore * 0.5
           : baseScore;
         const isLowRelevance = combined < MIN_RELEVANCE_SCORE;
+        // The result's score is calibrated so it can be ranked against other types
+        const similarity = vectorHits[item.type].get(item.id);
+        const score = calibrateScore(
+          {
+            typeScore: combined,
+            similarity: similarity ?? null,
+            keywordScore: terms.length ? keywordScore : null,
+          },
+          SEARCH_TYPE_BOOSTS[item.type],
+        );
+        const scoreBreakdown = item.scoreBreakdown
+          ? { ...item.scoreBreakdown, keywordScore, similarity, typeScore: combined }
+          : undefined;
         return {
-          item: { ...item, score: combined, lowRelevance: isLowRelevance },
+          item: { ...item, score, lowRelevance: isLowRelevance, scoreBreakdown },
           index,
           combined,
           isLowRelevance
@@ -930,55 +840,165 @@ export async function searchLibrary(params: {
   };
 
   // First pass: only high-relevance results
-  let paperItems = rerank(filteredPapers.map(toPaperItem), false);
-  let videoItems = rerank(filteredVideos.map(toVideoItem), false);
-  let nasaItems = rerank(filteredNasa.map(toNasaItem), false);
+  let paperItems = rerank(paperOrdered.map(toPaperItem), false);
+  let videoItems = rerank(videoOrdered.map(toVideoItem), false);
+  let nasaItems = rerank(nasaOrdered.map(toNasaItem), false);
 
   const hasHighRelevance = paperItems.length > 0 || videoItems.length > 0 || nasaItems.length > 0;
   let showingRelated = false;
 
   // If no high-relevance results, show low-relevance items marked as "related"
   if (!hasHighRelevance) {
-    paperItems = rerank(filteredPapers.map(toPaperItem), true);
-    videoItems = rerank(filteredVideos.map(toVideoItem), true);
-    nasaItems = rerank(filteredNasa.map(toNasaItem), true);
+    paperItems = rerank(paperOrdered.map(toPaperItem), true);
+    videoItems = rerank(videoOrdered.map(toVideoItem), true);
+    nasaItems = rerank(nasaOrdered.map(toNasaItem), true);
     showingRelated = paperItems.length > 0 || videoItems.length > 0 || nasaItems.length > 0;
   }
 
-  // Combine all results and sort by score for pagination
-  const allItems = [
-    ...paperItems,
-    ...videoItems,
-    ...nasaItems,
-  ].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+  // Facet counts cover every candidate; the selected facets then narrow the results
+  const candidates = [...paperItems, ...videoItems, ...nasaItems];
+  const facets = computeFacets(candidates, facetSelection);
+
+  // Rank all results together by calibrated score; ties are ordered by key so a cursor
+  // position is unambiguous. Diversity then reorders the first SEARCH_DIVERSITY.window.
+  const resultKey = (item: SearchResultItem) => `${item.type}:${item.id}`;
+  const allItems = diversify(
+    candidates
+      .filter((item) => matchesFacets(item, facetSelection))
+      .sort((a, b) =>
+        (b.score ?? 0) - (a.score ?? 0) || resultKey(a).localeCompare(resultKey(b))
+      ),
+    SEARCH_DIVERSITY,
+  );
+
+  // Not enough candidates for the page yet, but the retrievers were cut off: go deeper
+  if (allItems.length < requestedResults && saturated && n < MAX_RETRIEVAL_DEPTH) {
+    return await searchAtDepth(params, deps, Math.min(MAX_RETRIEVAL_DEPTH, n * 2));
+  }
 
   const totalItems = allItems.length;
   const totalPages = Math.ceil(totalItems / perPage);
-  const currentPage = Math.max(1, Math.min(page, totalPages || 1));
-  const startIndex = (currentPage - 1) * perPage;
+  let startIndex: number;
+  if (cursor) {
+    // Resume right after the last result returned, wherever it ranks now. The diversified
+    // head is not in score order, so a cursor inside it resumes after the item's key.
+    const { score, key } = cursor.after;
+    const head = Math.min(SEARCH_DIVERSITY.window, totalItems);
+    let next: number;
+    if (cursor.offset <= head) {
+      const last = allItems.findIndex((item) => resultKey(item) === key);
+      next = last === -1 ? cursor.offset : last + 1;
+    } else {
+      next = allItems.findIndex((item, index) =>
+        index >= head &&
+        ((item.score ?? 0) < score || ((item.score ?? 0) === score && resultKey(item) > key))
+      );
+    }
+    startIndex = next === -1 ? totalItems : next;
+  } else {
+    startIndex = (Math.max(1, Math.min(page, totalPages || 1)) - 1) * perPage;
+  }
+  const currentPage = Math.floor((cursor?.offset ?? startIndex) / perPage) + 1;
   const endIndex = startIndex + perPage;
 
   // Paginate the combined results
   const paginatedItems = allItems.slice(startIndex, endIndex);
+  const lastItem = paginatedItems[paginatedItems.length - 1];
+  const hasNext = endIndex < totalItems;
+  const nextCursor = hasNext && lastItem
+    ? encodeSearchCursor({
+      query: fingerprint,
+      depth: n,
+      offset: (cursor?.offset ?? startIndex) + paginatedItems.length,
+      after: { score: lastItem.score ?? 0, key: resultKey(lastItem) },
+    })
+    : undefined;
+
+  // Query-aware snippets and match explanations, built for the returned page only. Keyword
+  // matches pick the passage with the most query terms; vector hits without one get the
+  // sentence closest to the query in embedding space.
+  const queryTerms = [...parsed.phrases, ...ftsTerms];
+  const snippetFields = (snippet: Snippet | undefined) => ({
+    snippet: snippet?.text,
+    snippetField: snippet?.field,
+    highlights: snippet?.highlights,
+  });
+  const sentenceTargets: { index: number; source: SnippetSource; sentences: string[] }[] = [];
+  const pageItems = paginatedItems.map((item, index): SearchResultItem => {
+    const sources = snippetSources.get(`${item.type}:${item.id}`) ?? [];
+    const matches = keywordMatches[item.type].get(item.id) ?? new Map<MatchedField, Set<string>>();
+    const terms = [
+      ...new Set([...queryTerms, ...[...matches.values()].flatMap((texts) => [...texts])]),
+    ];
+    const fields = new Set<MatchedField>(matches.keys());
+    if (containsTerms(item.title, terms)) fields.add("title");
+    for (const source of sources) {
+      if (containsTerms(source.text, terms)) fields.add(source.field);
+    }
+    if (vectorHits[item.type].has(item.id)) fields.add("semantic");
+
+    let snippet = keywordSnippet(sources, terms, snippetChars) ?? undefined;
+    if (!snippet && sources.length) {
+      snippet = sentenceSnippet(sources[0], 0, snippetChars);
+      if (text && vectorHits[item.type].has(item.id) && sources[0].text.length > snippetChars) {
+        const sentences = splitSentences(sources[0].text)
+          .slice(0, MAX_SNIPPET_SENTENCES)
+          .map((range) => sources[0].text.slice(range.start, range.end));
+        if (sentences.length > 1) sentenceTargets.push({ index, source: sources[0], sentences });
+      }
+    }
+    return {
+      ...item,
+      ...snippetFields(snippet),
+      matchedFields: MATCHED_FIELD_ORDER.filter((field) => fields.has(field)),
+    };
+  });
+  params.signal?.throwIfAborted();
+  if (sentenceTargets.length) {
+    try {
+      const [queryVector, ...sentenceVectors] = await embed_([
+        text,
+        ...sentenceTargets.flatMap((target) => target.sentences),
+      ]);
+      let offset = 0;
+      for (const target of sentenceTargets) {
+        const similarities = target.sentences.map((_, i) =>
+          cosineSimilarity(queryVector, sentenceVectors[offset + i])
+        );
+        offset += target.sentences.length;
+        const best = similarities.indexOf(Math.max(...similarities));
+        Object.assign(
+          pageItems[target.index],
+          snippetFields(sentenceSnippet(target.source, best, snippetChars)),
+        );
+      }
+    } catch {
+      // Embedding provider unavailable — keep the leading passages
+    }
+  }
 
   // Split paginated items back by type
-  const paginatedPapers = paginatedItems.filter((item): item is SearchResultItem => item.type === "paper");
-  const paginatedVideos = paginatedItems.filter((item): item is SearchResultItem => item.type === "video");
-  const paginatedNasa = paginatedItems.filter((item): item is SearchResultItem => item.type === "nasa");
+  const paginatedPapers = pageItems.filter((item): item is SearchResultItem => item.type === "paper");
+  const paginatedVideos = pageItems.filter((item): item is SearchResultItem => item.type === "video");
+  const paginatedNasa = pageItems.filter((item): item is SearchResultItem => item.type === "nasa");
 
   return {
     query: trimmed,
     papers: paginatedPapers,
     videos: paginatedVideos,
     nasa: paginatedNasa,
+    results: pageItems,
     total: totalItems,
+    totalExact: !saturated,
+    facets,
     showingRelated,
     pagination: {
       page: currentPage,
       perPage,
       totalPages,
-      hasNext: currentPage < totalPages,
-      hasPrev: currentPage > 1,
+      hasNext,
+      hasPrev: (cursor?.offset ?? startIndex) > 0,
+      nextCursor,
     },
   };
 }
@@ -0,0 +1,57 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import {
+  containsTerms,
+  keywordSnippet,
+  sentenceSnippet,
+  type Snippet,
+  splitSentences,
+} from "./snippets.ts";
+
+const marked = (snippet: Snippet | null) =>
+  snippet?.highlights.map((range) => snippet.text.slice(range.start, range.end));
+
+Deno.test("snippets: the passage with the most distinct terms wins, cut with ellipses", () => {
+  const text = "Stars form in clouds. A dark halo surrounds it. " +
+    "The dark matter halo of the galaxy was mapped with lensing. Spectra followed later.";
+  const snippet = keywordSnippet([{ field: "abstract", text }], ["dark", "matter", "halo"], 70);
+  assertEquals(snippet?.field, "abstract");
+  assertEquals(snippet?.text, "…The dark matter halo of the galaxy was mapped with lensing.…");
+  assertEquals(marked(snippet), ["dark", "matter", "halo"]);
+});
+
+Deno.test("snippets: Latin terms match whole words, Han terms anywhere", () => {
+  assertEquals(containsTerms("Starlight from a superstar", ["star"]), false);
+  assertEquals(containsTerms("A STAR, observed", ["star"]), true);
+  // Overlapping bigram matches merge into one highlight
+  const snippet = keywordSnippet(
+    [{ field: "translation", text: "液態氫渦輪泵的誘導輪試驗。" }],
+    ["渦輪", "輪泵"],
+  );
+  assertEquals(marked(snippet), ["渦輪泵"]);
+  assertEquals(snippet?.highlights, [{ start: 3, end: 6 }]);
+});
+
+Deno.test("snippets: earlier sources win ties, and no match means no keyword snippet", () => {
+  const sources = [
+    { field: "translation" as const, text: "暗物質暈的分布。" },
+    { field: "summary" as const, text: "Dark matter halo distribution." },
+  ];
+  assertEquals(keywordSnippet(sources, ["暗物質", "dark matter"])?.field, "translation");
+  assertEquals(keywordSnippet(sources, ["quasar"]), null);
+});
+
+Deno.test("snippets: sentence snippets start at the chosen sentence", () => {
+  const text = "First sentence here. Second one follows! Third, in Chinese: 第三句。第四句。";
+  assertEquals(splitSentences(text).map((r) => text.slice(r.start, r.end).trim()), [
+    "First sentence here.",
+    "Second one follows!",
+    "Third, in Chinese: 第三句。",
+    "第四句。",
+  ]);
+  const source = { field: "summary" as const, text };
+  assertEquals(
+    sentenceSnippet(source, 1, 45).text,
+    "…Second one follows! Third, in Chinese: 第三句。…",
+  );
+  assertEquals(sentenceSnippet(source, 0, 500).text, text);
+});
@@ -0,0 +1,214 @@
+/**
+ * Query-aware result snippets: the passage of an item's text that best shows why it matched,
+ * with the matched terms returned as offsets for the UI to wrap in <mark>.
+ */
+
+/** Half-open [start, end) range in UTF-16 code units, i.e. JavaScript string indices. */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/** Item text a snippet can be cut from. */
+export type SnippetField =
+  | "translation"
+  | "summary"
+  | "abstract"
+  | "explanation"
+  | "description"
+  | "transcript";
+
+export interface SnippetSource {
+  field: SnippetField;
+  text: string;
+}
+
+export interface Snippet {
+  text: string;
+  field: SnippetField;
+  /** Matched terms within `text`, sorted and non-overlapping. */
+  highlights: TextRange[];
+}
+
+export const DEFAULT_SNIPPET_CHARS = 240;
+const ELLIPSIS = "…";
+/** How far a cut may move to land on whitespace instead of splitting a word. */
+const WORD_SNAP_CHARS = 20;
+
+interface TermRange extends TextRange {
+  term: number;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Letters and digits outside Han script, which only match at word boundaries. */
+function isWordEdge(char: string): boolean {
+  return /[\p{L}\p{N}]/u.test(char) && !/\p{Script=Han}/u.test(char);
+}
+
+/**
+ * Where the terms occur in `text`, case-insensitively. Terms that start or end with a letter
+ * or digit outside Han script only match whole words, like the FTS5 tokenizer does.
+ */
+function termRanges(text: string, terms: string[]): TermRange[] {
+  const ranges: TermRange[] = [];
+  terms.forEach((term, index) => {
+    const trimmed = term.trim();
+    if (!trimmed) return;
+    const chars = [...trimmed];
+    const pattern = (isWordEdge(chars[0]) ? "(?<![\\p{L}\\p{N}])" : "") + escapeRegExp(trimmed) +
+      (isWordEdge(chars[chars.length - 1]) ? "(?![\\p{L}\\p{N}])" : "");
+    for (const match of text.matchAll(new RegExp(pattern, "giu"))) {
+      ranges.push({ start: match.index, end: match.index + match[0].length, term: index });
+    }
+  });
+  return ranges.sort((a, b) => a.start - b.start || b.end - a.end);
+}
+
+/** Sorted ranges with overlaps merged, so highlights never nest. */
+function mergeRanges(ranges: TextRange[]): TextRange[] {
+  const merged: TextRange[] = [];
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && range.start < last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ start: range.start, end: range.end });
+  }
+  return merged;
+}
+
+/** Whether any of the terms occurs in the text (whole words for Latin terms). */
+export function containsTerms(text: string, terms: string[]): boolean {
+  return termRanges(text, terms).length > 0;
+}
+
+/** Sentence spans of `text`: split after . ! ? before whitespace, after 。！？ and at newlines. */
+export function splitSentences(text: string): TextRange[] {
+  const sentences: TextRange[] = [];
+  let start = 0;
+  for (const match of text.matchAll(/[.!?]+(?=\s)|[。！？]+|\n+/g)) {
+    const end = match.index + match[0].length;
+    if (text.slice(start, end).trim()) sentences.push({ start, end });
+    start = end;
+  }
+  if (text.slice(start).trim()) sentences.push({ start, end: text.length });
+  return sentences;
+}
+
+/** Move a cut onto nearby whitespace so it does not split a word. */
+function snapWindow(text: string, start: number, end: number): TextRange {
+  if (start > 0 && /\S/.test(text[start - 1])) {
+    const space = text.slice(start, start + WORD_SNAP_CHARS).search(/\s/);
+    if (space !== -1) start += space + 1;
+  }
+  if (end < text.length && /\S/.test(text[end])) {
+    const before = text.slice(Math.max(start, end - WORD_SNAP_CHARS), end);
+    const space = before.search(/\s\S*$/);
+    if (space !== -1) end -= before.length - space;
+  }
+  return { start, end };
+}
+
+/** The window of whole sentences starting at `sentence`, or a plain cut if it is too long. */
+function sentenceWindow(
+  text: string,
+  sentences: TextRange[],
+  sentence: number,
+  maxChars: number,
+): TextRange {
+  const start = sentences[sentence].start;
+  let end = sentences[sentence].end;
+  if (end - start > maxChars) return snapWindow(text, start, start + maxChars);
+  for (let next = sentence + 1; next < sentences.length; next++) {
+    if (sentences[next].end - start > maxChars) break;
+    end = sentences[next].end;
+  }
+  return { start, end };
+}
+
+function toSnippet(
+  source: SnippetSource,
+  window: TextRange,
+  ranges: TextRange[],
+): Snippet {
+  const { text } = source;
+  let { start, end } = window;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  const prefix = start > 0 ? ELLIPSIS : "";
+  const suffix = end < text.length ? ELLIPSIS : "";
+  const highlights = mergeRanges(ranges)
+    .filter((range) => range.start >= start && range.end <= end)
+    .map((range) => ({
+      start: range.start - start + prefix.length,
+      end: range.end - start + prefix.length,
+    }));
+  return { text: prefix + text.slice(start, end) + suffix, field: source.field, highlights };
+}
+
+/** Lexicographic comparison of two equal-length score tuples. */
+function compareScores(a: number[], b: number[]): number {
+  const i = a.findIndex((value, index) => value !== b[index]);
+  return i === -1 ? 0 : a[i] - b[i];
+}
+
+/**
+ * The passage with the most distinct matched terms across the sources (then whole sentences
+ * over a cut, then the most matches),
+ * or null when no term occurs in any of them. Ties go to the earlier source, so list the text
+ * shown to the reader first.
+ */
+export function keywordSnippet(
+  sources: SnippetSource[],
+  terms: string[],
+  maxChars = DEFAULT_SNIPPET_CHARS,
+): Snippet | null {
+  let best: { score: number[]; snippet: Snippet } | null = null;
+  for (const source of sources) {
+    const ranges = termRanges(source.text, terms);
+    if (!ranges.length) continue;
+    const sentences = splitSentences(source.text);
+    // Candidate windows: whole sentences from each sentence start, and a cut around each match
+    const windows = [
+      ...sentences.map((_, i) => ({
+        ...sentenceWindow(source.text, sentences, i, maxChars),
+        aligned: sentences[i].end - sentences[i].start <= maxChars,
+      })),
+      ...ranges.map((range) => {
+        const start = Math.max(0, range.start - Math.floor(maxChars / 4));
+        return {
+          ...snapWindow(source.text, start, Math.min(source.text.length, start + maxChars)),
+          aligned: false,
+        };
+      }),
+    ];
+    for (const window of windows) {
+      const inside = ranges.filter((range) =>
+        range.start >= window.start && range.end <= window.end
+      );
+      // Most distinct terms, then whole sentences over a cut, then most matches
+      const score = [
+        new Set(inside.map((range) => range.term)).size,
+        +window.aligned,
+        inside.length,
+      ];
+      if (!best || compareScores(score, best.score) > 0) {
+        best = { score, snippet: toSnippet(source, window, inside) };
+      }
+    }
+  }
+  return best?.snippet ?? null;
+}
+
+/** The passage starting at the given sentence of `source` (the lead when it is 0). */
+export function sentenceSnippet(
+  source: SnippetSource,
+  sentence = 0,
+  maxChars = DEFAULT_SNIPPET_CHARS,
+): Snippet {
+  const sentences = splitSentences(source.text);
+  if (!sentences.length) return { text: source.text.trim(), field: source.field, highlights: [] };
+  const index = Math.min(Math.max(0, sentence), sentences.length - 1);
+  return toSnippet(source, sentenceWindow(source.text, sentences, index, maxChars), []);
+}
@@ -0,0 +1,78 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { translateSummaryCall } from "./ai/processor.ts";
+import {
+  checkTerminology,
+  DEFAULT_TERMINOLOGY,
+  expandQuery,
+  findEnglishTerms,
+  glossaryFor,
+  type TermEntry,
+} from "./terminology.ts";
+
+const terms: TermEntry[] = [
+  { en: "turbopump", zhTw: "渦輪泵", zhCn: "涡轮泵", domain: "propulsion" },
+  { en: "payload", zhTw: "酬載", zhCn: "有效载荷", domain: "propulsion" },
+  { en: "star", zhTw: "恆星", zhCn: "恒星", domain: "astronomy" },
+  { en: "neutron star", zhTw: "中子星", zhCn: "中子星", domain: "astronomy" },
+  { en: "IR", zhTw: "紅外線", zhCn: "红外", domain: "instruments" },
+];
+
+Deno.test("terminology: English terms match whole words, plurals and acronyms by case", () => {
+  const found = (text: string) => findEnglishTerms(text, terms).map((term) => term.en);
+  assertEquals(found("Two turbopumps feed the engine."), ["turbopump"]);
+  assertEquals(found("A neutron star merger"), ["neutron star"]);
+  assertEquals(found("A star and a neutron star"), ["star", "neutron star"]);
+  assertEquals(found("IR imaging by Ir. Smith"), ["IR"]);
+  assertEquals(found("Payloads in the fairing"), ["payload"]);
+  assertEquals(found("superstar"), []);
+});
+
+Deno.test("terminology: glossaries list only the terms present, in the target locale", () => {
+  assertEquals(
+    glossaryFor("The payload rode on a turbopump-fed stage.", "zh-CN", terms),
+    "TERMINOLOGY (use these renderings):\n- turbopump → 涡轮泵\n- payload → 有效载荷",
+  );
+  assertEquals(glossaryFor("Nothing to see here.", "zh-TW", terms), "");
+
+  const call = translateSummaryCall("A turbopump study.", "Traditional Chinese", terms);
+  assertEquals(call.prompt.includes("- turbopump → 渦輪泵"), true);
+  assertEquals(
+    translateSummaryCall("A turbopump study.", "Traditional Chinese").prompt.includes(
+      "TERMINOLOGY",
+    ),
+    false,
+  );
+});
+
+Deno.test("terminology: query expansion works in both directions", () => {
+  assertEquals(expandQuery("渦輪泵 故障", terms), ["turbopump"]);
+  assertEquals(expandQuery("涡轮泵", terms), ["turbopump"]);
+  assertEquals(expandQuery("payload mass", terms), []);
+  assertEquals(expandQuery("payload mass", terms, { toChinese: true }), ["酬載", "有效载荷"]);
+});
+
+Deno.test("terminology: checker flags source terms missing their preferred rendering", () => {
+  const source = "The turbopump and payload of a neutron star mission.";
+  assertEquals(
+    checkTerminology({
+      source,
+      translation: "渦輪泵與有效載荷的中子星任務。",
+      locale: "zh-TW",
+      terms,
+    }),
+    [{ en: "payload", expected: "酬載" }],
+  );
+  assertEquals(
+    checkTerminology({ source, translation: "渦輪泵、酬載與中子星。", locale: "zh-TW", terms }),
+    [],
+  );
+  assertEquals(
+    checkTerminology({ source: "A turbopump.", translation: "渦輪泵。", locale: "zh-CN", terms }),
+    [{ en: "turbopump", expected: "涡轮泵", found: "渦輪泵" }],
+  );
+});
+
+Deno.test("terminology: built-in terms have one entry per English term", () => {
+  const english = DEFAULT_TERMINOLOGY.map((term) => term.en.toLowerCase());
+  assertEquals(new Set(english).size, english.length);
+});
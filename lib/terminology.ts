@@ -0,0 +1,590 @@
+/**
+ * Bilingual terminology base: the preferred zh-TW and zh-CN rendering of English terms, stored in
+ * the `terminology` table and edited with `deno task terminology`. One list serves three jobs:
+ * - the terms found in a text are listed in its translation prompt (lib/ai/processor.ts);
+ * - cross-language query expansion in search (lib/search.ts);
+ * - checking translations for terms not rendered the preferred way (checkTerminology).
+ * While the table is empty (or unreachable), the built-in DEFAULT_TERMINOLOGY applies.
+ */
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { db } from "../db/client.ts";
+import { type NewTerm, terminology, translations } from "../db/schema.ts";
+
+export type TermEntry = Pick<NewTerm, "en" | "zhTw" | "zhCn" | "notes" | "domain">;
+
+export type TermLocale = "zh-TW" | "zh-CN";
+
+// Built-in terms by domain as [en, zh-TW, zh-CN]; `deno task terminology seed` copies them into
+// the table. Several English synonyms may share one rendering; each English term appears once.
+const DEFAULT_TERMS: Record<string, Array<[string, string, string]>> = {
+  propulsion: [
+    ["rocket", "火箭", "火箭"],
+    ["launch vehicle", "運載火箭", "运载火箭"],
+    ["engine", "引擎", "发动机"],
+    ["rocket motor", "火箭發動機", "火箭发动机"],
+    ["propulsion", "推進", "推进"],
+    ["thruster", "推進器", "推进器"],
+    ["propulsion system", "推進系統", "推进系统"],
+    ["thrust", "推力", "推力"],
+    ["fuel", "燃料", "燃料"],
+    ["propellant", "推進劑", "推进剂"],
+    ["oxidizer", "氧化劑", "氧化剂"],
+    ["liquid oxygen", "液態氧", "液态氧"],
+    ["LOX", "液態氧", "液态氧"],
+    ["liquid hydrogen", "液態氫", "液态氢"],
+    ["LH2", "液態氫", "液态氢"],
+    ["solid propellant", "固態推進劑", "固体推进剂"],
+    ["solid fuel", "固態燃料", "固态燃料"],
+    ["combustion chamber", "燃燒室", "燃烧室"],
+    ["nozzle", "噴嘴", "喷管"],
+    ["exhaust nozzle", "噴管", "喷管"],
+    ["turbopump", "渦輪泵", "涡轮泵"],
+    ["booster", "助推器", "助推器"],
+    ["strap-on booster", "捆綁式助推器", "捆绑式助推器"],
+    ["stage", "級", "级"],
+    ["multistage rocket", "多級火箭", "多级火箭"],
+    ["specific impulse", "比衝", "比冲"],
+    ["Isp", "比衝", "比冲"],
+    ["parachute", "降落傘", "降落伞"],
+    ["recovery", "回收", "回收"],
+    ["reusable", "可重複使用", "可重复使用"],
+    ["reentry", "再入", "再入"],
+    ["re-entry", "再入", "再入"],
+    ["heat shield", "隔熱罩", "防热罩"],
+    ["thermal protection", "熱防護", "热防护"],
+    ["fairing", "整流罩", "整流罩"],
+    ["payload fairing", "酬載整流罩", "有效载荷整流罩"],
+    ["ignition", "點火", "点火"],
+    ["launch", "發射", "发射"],
+    ["liftoff", "升空", "起飞"],
+    ["launch pad", "發射台", "发射台"],
+    ["launch site", "發射場", "发射场"],
+    ["payload", "酬載", "有效载荷"],
+  ],
+  orbital: [
+    ["outer space", "太空", "太空"],
+    ["aerospace", "航太", "航天"],
+    ["orbit", "軌道", "轨道"],
+    ["orbital", "軌道", "轨道"],
+    ["orbit insertion", "入軌", "入轨"],
+    ["orbital insertion", "入軌", "入轨"],
+    ["low Earth orbit", "近地軌道", "近地轨道"],
+    ["LEO", "近地軌道", "近地轨道"],
+    ["geosynchronous", "地球同步", "地球同步"],
+    ["geostationary", "地球靜止", "地球静止"],
+    ["GEO", "地球同步軌道", "地球同步轨道"],
+    ["transfer orbit", "轉移軌道", "转移轨道"],
+    ["Hohmann", "霍曼", "霍曼"],
+    ["deorbit", "脫離軌道", "离轨"],
+    ["de-orbit", "脫離軌道", "离轨"],
+    ["satellite", "衛星", "卫星"],
+    ["space station", "太空站", "空间站"],
+    ["space shuttle", "太空梭", "航天飞机"],
+    ["spacecraft", "太空船", "航天器"],
+    ["spaceship", "太空船", "飞船"],
+    ["capsule", "太空艙", "太空舱"],
+    ["space capsule", "太空艙", "太空舱"],
+    ["docking", "對接", "对接"],
+    ["rendezvous", "交會", "交会"],
+    ["spacewalk", "太空漫步", "太空行走"],
+    ["EVA", "艙外活動", "舱外活动"],
+    ["extravehicular activity", "艙外活動", "舱外活动"],
+    ["astronaut", "太空人", "航天员"],
+    ["cosmonaut", "太空人", "航天员"],
+    ["spacesuit", "太空衣", "航天服"],
+    ["EVA suit", "艙外太空衣", "舱外航天服"],
+    ["weightlessness", "失重", "失重"],
+    ["zero gravity", "零重力", "零重力"],
+    ["microgravity", "微重力", "微重力"],
+  ],
+  astronomy: [
+    ["astronomy", "天文學", "天文学"],
+    ["astronomical", "天文", "天文"],
+    ["astrophysics", "天文物理", "天体物理"],
+    ["universe", "宇宙", "宇宙"],
+    ["cosmos", "宇宙", "宇宙"],
+    ["cosmology", "宇宙學", "宇宙学"],
+    ["black hole", "黑洞", "黑洞"],
+    ["star", "恆星", "恒星"],
+    ["stellar", "恆星", "恒星"],
+    ["planet", "行星", "行星"],
+    ["planetary", "行星", "行星"],
+    ["exoplanet", "系外行星", "系外行星"],
+    ["extrasolar planet", "系外行星", "系外行星"],
+    ["galaxy", "星系", "星系"],
+    ["galactic", "星系", "星系"],
+    ["nebula", "星雲", "星云"],
+    ["supernova", "超新星", "超新星"],
+    ["pulsar", "脈衝星", "脉冲星"],
+    ["neutron star", "中子星", "中子星"],
+    ["white dwarf", "白矮星", "白矮星"],
+    ["red giant", "紅巨星", "红巨星"],
+    ["dark matter", "暗物質", "暗物质"],
+    ["dark energy", "暗能量", "暗能量"],
+    ["Big Bang", "大霹靂", "大爆炸"],
+    ["redshift", "紅移", "红移"],
+    ["blueshift", "藍移", "蓝移"],
+    ["gravitational wave", "重力波", "引力波"],
+    ["gravitational lensing", "重力透鏡", "引力透镜"],
+    ["quasar", "類星體", "类星体"],
+    ["magnetar", "磁星", "磁星"],
+    ["star cluster", "星團", "星团"],
+    ["globular cluster", "球狀星團", "球状星团"],
+    ["interstellar", "星際", "星际"],
+    ["interstellar medium", "星際介質", "星际介质"],
+    ["ISM", "星際介質", "星际介质"],
+    ["accretion disk", "吸積盤", "吸积盘"],
+    ["event horizon", "事件視界", "事件视界"],
+    ["singularity", "奇異點", "奇点"],
+  ],
+  "solar-system": [
+    ["Sun", "太陽", "太阳"],
+    ["solar", "太陽", "太阳"],
+    ["solar system", "太陽系", "太阳系"],
+    ["solar wind", "太陽風", "太阳风"],
+    ["solar flare", "太陽閃焰", "太阳耀斑"],
+    ["corona", "日冕", "日冕"],
+    ["coronal", "日冕", "日冕"],
+    ["solar energy", "太陽能", "太阳能"],
+    ["solar power", "太陽能", "太阳能"],
+    ["solar panel", "太陽能板", "太阳能电池板"],
+    ["solar array", "太陽能陣列", "太阳能电池阵"],
+    ["Moon", "月球", "月球"],
+    ["lunar", "月球", "月球"],
+    ["Mars", "火星", "火星"],
+    ["Martian", "火星", "火星"],
+    ["Jupiter", "木星", "木星"],
+    ["Jovian", "木星", "木星"],
+    ["Saturn", "土星", "土星"],
+    ["Mercury", "水星", "水星"],
+    ["Venus", "金星", "金星"],
+    ["Uranus", "天王星", "天王星"],
+    ["Neptune", "海王星", "海王星"],
+    ["Pluto", "冥王星", "冥王星"],
+    ["asteroid", "小行星", "小行星"],
+    ["comet", "彗星", "彗星"],
+    ["meteorite", "隕石", "陨石"],
+    ["meteor", "流星", "流星"],
+    ["shooting star", "流星", "流星"],
+    ["lunar eclipse", "月食", "月食"],
+    ["solar eclipse", "日食", "日食"],
+    ["tidal", "潮汐", "潮汐"],
+    ["tide", "潮汐", "潮汐"],
+  ],
+  instruments: [
+    ["telescope", "望遠鏡", "望远镜"],
+    ["spectrum", "光譜", "光谱"],
+    ["spectroscopy", "光譜學", "光谱学"],
+    ["spectral", "光譜", "光谱"],
+    ["infrared", "紅外線", "红外"],
+    ["IR", "紅外線", "红外"],
+    ["ultraviolet", "紫外線", "紫外"],
+    ["UV", "紫外線", "紫外"],
+    ["X-ray", "X射線", "X射线"],
+    ["gamma ray", "伽瑪射線", "伽马射线"],
+    ["radar", "雷達", "雷达"],
+    ["sensor", "感測器", "传感器"],
+    ["detector", "偵測器", "探测器"],
+    ["probe", "探測器", "探测器"],
+    ["antenna", "天線", "天线"],
+    ["gyroscope", "陀螺儀", "陀螺仪"],
+    ["accelerometer", "加速度計", "加速度计"],
+    ["navigation", "導航", "导航"],
+    ["guidance", "導引", "制导"],
+    ["attitude control", "姿態控制", "姿态控制"],
+    ["telemetry", "遙測", "遥测"],
+  ],
+  missions: [
+    ["Apollo", "阿波羅", "阿波罗"],
+    ["Artemis", "阿提米絲", "阿尔忒弥斯"],
+    ["International Space Station", "國際太空站", "国际空间站"],
+    ["ISS", "國際太空站", "国际空间站"],
+    ["James Webb", "韋伯", "韦布"],
+    ["Webb", "韋伯", "韦布"],
+    ["JWST", "韋伯太空望遠鏡", "韦布空间望远镜"],
+    ["Hubble", "哈伯", "哈勃"],
+    ["HST", "哈伯太空望遠鏡", "哈勃空间望远镜"],
+    ["Voyager", "航海家", "旅行者"],
+    ["Curiosity", "好奇號", "好奇号"],
+    ["Perseverance", "毅力號", "毅力号"],
+    ["Chang'e", "嫦娥", "嫦娥"],
+    ["Tianwen", "天問", "天问"],
+  ],
+  physics: [
+    ["gravity", "重力", "引力"],
+    ["gravitational", "重力", "引力"],
+    ["mass", "質量", "质量"],
+    ["density", "密度", "密度"],
+    ["temperature", "溫度", "温度"],
+    ["pressure", "壓力", "压力"],
+    ["radiation", "輻射", "辐射"],
+    ["magnetic field", "磁場", "磁场"],
+    ["plasma", "電漿", "等离子体"],
+    ["light-year", "光年", "光年"],
+    ["light year", "光年", "光年"],
+    ["astronomical unit", "天文單位", "天文单位"],
+    ["AU", "天文單位", "天文单位"],
+  ],
+  engineering: [
+    ["aerodynamics", "空氣動力學", "空气动力学"],
+    ["Mach number", "馬赫數", "马赫数"],
+    ["supersonic", "超音速", "超声速"],
+    ["hypersonic", "極超音速", "高超声速"],
+    ["drag", "阻力", "阻力"],
+    ["lift", "升力", "升力"],
+    ["heat transfer", "熱傳", "传热"],
+    ["thermal conductivity", "熱傳導率", "热导率"],
+    ["cooling", "冷卻", "冷却"],
+    ["regenerative cooling", "再生冷卻", "再生冷却"],
+    ["composite material", "複合材料", "复合材料"],
+    ["carbon fiber", "碳纖維", "碳纤维"],
+    ["titanium alloy", "鈦合金", "钛合金"],
+  ],
+  robotics: [
+    ["robot", "機器人", "机器人"],
+    ["robotics", "機器人學", "机器人学"],
+    ["humanoid robot", "人形機器人", "人形机器人"],
+    ["robotic arm", "機械手臂", "机械臂"],
+    ["manipulator", "機械手臂", "机械臂"],
+    ["autonomous navigation", "自主導航", "自主导航"],
+    ["motion planning", "運動規劃", "运动规划"],
+    ["path planning", "路徑規劃", "路径规划"],
+    ["grasping", "抓取", "抓取"],
+    ["grasp", "抓取", "抓取"],
+    ["manipulation", "操控", "操作"],
+    ["gait", "步態", "步态"],
+    ["locomotion", "運動", "运动"],
+    ["legged locomotion", "足式運動", "足式运动"],
+    ["walking", "行走", "行走"],
+    ["bipedal", "雙足", "双足"],
+    ["biped", "雙足", "双足"],
+    ["quadruped", "四足", "四足"],
+    ["legged robot", "足式機器人", "足式机器人"],
+    ["perception", "感知", "感知"],
+    ["human-robot interaction", "人機互動", "人机交互"],
+    ["HRI", "人機互動", "人机交互"],
+    ["teleoperation", "遙操作", "遥操作"],
+    ["telemanipulation", "遙操作", "遥操作"],
+    ["reinforcement learning", "強化學習", "强化学习"],
+    ["RL", "強化學習", "强化学习"],
+    ["sim-to-real", "模擬到現實", "仿真到现实"],
+    ["whole-body control", "全身控制", "全身控制"],
+    ["dexterous hand", "靈巧手", "灵巧手"],
+    ["dexterous manipulation", "靈巧操作", "灵巧操作"],
+    ["SLAM", "即時定位與地圖構建", "即时定位与地图构建"],
+    ["simultaneous localization and mapping", "即時定位與地圖構建", "即时定位与地图构建"],
+    ["space robot", "太空機器人", "空间机器人"],
+    ["space robotics", "太空機器人學", "空间机器人学"],
+    ["visual servoing", "視覺伺服", "视觉伺服"],
+    ["inverse kinematics", "逆運動學", "逆运动学"],
+    ["IK", "逆運動學", "逆运动学"],
+    ["dynamics", "動力學", "动力学"],
+    ["torque control", "力矩控制", "力矩控制"],
+    ["force control", "力控制", "力控制"],
+    ["obstacle avoidance", "避障", "避障"],
+    ["collision avoidance", "避碰", "避碰"],
+    ["autonomous system", "自主系統", "自主系统"],
+    ["autonomy", "自主性", "自主性"],
+    ["deep learning", "深度學習", "深度学习"],
+    ["computer vision", "電腦視覺", "计算机视觉"],
+  ],
+  "remote-sensing": [
+    ["satellite communication", "衛星通訊", "卫星通信"],
+    ["satcom", "衛星通訊", "卫星通信"],
+    ["remote sensing", "遙測", "遥感"],
+    ["Earth observation", "地球觀測", "对地观测"],
+    ["CubeSat", "立方衛星", "立方星"],
+    ["small satellite", "小衛星", "小卫星"],
+    ["smallsat", "小衛星", "小卫星"],
+    ["satellite constellation", "衛星星系", "卫星星座"],
+    ["mega-constellation", "巨型衛星星系", "巨型星座"],
+    ["space debris", "太空碎片", "空间碎片"],
+    ["orbital debris", "軌道碎片", "轨道碎片"],
+    ["synthetic aperture radar", "合成孔徑雷達", "合成孔径雷达"],
+    ["SAR", "合成孔徑雷達", "合成孔径雷达"],
+    ["ground station", "地面站", "地面站"],
+    ["inter-satellite link", "星間鏈路", "星间链路"],
+    ["ISL", "星間鏈路", "星间链路"],
+    ["space situational awareness", "太空態勢感知", "空间态势感知"],
+    ["SSA", "太空態勢感知", "空间态势感知"],
+  ],
+  settlement: [
+    ["space travel", "太空旅行", "太空旅行"],
+    ["spaceflight", "太空飛行", "航天飞行"],
+    ["space colonization", "太空殖民", "太空殖民"],
+    ["space colony", "太空殖民地", "太空殖民地"],
+    ["space settlement", "太空移居", "太空定居"],
+    ["life support", "維生系統", "生命保障"],
+    ["ECLSS", "環境控制與維生系統", "环境控制与生命保障系统"],
+    ["in-situ resource utilization", "就地資源利用", "原位资源利用"],
+    ["ISRU", "就地資源利用", "原位资源利用"],
+    ["radiation shielding", "輻射屏蔽", "辐射屏蔽"],
+    ["radiation protection", "輻射防護", "辐射防护"],
+    ["artificial gravity", "人工重力", "人工重力"],
+    ["space medicine", "太空醫學", "航天医学"],
+    ["aerospace medicine", "航太醫學", "航空航天医学"],
+    ["space agriculture", "太空農業", "太空农业"],
+    ["bioregenerative life support", "生物再生維生系統", "生物再生生命保障系统"],
+    ["lunar base", "月球基地", "月球基地"],
+    ["Moon base", "月球基地", "月球基地"],
+    ["Mars colonization", "火星殖民", "火星殖民"],
+    ["orbital habitat", "軌道棲息地", "轨道栖息地"],
+    ["space habitat", "太空棲息地", "太空栖息地"],
+    ["space tourism", "太空觀光", "太空旅游"],
+    ["commercial spaceflight", "商業太空飛行", "商业航天"],
+    ["long-duration spaceflight", "長期太空飛行", "长期太空飞行"],
+    ["closed ecosystem", "密閉生態系統", "封闭生态系统"],
+    ["closed-loop life support", "閉環維生系統", "闭环生命保障系统"],
+  ],
+};
+
+export const DEFAULT_TERMINOLOGY: TermEntry[] = Object.entries(DEFAULT_TERMS).flatMap((
+  [domain, terms],
+) => terms.map(([en, zhTw, zhCn]) => ({ en, zhTw, zhCn, domain })));
+
+/** The rendering of a term in a Chinese locale. */
+export function preferredTerm(term: TermEntry, locale: TermLocale): string {
+  return locale === "zh-TW" ? term.zhTw : term.zhCn;
+}
+
+const patterns = new Map<string, RegExp>();
+
+// Whole words, plurals included. All-capital acronyms ("LOX", "IR") match case-sensitively so
+// "IR" does not match "Ir" in a name; other terms match in any case.
+function englishPattern(en: string): RegExp {
+  let pattern = patterns.get(en);
+  if (!pattern) {
+    const escaped = en.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const acronym = /[A-Z]/.test(en) && en === en.toUpperCase();
+    pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])${escaped}(?:e?s)?(?![\\p{L}\\p{N}])`,
+      acronym ? "gu" : "giu",
+    );
+    patterns.set(en, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Terms whose English form occurs in an English text, not counting occurrences inside a longer
+ * term (the "star" of "neutron star").
+ */
+export function findEnglishTerms(text: string, terms: TermEntry[]): TermEntry[] {
+  const matches = terms.flatMap((term) =>
+    [...text.matchAll(englishPattern(term.en))].map((match) => ({
+      term,
+      start: match.index,
+      end: match.index + match[0].length,
+    }))
+  );
+  const standalone = new Set(
+    matches
+      .filter((match) =>
+        !matches.some((other) =>
+          other.start <= match.start && other.end >= match.end &&
+          other.end - other.start > match.end - match.start
+        )
+      )
+      .map((match) => match.term),
+  );
+  return terms.filter((term) => standalone.has(term));
+}
+
+/** Terms whose zh-TW or zh-CN form occurs in a Chinese text. */
+export function findChineseTerms(text: string, terms: TermEntry[]): TermEntry[] {
+  return terms.filter((term) => text.includes(term.zhTw) || text.includes(term.zhCn));
+}
+
+/**
+ * Glossary block for a translation prompt: the terms present in `text` with their rendering in
+ * `locale`, or "" when none occur.
+ */
+export function glossaryFor(text: string, locale: TermLocale, terms: TermEntry[]): string {
+  const found = findEnglishTerms(text, terms);
+  if (found.length === 0) return "";
+  const lines = found.map((term) => {
+    const note = term.notes ? ` (${term.notes})` : "";
+    return `- ${term.en} → ${preferredTerm(term, locale)}${note}`;
+  });
+  return `TERMINOLOGY (use these renderings):\n${lines.join("\n")}`;
+}
+
+/**
+ * Cross-language query expansion: English terms for the Chinese terms in a query, plus (when
+ * `toChinese`) both Chinese forms of the English terms in it.
+ */
+export function expandQuery(
+  query: string,
+  terms: TermEntry[],
+  options?: { toChinese?: boolean },
+): string[] {
+  const expanded = findChineseTerms(query, terms).map((term) => term.en);
+  if (options?.toChinese) {
+    for (const term of findEnglishTerms(query, terms)) {
+      expanded.push(term.zhTw);
+      if (term.zhCn !== term.zhTw) expanded.push(term.zhCn);
+    }
+  }
+  return [...new Set(expanded)];
+}
+
+/** A term of the English source that a translation does not render the preferred way. */
+export interface TermIssue {
+  en: string;
+  expected: string;
+  /** The other locale's rendering, when the translation used that instead. */
+  found?: string;
+}
+
+/**
+ * Check a translation against its English source: every term of the source should appear in its
+ * preferred rendering. Each missing rendering is reported once.
+ */
+export function checkTerminology(params: {
+  source: string;
+  translation: string;
+  locale: TermLocale;
+  terms: TermEntry[];
+}): TermIssue[] {
+  const { source, translation, locale } = params;
+  const other: TermLocale = locale === "zh-TW" ? "zh-CN" : "zh-TW";
+  const issues: TermIssue[] = [];
+  const seen = new Set<string>();
+  for (const term of findEnglishTerms(source, params.terms)) {
+    const expected = preferredTerm(term, locale);
+    if (translation.includes(expected) || seen.has(expected)) continue;
+    seen.add(expected);
+    const alternative = preferredTerm(term, other);
+    const found = alternative !== expected && translation.includes(alternative)
+      ? alternative
+      : undefined;
+    issues.push({ en: term.en, expected, ...(found ? { found } : {}) });
+  }
+  return issues;
+}
+
+/** A stored translation with terminology issues. */
+export interface TranslationTermReport {
+  itemType: string;
+  itemId: string;
+  lang: TermLocale;
+  issues: TermIssue[];
+}
+
+/**
+ * Check the stored zh-TW and zh-CN translations of the `limit` most recently updated items
+ * against their English title and summary.
+ */
+export async function checkStoredTranslations(
+  options?: { limit?: number; terms?: TermEntry[] },
+  database: typeof db = db,
+): Promise<TranslationTermReport[]> {
+  const terms = options?.terms ?? await getTerminology(database);
+  const sources = await database
+    .select()
+    .from(translations)
+    .where(eq(translations.lang, "en"))
+    .orderBy(desc(translations.updatedAt))
+    .limit(options?.limit ?? 200);
+  if (sources.length === 0) return [];
+
+  const targets = await database
+    .select()
+    .from(translations)
+    .where(and(
+      inArray(translations.itemId, sources.map((row) => row.itemId)),
+      inArray(translations.lang, ["zh-TW", "zh-CN"]),
+    ));
+  const reports: TranslationTermReport[] = [];
+  for (const source of sources) {
+    const text = `${source.title ?? ""}\n${source.summary ?? ""}`;
+    for (const target of targets) {
+      if (target.itemType !== source.itemType || target.itemId !== source.itemId) continue;
+      const lang = target.lang as TermLocale;
+      const issues = checkTerminology({
+        source: text,
+        translation: `${target.title ?? ""}\n${target.summary ?? ""}`,
+        locale: lang,
+        terms,
+      });
+      if (issues.length > 0) {
+        reports.push({ itemType: source.itemType, itemId: source.itemId, lang, issues });
+      }
+    }
+  }
+  return reports;
+}
+
+export async function listTerms(database: typeof db = db): Promise<TermEntry[]> {
+  return await database
+    .select({
+      en: terminology.en,
+      zhTw: terminology.zhTw,
+      zhCn: terminology.zhCn,
+      notes: terminology.notes,
+      domain: terminology.domain,
+    })
+    .from(terminology)
+    .orderBy(asc(terminology.domain), asc(terminology.en));
+}
+
+/** Add a term, or replace the renderings, notes and domain of an existing one. */
+export async function upsertTerm(term: TermEntry, database: typeof db = db): Promise<void> {
+  const values = {
+    en: term.en.trim(),
+    zhTw: term.zhTw.trim(),
+    zhCn: term.zhCn.trim(),
+    notes: term.notes ?? null,
+    domain: term.domain ?? null,
+  };
+  await database
+    .insert(terminology)
+    .values(values)
+    .onConflictDoUpdate({
+      target: terminology.en,
+      set: { ...values, updatedAt: new Date() },
+    });
+  invalidateTerminologyCache();
+}
+
+/** Remove a term; false if there was none. */
+export async function removeTerm(en: string, database: typeof db = db): Promise<boolean> {
+  const result = await database.delete(terminology).where(eq(terminology.en, en.trim()));
+  invalidateTerminologyCache();
+  return result.rowsAffected > 0;
+}
+
+/** Insert the built-in terms that are not in the table yet; returns how many were added. */
+export async function seedTerms(database: typeof db = db): Promise<number> {
+  const result = await database
+    .insert(terminology)
+    .values(DEFAULT_TERMINOLOGY)
+    .onConflictDoNothing({ target: terminology.en });
+  invalidateTerminologyCache();
+  return result.rowsAffected;
+}
+
+// The list is read on every search and translation, so it is cached briefly; edits made by
+// another process (the CLI) show up after this long.
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+let cached: { terms: TermEntry[]; expires: number } | null = null;
+
+export function invalidateTerminologyCache(): void {
+  cached = null;
+}
+
+/** The terminology in use: the table's terms, or DEFAULT_TERMINOLOGY while it is empty. */
+export async function getTerminology(database: typeof db = db): Promise<TermEntry[]> {
+  if (cached && cached.expires > Date.now()) return cached.terms;
+  let terms: TermEntry[];
+  try {
+    const rows = await listTerms(database);
+    terms = rows.length > 0 ? rows : DEFAULT_TERMINOLOGY;
+  } catch (error) {
+    console.warn("Terminology table unavailable, using the built-in terms:", error);
+    terms = DEFAULT_TERMINOLOGY;
+  }
+  cached = { terms, expires: Date.now() + CACHE_TTL_MS };
+  return terms;
+}
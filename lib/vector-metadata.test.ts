@@ -0,0 +1,46 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { nasaVectorMetadata, paperVectorMetadata, videoVectorMetadata } from "./vector-metadata.ts";
+
+Deno.test("vector-metadata: papers carry a timestamp, source and a flag per category", () => {
+  const publishedDate = new Date("2021-03-01T12:00:00Z");
+  assertEquals(
+    paperVectorMetadata(
+      { id: "ntrs-123", categories: '["Space Transportation","Propellants"]', publishedDate },
+      "Turbopump cavitation",
+    ),
+    {
+      title: "Turbopump cavitation",
+      published: "2021-03-01T12:00:00.000Z",
+      publishedAt: publishedDate.getTime() / 1000,
+      categories: "Space Transportation, Propellants",
+      source: "NASA NTRS",
+      "category:Space Transportation": true,
+      "category:Propellants": true,
+    },
+  );
+  assertEquals(
+    paperVectorMetadata({ id: "2101.00001", categories: "[]", publishedDate }, "T").source,
+    "arXiv",
+  );
+});
+
+Deno.test("vector-metadata: undated items have no timestamp to filter on", () => {
+  assertEquals(
+    videoVectorMetadata({ channelName: "PBS Space Time", publishedDate: null }, "Halo"),
+    { title: "Halo", channelName: "PBS Space Time" },
+  );
+  assertEquals(
+    nasaVectorMetadata(
+      { contentType: "apod", center: null, nasaId: null, date: new Date("2020-01-01") },
+      "M31",
+    ),
+    {
+      title: "M31",
+      published: "2020-01-01T00:00:00.000Z",
+      publishedAt: Date.UTC(2020, 0, 1) / 1000,
+      type: "apod",
+      center: "",
+      nasaId: "",
+    },
+  );
+});
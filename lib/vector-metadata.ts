@@ -0,0 +1,76 @@
+/**
+ * Chroma metadata stored with every vector. All writers (the AI queue, the crawler's vector
+ * sync and the rebuild/reindex scripts) build it here, so search filters can be evaluated inside
+ * the vector query (see compileChromaWhere in search-query.ts).
+ */
+
+import type { NasaContent, Paper, Video } from "../db/schema.ts";
+import { parseCategories } from "./search-facets.ts";
+
+export type VectorMetadata = Record<string, string | number | boolean>;
+
+/** Publication time in unix seconds, for `$gte`/`$lt` date filters. */
+export const PUBLISHED_AT_KEY = "publishedAt";
+
+/** Metadata values cannot be lists, so each category gets its own `true` flag. */
+export function categoryKey(category: string): string {
+  return `category:${category}`;
+}
+
+/** `source` of a paper: NTRS report ids are prefixed with "ntrs-". */
+export function paperSource(id: string): "NASA NTRS" | "arXiv" {
+  return id.startsWith("ntrs-") ? "NASA NTRS" : "arXiv";
+}
+
+function toDate(value: Date | string | number | null | undefined): Date | null {
+  if (value == null || value === "") return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function publishedFields(value: Date | string | number | null | undefined): VectorMetadata {
+  const date = toDate(value);
+  return date
+    ? { published: date.toISOString(), [PUBLISHED_AT_KEY]: Math.floor(date.getTime() / 1000) }
+    : {};
+}
+
+export function paperVectorMetadata(
+  row: Pick<Paper, "id" | "categories"> & { publishedDate: Paper["publishedDate"] | string | null },
+  title: string,
+): VectorMetadata {
+  const categories = parseCategories(row.categories).map((c) => c.trim()).filter(Boolean);
+  return {
+    title,
+    ...publishedFields(row.publishedDate),
+    categories: categories.join(", "),
+    source: paperSource(row.id),
+    ...Object.fromEntries(categories.map((category) => [categoryKey(category), true])),
+  };
+}
+
+export function videoVectorMetadata(
+  row: Pick<Video, "channelName"> & { publishedDate: Video["publishedDate"] | string | null },
+  title: string,
+): VectorMetadata {
+  return {
+    title,
+    ...publishedFields(row.publishedDate),
+    channelName: row.channelName ?? "",
+  };
+}
+
+export function nasaVectorMetadata(
+  row: Pick<NasaContent, "contentType" | "center" | "nasaId"> & {
+    date: NasaContent["date"] | string | null;
+  },
+  title: string,
+): VectorMetadata {
+  return {
+    title,
+    ...publishedFields(row.date),
+    type: row.contentType,
+    center: row.center ?? "",
+    nasaId: row.nasaId ?? "",
+  };
+}
@@ -1,45 +1,78 @@
-import { ChromaClient, Collection, type IEmbeddingFunction } from "chromadb";
+import {
+  ChromaClient,
+  ChromaNotFoundError,
+  Collection,
+  type IEmbeddingFunction,
+  IncludeEnum,
+  type Where,
+} from "chromadb";
+import {
+  type EmbeddingProvider,
+  getEmbeddingProvider,
+  HASH_EMBEDDING_DIM,
+  HASH_EMBEDDING_MODEL,
+} from "./embeddings.ts";
 import type { Locale } from "./i18n.ts";
 import { SUPPORTED_LOCALES } from "./i18n.ts";
 
 const CHROMA_HOST = Deno.env.get("CHROMA_HOST") || "http://localhost:8000";
 const CHROMA_AUTH_TOKEN = Deno.env.get("CHROMA_AUTH_TOKEN");
 
-/** Embedding dimension used by Chroma's default model (all-MiniLM-L6-v2). */
-const EMBEDDING_DIM = 384;
+/** Collection metadata keys recording which embedding provider produced its vectors. */
+export const EMBEDDING_MODEL_KEY = "embedding_model";
+export const EMBEDDING_DIM_KEY = "embedding_dim";
 
 /** Locale to Chroma-safe collection suffix (en, zh_tw, zh_cn). */
 export function localeToSuffix(locale: string): string {
   return locale.replace("-", "_").toLowerCase();
 }
 
-/**
- * Lightweight embedding function that does not require chromadb-default-embed.
- * Produces deterministic 384-dim vectors from text (hash-based). Use chromadb-default-embed
- * for real semantic embeddings; this avoids the optional dependency so the crawler runs.
- */
-function simpleEmbeddingFunction(): IEmbeddingFunction {
-  function hash(s: string): number {
-    let h = 0;
-    for (let i = 0; i < s.length; i++) {
-      h = (Math.imul(31, h) + s.charCodeAt(i)) | 0;
-    }
-    return h;
-  }
+/** Adapt an EmbeddingProvider to the interface the Chroma client expects. */
+function toEmbeddingFunction(provider: EmbeddingProvider): IEmbeddingFunction {
   return {
     generate(texts: string[]): Promise<number[][]> {
-      return Promise.resolve(texts.map((text) => {
-        const v = new Array(EMBEDDING_DIM).fill(0);
-        const h = hash(text);
-        for (let i = 0; i < EMBEDDING_DIM; i++) {
-          v[i] = (hash(text + i + h) % 1000) / 1000 - 0.5;
-        }
-        return v;
-      }));
+      return provider.embed(texts);
     },
   };
 }
 
+/** Thrown when a collection holds vectors from a different embedding model or dimension. */
+export class EmbeddingMismatchError extends Error {
+  constructor(
+    public readonly collectionName: string,
+    public readonly stored: { model: string; dimension: number },
+    public readonly requested: { model: string; dimension: number },
+  ) {
+    super(
+      `Collection ${collectionName} was built with ${stored.model} (${stored.dimension}d) ` +
+        `but the active embedding provider is ${requested.model} (${requested.dimension}d). ` +
+        `Run \`deno task rebuild-vectors --migrate\` to re-embed it.`,
+    );
+    this.name = "EmbeddingMismatchError";
+  }
+}
+
+/**
+ * Read the model id and dimension recorded on a collection. Collections created before
+ * providers were recorded hold the old hash vectors.
+ */
+export function getStoredEmbedding(
+  metadata: Record<string, unknown> | null | undefined,
+): { model: string; dimension: number } {
+  const model = metadata?.[EMBEDDING_MODEL_KEY];
+  const dimension = Number(metadata?.[EMBEDDING_DIM_KEY]);
+  return {
+    model: typeof model === "string" && model ? model : HASH_EMBEDDING_MODEL,
+    dimension: Number.isFinite(dimension) && dimension > 0 ? dimension : HASH_EMBEDDING_DIM,
+  };
+}
+
+function isCollectionNotFound(error: unknown): boolean {
+  if (error instanceof ChromaNotFoundError) return true;
+  const message = String(error ?? "").toLowerCase();
+  return message.includes("does not exist") || message.includes("not found");
+}
+
 // Initialize ChromaDB client
 export const chromaClient = new ChromaClient({
   path: CHROMA_HOST,
@@ -87,23 +120,76 @@ export class VectorStore {
     this.collectionName = collectionName;
   }
 
+  /**
+   * Open a collection, creating it with the provider's model id and dimension recorded.
+   * Throws EmbeddingMismatchError if an existing collection was built with another provider.
+   */
   static async getOrCreateCollection(
     name: string,
     metadata?: Record<string, string>,
+    provider: EmbeddingProvider = getEmbeddingProvider(),
   ): Promise<VectorStore> {
+    const embeddingFunction = toEmbeddingFunction(provider);
+    let collection: Collection | null = null;
     try {
-      const collection = await chromaClient.getOrCreateCollection({
+      collection = await chromaClient.getCollection({ name, embeddingFunction });
+    } catch (error) {
+      if (!isCollectionNotFound(error)) {
+        console.error(`Failed to get collection ${name}:`, error);
+        throw error;
+      }
+    }
+
+    if (collection) {
+      const stored = getStoredEmbedding(collection.metadata);
+      if (stored.model !== provider.model || stored.dimension !== provider.dimension) {
+        throw new EmbeddingMismatchError(name, stored, {
+          model: provider.model,
+          dimension: provider.dimension,
+        });
+      }
+      return new VectorStore(collection, name);
+    }
+
+    try {
+      const created = await chromaClient.createCollection({
         name,
-        metadata: metadata || { description: `AstroGroot ${name} collection` },
-        embeddingFunction: simpleEmbeddingFunction(),
+        metadata: {
+          ...(metadata || { description: `AstroGroot ${name} collection` }),
+          [EMBEDDING_MODEL_KEY]: provider.model,
+          [EMBEDDING_DIM_KEY]: provider.dimension,
+          // Providers emit normalized vectors; cosine keeps 1 - dist/2 within [0, 1]
+          "hnsw:space": "cosine",
+        },
+        embeddingFunction,
       });
-      return new VectorStore(collection, name);
+      return new VectorStore(created, name);
     } catch (error) {
-      console.error(`Failed to get/create collection ${name}:`, error);
+      console.error(`Failed to create collection ${name}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Delete a collection and recreate it empty for the given provider. Used when migrating
+   * to a new embedding model, since vectors from different models cannot be mixed.
+   */
+  static async recreateCollection(
+    name: string,
+    metadata?: Record<string, string>,
+    provider: EmbeddingProvider = getEmbeddingProvider(),
+  ): Promise<VectorStore> {
+    try {
+      await chromaClient.deleteCollection({ name });
+    } catch (error) {
+      if (!isCollectionNotFound(error)) {
+        console.error(`Failed to delete collection ${name}:`, error);
+        throw error;
+      }
+    }
+    return await VectorStore.getOrCreateCollection(name, metadata, provider);
+  }
+
   async add(params: {
     id: string;
     text: string;
@@ -123,6 +209,26 @@ export class VectorStore {
     }
   }
 
+  /** Like add, but replaces the document if the id is already in the collection. */
+  async upsert(params: {
+    id: string;
+    text: string;
+    embedding?: number[];
+    metadata?: Record<string, string | number | boolean>;
+  }): Promise<void> {
+    try {
+      await this.collection.upsert({
+        ids: [params.id],
+        documents: [params.text],
+        embeddings: params.embedding ? [params.embedding] : undefined,
+        metadatas: params.metadata ? [params.metadata] : undefined,
+      });
+    } catch (error) {
+      console.error(`Failed to upsert document in ${this.collectionName}:`, error);
+      throw error;
+    }
+  }
+
   async addBatch(items: Array<{
     id: string;
     text: string;
@@ -150,7 +256,7 @@ export class VectorStore {
     queryText?: string;
     queryEmbedding?: number[];
     nResults?: number;
-    filter?: Record<string, string | number | boolean>;
+    filter?: Where;
   }): Promise<{
     ids: string[][];
     documents: (string | null)[][];
@@ -203,6 +309,20 @@ export class VectorStore {
     }
   }
 
+  /** Stored vector for an id, or null if the id is not in this collection. */
+  async getEmbedding(id: string): Promise<number[] | null> {
+    try {
+      const result = await this.collection.get({
+        ids: [id],
+        include: [IncludeEnum.Embeddings],
+      });
+      return result.embeddings?.[0] ?? null;
+    } catch (error) {
+      console.error(`Failed to get embedding from ${this.collectionName}:`, error);
+      throw error;
+    }
+  }
+
   async delete(id: string): Promise<void> {
     try {
       await this.collection.delete({
@@ -240,8 +360,27 @@ export class VectorStore {
 
 export type CollectionsByLocale = Record<Locale, VectorStore>;
 
+/**
+ * Options for opening collections. `recreate` drops and recreates each collection empty,
+ * which is how collections are migrated to a new embedding provider.
+ */
+export interface CollectionInitOptions {
+  provider?: EmbeddingProvider;
+  recreate?: boolean;
+}
+
+function openCollection(
+  name: string,
+  metadata: Record<string, string>,
+  options?: CollectionInitOptions,
+): Promise<VectorStore> {
+  return options?.recreate
+    ? VectorStore.recreateCollection(name, metadata, options.provider)
+    : VectorStore.getOrCreateCollection(name, metadata, options?.provider);
+}
+
 /** Initialize per-locale collections for papers, videos, and NASA content. */
-export async function initializeCollections(): Promise<{
+export async function initializeCollections(options?: CollectionInitOptions): Promise<{
   papers: CollectionsByLocale;
   videos: CollectionsByLocale;
   nasa: CollectionsByLocale;
@@ -252,17 +391,20 @@ export async function initializeCollections(): Promise<{
 
   for (const locale of SUPPORTED_LOCALES) {
     const suffix = localeToSuffix(locale);
-    papers[locale] = await VectorStore.getOrCreateCollection(
+    papers[locale] = await openCollection(
       getCollectionName("PAPERS", locale),
       { description: `arXiv papers (${suffix})` },
+      options,
     );
-    videos[locale] = await VectorStore.getOrCreateCollection(
+    videos[locale] = await openCollection(
       getCollectionName("VIDEOS", locale),
       { description: `YouTube videos (${suffix})` },
+      options,
     );
-    nasa[locale] = await VectorStore.getOrCreateCollection(
+    nasa[locale] = await openCollection(
       getCollectionName("NASA", locale),
       { description: `NASA content (${suffix})` },
+      options,
     );
   }
 
@@ -270,22 +412,25 @@ export async function initializeCollections(): Promise<{
 }
 
 /** Initialize legacy collections (pre-i18n, no locale suffix) for backward compatibility. */
-export async function initializeLegacyCollections(): Promise<{
+export async function initializeLegacyCollections(options?: CollectionInitOptions): Promise<{
   papers: VectorStore;
   videos: VectorStore;
   nasa: VectorStore;
 }> {
-  const papers = await VectorStore.getOrCreateCollection(
+  const papers = await openCollection(
     LEGACY_COLLECTIONS.PAPERS,
     { description: "arXiv papers (legacy)" },
+    options,
   );
-  const videos = await VectorStore.getOrCreateCollection(
+  const videos = await openCollection(
     LEGACY_COLLECTIONS.VIDEOS,
     { description: "YouTube videos (legacy)" },
+    options,
   );
-  const nasa = await VectorStore.getOrCreateCollection(
+  const nasa = await openCollection(
     LEGACY_COLLECTIONS.NASA,
     { description: "NASA content (legacy)" },
+    options,
   );
   return { papers, videos, nasa };
 }
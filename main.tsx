@@ -6,11 +6,27 @@ import { cors } from "hono/cors";
 import { bodyLimit } from "hono/body-limit";
 import { timeout } from "hono/timeout";
 import { compress } from "hono/compress";
-import { handleMCPRequest } from "./lib/mcp.ts";
+import { basicAuth } from "hono/basic-auth";
+import { streamSSE } from "hono/streaming";
+import { mcpHttp } from "./lib/mcp-http.ts";
 import { getLibraryStats } from "./lib/stats.ts";
-import { getUsageSummary } from "./lib/ai/usage.ts";
+import { BudgetExceededError, getClientBudgets, getUsageSummary } from "./lib/ai/usage.ts";
+import { getUsageReport } from "./lib/ai/usage-report.ts";
+import { askLibrary, MAX_QUESTION_LENGTH } from "./lib/ask.ts";
+import {
+  getItemChatContext,
+  type ItemChatContext,
+  parseChatMessages,
+  streamItemAnswer,
+} from "./lib/item-chat.ts";
+import { listCrawlCheckpoints, listCrawlRuns } from "./lib/crawl-ledger.ts";
 import { searchLibrary } from "./lib/search.ts";
-import { getLocaleFromRequest, interpolate, loadDictionary } from "./lib/i18n.ts";
+import { InvalidSearchCursorError } from "./lib/search-cursor.ts";
+import { parseFacetSelection } from "./lib/search-facets.ts";
+import { getRelatedItems, isRelatedItemType } from "./lib/related.ts";
+import { citationResponse, getPaperCitations, isCitationFormat } from "./lib/citation.ts";
+import type { SearchResultItem } from "./lib/search.ts";
+import { getLocaleFromRequest, interpolate, loadDictionary, type Locale } from "./lib/i18n.ts";
 import {
   INCLUDE_ERROR_DATA,
   MAX_SEARCH_QUERY_LENGTH,
@@ -20,6 +36,8 @@ import {
   REQUEST_TIMEOUT_MS,
 } from "./lib/config.ts";
 import { rateLimit } from "./lib/rate-limit.ts";
+import { aiBudgetClient, listApiKeys } from "./lib/api/keys.ts";
+import { apiV1 } from "./lib/api/v1.ts";
 import { db } from "./db/client.ts";
 import { nasaContent, papers, translations, videos } from "./db/schema.ts";
 import { and, eq } from "drizzle-orm";
@@ -27,6 +45,7 @@ import { DashboardPage } from "./components/pages/dashboard.tsx";
 import { SearchPage } from "./components/pages/search.tsx";
 import { NotFoundPage } from "./components/pages/not-found.tsx";
 import { DetailPage } from "./components/pages/detail.tsx";
+import { AiUsagePage } from "./components/pages/ai-usage.tsx";
 import { renderMarkdown } from "./lib/markdown.ts";
 
 const defaultPort = Number(Deno.env.get("PORT")) || 8000;
@@ -46,7 +65,13 @@ app.use("*", compress());
 // ─────────────────────────────────────────────────────────────────────────────
 // Global Rate Limit (covers all paths including unmatched 404s)
 // ─────────────────────────────────────────────────────────────────────────────
-app.use("*", rateLimit(RATE_LIMITS.global));
+const globalRateLimit = rateLimit(RATE_LIMITS.global);
+app.use("*", (c, next) => {
+  // /api/v1 limits valid keys per key and applies this limit itself to everything else
+  // (see lib/api/v1.ts)
+  if (c.req.path.startsWith("/api/v1/")) return next();
+  return globalRateLimit(c, next);
+});
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Rate Limiting per Route Group
@@ -57,8 +82,16 @@ app.use("/detail", rateLimit(RATE_LIMITS.html));
 app.use("/rocket-exam", rateLimit(RATE_LIMITS.html));
 app.use("/api/health", rateLimit(RATE_LIMITS.health));
 app.use("/sitemap.xml", rateLimit(RATE_LIMITS.html));
+app.use("/admin/*", rateLimit(RATE_LIMITS.html));
 app.use("/api/search", rateLimit(RATE_LIMITS.api));
+app.use("/api/related", rateLimit(RATE_LIMITS.api));
+app.use("/api/cite", rateLimit(RATE_LIMITS.api));
+app.use("/api/ask", rateLimit(RATE_LIMITS.ask));
+app.use("/api/ask", bodyLimit({ maxSize: 8 * 1024 }));
+app.use("/api/chat", rateLimit(RATE_LIMITS.chat));
+app.use("/api/chat", bodyLimit({ maxSize: 64 * 1024 }));
 app.use("/api/stats", rateLimit(RATE_LIMITS.api));
+app.use("/api/crawler/runs", rateLimit(RATE_LIMITS.api));
 
 // ─────────────────────────────────────────────────────────────────────────────
 // MCP Middleware Stack
@@ -67,8 +100,9 @@ app.use(
   "/api/mcp",
   cors({
     origin: MCP_ALLOWED_ORIGINS,
-    allowMethods: ["POST", "OPTIONS"],
-    allowHeaders: ["Content-Type"],
+    allowMethods: ["GET", "POST", "DELETE", "OPTIONS"],
+    allowHeaders: ["Content-Type", "Mcp-Session-Id"],
+    exposeHeaders: ["Mcp-Session-Id"],
   }),
 );
 app.use("/api/mcp", bodyLimit({ maxSize: MCP_MAX_BODY_BYTES }));
@@ -79,6 +113,9 @@ app.use("/api/mcp", timeout(REQUEST_TIMEOUT_MS));
 // Timeout on Search API
 // ─────────────────────────────────────────────────────────────────────────────
 app.use("/api/search", timeout(REQUEST_TIMEOUT_MS));
+app.use("/api/related", timeout(REQUEST_TIMEOUT_MS));
+app.use("/api/ask", timeout(REQUEST_TIMEOUT_MS));
+app.use("/api/v1/*", timeout(REQUEST_TIMEOUT_MS));
 
 function normalizeUrl(url: URL): string {
   if ([...url.searchParams.keys()].length === 0) {
@@ -323,8 +360,53 @@ app.get(
   (c) => c.json({ ok: true, service: "astrogroot", timestamp: new Date().toISOString() }),
 );
 app.get("/api/stats", async (c) => c.json(await getLibraryStats()));
+// Public: global and per-purpose totals only; API key budgets are on /admin/ai-usage
 app.get("/api/ai-usage", async (c) => c.json(await getUsageSummary()));
 
+// Admin pages: HTTP basic auth as "admin" with ADMIN_PASSWORD; hidden when it is unset
+app.use("/admin/*", async (c, next) => {
+  const password = Deno.env.get("ADMIN_PASSWORD");
+  if (!password) return c.notFound();
+  return await basicAuth({ username: "admin", password })(c, next);
+});
+
+app.get("/admin/ai-usage", async (c) => {
+  const days = Math.min(Math.max(parseInt(c.req.query("days") ?? "30", 10) || 30, 1), 365);
+  const [report, keys] = await Promise.all([getUsageReport({ days }), listApiKeys()]);
+  const activeKeys = keys.filter((key) => !key.revokedAt);
+  const budgets = await getClientBudgets(activeKeys.map(aiBudgetClient));
+  const keyBudgets = activeKeys.map((key, i) => ({
+    ...budgets[i],
+    name: key.name,
+    keyPrefix: key.keyPrefix,
+  }));
+  c.header("Cache-Control", "private, no-store");
+  return c.html(
+    <AiUsagePage
+      report={report}
+      keyBudgets={keyBudgets}
+      pageTitle="AI Usage - AstroGroot"
+      pageDescription="AI spend history, token usage and cost per processed item."
+      canonicalUrl={buildCanonicalUrl(c.req.url)}
+      alternateUrls={buildAlternateUrls(c.req.url)}
+    />,
+  );
+});
+
+app.get("/api/crawler/runs", async (c) => {
+  const limit = parseInt(c.req.query("limit") ?? "20", 10) || 20;
+  try {
+    const [runs, checkpoints] = await Promise.all([listCrawlRuns(limit), listCrawlCheckpoints()]);
+    return c.json({ runs, checkpoints });
+  } catch (err) {
+    console.error("Crawl ledger error:", err);
+    return c.json(
+      { runs: [], checkpoints: [], error: INCLUDE_ERROR_DATA ? String(err) : "Internal server error" },
+      500,
+    );
+  }
+});
+
 app.get("/api/search", async (c) => {
   const q = c.req.query("q") ?? "";
 
@@ -342,16 +424,43 @@ app.get("/api/search", async (c) => {
   const type = (c.req.query("type") ?? "all") as "all" | "papers" | "videos" | "nasa";
   const limit = parseInt(c.req.query("limit") ?? "20", 10) || 20;
   const page = parseInt(c.req.query("page") ?? "1", 10) || 1;
+  const cursor = c.req.query("cursor") || undefined;
   const dateFrom = c.req.query("dateFrom") ?? "";
   const dateTo = c.req.query("dateTo") ?? "";
   const locale = getLocaleFromRequest(
     c.req.query("lang"),
     c.req.header("Accept-Language"),
   );
+  const format = c.req.query("format") ?? "json";
+  if (format !== "json" && !isCitationFormat(format)) {
+    return c.json(
+      { error: "Bad Request", message: "format must be json, bibtex, ris or csl-json" },
+      400,
+    );
+  }
   try {
-    const result = await searchLibrary({ q, type, limit, page, locale, dateFrom, dateTo });
+    const facets = parseFacetSelection((name) => c.req.queries(name));
+    const result = await searchLibrary({
+      q,
+      type,
+      limit,
+      page,
+      cursor,
+      locale,
+      dateFrom,
+      dateTo,
+      facets,
+    });
+    if (format !== "json") {
+      // Only papers and NTRS reports are citable; videos and NASA media are left out
+      const { body } = await getPaperCitations(result.papers.map((p) => p.id), format);
+      return citationResponse(c, body, format, "astrogroot-search");
+    }
     return c.json(result);
   } catch (err) {
+    if (err instanceof InvalidSearchCursorError) {
+      return c.json({ error: "Bad Request", message: err.message }, 400);
+    }
     console.error("Search error:", err);
     return c.json(
       {
@@ -367,6 +476,153 @@ app.get("/api/search", async (c) => {
   }
 });
 
+app.get("/api/related", async (c) => {
+  const type = c.req.query("type");
+  const id = c.req.query("id") ?? "";
+  if (!isRelatedItemType(type) || !id) {
+    return c.json(
+      { error: "Bad Request", message: "type must be paper, video or nasa and id is required" },
+      400,
+    );
+  }
+  const limit = parseInt(c.req.query("limit") ?? "", 10) || undefined;
+  const locale = getLocaleFromRequest(
+    c.req.query("lang"),
+    c.req.header("Accept-Language"),
+  );
+  try {
+    return c.json(await getRelatedItems(type, id, locale, { limit }));
+  } catch (err) {
+    console.error("Related items error:", err);
+    return c.json(
+      { type, id, items: [], error: INCLUDE_ERROR_DATA ? String(err) : "Internal server error" },
+      500,
+    );
+  }
+});
+
+app.get("/api/cite", async (c) => {
+  const type = c.req.query("type");
+  const id = c.req.query("id") ?? "";
+  const format = c.req.query("format") ?? "bibtex";
+  if (type !== "paper" || !id) {
+    return c.json(
+      { error: "Bad Request", message: "type must be paper (arXiv or NTRS) and id is required" },
+      400,
+    );
+  }
+  if (!isCitationFormat(format)) {
+    return c.json({ error: "Bad Request", message: "format must be bibtex, ris or csl-json" }, 400);
+  }
+  try {
+    const { count, body } = await getPaperCitations([id], format);
+    if (count === 0) {
+      return c.json({ error: "Not Found", message: `No paper with id ${id}` }, 404);
+    }
+    c.header("Cache-Control", API_CACHE_CONTROL);
+    return citationResponse(c, body, format, id);
+  } catch (err) {
+    console.error("Citation error:", err);
+    return c.json({ error: INCLUDE_ERROR_DATA ? String(err) : "Internal server error" }, 500);
+  }
+});
+
+app.post("/api/ask", async (c) => {
+  let body: { question?: unknown; lang?: unknown };
+  try {
+    const parsed: unknown = await c.req.json();
+    // `null` or a bare value carries no question, so it gets the 400 below
+    body = typeof parsed === "object" && parsed !== null ? parsed : {};
+  } catch {
+    return c.json({ error: "Bad Request", message: "Body must be JSON" }, 400);
+  }
+  const question = typeof body.question === "string" ? body.question.trim() : "";
+  if (!question || question.length > MAX_QUESTION_LENGTH) {
+    return c.json(
+      {
+        error: "Bad Request",
+        message: `question is required (at most ${MAX_QUESTION_LENGTH} characters)`,
+      },
+      400,
+    );
+  }
+  const locale = getLocaleFromRequest(
+    typeof body.lang === "string" ? body.lang : undefined,
+    c.req.header("Accept-Language"),
+  );
+  try {
+    return c.json(await askLibrary(question, locale));
+  } catch (err) {
+    if (err instanceof BudgetExceededError) {
+      return c.json({ error: "Service Unavailable", message: err.message }, 503);
+    }
+    console.error("Ask error:", err);
+    return c.json({ error: INCLUDE_ERROR_DATA ? String(err) : "Internal server error" }, 500);
+  }
+});
+
+// "Ask this item" chat on detail pages: answers stream as SSE events `delta` ({ text }), then
+// `done`, or `error` ({ code: "budget" | "error", message })
+app.post("/api/chat", async (c) => {
+  let body: { type?: unknown; id?: unknown; lang?: unknown; messages?: unknown };
+  try {
+    const parsed: unknown = await c.req.json();
+    // Checked before destructuring: `null` or a bare value gets the 400 below
+    body = typeof parsed === "object" && parsed !== null ? parsed : {};
+  } catch {
+    return c.json({ error: "Bad Request", message: "Body must be JSON" }, 400);
+  }
+  const { type, id } = body;
+  const messages = parseChatMessages(body.messages);
+  if (!isRelatedItemType(type) || typeof id !== "string" || !id || !messages) {
+    return c.json(
+      {
+        error: "Bad Request",
+        message:
+          "type (paper, video or nasa), id and messages (alternating, ending with a question) are required",
+      },
+      400,
+    );
+  }
+  const locale = getLocaleFromRequest(
+    typeof body.lang === "string" ? body.lang : undefined,
+    c.req.header("Accept-Language"),
+  );
+  let context: ItemChatContext | null;
+  try {
+    context = await getItemChatContext(type, id);
+  } catch (err) {
+    console.error("Item chat error:", err);
+    return c.json({ error: INCLUDE_ERROR_DATA ? String(err) : "Internal server error" }, 500);
+  }
+  if (!context) {
+    return c.json({ error: "Not Found", message: `No ${type} with id ${id}` }, 404);
+  }
+
+  return streamSSE(c, async (stream) => {
+    try {
+      await streamItemAnswer({
+        context,
+        messages,
+        locale,
+        onChunk: (text) => void stream.writeSSE({ event: "delta", data: JSON.stringify({ text }) }),
+      });
+      await stream.writeSSE({ event: "done", data: "{}" });
+    } catch (err) {
+      if (err instanceof BudgetExceededError) {
+        const data = JSON.stringify({ code: "budget", message: err.message });
+        await stream.writeSSE({ event: "error", data });
+        return;
+      }
+      console.error("Item chat error:", err);
+      const message = INCLUDE_ERROR_DATA ? String(err) : "Internal server error";
+      await stream.writeSSE({ event: "error", data: JSON.stringify({ code: "error", message }) });
+    }
+  });
+});
+
+app.route("/api/v1", apiV1);
+
 // Pages
 app.get("/", async (c) => {
   const locale = getLocaleFromRequest(
@@ -467,6 +723,21 @@ app.get("/search", async (c) => {
   );
 });
 
+/** Related items for the detail page; the page still renders if Chroma is unavailable. */
+async function loadRelatedItems(
+  type: string,
+  id: string,
+  locale: Locale,
+): Promise<SearchResultItem[]> {
+  if (!isRelatedItemType(type) || !id) return [];
+  try {
+    return (await getRelatedItems(type, id, locale)).items;
+  } catch (err) {
+    console.error("Related items error:", err);
+    return [];
+  }
+}
+
 app.get("/detail", async (c) => {
   const type = (c.req.query("type") ?? "") as "paper" | "video" | "nasa";
   const id = c.req.query("id") ?? "";
@@ -496,14 +767,17 @@ app.get("/detail", async (c) => {
     );
   }
 
-  const trans = await db.query.translations.findFirst({
-    where: and(
-      eq(translations.itemType, type),
-      eq(translations.itemId, id),
-      eq(translations.lang, locale),
-    ),
-    columns: { title: true, summary: true },
-  });
+  const [trans, related] = await Promise.all([
+    db.query.translations.findFirst({
+      where: and(
+        eq(translations.itemType, type),
+        eq(translations.itemId, id),
+        eq(translations.lang, locale),
+      ),
+      columns: { title: true, summary: true },
+    }),
+    loadRelatedItems(type, id, locale),
+  ]);
 
   if (type === "paper") {
     const row = await db.query.papers.findFirst({ where: eq(papers.id, id) });
@@ -549,6 +823,9 @@ app.get("/detail", async (c) => {
         summaryHtml={renderMarkdown(summary)}
         sourceUrl={row.arxivUrl ?? row.pdfUrl ?? undefined}
         returnUrl={returnUrl}
+        related={related}
+        citeUrl={`/api/cite?type=paper&id=${encodeURIComponent(row.id)}`}
+        chatItem={{ type: "paper", id: row.id }}
         locale={locale}
         dict={dict}
         pageTitle={pageTitle}
@@ -606,6 +883,8 @@ app.get("/detail", async (c) => {
         summaryHtml={renderMarkdown(summary)}
         sourceUrl={row.videoUrl}
         returnUrl={returnUrl}
+        related={related}
+        chatItem={{ type: "video", id: row.id }}
         locale={locale}
         dict={dict}
         pageTitle={pageTitle}
@@ -675,6 +954,8 @@ app.get("/detail", async (c) => {
         summaryHtml={renderMarkdown(summary)}
         sourceUrl={row.url}
         returnUrl={returnUrl}
+        related={related}
+        chatItem={{ type: "nasa", id: row.id }}
         locale={locale}
         dict={dict}
         pageTitle={pageTitle}
@@ -701,42 +982,7 @@ app.get("/detail", async (c) => {
   );
 });
 
-app.post("/api/mcp", async (c) => {
-  try {
-    let body: unknown;
-    try {
-      body = await c.req.json();
-    } catch (error) {
-      const response = {
-        jsonrpc: "2.0",
-        id: null,
-        error: {
-          code: -32700,
-          message: "Parse error",
-          data: INCLUDE_ERROR_DATA ? String(error) : undefined,
-        },
-      };
-      return c.json(response, 400);
-    }
-
-    const response = await handleMCPRequest(body);
-    if (response === null) {
-      return c.body(null, 202);
-    }
-    return c.json(response, 200);
-  } catch (error) {
-    const response = {
-      jsonrpc: "2.0",
-      id: null,
-      error: {
-        code: -32603,
-        message: "Internal error",
-        data: INCLUDE_ERROR_DATA ? String(error) : undefined,
-      },
-    };
-    return c.json(response, 500);
-  }
-});
+app.route("/api/mcp", mcpHttp);
 
 // 404
 app.notFound(async (c) => {
@@ -0,0 +1,70 @@
+#!/usr/bin/env -S deno run --allow-all --env
+/**
+ * Manage API keys for /api/v1.
+ *
+ * Usage:
+ *   deno task api-keys create --name nightly-export [--tier free|standard|internal]
+ *   deno task api-keys list
+ *   deno task api-keys revoke --id 3
+ */
+import { createApiKey, isApiKeyTier, listApiKeys, revokeApiKey } from "../lib/api/keys.ts";
+import { API_KEY_TIERS } from "../lib/config.ts";
+
+function getArg(name: string): string | null {
+  const index = Deno.args.indexOf(name);
+  if (index === -1) return null;
+  return Deno.args[index + 1] ?? null;
+}
+
+function usage(): never {
+  console.error(
+    "Usage: deno task api-keys create --name <name> [--tier <tier>] | list | revoke --id <id>",
+  );
+  console.error(`Tiers: ${Object.keys(API_KEY_TIERS).join(", ")}`);
+  Deno.exit(1);
+}
+
+async function main() {
+  const command = Deno.args[0];
+
+  if (command === "create") {
+    const name = getArg("--name");
+    const tier = getArg("--tier") ?? "standard";
+    if (!name || !isApiKeyTier(tier)) usage();
+    const { id, key } = await createApiKey({ name, tier });
+    console.log(`Created API key #${id} (${tier}) for "${name}":\n\n  ${key}\n`);
+    console.log("Store it now - only its hash is kept in the database.");
+    return;
+  }
+
+  if (command === "list") {
+    const keys = await listApiKeys();
+    if (keys.length === 0) {
+      console.log("No API keys.");
+      return;
+    }
+    for (const key of keys) {
+      const status = key.revokedAt ? `revoked ${key.revokedAt.toISOString()}` : "active";
+      console.log(
+        `#${key.id}\t${key.keyPrefix}…\t${key.tier}\t${status}\t${key.name}\t(created ${key.createdAt.toISOString()})`,
+      );
+    }
+    return;
+  }
+
+  if (command === "revoke") {
+    const id = Number(getArg("--id"));
+    if (!Number.isInteger(id) || id <= 0) usage();
+    const revoked = await revokeApiKey(id);
+    console.log(revoked ? `Revoked API key #${id}.` : `No API key #${id}.`);
+    if (!revoked) Deno.exit(1);
+    return;
+  }
+
+  usage();
+}
+
+main().catch((error) => {
+  console.error("❌", error);
+  Deno.exit(1);
+});
@@ -0,0 +1,29 @@
+#!/usr/bin/env -S deno run --allow-all --env
+/**
+ * Drop and rebuild the FTS5 keyword index (lib/fts.ts) from the papers, videos, NASA content
+ * and translations tables. The AI queue already does this on its own when the index predates
+ * FTS_INDEX_VERSION; run this to force a rebuild, e.g. after bulk edits or a purge.
+ *
+ * Usage:
+ *   deno task rebuild-fts
+ */
+import { client } from "../db/client.ts";
+import { rebuildFtsTables } from "../lib/fts.ts";
+
+async function main() {
+  const started = Date.now();
+  const counts = await rebuildFtsTables(client);
+  if (!counts) {
+    console.error("❌ Another process is rebuilding the FTS index; try again when it finishes");
+    Deno.exit(1);
+  }
+  for (const [table, rows] of Object.entries(counts)) {
+    console.log(`${table}\t${rows} rows`);
+  }
+  console.log(`\n✅ FTS index rebuilt in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+}
+
+main().catch((error) => {
+  console.error("❌", error);
+  Deno.exit(1);
+});
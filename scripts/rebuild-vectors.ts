@@ -6,17 +6,43 @@
  *
  * Usage:
  *   deno task rebuild-vectors
+ *   deno task rebuild-vectors --migrate                    # re-embed with the active provider
+ *   deno task rebuild-vectors --migrate --provider minilm  # override EMBEDDING_PROVIDER
  *
  * Or directly:
  *   deno run --allow-all --env scripts/rebuild-vectors.ts
+ *
+ * --migrate drops every collection (including the legacy ones) and recreates it for the
+ * selected embedding provider before rebuilding. The legacy collections are left empty: only
+ * the per-locale collections are rebuilt. Without it, collections built by a different
+ * provider are refused.
+ *
+ * Vectors are upserted, so a plain rerun also refreshes their metadata (published time,
+ * categories, source, channel, center) after the filterable keys change.
  */
 
 import { db } from "../db/client.ts";
 import { papers, videos, nasaContent, translations } from "../db/schema.ts";
 import { eq } from "drizzle-orm";
-import { initializeCollections, type CollectionsByLocale } from "../lib/vector.ts";
+import {
+  type CollectionsByLocale,
+  EmbeddingMismatchError,
+  initializeCollections,
+  initializeLegacyCollections,
+} from "../lib/vector.ts";
+import {
+  createEmbeddingProvider,
+  type EmbeddingProvider,
+  getEmbeddingProvider,
+  isEmbeddingProviderName,
+} from "../lib/embeddings.ts";
 import type { Locale } from "../lib/i18n.ts";
 import { SUPPORTED_LOCALES } from "../lib/i18n.ts";
+import {
+  nasaVectorMetadata,
+  paperVectorMetadata,
+  videoVectorMetadata,
+} from "../lib/vector-metadata.ts";
 
 interface RebuildStats {
   papers: number;
@@ -25,6 +51,21 @@ interface RebuildStats {
   errors: string[];
 }
 
+function getArg(name: string): string | null {
+  const index = Deno.args.indexOf(name);
+  if (index === -1) return null;
+  return Deno.args[index + 1] ?? null;
+}
+
+function resolveProvider(): EmbeddingProvider {
+  const name = getArg("--provider");
+  if (!name) return getEmbeddingProvider();
+  if (!isEmbeddingProviderName(name)) {
+    throw new Error(`Unknown --provider "${name}" (expected "minilm" or "hash")`);
+  }
+  return createEmbeddingProvider(name);
+}
+
 async function getTranslationsForItem(
   itemType: "paper" | "video" | "nasa",
   itemId: string,
@@ -61,29 +102,19 @@ async function rebuildPaperVectors(
       if (trans.size === 0) {
         // No translations - use original English content for all locales
         for (const locale of SUPPORTED_LOCALES) {
-          await collections.papers[locale].add({
+          await collections.papers[locale].upsert({
             id: paper.id,
             text: `${paper.title}\n\n${paper.summary || ""}\n\n${paper.abstract || ""}`,
-            metadata: {
-              title: paper.title,
-              published: paper.publishedDate?.toISOString() || "",
-              categories: paper.categories || "[]",
-              source: paper.id.startsWith("ntrs-") ? "NASA NTRS" : "arXiv",
-            },
+            metadata: paperVectorMetadata(paper, paper.title),
           });
         }
       } else {
         // Use translations for each locale
         for (const [locale, t] of trans) {
-          await collections.papers[locale].add({
+          await collections.papers[locale].upsert({
             id: paper.id,
             text: `${t.title}\n\n${t.summary}\n\n${paper.abstract || ""}`,
-            metadata: {
-              title: t.title,
-              published: paper.publishedDate?.toISOString() || "",
-              categories: paper.categories || "[]",
-              source: paper.id.startsWith("ntrs-") ? "NASA NTRS" : "arXiv",
-            },
+            metadata: paperVectorMetadata(paper, t.title),
           });
         }
       }
@@ -118,27 +149,19 @@ async function rebuildVideoVectors(
       if (trans.size === 0) {
         // No translations - use original English content
         for (const locale of SUPPORTED_LOCALES) {
-          await collections.videos[locale].add({
+          await collections.videos[locale].upsert({
             id: video.id,
             text: `${video.title}\n\n${video.summary || ""}\n\n${transcriptPreview}`,
-            metadata: {
-              title: video.title,
-              channelName: video.channelName || "",
-              published: video.publishedDate?.toISOString() || "",
-            },
+            metadata: videoVectorMetadata(video, video.title),
           });
         }
       } else {
         // Use translations for each locale
         for (const [locale, t] of trans) {
-          await collections.videos[locale].add({
+          await collections.videos[locale].upsert({
             id: video.id,
             text: `${t.title}\n\n${t.summary}\n\n${transcriptPreview}`,
-            metadata: {
-              title: t.title,
-              channelName: video.channelName || "",
-              published: video.publishedDate?.toISOString() || "",
-            },
+            metadata: videoVectorMetadata(video, t.title),
           });
         }
       }
@@ -173,27 +196,19 @@ async function rebuildNasaVectors(
       if (trans.size === 0) {
         // No translations - use original English content
         for (const locale of SUPPORTED_LOCALES) {
-          await collections.nasa[locale].add({
+          await collections.nasa[locale].upsert({
             id: item.id,
             text: `${item.title}\n\n${item.summary || ""}\n\n${description}`,
-            metadata: {
-              title: item.title,
-              date: item.date?.toISOString() || "",
-              type: item.contentType || "",
-            },
+            metadata: nasaVectorMetadata(item, item.title),
           });
         }
       } else {
         // Use translations for each locale
         for (const [locale, t] of trans) {
-          await collections.nasa[locale].add({
+          await collections.nasa[locale].upsert({
             id: item.id,
             text: `${t.title}\n\n${t.summary}\n\n${description}`,
-            metadata: {
-              title: t.title,
-              date: item.date?.toISOString() || "",
-              type: item.contentType || "",
-            },
+            metadata: nasaVectorMetadata(item, t.title),
           });
         }
       }
@@ -215,6 +230,8 @@ async function main() {
   console.log("\nThis script rebuilds ChromaDB vectors from existing Turso data.");
   console.log("No AI API calls will be made.\n");
 
+  const migrate = Deno.args.includes("--migrate");
+
   const startTime = Date.now();
   const stats: RebuildStats = {
     papers: 0,
@@ -224,9 +241,20 @@ async function main() {
   };
 
   try {
+    const provider = resolveProvider();
+    console.log(`🧠 Embedding model: ${provider.model} (${provider.dimension}d)`);
+
     // Initialize ChromaDB collections
     console.log("🔌 Connecting to ChromaDB...");
-    const collections = await initializeCollections();
+    if (migrate) {
+      console.log("🔁 Migrating: recreating collections for the selected provider");
+      // Legacy collections are only a search fallback; recreate them empty so they match too
+      console.warn(
+        "⚠️  The legacy (pre-i18n) collections are recreated empty; their vectors are dropped",
+      );
+      await initializeLegacyCollections({ provider, recreate: true });
+    }
+    const collections = await initializeCollections({ provider, recreate: migrate });
     console.log("✅ Connected to ChromaDB\n");
 
     // Rebuild vectors for each content type
@@ -235,7 +263,11 @@ async function main() {
     await rebuildNasaVectors(collections, stats);
 
   } catch (error) {
-    console.error("❌ Fatal error:", error);
+    if (error instanceof EmbeddingMismatchError) {
+      console.error(`❌ ${error.message}`);
+    } else {
+      console.error("❌ Fatal error:", error);
+    }
     stats.errors.push(`Fatal: ${error}`);
   }
 
@@ -4,12 +4,22 @@
  *
  * Usage:
  *   deno task reindex-all
+ *   deno task reindex-all --estimate   # forecast the AI cost only; changes nothing
  */
 import { db } from "../db/client.ts";
-import { papers, videos, nasaContent, translations } from "../db/schema.ts";
+import {
+  type NasaContent,
+  nasaContent,
+  type Paper,
+  papers,
+  translations,
+  type Video,
+  videos,
+} from "../db/schema.ts";
 import { and, eq } from "drizzle-orm";
-import { processMultilingualContent } from "../lib/ai/processor.ts";
+import { type MultilingualTranslation, processMultilingualContent } from "../lib/ai/processor.ts";
 import { BudgetExceededError } from "../lib/ai/usage.ts";
+import { createCostEstimator, formatCostEstimate } from "../lib/ai/estimate.ts";
 import {
   chromaClient,
   getCollectionName,
@@ -17,26 +27,53 @@ import {
   initializeCollections,
 } from "../lib/vector.ts";
 import { SUPPORTED_LOCALES } from "../lib/i18n.ts";
+import {
+  nasaVectorMetadata,
+  paperVectorMetadata,
+  videoVectorMetadata,
+} from "../lib/vector-metadata.ts";
 
 const MAX_VIDEO_TEXT = 5000;
 const MAX_NASA_TEXT = 5000;
 const MAX_PAPER_TEXT = 50000;
 
-function safeParseJsonArray(value: string | null | undefined): string[] {
-  if (!value) return [];
-  try {
-    const parsed = JSON.parse(value);
-    return Array.isArray(parsed) ? parsed.map(String) : [];
-  } catch {
-    return [];
-  }
-}
-
 function snip(text: string | null | undefined, max: number): string {
   if (!text) return "";
   return text.length > max ? text.slice(0, max) : text;
 }
 
+type ProcessInput = Parameters<typeof processMultilingualContent>[0];
+
+// What each row is summarized from (null when it has no text); shared with --estimate
+function paperInput(row: Paper): ProcessInput | null {
+  const text = snip(row.abstract, MAX_PAPER_TEXT);
+  return text ? { text, title: row.title, sourceType: "paper" } : null;
+}
+
+function videoInput(row: Video): ProcessInput | null {
+  const sourceText = row.transcript || row.description || "";
+  return sourceText ? { text: sourceText, title: row.title, sourceType: "video" } : null;
+}
+
+function nasaInput(row: NasaContent): ProcessInput | null {
+  const sourceText = row.explanation || row.description || "";
+  return sourceText ? { text: sourceText, title: row.title, sourceType: "article" } : null;
+}
+
+// Price a full reindex without resetting collections, writing anything or calling the model
+async function estimate() {
+  const estimator = createCostEstimator();
+  const inputs = [
+    ...(await db.query.papers.findMany()).map(paperInput),
+    ...(await db.query.videos.findMany()).map(videoInput),
+    ...(await db.query.nasaContent.findMany()).map(nasaInput),
+  ];
+  for (const input of inputs) {
+    if (input) await estimator.addItem(input);
+  }
+  console.log(formatCostEstimate(estimator.result()));
+}
+
 async function resetCollections() {
   const names: string[] = [];
   for (const locale of SUPPORTED_LOCALES) {
@@ -59,11 +96,7 @@ async function resetCollections() {
   }
 }
 
-async function upsertTranslations(itemType: "paper" | "video" | "nasa", itemId: string, items: {
-  lang: string;
-  title: string;
-  summary: string;
-}[]) {
+async function upsertTranslations(itemType: "paper" | "video" | "nasa", itemId: string, items: MultilingualTranslation[]) {
   await db.delete(translations).where(and(eq(translations.itemType, itemType), eq(translations.itemId, itemId)));
   for (const t of items) {
     await db.insert(translations).values({
@@ -72,6 +105,8 @@ async function upsertTranslations(itemType: "paper" | "video" | "nasa", itemId:
       lang: t.lang,
       title: t.title,
       summary: t.summary,
+      model: t.provenance.model,
+      promptVersion: t.provenance.promptVersion,
     });
   }
 }
@@ -80,6 +115,10 @@ async function main() {
   console.log("============================================================");
   console.log("AstroGroot Full Reindex Script");
   console.log("============================================================");
+  if (Deno.args.includes("--estimate")) {
+    await estimate();
+    return;
+  }
   console.log("This will regenerate summaries/translations and rebuild vectors.");
 
   console.log("\n🧹 Resetting ChromaDB collections...");
@@ -98,20 +137,19 @@ async function main() {
   let processed = 0;
 
   for (const row of paperRows) {
-    const text = snip(row.abstract, MAX_PAPER_TEXT);
-    if (!text) {
+    const input = paperInput(row);
+    if (!input) {
       console.warn(`⚠️  Paper ${row.id} has no abstract, skipping`);
       continue;
     }
+    const text = input.text;
     console.log(`\n📄 Reindexing paper ${row.id}: ${row.title.substring(0, 60)}...`);
-    const { baseSummary, translations: trans } = await processMultilingualContent({
-      text,
-      title: row.title,
-      sourceType: "paper",
-    });
+    const { baseSummary, summaryProvenance, translations: trans } = await processMultilingualContent(input);
 
     await db.update(papers).set({
       summary: baseSummary,
+      summaryModel: summaryProvenance.model,
+      summaryPromptVersion: summaryProvenance.promptVersion,
       processed: true,
       vectorId: row.id,
       updatedAt: new Date(),
@@ -119,39 +157,32 @@ async function main() {
 
     await upsertTranslations("paper", row.id, trans);
 
-    const categories = safeParseJsonArray(row.categories).join(", ");
     for (const t of trans) {
       const locale = t.lang as typeof SUPPORTED_LOCALES[number];
       if (!SUPPORTED_LOCALES.includes(locale)) continue;
       await collections.papers[locale].add({
         id: row.id,
         text: `${t.title}\n\n${t.summary}\n\n${text}`,
-        metadata: {
-          title: t.title,
-          published: row.publishedDate ? new Date(row.publishedDate).toISOString() : undefined,
-          categories,
-        },
+        metadata: paperVectorMetadata(row, t.title),
       });
     }
     processed++;
   }
 
   for (const row of videoRows) {
-    const sourceText = row.transcript || row.description || "";
-    const text = snip(sourceText, MAX_VIDEO_TEXT);
-    if (!text) {
+    const input = videoInput(row);
+    if (!input) {
       console.warn(`⚠️  Video ${row.id} has no transcript/description, skipping`);
       continue;
     }
+    const text = snip(input.text, MAX_VIDEO_TEXT);
     console.log(`\n🎥 Reindexing video ${row.id}: ${row.title.substring(0, 60)}...`);
-    const { baseSummary, translations: trans } = await processMultilingualContent({
-      text: sourceText,
-      title: row.title,
-      sourceType: "video",
-    });
+    const { baseSummary, summaryProvenance, translations: trans } = await processMultilingualContent(input);
 
     await db.update(videos).set({
       summary: baseSummary,
+      summaryModel: summaryProvenance.model,
+      summaryPromptVersion: summaryProvenance.promptVersion,
       processed: true,
       vectorId: row.id,
       updatedAt: new Date(),
@@ -165,32 +196,26 @@ async function main() {
       await collections.videos[locale].add({
         id: row.id,
         text: `${t.title}\n\n${t.summary}\n\n${text}`,
-        metadata: {
-          title: t.title,
-          published: row.publishedDate ? new Date(row.publishedDate).toISOString() : undefined,
-          channel: row.channelName,
-        },
+        metadata: videoVectorMetadata(row, t.title),
       });
     }
     processed++;
   }
 
   for (const row of nasaRows) {
-    const sourceText = row.explanation || row.description || "";
-    const text = snip(sourceText, MAX_NASA_TEXT);
-    if (!text) {
+    const input = nasaInput(row);
+    if (!input) {
       console.warn(`⚠️  NASA ${row.id} has no explanation/description, skipping`);
       continue;
     }
+    const text = snip(input.text, MAX_NASA_TEXT);
     console.log(`\n🚀 Reindexing NASA ${row.id}: ${row.title.substring(0, 60)}...`);
-    const { baseSummary, translations: trans } = await processMultilingualContent({
-      text: sourceText,
-      title: row.title,
-      sourceType: "article",
-    });
+    const { baseSummary, summaryProvenance, translations: trans } = await processMultilingualContent(input);
 
     await db.update(nasaContent).set({
       summary: baseSummary,
+      summaryModel: summaryProvenance.model,
+      summaryPromptVersion: summaryProvenance.promptVersion,
       processed: true,
       vectorId: row.id,
       updatedAt: new Date(),
@@ -204,11 +229,7 @@ async function main() {
       await collections.nasa[locale].add({
         id: row.id,
         text: `${t.title}\n\n${t.summary}\n\n${text}`,
-        metadata: {
-          title: t.title,
-          date: row.date ? new Date(row.date).toISOString() : undefined,
-          contentType: row.contentType,
-        },
+        metadata: nasaVectorMetadata(row, t.title),
       });
     }
     processed++;
@@ -6,14 +6,21 @@
  *   deno task reindex-one --type paper --id 2601.22121
  *   deno task reindex-one --type video --id <youtube_id>
  *   deno task reindex-one --type nasa --id <nasa_id>
+ *   deno task reindex-one --type paper --id 2601.22121 --estimate   # forecast the AI cost only
  */
 import { db } from "../db/client.ts";
 import { papers, videos, nasaContent, translations } from "../db/schema.ts";
 import { and, eq } from "drizzle-orm";
-import { processMultilingualContent } from "../lib/ai/processor.ts";
+import { type MultilingualTranslation, processMultilingualContent } from "../lib/ai/processor.ts";
 import { BudgetExceededError } from "../lib/ai/usage.ts";
+import { type CostEstimator, createCostEstimator, formatCostEstimate } from "../lib/ai/estimate.ts";
 import { SUPPORTED_LOCALES } from "../lib/i18n.ts";
 import { initializeCollections } from "../lib/vector.ts";
+import {
+  nasaVectorMetadata,
+  paperVectorMetadata,
+  videoVectorMetadata,
+} from "../lib/vector-metadata.ts";
 
 type ItemType = "paper" | "video" | "nasa";
 
@@ -32,11 +39,7 @@ function snip(text: string | null | undefined, max: number): string {
   return text.length > max ? text.slice(0, max) : text;
 }
 
-async function upsertTranslations(itemType: ItemType, itemId: string, items: {
-  lang: string;
-  title: string;
-  summary: string;
-}[]) {
+async function upsertTranslations(itemType: ItemType, itemId: string, items: MultilingualTranslation[]) {
   await db.delete(translations).where(and(eq(translations.itemType, itemType), eq(translations.itemId, itemId)));
   for (const t of items) {
     await db.insert(translations).values({
@@ -45,23 +48,25 @@ async function upsertTranslations(itemType: ItemType, itemId: string, items: {
       lang: t.lang,
       title: t.title,
       summary: t.summary,
+      model: t.provenance.model,
+      promptVersion: t.provenance.promptVersion,
     });
   }
 }
 
-async function reindexPaper(id: string) {
+async function reindexPaper(id: string, estimator?: CostEstimator) {
   const row = await db.query.papers.findFirst({ where: eq(papers.id, id) });
   if (!row) throw new Error(`Paper ${id} not found`);
   const text = snip(row.abstract, MAX_PAPER_TEXT);
   if (!text) throw new Error(`Paper ${id} has no abstract`);
-  const { baseSummary, translations: trans } = await processMultilingualContent({
-    text,
-    title: row.title,
-    sourceType: "paper",
-  });
+  const input = { text, title: row.title, sourceType: "paper" } as const;
+  if (estimator) return await estimator.addItem(input);
+  const { baseSummary, summaryProvenance, translations: trans } = await processMultilingualContent(input);
 
   await db.update(papers).set({
     summary: baseSummary,
+    summaryModel: summaryProvenance.model,
+    summaryPromptVersion: summaryProvenance.promptVersion,
     processed: true,
     vectorId: row.id,
     updatedAt: new Date(),
@@ -73,32 +78,28 @@ async function reindexPaper(id: string) {
   for (const t of trans) {
     const locale = t.lang as typeof SUPPORTED_LOCALES[number];
     if (!SUPPORTED_LOCALES.includes(locale)) continue;
-    await collections.papers[locale].add({
+    await collections.papers[locale].upsert({
       id: row.id,
       text: `${t.title}\n\n${t.summary}\n\n${text}`,
-      metadata: {
-        title: t.title,
-        published: row.publishedDate ? new Date(row.publishedDate).toISOString() : undefined,
-        categories: row.categories,
-      },
+      metadata: paperVectorMetadata(row, t.title),
     });
   }
 }
 
-async function reindexVideo(id: string) {
+async function reindexVideo(id: string, estimator?: CostEstimator) {
   const row = await db.query.videos.findFirst({ where: eq(videos.id, id) });
   if (!row) throw new Error(`Video ${id} not found`);
   const sourceText = row.transcript || row.description || "";
   const text = snip(sourceText, MAX_VIDEO_TEXT);
   if (!text) throw new Error(`Video ${id} has no transcript/description`);
-  const { baseSummary, translations: trans } = await processMultilingualContent({
-    text: sourceText,
-    title: row.title,
-    sourceType: "video",
-  });
+  const input = { text: sourceText, title: row.title, sourceType: "video" } as const;
+  if (estimator) return await estimator.addItem(input);
+  const { baseSummary, summaryProvenance, translations: trans } = await processMultilingualContent(input);
 
   await db.update(videos).set({
     summary: baseSummary,
+    summaryModel: summaryProvenance.model,
+    summaryPromptVersion: summaryProvenance.promptVersion,
     processed: true,
     vectorId: row.id,
     updatedAt: new Date(),
@@ -110,32 +111,28 @@ async function reindexVideo(id: string) {
   for (const t of trans) {
     const locale = t.lang as typeof SUPPORTED_LOCALES[number];
     if (!SUPPORTED_LOCALES.includes(locale)) continue;
-    await collections.videos[locale].add({
+    await collections.videos[locale].upsert({
       id: row.id,
       text: `${t.title}\n\n${t.summary}\n\n${text}`,
-      metadata: {
-        title: t.title,
-        published: row.publishedDate ? new Date(row.publishedDate).toISOString() : undefined,
-        channel: row.channelName,
-      },
+      metadata: videoVectorMetadata(row, t.title),
     });
   }
 }
 
-async function reindexNasa(id: string) {
+async function reindexNasa(id: string, estimator?: CostEstimator) {
   const row = await db.query.nasaContent.findFirst({ where: eq(nasaContent.id, id) });
   if (!row) throw new Error(`NASA ${id} not found`);
   const sourceText = row.explanation || row.description || "";
   const text = snip(sourceText, MAX_NASA_TEXT);
   if (!text) throw new Error(`NASA ${id} has no explanation/description`);
-  const { baseSummary, translations: trans } = await processMultilingualContent({
-    text: sourceText,
-    title: row.title,
-    sourceType: "article",
-  });
+  const input = { text: sourceText, title: row.title, sourceType: "article" } as const;
+  if (estimator) return await estimator.addItem(input);
+  const { baseSummary, summaryProvenance, translations: trans } = await processMultilingualContent(input);
 
   await db.update(nasaContent).set({
     summary: baseSummary,
+    summaryModel: summaryProvenance.model,
+    summaryPromptVersion: summaryProvenance.promptVersion,
     processed: true,
     vectorId: row.id,
     updatedAt: new Date(),
@@ -147,14 +144,10 @@ async function reindexNasa(id: string) {
   for (const t of trans) {
     const locale = t.lang as typeof SUPPORTED_LOCALES[number];
     if (!SUPPORTED_LOCALES.includes(locale)) continue;
-    await collections.nasa[locale].add({
+    await collections.nasa[locale].upsert({
       id: row.id,
       text: `${t.title}\n\n${t.summary}\n\n${text}`,
-      metadata: {
-        title: t.title,
-        date: row.date ? new Date(row.date).toISOString() : undefined,
-        contentType: row.contentType,
-      },
+      metadata: nasaVectorMetadata(row, t.title),
     });
   }
 }
@@ -167,12 +160,17 @@ async function main() {
     Deno.exit(1);
   }
 
-  console.log(`Reindexing ${type} ${id}...`);
-  if (type === "paper") await reindexPaper(id);
-  else if (type === "video") await reindexVideo(id);
-  else if (type === "nasa") await reindexNasa(id);
+  // --estimate prices the item without writing anything or calling the model
+  const estimator = Deno.args.includes("--estimate") ? createCostEstimator() : undefined;
+
+  console.log(`${estimator ? "Estimating" : "Reindexing"} ${type} ${id}...`);
+  if (type === "paper") await reindexPaper(id, estimator);
+  else if (type === "video") await reindexVideo(id, estimator);
+  else if (type === "nasa") await reindexNasa(id, estimator);
   else throw new Error(`Unsupported type: ${type}`);
-  console.log("✅ Done");
+
+  if (estimator) console.log(formatCostEstimate(estimator.result()));
+  else console.log("✅ Done");
 }
 
 main().catch((error) => {
@@ -0,0 +1,70 @@
+#!/usr/bin/env -S deno run --allow-all --env
+
+/**
+ * Regenerate only the summaries/translations produced by an outdated prompt or model.
+ *
+ * Every summary and translation records the model and prompt version that produced it (see
+ * lib/ai/routing.ts). After bumping a prompt version or switching a purpose's model, this
+ * script queues the affected items as AI jobs and drains the queue, so vectors and the FTS
+ * index are rebuilt for them too. Spend stays within AI_DAILY_BUDGET_USD; re-run to continue.
+ *
+ * Usage:
+ *   deno task reprocess-outdated                       # queue outdated items, then drain the queue
+ *   deno task reprocess-outdated --dry-run             # only count them
+ *   deno task reprocess-outdated --max 100             # process at most 100 jobs this run
+ *   deno task reprocess-outdated --include-unstamped   # also items from before provenance was
+ *                                                      # recorded (as costly as reindex-all)
+ */
+
+import { countOutdatedItems, enqueueOutdatedItems } from "../lib/ai/jobs.ts";
+import { AI_ROUTES, type AiPurpose, currentProvenance, resolveRoute } from "../lib/ai/routing.ts";
+import { runAiQueue } from "../workers/ai-queue.ts";
+
+function getArg(name: string): string | null {
+  const index = Deno.args.indexOf(name);
+  if (index === -1) return null;
+  return Deno.args[index + 1] ?? null;
+}
+
+async function main() {
+  const dryRun = Deno.args.includes("--dry-run");
+  const includeUnstamped = Deno.args.includes("--include-unstamped");
+  const max = Number(getArg("--max")) || undefined;
+
+  console.log("=".repeat(60));
+  console.log("AstroGroot Reprocess Outdated AI Outputs");
+  console.log("=".repeat(60));
+  console.log("\nCurrent routes:");
+  for (const purpose of Object.keys(AI_ROUTES) as AiPurpose[]) {
+    const route = resolveRoute(purpose);
+    console.log(`  ${purpose.padEnd(20)} ${route.model} (prompt v${route.promptVersion})`);
+  }
+
+  const options = { expected: currentProvenance(), includeUnstamped };
+  const counts = await countOutdatedItems(options);
+  console.log(
+    `\n🔎 Outdated: ${counts.paper} papers, ${counts.video} videos, ${counts.nasa} NASA items` +
+      (includeUnstamped ? " (including unstamped)" : ""),
+  );
+
+  if (dryRun) {
+    console.log("Dry run: nothing queued.");
+    return;
+  }
+
+  const queued = await enqueueOutdatedItems(options);
+  console.log(`📥 Queued ${queued} items for reprocessing`);
+
+  const result = await runAiQueue({ maxJobs: max });
+  console.log(
+    `\n📊 AI queue: ${result.processed} processed, ${result.retried} retrying, ${result.deadLettered} dead-lettered`,
+  );
+  if (result.budgetStopReason) {
+    console.log(`🛑 Stopped: ${result.budgetStopReason}`);
+    console.log("Queued items stay pending; run `deno task ai-queue` or this script again later.");
+  }
+}
+
+if (import.meta.main) {
+  await main();
+}
@@ -0,0 +1,100 @@
+#!/usr/bin/env -S deno run --allow-all --env
+/**
+ * Manage the bilingual terminology base (lib/terminology.ts): the preferred zh-TW/zh-CN rendering
+ * of English terms, used in translation prompts, search query expansion and translation checks.
+ * The server and workers pick up edits within 5 minutes.
+ *
+ * Usage:
+ *   deno task terminology seed                # add the built-in terms missing from the table
+ *   deno task terminology list [--domain propulsion]
+ *   deno task terminology set --en turbopump --zh-tw 渦輪泵 --zh-cn 涡轮泵 [--domain propulsion] [--notes "..."]
+ *   deno task terminology remove --en turbopump
+ *   deno task terminology check [--limit 200] # flag stored translations not using preferred terms
+ */
+import {
+  checkStoredTranslations,
+  listTerms,
+  removeTerm,
+  seedTerms,
+  upsertTerm,
+} from "../lib/terminology.ts";
+
+function getArg(name: string): string | null {
+  const index = Deno.args.indexOf(name);
+  if (index === -1) return null;
+  return Deno.args[index + 1] ?? null;
+}
+
+function usage(): never {
+  console.error(
+    "Usage: deno task terminology seed | list [--domain <domain>] | " +
+      "set --en <term> --zh-tw <term> --zh-cn <term> [--domain <domain>] [--notes <text>] | " +
+      "remove --en <term> | check [--limit <n>]",
+  );
+  Deno.exit(1);
+}
+
+async function main() {
+  const command = Deno.args[0];
+
+  if (command === "seed") {
+    const added = await seedTerms();
+    console.log(`Added ${added} built-in terms.`);
+    return;
+  }
+
+  if (command === "list") {
+    const domain = getArg("--domain");
+    const terms = (await listTerms()).filter((term) => !domain || term.domain === domain);
+    if (terms.length === 0) {
+      console.log("No terms. Run `deno task terminology seed` to add the built-in ones.");
+      return;
+    }
+    for (const term of terms) {
+      const notes = term.notes ? `\t${term.notes}` : "";
+      console.log(`${term.domain ?? "-"}\t${term.en}\t${term.zhTw}\t${term.zhCn}${notes}`);
+    }
+    return;
+  }
+
+  if (command === "set") {
+    const en = getArg("--en");
+    const zhTw = getArg("--zh-tw");
+    const zhCn = getArg("--zh-cn");
+    if (!en || !zhTw || !zhCn) usage();
+    await upsertTerm({ en, zhTw, zhCn, domain: getArg("--domain"), notes: getArg("--notes") });
+    console.log(`Saved "${en}" → ${zhTw} / ${zhCn}.`);
+    return;
+  }
+
+  if (command === "remove") {
+    const en = getArg("--en");
+    if (!en) usage();
+    const removed = await removeTerm(en);
+    console.log(removed ? `Removed "${en}".` : `No term "${en}".`);
+    if (!removed) Deno.exit(1);
+    return;
+  }
+
+  if (command === "check") {
+    const limit = Number(getArg("--limit")) || undefined;
+    const reports = await checkStoredTranslations({ limit });
+    for (const report of reports) {
+      const issues = report.issues
+        .map((issue) =>
+          `${issue.en} → ${issue.expected}` + (issue.found ? ` (found ${issue.found})` : "")
+        )
+        .join(", ");
+      console.log(`${report.itemType}:${report.itemId}\t${report.lang}\t${issues}`);
+    }
+    console.log(`\n${reports.length} translations use non-preferred terms.`);
+    return;
+  }
+
+  usage();
+}
+
+main().catch((error) => {
+  console.error("❌", error);
+  Deno.exit(1);
+});
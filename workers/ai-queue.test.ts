@@ -0,0 +1,214 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { type AiQueueDeps, runAiQueue } from "./ai-queue.ts";
+import type { AiJob } from "../db/schema.ts";
+import {
+  type AiJobStatus,
+  type AiJobStore,
+  MAX_AI_JOB_ATTEMPTS,
+  retryDelayMs,
+} from "../lib/ai/jobs.ts";
+import { BudgetExceededError } from "../lib/ai/usage.ts";
+import type { ProcessMultilingualResult } from "../lib/ai/processor.ts";
+import { SUPPORTED_LOCALES } from "../lib/i18n.ts";
+
+// --- Mocks (minimal shape; cast to AiQueueDeps so we don't need full VectorStore/db) ---
+
+const asyncNoop = () => Promise.resolve();
+
+function job(overrides: Partial<AiJob> & Pick<AiJob, "id" | "itemType" | "itemId">): AiJob {
+  const now = new Date();
+  return {
+    priority: 0,
+    status: "running",
+    attempts: 0,
+    runAfter: now,
+    lastError: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+/** In-memory store that hands out jobs in priority order and records what happened to each. */
+function createFakeJobStore(jobs: AiJob[]) {
+  const pending = [...jobs].sort((a, b) => b.priority - a.priority || a.id - b.id);
+  const log = {
+    claimed: [] as string[],
+    completed: [] as string[],
+    failed: [] as Array<{ itemId: string; permanent: boolean }>,
+    released: [] as string[],
+  };
+  const store: AiJobStore = {
+    claimNext: () => {
+      const next = pending.shift() ?? null;
+      if (next) log.claimed.push(next.itemId);
+      return Promise.resolve(next);
+    },
+    complete: (j) => {
+      log.completed.push(j.itemId);
+      return Promise.resolve();
+    },
+    fail: (j, _error, options) => {
+      const permanent = options?.permanent ?? false;
+      log.failed.push({ itemId: j.itemId, permanent });
+      const status: AiJobStatus = permanent || j.attempts + 1 >= MAX_AI_JOB_ATTEMPTS
+        ? "dead"
+        : "pending";
+      return Promise.resolve(status);
+    },
+    release: (j) => {
+      log.released.push(j.itemId);
+      return Promise.resolve();
+    },
+  };
+  return { store, log };
+}
+
+function createMockDb(rows: { papers?: Record<string, unknown> }) {
+  const updates: unknown[] = [];
+  const database = {
+    query: {
+      papers: {
+        findFirst: () => Promise.resolve(Object.values(rows.papers ?? {}).shift()),
+      },
+      videos: { findFirst: () => Promise.resolve(undefined) },
+      nasaContent: { findFirst: () => Promise.resolve(undefined) },
+    },
+    insert: () => ({ values: asyncNoop }),
+    delete: () => ({ where: asyncNoop }),
+    update: () => ({
+      set: (values: unknown) => {
+        updates.push(values);
+        return { where: asyncNoop };
+      },
+    }),
+  };
+  return { database, updates };
+}
+
+function createMockCollections() {
+  const byLocale = Object.fromEntries(
+    SUPPORTED_LOCALES.map((locale) => [locale, { upsert: asyncNoop }]),
+  );
+  return { papers: byLocale, videos: byLocale, nasa: byLocale };
+}
+
+const paperRow = {
+  id: "2401.00001",
+  title: "Test Paper Title",
+  abstract: "Abstract here.",
+  categories: JSON.stringify(["astro-ph.CO"]),
+  publishedDate: new Date("2024-01-01T00:00:00Z"),
+};
+
+const provenance = { model: "fake-llm", promptVersion: "summarize@1" };
+
+const processed: ProcessMultilingualResult = {
+  baseSummary: "Summary",
+  summaryProvenance: provenance,
+  translations: SUPPORTED_LOCALES.map((lang) => ({
+    lang,
+    title: `T-${lang}`,
+    summary: `S-${lang}`,
+    provenance,
+  })),
+};
+
+// --- Tests ---
+
+Deno.test("runAiQueue processes jobs in priority order and marks rows processed", async () => {
+  const { store, log } = createFakeJobStore([
+    job({ id: 1, itemType: "paper", itemId: "backfill", priority: 0 }),
+    job({ id: 2, itemType: "paper", itemId: "fresh", priority: 20 }),
+  ]);
+  const { database, updates } = createMockDb({ papers: { [paperRow.id]: paperRow } });
+  const deps = {
+    db: database,
+    jobs: store,
+    initializeCollections: () => Promise.resolve(createMockCollections()),
+    processMultilingualContent: () => Promise.resolve(processed),
+    isBudgetExceededToday: () => Promise.resolve(false),
+  } as unknown as AiQueueDeps;
+
+  const result = await runAiQueue(undefined, deps);
+
+  assertEquals(log.claimed, ["fresh", "backfill"]);
+  assertEquals(log.completed, ["fresh", "backfill"]);
+  assertEquals(result.processed, 2);
+  assertEquals(result.budgetStopReason, null);
+  const update = updates[0] as { processed: boolean; summaryPromptVersion: string };
+  assertEquals(update.processed, true);
+  assertEquals(update.summaryPromptVersion, "summarize@1");
+});
+
+Deno.test("runAiQueue retries failures and dead-letters missing rows and exhausted jobs", async () => {
+  const { store, log } = createFakeJobStore([
+    job({ id: 1, itemType: "paper", itemId: "flaky", priority: 20 }),
+    job({ id: 2, itemType: "paper", itemId: "exhausted", attempts: MAX_AI_JOB_ATTEMPTS - 1 }),
+    job({ id: 3, itemType: "video", itemId: "gone" }),
+  ]);
+  const { database } = createMockDb({ papers: { [paperRow.id]: paperRow } });
+  const deps = {
+    db: database,
+    jobs: store,
+    initializeCollections: () => Promise.resolve(createMockCollections()),
+    processMultilingualContent: () => Promise.reject(new Error("API timeout")),
+    isBudgetExceededToday: () => Promise.resolve(false),
+  } as unknown as AiQueueDeps;
+
+  const result = await runAiQueue(undefined, deps);
+
+  assertEquals(result.processed, 0);
+  assertEquals(result.retried, 1);
+  assertEquals(result.deadLettered, 2);
+  assertEquals(log.failed, [
+    { itemId: "flaky", permanent: false },
+    { itemId: "exhausted", permanent: false },
+    { itemId: "gone", permanent: true },
+  ]);
+});
+
+Deno.test("runAiQueue releases the job and stops when the daily budget runs out", async () => {
+  const { store, log } = createFakeJobStore([
+    job({ id: 1, itemType: "paper", itemId: "first" }),
+    job({ id: 2, itemType: "paper", itemId: "second" }),
+  ]);
+  const { database } = createMockDb({ papers: { [paperRow.id]: paperRow } });
+  const deps = {
+    db: database,
+    jobs: store,
+    initializeCollections: () => Promise.resolve(createMockCollections()),
+    processMultilingualContent: () => Promise.reject(new BudgetExceededError(5.01, 5)),
+    isBudgetExceededToday: () => Promise.resolve(false),
+  } as unknown as AiQueueDeps;
+
+  const result = await runAiQueue(undefined, deps);
+
+  assertEquals(log.claimed, ["first"]);
+  assertEquals(log.released, ["first"]);
+  assertEquals(log.failed.length, 0);
+  assertEquals(result.budgetStopReason?.startsWith("Daily AI budget exceeded"), true);
+});
+
+Deno.test("runAiQueue does not claim jobs when the budget is already spent", async () => {
+  const { store, log } = createFakeJobStore([job({ id: 1, itemType: "paper", itemId: "first" })]);
+  const deps = {
+    db: createMockDb({}).database,
+    jobs: store,
+    initializeCollections: () => Promise.reject(new Error("should not be called")),
+    processMultilingualContent: () => Promise.reject(new Error("should not be called")),
+    isBudgetExceededToday: () => Promise.resolve(true),
+  } as unknown as AiQueueDeps;
+
+  const result = await runAiQueue(undefined, deps);
+
+  assertEquals(log.claimed.length, 0);
+  assertEquals(result.budgetStopReason != null, true);
+});
+
+Deno.test("retryDelayMs backs off exponentially and caps at one day", () => {
+  assertEquals(retryDelayMs(1), 5 * 60 * 1000);
+  assertEquals(retryDelayMs(2), 10 * 60 * 1000);
+  assertEquals(retryDelayMs(3), 20 * 60 * 1000);
+  assertEquals(retryDelayMs(20), 24 * 60 * 60 * 1000);
+});
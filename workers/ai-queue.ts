@@ -0,0 +1,458 @@
+#!/usr/bin/env -S deno run --allow-all
+
+/**
+ * AI job queue worker: summarizes, translates, vectorizes and FTS-indexes rows the crawler
+ * inserted with `processed = false`. Runs after every crawl and can be run on its own:
+ *
+ *   deno task ai-queue
+ *   deno task ai-queue --estimate   # forecast the cost of the drain; calls no model
+ */
+
+import { and, eq } from "drizzle-orm";
+import { client, db } from "../db/client.ts";
+import {
+  type AiJob,
+  type NasaContent,
+  nasaContent,
+  type Paper,
+  papers,
+  translations,
+  type Video,
+  videos,
+} from "../db/schema.ts";
+import {
+  type AiJobItemType,
+  type AiJobStore,
+  aiJobStore,
+  enqueueUnprocessedItems,
+  listQueuedItems,
+} from "../lib/ai/jobs.ts";
+import { aiCacheStore } from "../lib/ai/cache.ts";
+import {
+  type CostEstimate,
+  type CostEstimator,
+  createCostEstimator,
+  formatCostEstimate,
+} from "../lib/ai/estimate.ts";
+import { processMultilingualContent } from "../lib/ai/processor.ts";
+import { BudgetExceededError, isBudgetExceededToday } from "../lib/ai/usage.ts";
+import {
+  ensureFtsTables,
+  ftsDeleteItem,
+  ftsInsertNasa,
+  ftsInsertPaper,
+  ftsInsertTranslation,
+  ftsInsertVideo,
+} from "../lib/fts.ts";
+import type { Locale } from "../lib/i18n.ts";
+import { SUPPORTED_LOCALES } from "../lib/i18n.ts";
+import { initializeCollections } from "../lib/vector.ts";
+import {
+  nasaVectorMetadata,
+  paperVectorMetadata,
+  videoVectorMetadata,
+} from "../lib/vector-metadata.ts";
+
+// Upper bound per drain so one run cannot hold the worker indefinitely
+const DEFAULT_MAX_JOBS = Number(Deno.env.get("AI_QUEUE_MAX_JOBS")) || 500;
+
+const MAX_VIDEO_VECTOR_TEXT = 5000;
+
+export interface AiQueueResult {
+  processed: number;
+  retried: number;
+  deadLettered: number;
+  /** Set when an AI budget cap stopped the drain; remaining jobs wait until that cap resets. */
+  budgetStopReason: string | null;
+}
+
+/** Optional dependencies for testing (when provided, used instead of real db/vector/AI). */
+export interface AiQueueDeps {
+  db: typeof db;
+  jobs: AiJobStore;
+  initializeCollections: typeof initializeCollections;
+  processMultilingualContent: typeof processMultilingualContent;
+  isBudgetExceededToday: typeof isBudgetExceededToday;
+}
+
+type Collections = Awaited<ReturnType<typeof initializeCollections>>;
+
+type Translated = Awaited<ReturnType<typeof processMultilingualContent>>;
+
+/** Job failure that retrying cannot fix (e.g. the row was deleted); dead-lettered at once. */
+class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+type ProcessInput = Parameters<typeof processMultilingualContent>[0];
+
+// What each item type is summarized from; shared by processing and cost estimates
+function paperInput(row: Paper): ProcessInput {
+  return { text: row.abstract || row.title, title: row.title, sourceType: "paper" };
+}
+
+function videoInput(row: Video): ProcessInput {
+  return {
+    text: row.transcript || row.description || row.title,
+    title: row.title,
+    sourceType: "video",
+  };
+}
+
+function nasaInput(row: NasaContent): ProcessInput {
+  const text = (row.contentType === "apod" ? row.explanation : row.description) || "";
+  return { text, title: row.title, sourceType: "article" };
+}
+
+// Drain the queue in priority order until it is empty, maxJobs is reached or the budget runs out
+export async function runAiQueue(
+  options?: { maxJobs?: number },
+  deps?: AiQueueDeps,
+): Promise<AiQueueResult> {
+  const db_ = deps?.db ?? db;
+  const jobs_ = deps?.jobs ?? aiJobStore;
+  const initCollections_ = deps?.initializeCollections ?? initializeCollections;
+  const processMultilingual_ = deps?.processMultilingualContent ?? processMultilingualContent;
+  const isBudgetExceededToday_ = deps?.isBudgetExceededToday ?? isBudgetExceededToday;
+  const maxJobs = options?.maxJobs ?? DEFAULT_MAX_JOBS;
+
+  const result: AiQueueResult = {
+    processed: 0,
+    retried: 0,
+    deadLettered: 0,
+    budgetStopReason: null,
+  };
+
+  if (await isBudgetExceededToday_()) {
+    console.log("🛑 AI budget already exceeded — AI queue waits until the cap resets.");
+    result.budgetStopReason = "AI budget already exceeded before the queue started";
+    return result;
+  }
+
+  // Skip in test/injected mode: these write to the real Turso database
+  if (!deps) {
+    try {
+      const backfilled = await enqueueUnprocessedItems();
+      if (backfilled > 0) console.log(`📥 Queued ${backfilled} unprocessed items without a job`);
+    } catch (error) {
+      console.warn("⚠️  Backfilling AI jobs failed (non-fatal):", error);
+    }
+    try {
+      await ensureFtsTables(client);
+    } catch (error) {
+      console.warn("⚠️  FTS table init failed (non-fatal):", error);
+    }
+    try {
+      const evicted = await aiCacheStore.evict();
+      if (evicted > 0) console.log(`🧹 Evicted ${evicted} stale AI cache entries`);
+    } catch (error) {
+      console.warn("⚠️  AI cache eviction failed (non-fatal):", error);
+    }
+  }
+
+  let collections: Collections | null = null;
+
+  for (let handled = 0; handled < maxJobs; handled++) {
+    const job = await jobs_.claimNext();
+    if (!job) break;
+
+    try {
+      collections ??= await initCollections_();
+      console.log(`  🤖 Processing ${job.itemType} ${job.itemId} (attempt ${job.attempts + 1})...`);
+      await processJob(job, db_, collections, processMultilingual_);
+      await jobs_.complete(job);
+      result.processed++;
+      console.log(`  ✅ Processed ${job.itemType} ${job.itemId}`);
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        await jobs_.release(job);
+        result.budgetStopReason = error.message;
+        const resumes = error.resetsAt
+          ? `resumes after ${error.resetsAt}`
+          : "waits until the cap resets";
+        console.log(`🛑 ${error.message} — AI queue ${resumes}.`);
+        break;
+      }
+      const status = await jobs_.fail(job, error, {
+        permanent: error instanceof PermanentJobError,
+      });
+      if (status === "dead") {
+        result.deadLettered++;
+        console.error(`  ☠️  Dead-lettered ${job.itemType} ${job.itemId}:`, error);
+      } else {
+        result.retried++;
+        console.error(`  ❌ Error processing ${job.itemType} ${job.itemId} (will retry):`, error);
+      }
+    }
+  }
+
+  return result;
+}
+
+async function processJob(
+  job: AiJob,
+  database: typeof db,
+  collections: Collections,
+  processMultilingual_: typeof processMultilingualContent,
+): Promise<void> {
+  switch (job.itemType as AiJobItemType) {
+    case "paper":
+      return await processPaper(job.itemId, database, collections, processMultilingual_);
+    case "video":
+      return await processVideo(job.itemId, database, collections, processMultilingual_);
+    case "nasa":
+      return await processNasa(job.itemId, database, collections, processMultilingual_);
+    default:
+      throw new PermanentJobError(`Unknown item type: ${job.itemType}`);
+  }
+}
+
+// Replace translations so a retried or reprocessed job never leaves duplicates behind
+async function replaceTranslations(
+  database: typeof db,
+  itemType: AiJobItemType,
+  itemId: string,
+  trans: Translated["translations"],
+) {
+  await database
+    .delete(translations)
+    .where(and(eq(translations.itemType, itemType), eq(translations.itemId, itemId)));
+  for (const t of trans) {
+    await database.insert(translations).values({
+      itemType,
+      itemId,
+      lang: t.lang,
+      title: t.title,
+      summary: t.summary,
+      model: t.provenance.model,
+      promptVersion: t.provenance.promptVersion,
+    });
+  }
+}
+
+function localized(trans: Translated["translations"]) {
+  return trans.filter((t) => SUPPORTED_LOCALES.includes(t.lang as Locale)) as Array<
+    Translated["translations"][number] & { lang: Locale }
+  >;
+}
+
+async function processPaper(
+  id: string,
+  database: typeof db,
+  collections: Collections,
+  processMultilingual_: typeof processMultilingualContent,
+): Promise<void> {
+  const row = await database.query.papers.findFirst({ where: eq(papers.id, id) });
+  if (!row) throw new PermanentJobError(`Paper ${id} no longer exists`);
+
+  const { baseSummary, summaryProvenance, translations: trans } = await processMultilingual_(
+    paperInput(row),
+  );
+
+  await replaceTranslations(database, "paper", row.id, trans);
+
+  for (const t of localized(trans)) {
+    await collections.papers[t.lang].upsert({
+      id: row.id,
+      text: `${t.title}\n\n${t.summary}\n\n${row.abstract}`,
+      metadata: paperVectorMetadata(row, t.title),
+    });
+  }
+
+  await database
+    .update(papers)
+    .set({
+      summary: baseSummary,
+      summaryModel: summaryProvenance.model,
+      summaryPromptVersion: summaryProvenance.promptVersion,
+      processed: true,
+      vectorId: row.id,
+      updatedAt: new Date(),
+    })
+    .where(eq(papers.id, row.id));
+
+  try {
+    await ftsDeleteItem(client, "paper", row.id);
+    await ftsInsertPaper(client, {
+      id: row.id,
+      title: row.title,
+      abstract: row.abstract,
+      summary: baseSummary,
+    });
+  } catch { /* non-fatal */ }
+  for (const t of trans) {
+    try {
+      await ftsInsertTranslation(client, {
+        itemType: "paper",
+        itemId: row.id,
+        lang: t.lang,
+        title: t.title,
+        summary: t.summary,
+      });
+    } catch { /* non-fatal */ }
+  }
+}
+
+async function processVideo(
+  id: string,
+  database: typeof db,
+  collections: Collections,
+  processMultilingual_: typeof processMultilingualContent,
+): Promise<void> {
+  const row = await database.query.videos.findFirst({ where: eq(videos.id, id) });
+  if (!row) throw new PermanentJobError(`Video ${id} no longer exists`);
+
+  const input = videoInput(row);
+  const fullText = input.text;
+  const { baseSummary, summaryProvenance, translations: trans } = await processMultilingual_(
+    input,
+  );
+
+  await replaceTranslations(database, "video", row.id, trans);
+
+  for (const t of localized(trans)) {
+    await collections.videos[t.lang].upsert({
+      id: row.id,
+      text: `${t.title}\n\n${t.summary}\n\n${fullText.substring(0, MAX_VIDEO_VECTOR_TEXT)}`,
+      metadata: videoVectorMetadata(row, t.title),
+    });
+  }
+
+  await database
+    .update(videos)
+    .set({
+      summary: baseSummary,
+      summaryModel: summaryProvenance.model,
+      summaryPromptVersion: summaryProvenance.promptVersion,
+      processed: true,
+      vectorId: row.id,
+      updatedAt: new Date(),
+    })
+    .where(eq(videos.id, row.id));
+
+  try {
+    await ftsDeleteItem(client, "video", row.id);
+    await ftsInsertVideo(client, {
+      id: row.id,
+      title: row.title,
+      summary: baseSummary,
+      description: row.description || "",
+      transcript: row.transcript || "",
+    });
+  } catch { /* non-fatal */ }
+  for (const t of trans) {
+    try {
+      await ftsInsertTranslation(client, {
+        itemType: "video",
+        itemId: row.id,
+        lang: t.lang,
+        title: t.title,
+        summary: t.summary,
+      });
+    } catch { /* non-fatal */ }
+  }
+}
+
+async function processNasa(
+  id: string,
+  database: typeof db,
+  collections: Collections,
+  processMultilingual_: typeof processMultilingualContent,
+): Promise<void> {
+  const row = await database.query.nasaContent.findFirst({ where: eq(nasaContent.id, id) });
+  if (!row) throw new PermanentJobError(`NASA item ${id} no longer exists`);
+
+  const input = nasaInput(row);
+  const text = input.text;
+  const { baseSummary, summaryProvenance, translations: trans } = await processMultilingual_(
+    input,
+  );
+
+  await replaceTranslations(database, "nasa", row.id, trans);
+
+  for (const t of localized(trans)) {
+    await collections.nasa[t.lang].upsert({
+      id: row.id,
+      text: `${t.title}\n\n${t.summary}\n\n${text}`,
+      metadata: nasaVectorMetadata(row, t.title),
+    });
+  }
+
+  await database
+    .update(nasaContent)
+    .set({
+      summary: baseSummary,
+      summaryModel: summaryProvenance.model,
+      summaryPromptVersion: summaryProvenance.promptVersion,
+      processed: true,
+      vectorId: row.id,
+      updatedAt: new Date(),
+    })
+    .where(eq(nasaContent.id, row.id));
+
+  try {
+    await ftsDeleteItem(client, "nasa", row.id);
+    await ftsInsertNasa(client, {
+      id: row.id,
+      title: row.title,
+      summary: baseSummary,
+      explanation: row.explanation || "",
+      description: row.description || "",
+    });
+  } catch { /* non-fatal */ }
+  for (const t of trans) {
+    try {
+      await ftsInsertTranslation(client, {
+        itemType: "nasa",
+        itemId: row.id,
+        lang: t.lang,
+        title: t.title,
+        summary: t.summary,
+      });
+    } catch { /* non-fatal */ }
+  }
+}
+
+/**
+ * Forecast what draining the queue would cost, without calling the model or changing anything:
+ * queued jobs plus unprocessed rows the drain would backfill, up to maxJobs.
+ */
+export async function estimateAiQueue(
+  options?: { maxJobs?: number },
+  deps?: { db?: typeof db; estimator?: CostEstimator },
+): Promise<CostEstimate> {
+  const db_ = deps?.db ?? db;
+  const estimator = deps?.estimator ?? createCostEstimator();
+  const items = await listQueuedItems(options?.maxJobs ?? DEFAULT_MAX_JOBS, db_);
+
+  for (const { itemType, itemId } of items) {
+    if (itemType === "paper") {
+      const row = await db_.query.papers.findFirst({ where: eq(papers.id, itemId) });
+      if (row) await estimator.addItem(paperInput(row));
+    } else if (itemType === "video") {
+      const row = await db_.query.videos.findFirst({ where: eq(videos.id, itemId) });
+      if (row) await estimator.addItem(videoInput(row));
+    } else if (itemType === "nasa") {
+      const row = await db_.query.nasaContent.findFirst({ where: eq(nasaContent.id, itemId) });
+      if (row) await estimator.addItem(nasaInput(row));
+    }
+  }
+  return estimator.result();
+}
+
+if (import.meta.main) {
+  if (Deno.args.includes("--estimate")) {
+    console.log(formatCostEstimate(await estimateAiQueue()));
+  } else {
+    const result = await runAiQueue();
+    console.log(
+      `\n📊 AI queue: ${result.processed} processed, ${result.retried} retrying, ${result.deadLettered} dead-lettered`,
+    );
+    if (result.budgetStopReason) {
+      console.log(`🛑 Stopped: ${result.budgetStopReason}`);
+    }
+  }
+}
@@ -7,8 +7,8 @@ import {
 import type { ArxivEntry } from "../lib/collectors/arxiv.ts";
 import type { NtrsEntry } from "../lib/collectors/ntrs.ts";
 import type { ApodData, NasaAsset } from "../lib/collectors/nasa.ts";
-import type { ProcessMultilingualResult } from "../lib/ai/processor.ts";
 import { SUPPORTED_LOCALES } from "../lib/i18n.ts";
+import type { CrawlLedger, CrawlRunResult } from "../lib/crawl-ledger.ts";
 
 // --- Mocks (minimal shape; cast to CrawlerDeps so we don't need full VectorStore/db) ---
 
@@ -18,6 +18,7 @@ function createMockDb(overrides?: {
   papersFindFirst?: () => Promise<unknown>;
   videosFindFirst?: () => Promise<unknown>;
   nasaFindFirst?: () => Promise<unknown>;
+  insertValues?: (values: unknown) => Promise<void>;
 }) {
   return {
     query: {
@@ -31,7 +32,7 @@ function createMockDb(overrides?: {
         findFirst: overrides?.nasaFindFirst ?? (() => Promise.resolve(undefined)),
       },
     },
-    insert: () => ({ values: asyncNoop }),
+    insert: () => ({ values: overrides?.insertValues ?? asyncNoop }),
   };
 }
 
@@ -48,19 +49,6 @@ function createMockCollections() {
   };
 }
 
-function createMockProcessMultilingual(
-  result: ProcessMultilingualResult = {
-    baseSummary: "Test summary",
-    translations: [
-      { lang: "en", title: "Test title", summary: "Test summary" },
-      { lang: "zh-TW", title: "測試標題", summary: "測試摘要" },
-      { lang: "zh-CN", title: "测试标题", summary: "测试摘要" },
-    ],
-  },
-) {
-  return (): Promise<ProcessMultilingualResult> => Promise.resolve(result);
-}
-
 const emptyArxiv: ArxivEntry[] = [];
 const emptyRocketPapers: ArxivEntry[] = [];
 const emptyRoboticsPapers: ArxivEntry[] = [];
@@ -87,7 +75,10 @@ const oneRocketPaper: ArxivEntry[] = [
   },
 ];
 
-const emptyVideoList: Array<{ videoId: string; title: string; channelName: string }> = [];
+const emptyVideoList = {
+  videos: [] as Array<{ videoId: string; title: string; channelName: string }>,
+  truncated: false,
+};
 
 const emptyNtrs: NtrsEntry[] = [];
 
@@ -109,7 +100,6 @@ Deno.test("runCrawler with empty mocks returns zero counts and no errors", async
   const deps = {
     db: createMockDb(),
     initializeCollections: () => Promise.resolve(createMockCollections()),
-    processMultilingualContent: createMockProcessMultilingual(),
     collectAstronomyPapers: () => Promise.resolve(emptyArxiv),
     collectRocketPapers: () => Promise.resolve(emptyRocketPapers),
     collectRocketReports: () => Promise.resolve(emptyNtrs),
@@ -138,7 +128,6 @@ Deno.test("runCrawler with one arXiv paper increments papersCollected", async ()
   const deps = {
     db: createMockDb(),
     initializeCollections: () => Promise.resolve(createMockCollections()),
-    processMultilingualContent: createMockProcessMultilingual(),
     collectAstronomyPapers: () => Promise.resolve(onePaper),
     collectRocketPapers: () => Promise.resolve(emptyRocketPapers),
     collectRocketReports: () => Promise.resolve(emptyNtrs),
@@ -167,7 +156,6 @@ Deno.test("runCrawler with one rocket paper increments papersCollected", async (
   const deps = {
     db: createMockDb(),
     initializeCollections: () => Promise.resolve(createMockCollections()),
-    processMultilingualContent: createMockProcessMultilingual(),
     collectAstronomyPapers: () => Promise.resolve(emptyArxiv),
     collectRocketPapers: () => Promise.resolve(oneRocketPaper),
     collectRocketReports: () => Promise.resolve(emptyNtrs),
@@ -208,7 +196,6 @@ Deno.test("runCrawler with one NTRS report increments ntrsReportsCollected", asy
   const deps = {
     db: createMockDb(),
     initializeCollections: () => Promise.resolve(createMockCollections()),
-    processMultilingualContent: createMockProcessMultilingual(),
     collectAstronomyPapers: () => Promise.resolve(emptyArxiv),
     collectRocketPapers: () => Promise.resolve(emptyRocketPapers),
     collectRocketReports: () => Promise.resolve([report]),
@@ -239,7 +226,6 @@ Deno.test("runCrawler skips existing paper without processing", async () => {
       papersFindFirst: () => Promise.resolve({ id: "2401.00001" }),
     }),
     initializeCollections: () => Promise.resolve(createMockCollections()),
-    processMultilingualContent: () => Promise.reject(new Error("should not be called")),
     collectAstronomyPapers: () => Promise.resolve(onePaper),
     collectRocketPapers: () => Promise.resolve(emptyRocketPapers),
     collectRocketReports: () => Promise.resolve(emptyNtrs),
@@ -268,13 +254,12 @@ Deno.test("runCrawler with one video increments videosCollected", async () => {
   const deps = {
     db: createMockDb(),
     initializeCollections: () => Promise.resolve(createMockCollections()),
-    processMultilingualContent: createMockProcessMultilingual(),
     collectAstronomyPapers: () => Promise.resolve(emptyArxiv),
     collectRocketPapers: () => Promise.resolve(emptyRocketPapers),
     collectRocketReports: () => Promise.resolve(emptyNtrs),
     collectRoboticsPapers: () => Promise.resolve(emptyRoboticsPapers),
     collectRoboticsReports: () => Promise.resolve(emptyNtrs),
-    collectAstronomyVideos: () => Promise.resolve(videoList),
+    collectAstronomyVideos: () => Promise.resolve({ videos: videoList, truncated: false }),
     fetchCompleteVideoData: () =>
       Promise.resolve({
         metadata: {
@@ -315,7 +300,6 @@ Deno.test("runCrawler with APOD increments nasaItemsCollected", async () => {
   const deps = {
     db: createMockDb(),
     initializeCollections: () => Promise.resolve(createMockCollections()),
-    processMultilingualContent: createMockProcessMultilingual(),
     collectAstronomyPapers: () => Promise.resolve(emptyArxiv),
     collectRocketPapers: () => Promise.resolve(emptyRocketPapers),
     collectRocketReports: () => Promise.resolve(emptyNtrs),
@@ -344,7 +328,6 @@ Deno.test("runCrawler with NASA library item increments nasaItemsCollected", asy
   const deps = {
     db: createMockDb(),
     initializeCollections: () => Promise.resolve(createMockCollections()),
-    processMultilingualContent: createMockProcessMultilingual(),
     collectAstronomyPapers: () => Promise.resolve(emptyArxiv),
     collectRocketPapers: () => Promise.resolve(emptyRocketPapers),
     collectRocketReports: () => Promise.resolve(emptyNtrs),
@@ -373,11 +356,10 @@ Deno.test("runCrawler with NASA library item increments nasaItemsCollected", asy
   assertEquals(stats.errors.length, 0);
 });
 
-Deno.test("runCrawler records errors when processMultilingualContent throws", async () => {
+Deno.test("runCrawler records errors when saving a collected item fails", async () => {
   const deps = {
-    db: createMockDb(),
+    db: createMockDb({ insertValues: () => Promise.reject(new Error("insert failed")) }),
     initializeCollections: () => Promise.resolve(createMockCollections()),
-    processMultilingualContent: () => Promise.reject(new Error("AI processing failed")),
     collectAstronomyPapers: () => Promise.resolve(onePaper),
     collectRocketPapers: () => Promise.resolve(emptyRocketPapers),
     collectRocketReports: () => Promise.resolve(emptyNtrs),
@@ -417,7 +399,7 @@ Deno.test("CrawlerStats has expected shape", () => {
   assertEquals(Array.isArray(stats.errors), true);
 });
 
-Deno.test("runCrawler skips off-topic papers without spending on AI processing", async () => {
+Deno.test("runCrawler skips off-topic papers without queueing AI processing", async () => {
   const offTopicPaper: ArxivEntry[] = [
     {
       id: "2401.00003",
@@ -429,10 +411,15 @@ Deno.test("runCrawler skips off-topic papers without spending on AI processing",
       arxivUrl: "https://arxiv.org/abs/2401.00003",
     },
   ];
+  const inserted: unknown[] = [];
   const deps = {
-    db: createMockDb(),
+    db: createMockDb({
+      insertValues: (values) => {
+        inserted.push(values);
+        return Promise.resolve();
+      },
+    }),
     initializeCollections: () => Promise.resolve(createMockCollections()),
-    processMultilingualContent: () => Promise.reject(new Error("should not be called - off-topic paper must be skipped before AI processing")),
     collectAstronomyPapers: () => Promise.resolve(emptyArxiv),
     collectRocketPapers: () => Promise.resolve(offTopicPaper),
     collectRocketReports: () => Promise.resolve(emptyNtrs),
@@ -453,6 +440,7 @@ Deno.test("runCrawler skips off-topic papers without spending on AI processing",
   assertEquals(stats.papersCollected, 0);
   assertEquals(stats.skippedOffTopic, 1);
   assertEquals(stats.errors.length, 0);
+  assertEquals(inserted.length, 0);
 });
 
 Deno.test("runCrawler processes AI-robotics papers from collectAiPapers", async () => {
@@ -470,7 +458,6 @@ Deno.test("runCrawler processes AI-robotics papers from collectAiPapers", async
   const deps = {
     db: createMockDb(),
     initializeCollections: () => Promise.resolve(createMockCollections()),
-    processMultilingualContent: createMockProcessMultilingual(),
     collectAstronomyPapers: () => Promise.resolve(emptyArxiv),
     collectRocketPapers: () => Promise.resolve(emptyRocketPapers),
     collectRocketReports: () => Promise.resolve(emptyNtrs),
@@ -492,3 +479,193 @@ Deno.test("runCrawler processes AI-robotics papers from collectAiPapers", async
   assertEquals(stats.skippedOffTopic, 0);
   assertEquals(stats.errors.length, 0);
 });
+
+Deno.test("runCrawler resumes from ledger checkpoints and records the run", async () => {
+  const saved: Record<string, string> = {};
+  const finished: CrawlRunResult[] = [];
+  const ledger: CrawlLedger = {
+    startRun: () => Promise.resolve(7),
+    finishRun: (runId, result) => {
+      assertEquals(runId, 7);
+      finished.push(result);
+      return Promise.resolve();
+    },
+    getCheckpoints: () =>
+      Promise.resolve({
+        "arxiv:astronomy": "2024-01-01T00:00:00.000Z",
+        "ntrs:rocket": "2024-01-02T00:00:00.000Z",
+      }),
+    setCheckpoint: (source, value) => {
+      saved[source] = value;
+      return Promise.resolve();
+    },
+  };
+  const report: NtrsEntry = {
+    id: 250,
+    title: "NTRS Report",
+    abstract: "Report abstract.",
+    authors: ["Doe"],
+    publishedDate: "2024-01-03",
+    keywords: ["rocket"],
+    subjectCategories: ["ENGINEERING"],
+    pdfUrl: "https://ntrs.nasa.gov/api/citations/250/downloads/250.pdf",
+    ntrsUrl: "https://ntrs.nasa.gov/citations/250",
+    documentType: "TECHNICAL",
+    created: "2024-01-03T08:00:00.000Z",
+  };
+  const newPaper: ArxivEntry = { ...onePaper[0], published: "2024-01-02T12:00:00.000Z" };
+  let astronomySince: string | undefined;
+  let rocketCreatedAfter: string | undefined;
+  const deps = {
+    db: createMockDb(),
+    initializeCollections: () => Promise.resolve(createMockCollections()),
+    collectAstronomyPapers: (params: { since?: string }) => {
+      astronomySince = params.since;
+      return Promise.resolve([newPaper]);
+    },
+    collectRocketPapers: () => Promise.resolve(emptyRocketPapers),
+    collectRocketReports: (params: { createdAfter?: string }) => {
+      rocketCreatedAfter = params.createdAfter;
+      return Promise.resolve([report]);
+    },
+    collectRoboticsPapers: () => Promise.resolve(emptyRoboticsPapers),
+    collectRoboticsReports: () => Promise.resolve(emptyNtrs),
+    collectAstronomyVideos: () => Promise.resolve(emptyVideoList),
+    fetchCompleteVideoData: () => Promise.reject(new Error("should not be called")),
+    collectNasaContent: () => Promise.resolve(emptyNasa),
+    collectSatellitePapers: () => Promise.resolve(emptyArxiv),
+    collectSatelliteReports: () => Promise.resolve(emptyNtrs),
+    collectSpaceTravelPapers: () => Promise.resolve(emptyArxiv),
+    collectSpaceTravelReports: () => Promise.resolve(emptyNtrs),
+    collectAiPapers: () => Promise.resolve(emptyArxiv),
+    ledger,
+  } as unknown as CrawlerDeps;
+
+  const stats = await runCrawler(deps);
+
+  assertEquals(astronomySince, "2024-01-01T00:00:00.000Z");
+  assertEquals(rocketCreatedAfter, "2024-01-02T00:00:00.000Z");
+  assertEquals(saved, { "arxiv:astronomy": newPaper.published, "ntrs:rocket": report.created! });
+  assertEquals(stats.errors.length, 0);
+  assertEquals(finished.length, 1);
+  assertEquals(finished[0].status, "completed");
+  assertEquals(finished[0].counts.arxiv, 1);
+  assertEquals(finished[0].counts.ntrs, 1);
+});
+
+Deno.test("runCrawler keeps the YouTube mark when a search page was truncated", async () => {
+  const saved: Record<string, string> = {};
+  const mark = "2024-02-01T00:00:00.000Z";
+  const ledger: CrawlLedger = {
+    startRun: () => Promise.resolve(1),
+    finishRun: () => Promise.resolve(),
+    getCheckpoints: () => Promise.resolve({ youtube: mark }),
+    setCheckpoint: (source, value) => {
+      saved[source] = value;
+      return Promise.resolve();
+    },
+  };
+  // A full relevance page: videos from Feb 2-8 that missed it are newer than the mark too
+  const video = {
+    videoId: "v9",
+    title: "Launch",
+    channelName: "Channel",
+    publishedAt: "2024-02-09T00:00:00Z",
+  };
+  let publishedAfter: string | undefined;
+  const deps = {
+    db: createMockDb(),
+    initializeCollections: () => Promise.resolve(createMockCollections()),
+    collectAstronomyPapers: () => Promise.resolve(emptyArxiv),
+    collectRocketPapers: () => Promise.resolve(emptyRocketPapers),
+    collectRocketReports: () => Promise.resolve(emptyNtrs),
+    collectRoboticsPapers: () => Promise.resolve(emptyRoboticsPapers),
+    collectRoboticsReports: () => Promise.resolve(emptyNtrs),
+    collectAstronomyVideos: (params: { publishedAfter?: string }) => {
+      publishedAfter = params.publishedAfter;
+      return Promise.resolve({ videos: [video], truncated: true });
+    },
+    fetchCompleteVideoData: () =>
+      Promise.resolve({
+        metadata: {
+          id: "v9",
+          title: "Launch",
+          channelName: "Channel",
+          publishedAt: video.publishedAt,
+        },
+        transcript: [],
+        fullText: "",
+      }),
+    collectNasaContent: () => Promise.resolve(emptyNasa),
+    collectSatellitePapers: () => Promise.resolve(emptyArxiv),
+    collectSatelliteReports: () => Promise.resolve(emptyNtrs),
+    collectSpaceTravelPapers: () => Promise.resolve(emptyArxiv),
+    collectSpaceTravelReports: () => Promise.resolve(emptyNtrs),
+    collectAiPapers: () => Promise.resolve(emptyArxiv),
+    ledger,
+  } as unknown as CrawlerDeps;
+
+  const stats = await runCrawler(deps);
+
+  assertEquals(publishedAfter, mark);
+  assertEquals(stats.videosCollected, 1);
+  assertEquals(saved, {});
+});
+
+Deno.test("runCrawler saves raw rows, queues AI jobs and drains the queue afterwards", async () => {
+  const inserted: Array<Record<string, unknown>> = [];
+  const finished: CrawlRunResult[] = [];
+  let queueRuns = 0;
+  const deps = {
+    db: createMockDb({
+      insertValues: (values) => {
+        inserted.push(values as Record<string, unknown>);
+        return Promise.resolve();
+      },
+    }),
+    initializeCollections: () => Promise.resolve(createMockCollections()),
+    collectAstronomyPapers: () => Promise.resolve(onePaper),
+    collectRocketPapers: () => Promise.resolve(emptyRocketPapers),
+    collectRocketReports: () => Promise.resolve(emptyNtrs),
+    collectRoboticsPapers: () => Promise.resolve(emptyRoboticsPapers),
+    collectRoboticsReports: () => Promise.resolve(emptyNtrs),
+    collectAstronomyVideos: () => Promise.resolve(emptyVideoList),
+    fetchCompleteVideoData: () => Promise.reject(new Error("should not be called")),
+    collectNasaContent: () => Promise.resolve(emptyNasa),
+    collectSatellitePapers: () => Promise.resolve(emptyArxiv),
+    collectSatelliteReports: () => Promise.resolve(emptyNtrs),
+    collectSpaceTravelPapers: () => Promise.resolve(emptyArxiv),
+    collectSpaceTravelReports: () => Promise.resolve(emptyNtrs),
+    collectAiPapers: () => Promise.resolve(emptyArxiv),
+    runAiQueue: () => {
+      queueRuns++;
+      return Promise.resolve({
+        processed: 0,
+        retried: 0,
+        deadLettered: 0,
+        budgetStopReason: "Daily AI budget exceeded",
+      });
+    },
+    ledger: {
+      startRun: () => Promise.resolve(1),
+      finishRun: (_runId: number | null, result: CrawlRunResult) => {
+        finished.push(result);
+        return Promise.resolve();
+      },
+      getCheckpoints: () => Promise.resolve({}),
+      setCheckpoint: () => Promise.resolve(),
+    },
+  } as unknown as CrawlerDeps;
+
+  const stats = await runCrawler(deps);
+
+  assertEquals(stats.papersCollected, 1);
+  assertEquals(inserted.length, 2);
+  assertEquals(inserted[0].id, "2401.00001");
+  assertEquals(inserted[0].processed, false);
+  assertEquals(inserted[0].summary, undefined);
+  assertEquals(inserted[1], { itemType: "paper", itemId: "2401.00001", priority: 20 });
+  assertEquals(queueRuns, 1);
+  assertEquals(finished[0].budgetStopReason, "Daily AI budget exceeded");
+  assertEquals(finished[0].counts.aiProcessed, 0);
+});
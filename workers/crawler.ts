@@ -1,12 +1,29 @@
 #!/usr/bin/env -S deno run --allow-all
 
-import { db, client } from "../db/client.ts";
+import { db } from "../db/client.ts";
 import { papers, videos, nasaContent, translations } from "../db/schema.ts";
 import { eq } from "drizzle-orm";
-import { ensureFtsTables, ftsInsertPaper, ftsInsertVideo, ftsInsertNasa, ftsInsertTranslation } from "../lib/fts.ts";
 import { initializeCollections } from "../lib/vector.ts";
-import { processMultilingualContent } from "../lib/ai/processor.ts";
-import { isBudgetExceededToday } from "../lib/ai/usage.ts";
+import {
+  nasaVectorMetadata,
+  paperVectorMetadata,
+  type VectorMetadata,
+  videoVectorMetadata,
+} from "../lib/vector-metadata.ts";
+import { AI_JOB_PRIORITY, enqueueAiJob } from "../lib/ai/jobs.ts";
+import { formatCostEstimate } from "../lib/ai/estimate.ts";
+import { type AiQueueResult, estimateAiQueue, runAiQueue } from "./ai-queue.ts";
+import {
+  advanceCheckpoint,
+  CRAWL_SOURCES,
+  type CrawlCheckpoints,
+  type CrawlLedger,
+  crawlLedger,
+  type CrawlRunSummary,
+  type CrawlSource,
+  listCrawlRuns,
+  readCheckpoint,
+} from "../lib/crawl-ledger.ts";
 import { classifyPaper } from "../lib/relevance.ts";
 import type { Locale } from "../lib/i18n.ts";
 import { SUPPORTED_LOCALES } from "../lib/i18n.ts";
@@ -21,10 +38,10 @@ import { collectRocketReports, collectRoboticsReports, collectSatelliteReports,
 const CRAWLER_INTERVAL_HOURS = Number(Deno.env.get("CRAWLER_INTERVAL_HOURS")) || 24;
 const MAX_ITEMS_PER_SOURCE = Number(Deno.env.get("MAX_ITEMS_PER_SOURCE")) || 50;
 const HEALTH_CHECK_PORT = Number(Deno.env.get("PORT")) || 8080;
+// arXiv history requested when a stream has no checkpoint yet
+const ARXIV_DAYS_BACK = 1825; // 5 years
 
-// Track crawler state for health checks
-let lastCrawlTime: Date | null = null;
-let lastCrawlStats: CrawlerStats | null = null;
+// Whether this process is crawling right now; run history lives in the crawl ledger
 let isRunning = false;
 
 export interface CrawlerStats {
@@ -45,9 +62,9 @@ interface SyncStats {
 
 async function syncMissingVectors(
   collections: {
-    papers: Record<Locale, { add: (params: { id: string; text: string; metadata?: Record<string, string> }) => Promise<void>; get: (id: string) => Promise<unknown> }>;
-    videos: Record<Locale, { add: (params: { id: string; text: string; metadata?: Record<string, string> }) => Promise<void>; get: (id: string) => Promise<unknown> }>;
-    nasa: Record<Locale, { add: (params: { id: string; text: string; metadata?: Record<string, string> }) => Promise<void>; get: (id: string) => Promise<unknown> }>;
+    papers: Record<Locale, { add: (params: { id: string; text: string; metadata?: VectorMetadata }) => Promise<void>; get: (id: string) => Promise<unknown> }>;
+    videos: Record<Locale, { add: (params: { id: string; text: string; metadata?: VectorMetadata }) => Promise<void>; get: (id: string) => Promise<unknown> }>;
+    nasa: Record<Locale, { add: (params: { id: string; text: string; metadata?: VectorMetadata }) => Promise<void>; get: (id: string) => Promise<unknown> }>;
   },
   database: typeof db,
 ): Promise<SyncStats> {
@@ -68,7 +85,8 @@ async function syncMissingVectors(
   }
 
   // Sync papers
-  const allPapers = await database.select().from(papers);
+  // Unprocessed rows get their vectors from the AI queue once summarized
+  const allPapers = await database.select().from(papers).where(eq(papers.processed, true));
   for (const paper of allPapers) {
     try {
       // Check if exists in first locale (if missing in one, likely missing in all)
@@ -86,12 +104,7 @@ async function syncMissingVectors(
         await collections.papers[locale].add({
           id: paper.id,
           text: `${title}\n\n${summary}\n\n${paper.abstract || ""}`,
-          metadata: {
-            title,
-            published: paper.publishedDate?.toISOString() || "",
-            categories: paper.categories || "[]",
-            source: paper.id.startsWith("ntrs-") ? "NASA NTRS" : "arXiv",
-          },
+          metadata: paperVectorMetadata(paper, title),
         });
       }
       stats.synced++;
@@ -101,7 +114,7 @@ async function syncMissingVectors(
   }
 
   // Sync videos
-  const allVideos = await database.select().from(videos);
+  const allVideos = await database.select().from(videos).where(eq(videos.processed, true));
   for (const video of allVideos) {
     try {
       const existing = await collections.videos["en"].get(video.id);
@@ -119,11 +132,7 @@ async function syncMissingVectors(
         await collections.videos[locale].add({
           id: video.id,
           text: `${title}\n\n${summary}\n\n${transcriptPreview}`,
-          metadata: {
-            title,
-            channelName: video.channelName || "",
-            published: video.publishedDate?.toISOString() || "",
-          },
+          metadata: videoVectorMetadata(video, title),
         });
       }
       stats.synced++;
@@ -133,7 +142,7 @@ async function syncMissingVectors(
   }
 
   // Sync NASA content
-  const allNasa = await database.select().from(nasaContent);
+  const allNasa = await database.select().from(nasaContent).where(eq(nasaContent.processed, true));
   for (const item of allNasa) {
     try {
       const existing = await collections.nasa["en"].get(item.id);
@@ -151,11 +160,7 @@ async function syncMissingVectors(
         await collections.nasa[locale].add({
           id: item.id,
           text: `${title}\n\n${summary}\n\n${description}`,
-          metadata: {
-            title,
-            date: item.date?.toISOString() || "",
-            type: item.contentType || "",
-          },
+          metadata: nasaVectorMetadata(item, title),
         });
       }
       stats.synced++;
@@ -171,7 +176,6 @@ async function syncMissingVectors(
 export interface CrawlerDeps {
   db: typeof db;
   initializeCollections: typeof initializeCollections;
-  processMultilingualContent: typeof processMultilingualContent;
   collectAstronomyPapers: typeof collectAstronomyPapers;
   collectRocketPapers: typeof collectRocketPapers;
   collectRocketReports: typeof collectRocketReports;
@@ -185,13 +189,101 @@ export interface CrawlerDeps {
   collectAstronomyVideos: typeof collectAstronomyVideos;
   fetchCompleteVideoData: typeof fetchCompleteVideoData;
   collectNasaContent: typeof collectNasaContent;
+  /** Crawl-run ledger and checkpoints; omitted in tests so nothing is persisted. */
+  ledger?: CrawlLedger;
+  /** AI queue drain after collection; omitted in tests so queued jobs are left alone. */
+  runAiQueue?: typeof runAiQueue;
+}
+
+/** State of one run that ends up in its crawl ledger entry. */
+interface CrawlRunContext {
+  ledger: CrawlLedger | undefined;
+  checkpoints: CrawlCheckpoints;
+  budgetStopReason: string | null;
+}
+
+function createEmptyStats(): CrawlerStats {
+  return {
+    papersCollected: 0,
+    ntrsReportsCollected: 0,
+    videosCollected: 0,
+    nasaItemsCollected: 0,
+    skippedOffTopic: 0,
+    errors: [],
+  };
 }
 
-// Main crawler function
+function crawlCounts(stats: CrawlerStats, queue: AiQueueResult | null): Record<string, number> {
+  return {
+    arxiv: stats.papersCollected,
+    ntrs: stats.ntrsReportsCollected,
+    youtube: stats.videosCollected,
+    nasa: stats.nasaItemsCollected,
+    skippedOffTopic: stats.skippedOffTopic,
+    ...(queue
+      ? {
+        aiProcessed: queue.processed,
+        aiRetried: queue.retried,
+        aiDeadLettered: queue.deadLettered,
+      }
+      : {}),
+  };
+}
+
+// Main crawler function: runs every collector and records the run in the crawl ledger
 export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
+  // Injected deps only persist to the ledger they bring along
+  const ledger = deps ? deps.ledger : crawlLedger;
+  const runId = (await ledger?.startRun()) ?? null;
+  const run: CrawlRunContext = {
+    ledger,
+    checkpoints: (await ledger?.getCheckpoints()) ?? {},
+    budgetStopReason: null,
+  };
+
+  // Collection spends no AI budget; the queue drain afterwards stops on its own when the
+  // daily budget runs out and picks up where it left off once it clears.
+  const runAiQueue_ = deps ? deps.runAiQueue : runAiQueue;
+
+  try {
+    const stats = await crawlAllSources(run, deps);
+
+    let queue: AiQueueResult | null = null;
+    if (runAiQueue_) {
+      try {
+        console.log("\n🤖 Processing queued AI jobs...");
+        queue = await runAiQueue_();
+        run.budgetStopReason = queue.budgetStopReason;
+        console.log(
+          `✅ AI queue: ${queue.processed} processed, ${queue.retried} retrying, ${queue.deadLettered} dead-lettered`,
+        );
+      } catch (error) {
+        console.error("❌ Error processing AI queue:", error);
+        stats.errors.push(`AI queue: ${error}`);
+      }
+    }
+
+    await ledger?.finishRun(runId, {
+      status: "completed",
+      counts: crawlCounts(stats, queue),
+      errors: stats.errors,
+      budgetStopReason: run.budgetStopReason,
+    });
+    return stats;
+  } catch (error) {
+    await ledger?.finishRun(runId, {
+      status: "failed",
+      counts: {},
+      errors: [String(error)],
+      budgetStopReason: run.budgetStopReason,
+    });
+    throw error;
+  }
+}
+
+async function crawlAllSources(run: CrawlRunContext, deps?: CrawlerDeps): Promise<CrawlerStats> {
   const db_ = deps?.db ?? db;
   const initCollections_ = deps?.initializeCollections ?? initializeCollections;
-  const processMultilingual_ = deps?.processMultilingualContent ?? processMultilingualContent;
   const collectAstronomyPapers_ = deps?.collectAstronomyPapers ?? collectAstronomyPapers;
   const collectRocketPapers_ = deps?.collectRocketPapers ?? collectRocketPapers;
   const collectRocketReports_ = deps?.collectRocketReports ?? collectRocketReports;
@@ -209,41 +301,35 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
   console.log("🚀 Starting AstroGroot Crawler...");
   console.log(`Max items per source: ${MAX_ITEMS_PER_SOURCE}`);
 
-  const stats: CrawlerStats = {
-    papersCollected: 0,
-    ntrsReportsCollected: 0,
-    videosCollected: 0,
-    nasaItemsCollected: 0,
-    skippedOffTopic: 0,
-    errors: [],
+  const stats = createEmptyStats();
+  const { checkpoints } = run;
+
+  // Advance a source's high-water mark past what this run handled (see advanceCheckpoint).
+  // arXiv and NTRS resume oldest-first from the mark, so their capped pages leave no gap.
+  const saveCheckpoint = async (
+    source: CrawlSource,
+    handled: string[],
+    failed: string[],
+    truncated = false,
+  ) => {
+    const next = advanceCheckpoint(checkpoints[source], handled, failed, truncated);
+    if (next && next !== checkpoints[source]) {
+      checkpoints[source] = next;
+      await run.ledger?.setCheckpoint(source, next);
+    }
   };
 
-  // Skip in test/injected mode: isBudgetExceededToday() reads the real
-  // Turso ai_usage table directly (not part of CrawlerDeps), so it must
-  // not run against production budget state when deps are mocked.
-  if (!deps && (await isBudgetExceededToday())) {
-    console.log("🛑 Daily AI budget already exceeded — skipping this crawl run.");
-    return stats;
-  }
-
-  // Initialize vector store collections
-  const collections = await initCollections_();
-
-  // Initialize FTS5 full-text search tables (non-fatal)
-  try {
-    await ensureFtsTables(client);
-  } catch (error) {
-    console.warn("⚠️  FTS table init failed (non-fatal):", error);
-  }
 
   // Collect arXiv papers
   try {
     console.log("\n📄 Collecting arXiv papers...");
     const arxivPapers = await collectAstronomyPapers_({
       maxResults: MAX_ITEMS_PER_SOURCE,
-      daysBack: 1825, // 5 years
+      daysBack: ARXIV_DAYS_BACK,
+      since: readCheckpoint("arxiv:astronomy", checkpoints),
     });
 
+    const failed: string[] = [];
     for (const paper of arxivPapers) {
       try {
         // Check if paper already exists
@@ -261,69 +347,33 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
           continue;
         }
 
-        // Process with AI (summarize + translate to all supported languages)
-        console.log(`  🤖 Processing paper: ${paper.title.substring(0, 50)}...`);
-        const { baseSummary, translations: trans } = await processMultilingual_({
-          text: paper.summary,
-          title: paper.title,
-          sourceType: "paper",
-        });
-
-        // Insert into database (main row: English summary)
+        // Insert the raw row; the AI queue summarizes, translates and indexes it
         await db_.insert(papers).values({
           id: paper.id,
           title: paper.title,
           authors: JSON.stringify(paper.authors),
           abstract: paper.summary,
-          summary: baseSummary,
           publishedDate: new Date(paper.published),
           updatedDate: paper.updated ? new Date(paper.updated) : null,
           categories: JSON.stringify(paper.categories),
           pdfUrl: paper.pdfUrl,
           arxivUrl: paper.arxivUrl,
-          processed: true,
-          vectorId: paper.id,
+          processed: false,
         });
-
-        // Insert translations for each language
-        for (const t of trans) {
-          await db_.insert(translations).values({
-            itemType: "paper",
-            itemId: paper.id,
-            lang: t.lang,
-            title: t.title,
-            summary: t.summary,
-          });
-        }
-
-        // Add to per-locale vector stores
-        for (const t of trans) {
-          const locale = t.lang as Locale;
-          if (!SUPPORTED_LOCALES.includes(locale)) continue;
-          await collections.papers[locale].add({
-            id: paper.id,
-            text: `${t.title}\n\n${t.summary}\n\n${paper.summary}`,
-            metadata: {
-              title: t.title,
-              published: paper.published,
-              categories: paper.categories.join(", "),
-            },
-          });
-        }
-
-        // Insert into FTS index
-        try { await ftsInsertPaper(client, { id: paper.id, title: paper.title, abstract: paper.summary, summary: baseSummary }); } catch { /* non-fatal */ }
-        for (const t of trans) {
-          try { await ftsInsertTranslation(client, { itemType: "paper", itemId: paper.id, lang: t.lang, title: t.title, summary: t.summary }); } catch { /* non-fatal */ }
-        }
+        await enqueueAiJob(
+          { itemType: "paper", itemId: paper.id, priority: AI_JOB_PRIORITY.arxiv },
+          db_,
+        );
 
         stats.papersCollected++;
-        console.log(`  ✅ Saved paper: ${paper.id}`);
+        console.log(`  ✅ Queued paper: ${paper.id}`);
       } catch (error) {
         console.error(`  ❌ Error processing paper ${paper.id}:`, error);
         stats.errors.push(`Paper ${paper.id}: ${error}`);
+        failed.push(paper.published);
       }
     }
+    await saveCheckpoint("arxiv:astronomy", arxivPapers.map((paper) => paper.published), failed);
 
     console.log(`\n✅ Collected ${stats.papersCollected} arXiv papers`);
   } catch (error) {
@@ -336,9 +386,11 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
     console.log("\n🛰️ Collecting rocket/launch system papers...");
     const rocketPapers = await collectRocketPapers_({
       maxResults: MAX_ITEMS_PER_SOURCE,
-      daysBack: 1825, // 5 years
+      daysBack: ARXIV_DAYS_BACK,
+      since: readCheckpoint("arxiv:rocket", checkpoints),
     });
 
+    const failed: string[] = [];
     for (const paper of rocketPapers) {
       try {
         const existing = await db_.query.papers.findFirst({
@@ -355,65 +407,33 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
           continue;
         }
 
-        console.log(`  🤖 Processing paper: ${paper.title.substring(0, 50)}...`);
-        const { baseSummary, translations: trans } = await processMultilingual_({
-          text: paper.summary,
-          title: paper.title,
-          sourceType: "paper",
-        });
-
+        // Insert the raw row; the AI queue summarizes, translates and indexes it
         await db_.insert(papers).values({
           id: paper.id,
           title: paper.title,
           authors: JSON.stringify(paper.authors),
           abstract: paper.summary,
-          summary: baseSummary,
           publishedDate: new Date(paper.published),
           updatedDate: paper.updated ? new Date(paper.updated) : null,
           categories: JSON.stringify(paper.categories),
           pdfUrl: paper.pdfUrl,
           arxivUrl: paper.arxivUrl,
-          processed: true,
-          vectorId: paper.id,
+          processed: false,
         });
-
-        for (const t of trans) {
-          await db_.insert(translations).values({
-            itemType: "paper",
-            itemId: paper.id,
-            lang: t.lang,
-            title: t.title,
-            summary: t.summary,
-          });
-        }
-
-        for (const t of trans) {
-          const locale = t.lang as Locale;
-          if (!SUPPORTED_LOCALES.includes(locale)) continue;
-          await collections.papers[locale].add({
-            id: paper.id,
-            text: `${t.title}\n\n${t.summary}\n\n${paper.summary}`,
-            metadata: {
-              title: t.title,
-              published: paper.published,
-              categories: paper.categories.join(", "),
-            },
-          });
-        }
-
-        // Insert into FTS index
-        try { await ftsInsertPaper(client, { id: paper.id, title: paper.title, abstract: paper.summary, summary: baseSummary }); } catch { /* non-fatal */ }
-        for (const t of trans) {
-          try { await ftsInsertTranslation(client, { itemType: "paper", itemId: paper.id, lang: t.lang, title: t.title, summary: t.summary }); } catch { /* non-fatal */ }
-        }
+        await enqueueAiJob(
+          { itemType: "paper", itemId: paper.id, priority: AI_JOB_PRIORITY.arxiv },
+          db_,
+        );
 
         stats.papersCollected++;
-        console.log(`  ✅ Saved paper: ${paper.id}`);
+        console.log(`  ✅ Queued paper: ${paper.id}`);
       } catch (error) {
         console.error(`  ❌ Error processing paper ${paper.id}:`, error);
         stats.errors.push(`Rocket paper ${paper.id}: ${error}`);
+        failed.push(paper.published);
       }
     }
+    await saveCheckpoint("arxiv:rocket", rocketPapers.map((paper) => paper.published), failed);
   } catch (error) {
     console.error("❌ Error collecting rocket papers:", error);
     stats.errors.push(`Rocket arXiv collection: ${error}`);
@@ -424,9 +444,11 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
     console.log("\n🤖 Collecting robotics papers...");
     const roboticsPapers = await collectRoboticsPapers_({
       maxResults: MAX_ITEMS_PER_SOURCE,
-      daysBack: 1825, // 5 years
+      daysBack: ARXIV_DAYS_BACK,
+      since: readCheckpoint("arxiv:robotics", checkpoints),
     });
 
+    const failed: string[] = [];
     for (const paper of roboticsPapers) {
       try {
         const existing = await db_.query.papers.findFirst({
@@ -443,65 +465,33 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
           continue;
         }
 
-        console.log(`  🤖 Processing paper: ${paper.title.substring(0, 50)}...`);
-        const { baseSummary, translations: trans } = await processMultilingual_({
-          text: paper.summary,
-          title: paper.title,
-          sourceType: "paper",
-        });
-
+        // Insert the raw row; the AI queue summarizes, translates and indexes it
         await db_.insert(papers).values({
           id: paper.id,
           title: paper.title,
           authors: JSON.stringify(paper.authors),
           abstract: paper.summary,
-          summary: baseSummary,
           publishedDate: new Date(paper.published),
           updatedDate: paper.updated ? new Date(paper.updated) : null,
           categories: JSON.stringify(paper.categories),
           pdfUrl: paper.pdfUrl,
           arxivUrl: paper.arxivUrl,
-          processed: true,
-          vectorId: paper.id,
+          processed: false,
         });
-
-        for (const t of trans) {
-          await db_.insert(translations).values({
-            itemType: "paper",
-            itemId: paper.id,
-            lang: t.lang,
-            title: t.title,
-            summary: t.summary,
-          });
-        }
-
-        for (const t of trans) {
-          const locale = t.lang as Locale;
-          if (!SUPPORTED_LOCALES.includes(locale)) continue;
-          await collections.papers[locale].add({
-            id: paper.id,
-            text: `${t.title}\n\n${t.summary}\n\n${paper.summary}`,
-            metadata: {
-              title: t.title,
-              published: paper.published,
-              categories: paper.categories.join(", "),
-            },
-          });
-        }
-
-        // Insert into FTS index
-        try { await ftsInsertPaper(client, { id: paper.id, title: paper.title, abstract: paper.summary, summary: baseSummary }); } catch { /* non-fatal */ }
-        for (const t of trans) {
-          try { await ftsInsertTranslation(client, { itemType: "paper", itemId: paper.id, lang: t.lang, title: t.title, summary: t.summary }); } catch { /* non-fatal */ }
-        }
+        await enqueueAiJob(
+          { itemType: "paper", itemId: paper.id, priority: AI_JOB_PRIORITY.arxiv },
+          db_,
+        );
 
         stats.papersCollected++;
-        console.log(`  ✅ Saved paper: ${paper.id}`);
+        console.log(`  ✅ Queued paper: ${paper.id}`);
       } catch (error) {
         console.error(`  ❌ Error processing paper ${paper.id}:`, error);
         stats.errors.push(`Robotics paper ${paper.id}: ${error}`);
+        failed.push(paper.published);
       }
     }
+    await saveCheckpoint("arxiv:robotics", roboticsPapers.map((paper) => paper.published), failed);
   } catch (error) {
     console.error("❌ Error collecting robotics papers:", error);
     stats.errors.push(`Robotics arXiv collection: ${error}`);
@@ -512,9 +502,11 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
     console.log("\n📡 Collecting satellite papers...");
     const satellitePapers = await collectSatellitePapers_({
       maxResults: MAX_ITEMS_PER_SOURCE,
-      daysBack: 1825, // 5 years
+      daysBack: ARXIV_DAYS_BACK,
+      since: readCheckpoint("arxiv:satellite", checkpoints),
     });
 
+    const failed: string[] = [];
     for (const paper of satellitePapers) {
       try {
         const existing = await db_.query.papers.findFirst({
@@ -531,65 +523,33 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
           continue;
         }
 
-        console.log(`  🤖 Processing paper: ${paper.title.substring(0, 50)}...`);
-        const { baseSummary, translations: trans } = await processMultilingual_({
-          text: paper.summary,
-          title: paper.title,
-          sourceType: "paper",
-        });
-
+        // Insert the raw row; the AI queue summarizes, translates and indexes it
         await db_.insert(papers).values({
           id: paper.id,
           title: paper.title,
           authors: JSON.stringify(paper.authors),
           abstract: paper.summary,
-          summary: baseSummary,
           publishedDate: new Date(paper.published),
           updatedDate: paper.updated ? new Date(paper.updated) : null,
           categories: JSON.stringify(paper.categories),
           pdfUrl: paper.pdfUrl,
           arxivUrl: paper.arxivUrl,
-          processed: true,
-          vectorId: paper.id,
+          processed: false,
         });
-
-        for (const t of trans) {
-          await db_.insert(translations).values({
-            itemType: "paper",
-            itemId: paper.id,
-            lang: t.lang,
-            title: t.title,
-            summary: t.summary,
-          });
-        }
-
-        for (const t of trans) {
-          const locale = t.lang as Locale;
-          if (!SUPPORTED_LOCALES.includes(locale)) continue;
-          await collections.papers[locale].add({
-            id: paper.id,
-            text: `${t.title}\n\n${t.summary}\n\n${paper.summary}`,
-            metadata: {
-              title: t.title,
-              published: paper.published,
-              categories: paper.categories.join(", "),
-            },
-          });
-        }
-
-        // Insert into FTS index
-        try { await ftsInsertPaper(client, { id: paper.id, title: paper.title, abstract: paper.summary, summary: baseSummary }); } catch { /* non-fatal */ }
-        for (const t of trans) {
-          try { await ftsInsertTranslation(client, { itemType: "paper", itemId: paper.id, lang: t.lang, title: t.title, summary: t.summary }); } catch { /* non-fatal */ }
-        }
+        await enqueueAiJob(
+          { itemType: "paper", itemId: paper.id, priority: AI_JOB_PRIORITY.arxiv },
+          db_,
+        );
 
         stats.papersCollected++;
-        console.log(`  ✅ Saved paper: ${paper.id}`);
+        console.log(`  ✅ Queued paper: ${paper.id}`);
       } catch (error) {
         console.error(`  ❌ Error processing paper ${paper.id}:`, error);
         stats.errors.push(`Satellite paper ${paper.id}: ${error}`);
+        failed.push(paper.published);
       }
     }
+    await saveCheckpoint("arxiv:satellite", satellitePapers.map((paper) => paper.published), failed);
   } catch (error) {
     console.error("❌ Error collecting satellite papers:", error);
     stats.errors.push(`Satellite arXiv collection: ${error}`);
@@ -600,9 +560,11 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
     console.log("\n🏠 Collecting space travel/settlement papers...");
     const spaceTravelPapers = await collectSpaceTravelPapers_({
       maxResults: MAX_ITEMS_PER_SOURCE,
-      daysBack: 1825, // 5 years
+      daysBack: ARXIV_DAYS_BACK,
+      since: readCheckpoint("arxiv:space-travel", checkpoints),
     });
 
+    const failed: string[] = [];
     for (const paper of spaceTravelPapers) {
       try {
         const existing = await db_.query.papers.findFirst({
@@ -619,65 +581,33 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
           continue;
         }
 
-        console.log(`  🤖 Processing paper: ${paper.title.substring(0, 50)}...`);
-        const { baseSummary, translations: trans } = await processMultilingual_({
-          text: paper.summary,
-          title: paper.title,
-          sourceType: "paper",
-        });
-
+        // Insert the raw row; the AI queue summarizes, translates and indexes it
         await db_.insert(papers).values({
           id: paper.id,
           title: paper.title,
           authors: JSON.stringify(paper.authors),
           abstract: paper.summary,
-          summary: baseSummary,
           publishedDate: new Date(paper.published),
           updatedDate: paper.updated ? new Date(paper.updated) : null,
           categories: JSON.stringify(paper.categories),
           pdfUrl: paper.pdfUrl,
           arxivUrl: paper.arxivUrl,
-          processed: true,
-          vectorId: paper.id,
+          processed: false,
         });
-
-        for (const t of trans) {
-          await db_.insert(translations).values({
-            itemType: "paper",
-            itemId: paper.id,
-            lang: t.lang,
-            title: t.title,
-            summary: t.summary,
-          });
-        }
-
-        for (const t of trans) {
-          const locale = t.lang as Locale;
-          if (!SUPPORTED_LOCALES.includes(locale)) continue;
-          await collections.papers[locale].add({
-            id: paper.id,
-            text: `${t.title}\n\n${t.summary}\n\n${paper.summary}`,
-            metadata: {
-              title: t.title,
-              published: paper.published,
-              categories: paper.categories.join(", "),
-            },
-          });
-        }
-
-        // Insert into FTS index
-        try { await ftsInsertPaper(client, { id: paper.id, title: paper.title, abstract: paper.summary, summary: baseSummary }); } catch { /* non-fatal */ }
-        for (const t of trans) {
-          try { await ftsInsertTranslation(client, { itemType: "paper", itemId: paper.id, lang: t.lang, title: t.title, summary: t.summary }); } catch { /* non-fatal */ }
-        }
+        await enqueueAiJob(
+          { itemType: "paper", itemId: paper.id, priority: AI_JOB_PRIORITY.arxiv },
+          db_,
+        );
 
         stats.papersCollected++;
-        console.log(`  ✅ Saved paper: ${paper.id}`);
+        console.log(`  ✅ Queued paper: ${paper.id}`);
       } catch (error) {
         console.error(`  ❌ Error processing paper ${paper.id}:`, error);
         stats.errors.push(`Space travel paper ${paper.id}: ${error}`);
+        failed.push(paper.published);
       }
     }
+    await saveCheckpoint("arxiv:space-travel", spaceTravelPapers.map((paper) => paper.published), failed);
   } catch (error) {
     console.error("❌ Error collecting space travel papers:", error);
     stats.errors.push(`Space travel arXiv collection: ${error}`);
@@ -690,9 +620,11 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
     console.log("\n🧠 Collecting AI (robotics/astro) papers...");
     const aiPapers = await collectAiPapers_({
       maxResults: MAX_ITEMS_PER_SOURCE,
-      daysBack: 1825, // 5 years
+      daysBack: ARXIV_DAYS_BACK,
+      since: readCheckpoint("arxiv:ai", checkpoints),
     });
 
+    const failed: string[] = [];
     for (const paper of aiPapers) {
       try {
         const existing = await db_.query.papers.findFirst({
@@ -709,65 +641,33 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
           continue;
         }
 
-        console.log(`  🤖 Processing paper: ${paper.title.substring(0, 50)}...`);
-        const { baseSummary, translations: trans } = await processMultilingual_({
-          text: paper.summary,
-          title: paper.title,
-          sourceType: "paper",
-        });
-
+        // Insert the raw row; the AI queue summarizes, translates and indexes it
         await db_.insert(papers).values({
           id: paper.id,
           title: paper.title,
           authors: JSON.stringify(paper.authors),
           abstract: paper.summary,
-          summary: baseSummary,
           publishedDate: new Date(paper.published),
           updatedDate: paper.updated ? new Date(paper.updated) : null,
           categories: JSON.stringify(paper.categories),
           pdfUrl: paper.pdfUrl,
           arxivUrl: paper.arxivUrl,
-          processed: true,
-          vectorId: paper.id,
+          processed: false,
         });
-
-        for (const t of trans) {
-          await db_.insert(translations).values({
-            itemType: "paper",
-            itemId: paper.id,
-            lang: t.lang,
-            title: t.title,
-            summary: t.summary,
-          });
-        }
-
-        for (const t of trans) {
-          const locale = t.lang as Locale;
-          if (!SUPPORTED_LOCALES.includes(locale)) continue;
-          await collections.papers[locale].add({
-            id: paper.id,
-            text: `${t.title}\n\n${t.summary}\n\n${paper.summary}`,
-            metadata: {
-              title: t.title,
-              published: paper.published,
-              categories: paper.categories.join(", "),
-            },
-          });
-        }
-
-        // Insert into FTS index
-        try { await ftsInsertPaper(client, { id: paper.id, title: paper.title, abstract: paper.summary, summary: baseSummary }); } catch { /* non-fatal */ }
-        for (const t of trans) {
-          try { await ftsInsertTranslation(client, { itemType: "paper", itemId: paper.id, lang: t.lang, title: t.title, summary: t.summary }); } catch { /* non-fatal */ }
-        }
+        await enqueueAiJob(
+          { itemType: "paper", itemId: paper.id, priority: AI_JOB_PRIORITY.arxiv },
+          db_,
+        );
 
         stats.papersCollected++;
-        console.log(`  ✅ Saved paper: ${paper.id}`);
+        console.log(`  ✅ Queued paper: ${paper.id}`);
       } catch (error) {
         console.error(`  ❌ Error processing paper ${paper.id}:`, error);
         stats.errors.push(`AI paper ${paper.id}: ${error}`);
+        failed.push(paper.published);
       }
     }
+    await saveCheckpoint("arxiv:ai", aiPapers.map((paper) => paper.published), failed);
   } catch (error) {
     console.error("❌ Error collecting AI papers:", error);
     stats.errors.push(`AI arXiv collection: ${error}`);
@@ -776,11 +676,13 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
   // Collect NASA NTRS technical reports (rocket/propulsion focused)
   try {
     console.log("\n🚀 Collecting NASA NTRS technical reports...");
-    const ntrsReports = await collectRocketReports_({
+    const ntrsReports = (await collectRocketReports_({
       maxResultsPerQuery: Math.floor(MAX_ITEMS_PER_SOURCE / 10),
-    });
+      createdAfter: readCheckpoint("ntrs:rocket", checkpoints),
+    })).slice(0, MAX_ITEMS_PER_SOURCE);
 
-    for (const report of ntrsReports.slice(0, MAX_ITEMS_PER_SOURCE)) {
+    const failed: string[] = [];
+    for (const report of ntrsReports) {
       try {
         const reportId = `ntrs-${report.id}`;
 
@@ -794,69 +696,36 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
           continue;
         }
 
-        // Process with AI (summarize + translate to all supported languages)
-        console.log(`  🤖 Processing NTRS: ${report.title.substring(0, 50)}...`);
-        const { baseSummary, translations: trans } = await processMultilingual_({
-          text: report.abstract || report.title,
-          title: report.title,
-          sourceType: "paper",
-        });
-
-        // Insert into database (using papers table with ntrs- prefix)
+        // Insert the raw row; the AI queue summarizes, translates and indexes it
         await db_.insert(papers).values({
           id: reportId,
           title: report.title,
           authors: JSON.stringify(report.authors),
           abstract: report.abstract || "",
-          summary: baseSummary,
           publishedDate: report.publishedDate ? new Date(report.publishedDate) : new Date(),
           categories: JSON.stringify(report.subjectCategories),
           pdfUrl: report.pdfUrl,
           arxivUrl: report.ntrsUrl, // Store NTRS URL in arxivUrl field
-          processed: true,
-          vectorId: reportId,
+          processed: false,
         });
-
-        // Insert translations for each language
-        for (const t of trans) {
-          await db_.insert(translations).values({
-            itemType: "paper",
-            itemId: reportId,
-            lang: t.lang,
-            title: t.title,
-            summary: t.summary,
-          });
-        }
-
-        // Add to per-locale vector stores
-        for (const t of trans) {
-          const locale = t.lang as Locale;
-          if (!SUPPORTED_LOCALES.includes(locale)) continue;
-          await collections.papers[locale].add({
-            id: reportId,
-            text: `${t.title}\n\n${t.summary}\n\n${report.abstract || ""}`,
-            metadata: {
-              title: t.title,
-              published: report.publishedDate || "",
-              categories: report.subjectCategories.join(", "),
-              source: "NASA NTRS",
-            },
-          });
-        }
-
-        // Insert into FTS index
-        try { await ftsInsertPaper(client, { id: reportId, title: report.title, abstract: report.abstract || "", summary: baseSummary }); } catch { /* non-fatal */ }
-        for (const t of trans) {
-          try { await ftsInsertTranslation(client, { itemType: "paper", itemId: reportId, lang: t.lang, title: t.title, summary: t.summary }); } catch { /* non-fatal */ }
-        }
+        await enqueueAiJob(
+          { itemType: "paper", itemId: reportId, priority: AI_JOB_PRIORITY.ntrs },
+          db_,
+        );
 
         stats.ntrsReportsCollected++;
-        console.log(`  ✅ Saved NTRS report: ${reportId}`);
+        console.log(`  ✅ Queued NTRS report: ${reportId}`);
       } catch (error) {
         console.error(`  ❌ Error processing NTRS ${report.id}:`, error);
         stats.errors.push(`NTRS ${report.id}: ${error}`);
+        if (report.created) failed.push(report.created);
       }
     }
+    await saveCheckpoint(
+      "ntrs:rocket",
+      ntrsReports.flatMap((report) => (report.created ? [report.created] : [])),
+      failed,
+    );
 
     console.log(`\n✅ Collected ${stats.ntrsReportsCollected} NTRS reports`);
   } catch (error) {
@@ -867,11 +736,13 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
   // Collect NASA NTRS robotics reports
   try {
     console.log("\n🤖 Collecting NASA NTRS robotics reports...");
-    const roboticsReports = await collectRoboticsReports_({
+    const roboticsReports = (await collectRoboticsReports_({
       maxResultsPerQuery: Math.floor(MAX_ITEMS_PER_SOURCE / 10),
-    });
+      createdAfter: readCheckpoint("ntrs:robotics", checkpoints),
+    })).slice(0, MAX_ITEMS_PER_SOURCE);
 
-    for (const report of roboticsReports.slice(0, MAX_ITEMS_PER_SOURCE)) {
+    const failed: string[] = [];
+    for (const report of roboticsReports) {
       try {
         const reportId = `ntrs-${report.id}`;
 
@@ -884,65 +755,36 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
           continue;
         }
 
-        console.log(`  🤖 Processing NTRS: ${report.title.substring(0, 50)}...`);
-        const { baseSummary, translations: trans } = await processMultilingual_({
-          text: report.abstract || report.title,
-          title: report.title,
-          sourceType: "paper",
-        });
-
+        // Insert the raw row; the AI queue summarizes, translates and indexes it
         await db_.insert(papers).values({
           id: reportId,
           title: report.title,
           authors: JSON.stringify(report.authors),
           abstract: report.abstract || "",
-          summary: baseSummary,
           publishedDate: report.publishedDate ? new Date(report.publishedDate) : new Date(),
           categories: JSON.stringify(report.subjectCategories),
           pdfUrl: report.pdfUrl,
           arxivUrl: report.ntrsUrl,
-          processed: true,
-          vectorId: reportId,
+          processed: false,
         });
-
-        for (const t of trans) {
-          await db_.insert(translations).values({
-            itemType: "paper",
-            itemId: reportId,
-            lang: t.lang,
-            title: t.title,
-            summary: t.summary,
-          });
-        }
-
-        for (const t of trans) {
-          const locale = t.lang as Locale;
-          if (!SUPPORTED_LOCALES.includes(locale)) continue;
-          await collections.papers[locale].add({
-            id: reportId,
-            text: `${t.title}\n\n${t.summary}\n\n${report.abstract || ""}`,
-            metadata: {
-              title: t.title,
-              published: report.publishedDate || "",
-              categories: report.subjectCategories.join(", "),
-              source: "NASA NTRS",
-            },
-          });
-        }
-
-        // Insert into FTS index
-        try { await ftsInsertPaper(client, { id: reportId, title: report.title, abstract: report.abstract || "", summary: baseSummary }); } catch { /* non-fatal */ }
-        for (const t of trans) {
-          try { await ftsInsertTranslation(client, { itemType: "paper", itemId: reportId, lang: t.lang, title: t.title, summary: t.summary }); } catch { /* non-fatal */ }
-        }
+        await enqueueAiJob(
+          { itemType: "paper", itemId: reportId, priority: AI_JOB_PRIORITY.ntrs },
+          db_,
+        );
 
         stats.ntrsReportsCollected++;
-        console.log(`  ✅ Saved NTRS robotics report: ${reportId}`);
+        console.log(`  ✅ Queued NTRS robotics report: ${reportId}`);
       } catch (error) {
         console.error(`  ❌ Error processing NTRS ${report.id}:`, error);
         stats.errors.push(`NTRS robotics ${report.id}: ${error}`);
+        if (report.created) failed.push(report.created);
       }
     }
+    await saveCheckpoint(
+      "ntrs:robotics",
+      roboticsReports.flatMap((report) => (report.created ? [report.created] : [])),
+      failed,
+    );
 
     console.log(`\n✅ Collected robotics NTRS reports`);
   } catch (error) {
@@ -953,11 +795,13 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
   // Collect NASA NTRS satellite reports
   try {
     console.log("\n📡 Collecting NASA NTRS satellite reports...");
-    const satelliteReports = await collectSatelliteReports_({
+    const satelliteReports = (await collectSatelliteReports_({
       maxResultsPerQuery: Math.floor(MAX_ITEMS_PER_SOURCE / 10),
-    });
+      createdAfter: readCheckpoint("ntrs:satellite", checkpoints),
+    })).slice(0, MAX_ITEMS_PER_SOURCE);
 
-    for (const report of satelliteReports.slice(0, MAX_ITEMS_PER_SOURCE)) {
+    const failed: string[] = [];
+    for (const report of satelliteReports) {
       try {
         const reportId = `ntrs-${report.id}`;
 
@@ -970,65 +814,36 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
           continue;
         }
 
-        console.log(`  🤖 Processing NTRS: ${report.title.substring(0, 50)}...`);
-        const { baseSummary, translations: trans } = await processMultilingual_({
-          text: report.abstract || report.title,
-          title: report.title,
-          sourceType: "paper",
-        });
-
+        // Insert the raw row; the AI queue summarizes, translates and indexes it
         await db_.insert(papers).values({
           id: reportId,
           title: report.title,
           authors: JSON.stringify(report.authors),
           abstract: report.abstract || "",
-          summary: baseSummary,
           publishedDate: report.publishedDate ? new Date(report.publishedDate) : new Date(),
           categories: JSON.stringify(report.subjectCategories),
           pdfUrl: report.pdfUrl,
           arxivUrl: report.ntrsUrl,
-          processed: true,
-          vectorId: reportId,
+          processed: false,
         });
-
-        for (const t of trans) {
-          await db_.insert(translations).values({
-            itemType: "paper",
-            itemId: reportId,
-            lang: t.lang,
-            title: t.title,
-            summary: t.summary,
-          });
-        }
-
-        for (const t of trans) {
-          const locale = t.lang as Locale;
-          if (!SUPPORTED_LOCALES.includes(locale)) continue;
-          await collections.papers[locale].add({
-            id: reportId,
-            text: `${t.title}\n\n${t.summary}\n\n${report.abstract || ""}`,
-            metadata: {
-              title: t.title,
-              published: report.publishedDate || "",
-              categories: report.subjectCategories.join(", "),
-              source: "NASA NTRS",
-            },
-          });
-        }
-
-        // Insert into FTS index
-        try { await ftsInsertPaper(client, { id: reportId, title: report.title, abstract: report.abstract || "", summary: baseSummary }); } catch { /* non-fatal */ }
-        for (const t of trans) {
-          try { await ftsInsertTranslation(client, { itemType: "paper", itemId: reportId, lang: t.lang, title: t.title, summary: t.summary }); } catch { /* non-fatal */ }
-        }
+        await enqueueAiJob(
+          { itemType: "paper", itemId: reportId, priority: AI_JOB_PRIORITY.ntrs },
+          db_,
+        );
 
         stats.ntrsReportsCollected++;
-        console.log(`  ✅ Saved NTRS satellite report: ${reportId}`);
+        console.log(`  ✅ Queued NTRS satellite report: ${reportId}`);
       } catch (error) {
         console.error(`  ❌ Error processing NTRS ${report.id}:`, error);
         stats.errors.push(`NTRS satellite ${report.id}: ${error}`);
+        if (report.created) failed.push(report.created);
       }
     }
+    await saveCheckpoint(
+      "ntrs:satellite",
+      satelliteReports.flatMap((report) => (report.created ? [report.created] : [])),
+      failed,
+    );
 
     console.log(`\n✅ Collected satellite NTRS reports`);
   } catch (error) {
@@ -1039,11 +854,13 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
   // Collect NASA NTRS space travel reports
   try {
     console.log("\n🏠 Collecting NASA NTRS space travel reports...");
-    const spaceTravelReports = await collectSpaceTravelReports_({
+    const spaceTravelReports = (await collectSpaceTravelReports_({
       maxResultsPerQuery: Math.floor(MAX_ITEMS_PER_SOURCE / 10),
-    });
+      createdAfter: readCheckpoint("ntrs:space-travel", checkpoints),
+    })).slice(0, MAX_ITEMS_PER_SOURCE);
 
-    for (const report of spaceTravelReports.slice(0, MAX_ITEMS_PER_SOURCE)) {
+    const failed: string[] = [];
+    for (const report of spaceTravelReports) {
       try {
         const reportId = `ntrs-${report.id}`;
 
@@ -1056,65 +873,36 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
           continue;
         }
 
-        console.log(`  🤖 Processing NTRS: ${report.title.substring(0, 50)}...`);
-        const { baseSummary, translations: trans } = await processMultilingual_({
-          text: report.abstract || report.title,
-          title: report.title,
-          sourceType: "paper",
-        });
-
+        // Insert the raw row; the AI queue summarizes, translates and indexes it
         await db_.insert(papers).values({
           id: reportId,
           title: report.title,
           authors: JSON.stringify(report.authors),
           abstract: report.abstract || "",
-          summary: baseSummary,
           publishedDate: report.publishedDate ? new Date(report.publishedDate) : new Date(),
           categories: JSON.stringify(report.subjectCategories),
           pdfUrl: report.pdfUrl,
           arxivUrl: report.ntrsUrl,
-          processed: true,
-          vectorId: reportId,
+          processed: false,
         });
-
-        for (const t of trans) {
-          await db_.insert(translations).values({
-            itemType: "paper",
-            itemId: reportId,
-            lang: t.lang,
-            title: t.title,
-            summary: t.summary,
-          });
-        }
-
-        for (const t of trans) {
-          const locale = t.lang as Locale;
-          if (!SUPPORTED_LOCALES.includes(locale)) continue;
-          await collections.papers[locale].add({
-            id: reportId,
-            text: `${t.title}\n\n${t.summary}\n\n${report.abstract || ""}`,
-            metadata: {
-              title: t.title,
-              published: report.publishedDate || "",
-              categories: report.subjectCategories.join(", "),
-              source: "NASA NTRS",
-            },
-          });
-        }
-
-        // Insert into FTS index
-        try { await ftsInsertPaper(client, { id: reportId, title: report.title, abstract: report.abstract || "", summary: baseSummary }); } catch { /* non-fatal */ }
-        for (const t of trans) {
-          try { await ftsInsertTranslation(client, { itemType: "paper", itemId: reportId, lang: t.lang, title: t.title, summary: t.summary }); } catch { /* non-fatal */ }
-        }
+        await enqueueAiJob(
+          { itemType: "paper", itemId: reportId, priority: AI_JOB_PRIORITY.ntrs },
+          db_,
+        );
 
         stats.ntrsReportsCollected++;
-        console.log(`  ✅ Saved NTRS space travel report: ${reportId}`);
+        console.log(`  ✅ Queued NTRS space travel report: ${reportId}`);
       } catch (error) {
         console.error(`  ❌ Error processing NTRS ${report.id}:`, error);
         stats.errors.push(`NTRS space travel ${report.id}: ${error}`);
+        if (report.created) failed.push(report.created);
       }
     }
+    await saveCheckpoint(
+      "ntrs:space-travel",
+      spaceTravelReports.flatMap((report) => (report.created ? [report.created] : [])),
+      failed,
+    );
 
     console.log(`\n✅ Collected space travel NTRS reports`);
   } catch (error) {
@@ -1125,11 +913,14 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
   // Collect YouTube videos
   try {
     console.log("\n🎥 Collecting YouTube videos...");
-    const videoList = await collectAstronomyVideos_({
+    const collected = await collectAstronomyVideos_({
       maxResultsPerQuery: Math.floor(MAX_ITEMS_PER_SOURCE / 4),
+      publishedAfter: readCheckpoint("youtube", checkpoints),
     });
+    const videoList = collected.videos.slice(0, MAX_ITEMS_PER_SOURCE);
 
-    for (const videoInfo of videoList.slice(0, MAX_ITEMS_PER_SOURCE)) {
+    const failed: string[] = [];
+    for (const videoInfo of videoList) {
       try {
         // Check if video already exists
         const existing = await db_.query.videos.findFirst({
@@ -1145,15 +936,7 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
         console.log(`  📥 Fetching video: ${videoInfo.title.substring(0, 50)}...`);
         const videoData = await fetchCompleteVideoData_(videoInfo.videoId);
 
-        // Process with AI (summarize + translate to all supported languages)
-        console.log(`  🤖 Processing video transcript...`);
-        const { baseSummary, translations: trans } = await processMultilingual_({
-          text: videoData.fullText,
-          title: videoData.metadata.title,
-          sourceType: "video",
-        });
-
-        // Insert into database (main row: English summary)
+        // Insert the raw row; the AI queue summarizes, translates and indexes it
         await db_.insert(videos).values({
           id: videoData.metadata.id,
           title: videoData.metadata.title,
@@ -1161,7 +944,6 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
           channelId: videoData.metadata.channelId,
           description: videoData.metadata.description,
           transcript: videoData.fullText,
-          summary: baseSummary,
           publishedDate: new Date(videoData.metadata.publishedAt),
           duration: videoData.metadata.duration,
           viewCount: videoData.metadata.viewCount,
@@ -1169,49 +951,28 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
           tags: JSON.stringify(videoData.metadata.tags || []),
           thumbnailUrl: videoData.metadata.thumbnailUrl,
           videoUrl: `https://youtube.com/watch?v=${videoData.metadata.id}`,
-          processed: true,
-          vectorId: videoData.metadata.id,
+          processed: false,
         });
-
-        // Insert translations for each language
-        for (const t of trans) {
-          await db_.insert(translations).values({
-            itemType: "video",
-            itemId: videoData.metadata.id,
-            lang: t.lang,
-            title: t.title,
-            summary: t.summary,
-          });
-        }
-
-        // Add to per-locale vector stores
-        for (const t of trans) {
-          const locale = t.lang as Locale;
-          if (!SUPPORTED_LOCALES.includes(locale)) continue;
-          await collections.videos[locale].add({
-            id: videoData.metadata.id,
-            text: `${t.title}\n\n${t.summary}\n\n${videoData.fullText.substring(0, 5000)}`,
-            metadata: {
-              title: t.title,
-              channelName: videoData.metadata.channelName,
-              published: videoData.metadata.publishedAt,
-            },
-          });
-        }
-
-        // Insert into FTS index
-        try { await ftsInsertVideo(client, { id: videoData.metadata.id, title: videoData.metadata.title, summary: baseSummary, description: videoData.metadata.description || "" }); } catch { /* non-fatal */ }
-        for (const t of trans) {
-          try { await ftsInsertTranslation(client, { itemType: "video", itemId: videoData.metadata.id, lang: t.lang, title: t.title, summary: t.summary }); } catch { /* non-fatal */ }
-        }
+        await enqueueAiJob(
+          { itemType: "video", itemId: videoData.metadata.id, priority: AI_JOB_PRIORITY.video },
+          db_,
+        );
 
         stats.videosCollected++;
-        console.log(`  ✅ Saved video: ${videoData.metadata.id}`);
+        console.log(`  ✅ Queued video: ${videoData.metadata.id}`);
       } catch (error) {
         console.error(`  ❌ Error processing video ${videoInfo.videoId}:`, error);
         stats.errors.push(`Video ${videoInfo.videoId}: ${error}`);
+        if (videoInfo.publishedAt) failed.push(videoInfo.publishedAt);
       }
     }
+    // Relevance-ordered searches cannot be read oldest-first, so a full page holds the mark
+    await saveCheckpoint(
+      "youtube",
+      videoList.flatMap((video) => (video.publishedAt ? [video.publishedAt] : [])),
+      failed,
+      collected.truncated || videoList.length < collected.videos.length,
+    );
 
     console.log(`\n✅ Collected ${stats.videosCollected} videos`);
   } catch (error) {
@@ -1239,61 +1000,26 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
         });
 
         if (!existing) {
-          console.log(`  🌌 Processing APOD: ${nasaData.apod.title}`);
-
-          const { baseSummary, translations: trans } = await processMultilingual_({
-            text: nasaData.apod.explanation,
-            title: nasaData.apod.title,
-            sourceType: "article",
-          });
-
+          // Insert the raw row; the AI queue summarizes, translates and indexes it
           await db_.insert(nasaContent).values({
             id: apodId,
             contentType: "apod",
             title: nasaData.apod.title,
             explanation: nasaData.apod.explanation,
-            summary: baseSummary,
             date: new Date(nasaData.apod.date),
             mediaType: nasaData.apod.media_type,
             hdUrl: nasaData.apod.hdurl,
             url: nasaData.apod.url,
             copyright: nasaData.apod.copyright,
-            processed: true,
-            vectorId: apodId,
+            processed: false,
           });
-
-          for (const t of trans) {
-            await db_.insert(translations).values({
-              itemType: "nasa",
-              itemId: apodId,
-              lang: t.lang,
-              title: t.title,
-              summary: t.summary,
-            });
-          }
-
-          for (const t of trans) {
-            const locale = t.lang as Locale;
-            if (!SUPPORTED_LOCALES.includes(locale)) continue;
-            await collections.nasa[locale].add({
-              id: apodId,
-              text: `${t.title}\n\n${t.summary}\n\n${nasaData.apod.explanation}`,
-              metadata: {
-                title: t.title,
-                date: nasaData.apod.date,
-                type: "apod",
-              },
-            });
-          }
-
-          // Insert into FTS index
-          try { await ftsInsertNasa(client, { id: apodId, title: nasaData.apod.title, summary: baseSummary, explanation: nasaData.apod.explanation, description: "" }); } catch { /* non-fatal */ }
-          for (const t of trans) {
-            try { await ftsInsertTranslation(client, { itemType: "nasa", itemId: apodId, lang: t.lang, title: t.title, summary: t.summary }); } catch { /* non-fatal */ }
-          }
+          await enqueueAiJob(
+            { itemType: "nasa", itemId: apodId, priority: AI_JOB_PRIORITY.apod },
+            db_,
+          );
 
           stats.nasaItemsCollected++;
-          console.log(`  ✅ Saved APOD: ${apodId}`);
+          console.log(`  ✅ Queued APOD: ${apodId}`);
         }
       } catch (error) {
         console.error("  ❌ Error processing APOD:", error);
@@ -1316,64 +1042,29 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
           continue;
         }
 
-        console.log(`  📸 Processing NASA item: ${item.title.substring(0, 50)}...`);
-
         const description = item.description || "";
-        const { baseSummary, translations: trans } = await processMultilingual_({
-          text: description,
-          title: item.title,
-          sourceType: "article",
-        });
 
+        // Insert the raw row; the AI queue summarizes, translates and indexes it
         await db_.insert(nasaContent).values({
           id: itemId,
           contentType: "library",
           title: item.title,
           description: description,
-          summary: baseSummary,
           date: new Date(item.date_created),
           mediaType: item.media_type,
           url: item.href,
           nasaId: item.nasa_id,
           center: item.center,
           keywords: JSON.stringify(item.keywords || []),
-          processed: true,
-          vectorId: itemId,
+          processed: false,
         });
-
-        for (const t of trans) {
-          await db_.insert(translations).values({
-            itemType: "nasa",
-            itemId: itemId,
-            lang: t.lang,
-            title: t.title,
-            summary: t.summary,
-          });
-        }
-
-        for (const t of trans) {
-          const locale = t.lang as Locale;
-          if (!SUPPORTED_LOCALES.includes(locale)) continue;
-          await collections.nasa[locale].add({
-            id: itemId,
-            text: `${t.title}\n\n${t.summary}\n\n${description}`,
-            metadata: {
-              title: t.title,
-              nasaId: item.nasa_id,
-              center: item.center || "",
-              type: "library",
-            },
-          });
-        }
-
-        // Insert into FTS index
-        try { await ftsInsertNasa(client, { id: itemId, title: item.title, summary: baseSummary, explanation: "", description }); } catch { /* non-fatal */ }
-        for (const t of trans) {
-          try { await ftsInsertTranslation(client, { itemType: "nasa", itemId: itemId, lang: t.lang, title: t.title, summary: t.summary }); } catch { /* non-fatal */ }
-        }
+        await enqueueAiJob(
+          { itemType: "nasa", itemId: itemId, priority: AI_JOB_PRIORITY.nasaLibrary },
+          db_,
+        );
 
         stats.nasaItemsCollected++;
-        console.log(`  ✅ Saved NASA item: ${itemId}`);
+        console.log(`  ✅ Queued NASA item: ${itemId}`);
       } catch (error) {
         console.error(`  ❌ Error processing NASA item ${item.nasa_id}:`, error);
         stats.errors.push(`NASA ${item.nasa_id}: ${error}`);
@@ -1391,7 +1082,7 @@ export async function runCrawler(deps?: CrawlerDeps): Promise<CrawlerStats> {
   if (!deps) {
     try {
       console.log("\n🔄 Syncing missing vectors...");
-      const syncStats = await syncMissingVectors(collections, db_);
+      const syncStats = await syncMissingVectors(await initCollections_(), db_);
       console.log(`✅ Vector sync: ${syncStats.synced} items synced, ${syncStats.skipped} already exist`);
       if (syncStats.errors.length > 0) {
         console.log(`⚠️  Sync errors: ${syncStats.errors.length}`);
@@ -1435,14 +1126,44 @@ async function runOnce() {
   console.log("=".repeat(60));
 }
 
+// Forecast the AI cost of a run without crawling or calling the model (--estimate)
+async function estimateCrawl() {
+  console.log("=".repeat(60));
+  console.log("AstroGroot Crawler - Cost Estimate");
+  console.log("=".repeat(60));
+  console.log("Collecting is free; the cost is the AI queue drain that follows it.\n");
+
+  const estimate = await estimateAiQueue();
+  console.log(formatCostEstimate(estimate));
+
+  // New items are only known after collecting: bound them by the per-source cap
+  // (every checkpointed stream, plus the NASA library searches and today's APOD)
+  const maxNewItems = (Object.keys(CRAWL_SOURCES).length + 1) * MAX_ITEMS_PER_SOURCE + 1;
+  const perItem = estimate.items > 0 ? estimate.totalUsd / estimate.items : 0;
+  console.log(`\nThis run can also collect up to ${maxNewItems} new items (MAX_ITEMS_PER_SOURCE=${MAX_ITEMS_PER_SOURCE}).`);
+  if (perItem > 0) {
+    console.log(`At the queue's average of $${perItem.toFixed(4)}/item that is up to $${(perItem * maxNewItems).toFixed(2)} more.`);
+  }
+  console.log("=".repeat(60));
+}
+
 // Simple HTTP health check server for Fly.io
 async function startHealthCheckServer() {
   console.log(`🏥 Starting health check server on port ${HEALTH_CHECK_PORT}...`);
 
-  Deno.serve({ port: HEALTH_CHECK_PORT }, (req) => {
+  Deno.serve({ port: HEALTH_CHECK_PORT }, async (req) => {
     const url = new URL(req.url);
 
     if (url.pathname === "/health" || url.pathname === "/") {
+      // Last finished run comes from the ledger, so it survives restarts and redeploys
+      let lastRun: CrawlRunSummary | null = null;
+      try {
+        const runs = await listCrawlRuns(5);
+        lastRun = runs.find((run) => run.finishedAt) ?? null;
+      } catch (error) {
+        console.warn("⚠️  Failed to read crawl ledger for health check:", error);
+      }
+      const lastCrawlTime = lastRun?.finishedAt ? new Date(lastRun.finishedAt) : null;
       const status = {
         ok: true,
         service: "astrogroot-crawler",
@@ -1450,7 +1171,7 @@ async function startHealthCheckServer() {
         intervalHours: CRAWLER_INTERVAL_HOURS,
         isRunning,
         lastCrawl: lastCrawlTime?.toISOString() || null,
-        lastStats: lastCrawlStats,
+        lastRun,
         nextCrawl: lastCrawlTime
           ? new Date(lastCrawlTime.getTime() + CRAWLER_INTERVAL_HOURS * 60 * 60 * 1000).toISOString()
           : null,
@@ -1485,8 +1206,6 @@ async function runScheduled() {
       const stats = await runCrawler();
       const duration = ((Date.now() - startTime) / 1000 / 60).toFixed(2);
 
-      lastCrawlTime = new Date();
-      lastCrawlStats = stats;
       isRunning = false;
 
       console.log("\n✅ Crawl completed");
@@ -1505,17 +1224,47 @@ async function runScheduled() {
 
     // Wait for next interval
     const waitMs = CRAWLER_INTERVAL_HOURS * 60 * 60 * 1000;
+    const nextCrawlAt = Date.now() + waitMs;
     console.log(`\n💤 Sleeping for ${CRAWLER_INTERVAL_HOURS} hours...`);
-    console.log(`Next crawl at: ${new Date(Date.now() + waitMs).toISOString()}`);
-    await new Promise((resolve) => setTimeout(resolve, waitMs));
+    console.log(`Next crawl at: ${new Date(nextCrawlAt).toISOString()}`);
+
+    // The daily AI budget resets at UTC midnight: drain whatever the budget left queued
+    while (startOfNextUtcDay() < nextCrawlAt) {
+      await sleepUntil(startOfNextUtcDay());
+      isRunning = true;
+      try {
+        console.log(`\n🤖 New UTC day — processing queued AI jobs at ${new Date().toISOString()}`);
+        const queue = await runAiQueue();
+        console.log(
+          `✅ AI queue: ${queue.processed} processed, ${queue.retried} retrying, ${queue.deadLettered} dead-lettered`,
+        );
+      } catch (error) {
+        console.error("❌ AI queue failed:", error);
+      } finally {
+        isRunning = false;
+      }
+    }
+    await sleepUntil(nextCrawlAt);
   }
 }
 
+// A minute past the next UTC midnight, so the budget window has rolled over
+function startOfNextUtcDay(): number {
+  const day = 24 * 60 * 60 * 1000;
+  return Math.floor(Date.now() / day) * day + day + 60 * 1000;
+}
+
+function sleepUntil(time: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(0, time - Date.now())));
+}
+
 // Main entry point
 if (import.meta.main) {
   const mode = Deno.args[0];
 
-  if (mode === "scheduled" || mode === "daemon") {
+  if (Deno.args.includes("--estimate")) {
+    await estimateCrawl();
+  } else if (mode === "scheduled" || mode === "daemon") {
     await runScheduled();
   } else {
     await runOnce();